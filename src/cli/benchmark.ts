@@ -0,0 +1,35 @@
+import {
+	compareBenchmarks,
+	formatBenchmarkComparisons,
+	formatBenchmarkReport,
+	parseBenchmarkArgs,
+	parseBenchmarkReport,
+	runBenchmark
+} from '$lib/chess/engine/benchmark';
+import { process, readStdin } from './node';
+
+// The report goes to stdout as JSON, so that it can be saved as the next
+// baseline; progress and the comparison go to stderr.
+try {
+	const options = parseBenchmarkArgs(process.argv.slice(2));
+	const baseline = options.compare ? parseBenchmarkReport(await readStdin()) : null;
+
+	const report = runBenchmark(options.benchmark, (result) => {
+		process.stderr.write(
+			`${result.board} ${result.kind} "${result.position}": ${result.perSecond}/s\n`
+		);
+	});
+	process.stdout.write(`${JSON.stringify(report, null, '\t')}\n`);
+	process.stderr.write(`\n${formatBenchmarkReport(report)}\n`);
+
+	if (baseline) {
+		const comparisons = compareBenchmarks(report, baseline, options.threshold);
+		process.stderr.write(`\n${formatBenchmarkComparisons(comparisons)}\n`);
+		const hasRegressions = comparisons.some((c) => c.isRegression || c.isCountChanged);
+		process.exit(hasRegressions ? 2 : 0);
+	}
+	process.exit(0);
+} catch (error) {
+	process.stderr.write(`${(error as Error).message}\n`);
+	process.exit(1);
+}
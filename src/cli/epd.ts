@@ -0,0 +1,22 @@
+import { parseEpdFile } from '$lib/chess/epd';
+import {
+	formatEpdSuiteReport,
+	formatEpdTestResult,
+	parseEpdSuiteArgs,
+	runEpdSuite
+} from '$lib/chess/engine/suite';
+import { process, readStdin } from './node';
+
+// Reads the suite from stdin and writes one line per position, then the summary.
+try {
+	const options = parseEpdSuiteArgs(process.argv.slice(2));
+	const records = parseEpdFile(await readStdin());
+	const report = runEpdSuite(records, options, (result) => {
+		process.stdout.write(`${formatEpdTestResult(result)}\n`);
+	});
+	process.stdout.write(`\n${formatEpdSuiteReport(report)}\n`);
+	process.exit(0);
+} catch (error) {
+	process.stderr.write(`${(error as Error).message}\n`);
+	process.exit(1);
+}
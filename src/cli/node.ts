@@ -0,0 +1,24 @@
+// Node's globals for the command-line tools in this directory, shared so that
+// every entry point reads and writes its streams the same way.
+
+interface NodeProcess {
+	argv: string[];
+	stdin: AsyncIterable<Uint8Array>;
+	stdout: { write(text: string): boolean };
+	stderr: { write(text: string): boolean };
+	exit(code?: number): never;
+}
+
+// @HACK: Don't want to depend on @types/node for the few members used here.
+declare const process: NodeProcess;
+
+const nodeProcess = process;
+export { nodeProcess as process };
+
+/** Reads stdin to its end, e.g. a suite or a baseline report piped into a tool. */
+export async function readStdin(): Promise<string> {
+	const decoder = new TextDecoder();
+	let text = '';
+	for await (const chunk of process.stdin) text += decoder.decode(chunk, { stream: true });
+	return text + decoder.decode();
+}
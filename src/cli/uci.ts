@@ -0,0 +1,14 @@
+import { parseCliArgs, runUciCli } from '$lib/chess/engine/cli';
+import { process } from './node';
+
+try {
+	await runUciCli(
+		process.stdin,
+		(text) => process.stdout.write(text),
+		parseCliArgs(process.argv.slice(2))
+	);
+	process.exit(0);
+} catch (error) {
+	process.stderr.write(`${(error as Error).message}\n`);
+	process.exit(1);
+}
@@ -11,7 +11,13 @@ import {
 	type BoardInfo,
 	type BoardRank
 } from '$lib/chess/board';
-import { calculateMove, type Move, type MoveError } from '$lib/chess/moves';
+import {
+	calculateMove,
+	getCastlingPositions,
+	type CastlingSide,
+	type Move,
+	type MoveError
+} from '$lib/chess/moves';
 import { PieceId, type PromotionPieceId } from '$lib/chess/piece';
 
 export const KING_SIDE_CASTLING_STR = 'O-O';
@@ -443,13 +449,10 @@ function tryParseAlgebraicCastlingMove(
 	algebraic: string,
 	board: BoardInfo
 ): Either<Move, AlgebraicMoveError> | null {
-	const isWhite = board.turnColor === PlayerColor.WHITE;
-	let from: Position | null = null;
-	let to: Position | null = null;
+	let side: CastlingSide | null = null;
 
 	if (algebraic === KING_SIDE_CASTLING_STR) {
-		from = Position.fromStr(isWhite ? 'e1' : 'e8');
-		to = Position.fromStr(isWhite ? 'g1' : 'g8');
+		side = 'king-side';
 	} else if (
 		algebraic.length === KING_SIDE_CASTLING_STR.length + 1 &&
 		algebraic.slice(0, KING_SIDE_CASTLING_STR.length) === KING_SIDE_CASTLING_STR
@@ -460,11 +463,9 @@ function tryParseAlgebraicCastlingMove(
 		) {
 			return [, { type: 'invalidAlgebraicNotation', algebraic }];
 		}
-		from = Position.fromStr(isWhite ? 'e1' : 'e8');
-		to = Position.fromStr(isWhite ? 'g1' : 'g8');
+		side = 'king-side';
 	} else if (algebraic === QUEEN_SIDE_CASTLING_STR) {
-		from = Position.fromStr(isWhite ? 'e1' : 'e8');
-		to = Position.fromStr(isWhite ? 'c1' : 'c8');
+		side = 'queen-side';
 	} else if (
 		algebraic.length === QUEEN_SIDE_CASTLING_STR.length + 1 &&
 		algebraic.slice(0, QUEEN_SIDE_CASTLING_STR.length) === QUEEN_SIDE_CASTLING_STR
@@ -475,11 +476,12 @@ function tryParseAlgebraicCastlingMove(
 		) {
 			return [, { type: 'invalidAlgebraicNotation', algebraic }];
 		}
-		from = Position.fromStr(isWhite ? 'e1' : 'e8');
-		to = Position.fromStr(isWhite ? 'c1' : 'c8');
+		side = 'queen-side';
 	}
-	if (from && to) return calculateMove(board, from, to, undefined, /*ignoreAllowed*/ true);
-	return null;
+	if (!side) return null;
+
+	const { from, to } = getCastlingPositions(board, side);
+	return calculateMove(board, from, to, undefined, /*ignoreAllowed*/ true);
 }
 
 export function moveToAlgebraic(board: BoardInfo, move: Move): string {
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	getAttackers,
+	getAttackMap,
+	getCheckers,
+	getHangingPieces,
+	getPins,
+	getSquareAttacks
+} from '$lib/chess/attacks';
+import { PlayerColor } from '$lib/chess/board';
+import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
+
+describe('attacks', () => {
+	it('lists the attackers of a square by color', () => {
+		const board = parseFen('4k3/8/2n5/8/1p1R4/8/2P5/2Q1K2B w - - 0 1');
+
+		expect(getAttackers(board, 'd5', PlayerColor.WHITE)).toEqual(['h1', 'd4']);
+		expect(getAttackers(board, 'd4', PlayerColor.BLACK)).toEqual(['c6']);
+		expect(getAttackers(board, 'b4', PlayerColor.WHITE)).toEqual(['d4']);
+		expect(getAttackers(board, 'c3', PlayerColor.BLACK)).toEqual(['b4']);
+		expect(getAttackers(board, 'b3', PlayerColor.WHITE)).toEqual(['c2']);
+		expect(getAttackers(board, 'e4', PlayerColor.WHITE)).toEqual(['h1', 'd4']);
+		expect(getAttackers(board, 'd2', PlayerColor.WHITE)).toEqual(['c1', 'e1', 'd4']);
+	});
+
+	it('splits attackers and defenders by the color of the piece', () => {
+		const board = parseFen('4k3/8/2n5/8/1p1R4/8/2P5/2Q1K2B w - - 0 1');
+
+		expect(getSquareAttacks(board, 'd4')).toEqual({ attackers: ['c6'], defenders: [] });
+		expect(getSquareAttacks(board, 'b4')).toEqual({ attackers: ['d4'], defenders: ['c6'] });
+		expect(getSquareAttacks(board, 'c2')).toEqual({ attackers: [], defenders: ['c1'] });
+		expect(getHangingPieces(board, PlayerColor.BLACK)).toEqual(['c6']);
+		expect(getHangingPieces(board, PlayerColor.WHITE)).toEqual(['d4']);
+	});
+
+	it('maps every attacked square of the initial position', () => {
+		const map = getAttackMap(parseFen(INITIAL_FEN));
+
+		expect(map.get('f3')).toEqual({ white: ['g1', 'e2', 'g2'], black: [] });
+		expect(map.get('e4')).toBeUndefined();
+		expect(map.get('d8')).toEqual({ white: [], black: ['e8'] });
+		// NOTE: Ranks 1-3 and 6-8, except for the rooks' corners.
+		expect(map.size).toBe(44);
+	});
+
+	it('finds checkers and pins of the side to move', () => {
+		const board = parseFen('4r1k1/8/8/b7/8/2N5/4B3/4K2r w - - 0 1');
+
+		expect(getCheckers(board)).toEqual(['h1']);
+		expect(getPins(board)).toEqual([
+			{ pinned: 'e2', pinnedBy: 'e8', ray: ['e2', 'e3', 'e4', 'e5', 'e6', 'e7', 'e8'] },
+			{ pinned: 'c3', pinnedBy: 'a5', ray: ['d2', 'c3', 'b4', 'a5'] }
+		]);
+		expect(getPins(parseFen('4k3/8/8/b7/1P6/2N5/8/4K3 w - - 0 1'))).toEqual([]);
+	});
+
+	it('returns nothing for positions the engine board rejects', () => {
+		const board = parseFen('8/8/8/8/8/8/4R3/8 w - - 0 1');
+
+		expect(getAttackers(board, 'e4', PlayerColor.WHITE)).toEqual([]);
+		expect(getAttackMap(board).size).toBe(0);
+		expect(getCheckers(board)).toEqual([]);
+	});
+});
@@ -0,0 +1,224 @@
+import { BoardMap, PlayerColor, type BoardInfo, type PositionStr } from '$lib/chess/board';
+import { boardInfoToEngineFen } from '$lib/chess/engine/convert';
+import {
+	BoardInt8,
+	PieceColor,
+	PieceType,
+	squareFromAlgebraic,
+	squareToAlgebraic
+} from '$lib/chess/engine/int8';
+import { PieceId } from '$lib/chess/piece';
+
+export interface SquareAttackers {
+	white: PositionStr[];
+	black: PositionStr[];
+}
+
+export interface Pin {
+	/** The piece that cannot leave the ray without exposing its king. */
+	pinned: PositionStr;
+	pinnedBy: PositionStr;
+	/** Squares from the king (excluded) to the pinning piece (included), like the `pinned` MoveError. */
+	ray: PositionStr[];
+}
+
+// NOTE: Attacks are read from the engine board: isSquareAttacked answers
+//       whether a square is attacked at all, which rules out most squares,
+//       and only attacked ones are scanned for the attacking pieces. The
+//       scratch board keeps the last position, like the legality board in
+//       moves.ts, so that a whole attack map loads the position once.
+const attackBoard = new BoardInt8();
+let attackBoardFen: string | null = null;
+
+const KNIGHT_JUMPS = [
+	[1, 2],
+	[2, 1],
+	[2, -1],
+	[1, -2],
+	[-1, -2],
+	[-2, -1],
+	[-2, 1],
+	[-1, 2]
+] as const;
+const KING_STEPS = [
+	[0, 1],
+	[1, 1],
+	[1, 0],
+	[1, -1],
+	[0, -1],
+	[-1, -1],
+	[-1, 0],
+	[-1, 1]
+] as const;
+
+/**
+ * Pieces of `color` that attack `square`, pinned ones included. Empty for
+ * positions the engine board rejects (e.g. without a king, see boardInfoToEngineFen).
+ */
+export function getAttackers(
+	board: BoardInfo,
+	square: PositionStr,
+	color: PlayerColor
+): PositionStr[] {
+	const engineBoard = loadAttackBoard(board);
+	if (!engineBoard) return [];
+	return findAttackers(engineBoard, squareFromAlgebraic(square), toPieceColor(color)).map(
+		(attacker) => squareToAlgebraic(attacker) as PositionStr
+	);
+}
+
+/**
+ * Attackers of the piece on `square` and the pieces of its own color that
+ * defend it. For an empty square, the side to move is the defending side.
+ */
+export function getSquareAttacks(
+	board: BoardInfo,
+	square: PositionStr
+): { attackers: PositionStr[]; defenders: PositionStr[] } {
+	const piece = board.pieces.get(square);
+	const color = piece ? PieceId.getColor(piece) : board.turnColor;
+	return {
+		attackers: getAttackers(board, square, opponentOf(color)),
+		defenders: getAttackers(board, square, color)
+	};
+}
+
+/** Attackers of every square by both colors; squares nobody attacks are left out. */
+export function getAttackMap(board: BoardInfo): BoardMap<SquareAttackers> {
+	const map = new BoardMap<SquareAttackers>();
+	const engineBoard = loadAttackBoard(board);
+	if (!engineBoard) return map;
+
+	for (let square = 0; square < 64; square++) {
+		const white = findAttackers(engineBoard, square, PieceColor.WHITE);
+		const black = findAttackers(engineBoard, square, PieceColor.BLACK);
+		if (white.length === 0 && black.length === 0) continue;
+		map.set(squareToAlgebraic(square) as PositionStr, {
+			white: white.map((attacker) => squareToAlgebraic(attacker) as PositionStr),
+			black: black.map((attacker) => squareToAlgebraic(attacker) as PositionStr)
+		});
+	}
+	return map;
+}
+
+/** Pieces that attack the king of the side to move. */
+export function getCheckers(board: BoardInfo): PositionStr[] {
+	const king = board.pieces.findPositionFor(
+		board.turnColor === PlayerColor.WHITE ? PieceId.WHITE_KING : PieceId.BLACK_KING
+	);
+	return king ? getAttackers(board, king, opponentOf(board.turnColor)) : [];
+}
+
+/** Pieces of `color` that are pinned to their own king. */
+export function getPins(board: BoardInfo, color: PlayerColor = board.turnColor): Pin[] {
+	const engineBoard = loadAttackBoard(board);
+	const king = board.pieces.findPositionFor(
+		color === PlayerColor.WHITE ? PieceId.WHITE_KING : PieceId.BLACK_KING
+	);
+	if (!engineBoard || !king) return [];
+
+	const pieceColor = toPieceColor(color);
+	const kingSquare = squareFromAlgebraic(king);
+	const pins: Pin[] = [];
+	for (const [fileStep, rankStep] of KING_STEPS) {
+		const isDiagonal = fileStep !== 0 && rankStep !== 0;
+		const sliderType = isDiagonal ? PieceType.BISHOP : PieceType.ROOK;
+		const ray: PositionStr[] = [];
+		let pinned: PositionStr | null = null;
+		for (const square of walkRay(kingSquare, fileStep, rankStep)) {
+			const piece = engineBoard.pieceAt(square);
+			ray.push(squareToAlgebraic(square) as PositionStr);
+			if (piece === PieceType.EMPTY) continue;
+			if (Math.sign(piece) === pieceColor) {
+				if (pinned !== null) break;
+				pinned = ray[ray.length - 1];
+				continue;
+			}
+			const type = Math.abs(piece);
+			if (pinned !== null && (type === sliderType || type === PieceType.QUEEN)) {
+				pins.push({ pinned, pinnedBy: ray[ray.length - 1], ray });
+			}
+			break;
+		}
+	}
+	return pins;
+}
+
+/** Pieces of `color` that are attacked and not defended. */
+export function getHangingPieces(board: BoardInfo, color: PlayerColor): PositionStr[] {
+	const hanging: PositionStr[] = [];
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.getColor(piece) !== color || PieceId.isKing(piece)) continue;
+		const { attackers, defenders } = getSquareAttacks(board, position);
+		if (attackers.length > 0 && defenders.length === 0) hanging.push(position);
+	}
+	return hanging;
+}
+
+function loadAttackBoard(board: BoardInfo): BoardInt8 | null {
+	const fen = boardInfoToEngineFen(board);
+	if (fen === attackBoardFen) return attackBoard;
+	try {
+		attackBoard.loadFen(fen);
+	} catch {
+		attackBoardFen = null;
+		return null;
+	}
+	attackBoardFen = fen;
+	return attackBoard;
+}
+
+function findAttackers(board: BoardInt8, target: number, color: PieceColor): number[] {
+	if (!board.isSquareAttacked(target, color)) return [];
+
+	const attackers: number[] = [];
+	const file = target & 7;
+	const rank = target >> 3;
+	const pieceAt = (fileIndex: number, rankIndex: number) =>
+		isInsideBoard(fileIndex, rankIndex) ? board.pieceAt(rankIndex * 8 + fileIndex) : 0;
+	const addIf = (fileIndex: number, rankIndex: number, type: PieceType) => {
+		if (pieceAt(fileIndex, rankIndex) === color * type) attackers.push(rankIndex * 8 + fileIndex);
+	};
+
+	// NOTE: A pawn attacks diagonally forward, so it stands one rank behind the target.
+	addIf(file - 1, rank - color, PieceType.PAWN);
+	addIf(file + 1, rank - color, PieceType.PAWN);
+	for (const [fileStep, rankStep] of KNIGHT_JUMPS) {
+		addIf(file + fileStep, rank + rankStep, PieceType.KNIGHT);
+	}
+	for (const [fileStep, rankStep] of KING_STEPS) {
+		addIf(file + fileStep, rank + rankStep, PieceType.KING);
+		const sliderType = fileStep !== 0 && rankStep !== 0 ? PieceType.BISHOP : PieceType.ROOK;
+		for (const square of walkRay(target, fileStep, rankStep)) {
+			const piece = board.pieceAt(square);
+			if (piece === PieceType.EMPTY) continue;
+			if (piece === color * sliderType || piece === color * PieceType.QUEEN) {
+				attackers.push(square);
+			}
+			break;
+		}
+	}
+	return attackers.sort((a, b) => a - b);
+}
+
+function* walkRay(from: number, fileStep: number, rankStep: number): Generator<number> {
+	let file = (from & 7) + fileStep;
+	let rank = (from >> 3) + rankStep;
+	while (isInsideBoard(file, rank)) {
+		yield rank * 8 + file;
+		file += fileStep;
+		rank += rankStep;
+	}
+}
+
+function isInsideBoard(file: number, rank: number): boolean {
+	return file >= 0 && file < 8 && rank >= 0 && rank < 8;
+}
+
+function toPieceColor(color: PlayerColor): PieceColor {
+	return color === PlayerColor.WHITE ? PieceColor.WHITE : PieceColor.BLACK;
+}
+
+function opponentOf(color: PlayerColor): PlayerColor {
+	return color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+}
@@ -103,11 +103,31 @@ function makeBoardPositionStr(pos: Position): PositionStr {
 	return `${pos.file}${pos.rank}`;
 }
 
+export interface CastlingRookFiles {
+	kingSide: BoardFile;
+	queenSide: BoardFile;
+}
+
 export interface CastlingRights {
 	whiteKingSide: boolean;
 	whiteQueenSide: boolean;
 	blackKingSide: boolean;
 	blackQueenSide: boolean;
+	/**
+	 * Chess960: files of the rooks each side castles with. Absent in standard
+	 * chess, where the king castles from e to g/c with the h/a rooks.
+	 */
+	rookFiles?: Record<PlayerColor, CastlingRookFiles>;
+}
+
+export const STANDARD_ROOK_FILES: Readonly<CastlingRookFiles> = { kingSide: 'h', queenSide: 'a' };
+
+/** Files of the castling rooks of `color`, the h/a files unless the game is Chess960. */
+export function getCastlingRookFiles(
+	castling: CastlingRights,
+	color: PlayerColor
+): Readonly<CastlingRookFiles> {
+	return castling.rookFiles?.[color] ?? STANDARD_ROOK_FILES;
 }
 
 export interface BoardInfo {
@@ -144,6 +164,7 @@ export function resetBoardInfo(boardInfo: BoardInfo): void {
 	boardInfo.canCastle.whiteQueenSide = true;
 	boardInfo.canCastle.blackKingSide = true;
 	boardInfo.canCastle.blackQueenSide = true;
+	delete boardInfo.canCastle.rookFiles;
 	boardInfo.enPassantTarget = null;
 	boardInfo.halfMoveClock = 0;
 	boardInfo.fullMoveNumber = 0;
@@ -239,6 +260,7 @@ export class BoardMap<T> {
 
 export interface AbstractBoard<TMoveBuffer, TMove> {
 	loadFen(fen: string): void;
+	toFen(): string;
 
 	allocateMoveBuffer(): TMoveBuffer;
 	getMoveByIndex(buffer: TMoveBuffer, index: number): TMove;
@@ -247,10 +269,42 @@ export interface AbstractBoard<TMoveBuffer, TMove> {
 	generateLegalMoves(out: TMoveBuffer, moveDepth?: number): number;
 
 	isSquareAttacked(square: number, byColor: number): boolean;
+	isWhiteToMove(): boolean;
+	// NOTE: Board-independent view for the shared evaluation: squares are 0 (a1)
+	//       through 63 (h8), pieces are signed types (White positive, 0 = empty).
+	pieceAt(square: number): number;
+	isInCheck(): boolean;
+
+	// NOTE: Draw rules that need no move generation. repetitionCount includes
+	//       the current position, so 3 means threefold repetition; only the
+	//       positions since the last capture or pawn move are compared.
+	isFiftyMoveDraw(): boolean;
+	repetitionCount(): number;
+	hasInsufficientMaterial(): boolean;
 
 	makeMove(move: TMove): void;
 	unmakeMove(move: TMove): void;
 
+	// NOTE: Piece types are 1 (pawn) through 6 (king), 0 means none. Must be
+	//       called before the move is made.
+	isCapture(move: TMove): boolean;
+	capturedPieceType(move: TMove): number;
+	movedPieceType(move: TMove): number;
+	promotionPieceType(move: TMove): number;
+	see(move: TMove): number;
+	seeSquare(square: number): number;
+
+	// NOTE: The 64-bit Zobrist key is split into two unsigned 32-bit halves.
+	//       hashLow/hashHigh return the incrementally maintained key, while
+	//       computeHash rebuilds it from scratch (for loading and debugging).
+	hashLow(): number;
+	hashHigh(): number;
+	computeHash(): [low: number, high: number];
+
+	// NOTE: Moves that leave the king in check are counted too; used for mobility.
+	//       Each board weighs a move with its own centipawns.
+	countPseudoLegalMoves(isWhite: boolean): number;
+	readonly mobilityWeight: number;
 	evaluateMaterial(): number;
 	evaluatePST(): number;
 	evaluateMobility(): number;
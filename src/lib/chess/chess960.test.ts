@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	CHESS960_POSITION_COUNT,
+	chess960BackRank,
+	chess960StartFen,
+	randomChess960StartFen,
+	STANDARD_CHESS960_INDEX
+} from '$lib/chess/chess960';
+import { BoardInt8 } from '$lib/chess/engine/int8';
+
+describe('Chess960 start positions', () => {
+	it('follows the standard numbering', () => {
+		expect(chess960BackRank(0)).toBe('BBQNNRKR');
+		expect(chess960BackRank(STANDARD_CHESS960_INDEX)).toBe('RNBQKBNR');
+		expect(chess960BackRank(959)).toBe('RKRNNQBB');
+		expect(() => chess960BackRank(CHESS960_POSITION_COUNT)).toThrow(/index/);
+	});
+
+	it('generates 960 distinct legal setups', () => {
+		const backRanks = new Set<string>();
+		for (let index = 0; index < CHESS960_POSITION_COUNT; index++) {
+			const backRank = chess960BackRank(index);
+			backRanks.add(backRank);
+
+			const bishops = [...backRank].flatMap((piece, file) => (piece === 'B' ? [file] : []));
+			expect(bishops[0] % 2, backRank).not.toBe(bishops[1] % 2);
+			expect(backRank.replace(/[^RK]/g, ''), backRank).toBe('RKR');
+		}
+		expect(backRanks.size).toBe(CHESS960_POSITION_COUNT);
+	});
+
+	it('writes Shredder-FEN castling rights that the engine keeps', () => {
+		const fen = chess960StartFen(0);
+		expect(fen).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1');
+
+		const board = new BoardInt8(fen);
+		expect(board.chess960).toBe(true);
+		expect(board.toFen()).toBe(fen);
+		expect(randomChess960StartFen(() => 0.5)).toBe(chess960StartFen(480));
+	});
+});
@@ -0,0 +1,68 @@
+import { BOARD_FILES } from '$lib/chess/board';
+
+export const CHESS960_POSITION_COUNT = 960;
+/** Index of the standard chess setup in the Chess960 numbering. */
+export const STANDARD_CHESS960_INDEX = 518;
+
+// NOTE: Squares of the two knights among the five squares left after placing
+//       the bishops and the queen, in the order of the standard numbering.
+const KNIGHT_PLACEMENTS = [
+	[0, 1],
+	[0, 2],
+	[0, 3],
+	[0, 4],
+	[1, 2],
+	[1, 3],
+	[1, 4],
+	[2, 3],
+	[2, 4],
+	[3, 4]
+] as const;
+
+/**
+ * White's back rank of Chess960 start position `index` (0-959), files a to h,
+ * in the standard (Scharnagl) numbering: the bishops go on opposite colors, the
+ * king always stands between the rooks.
+ */
+export function chess960BackRank(index: number): string {
+	if (!Number.isInteger(index) || index < 0 || index >= CHESS960_POSITION_COUNT) {
+		throw new Error(`Invalid Chess960 position index: ${index}`);
+	}
+
+	const rank: string[] = Array(BOARD_FILES.length).fill('');
+	let rest = index;
+	rank[(rest % 4) * 2 + 1] = 'B';
+	rest = Math.floor(rest / 4);
+	rank[(rest % 4) * 2] = 'B';
+	rest = Math.floor(rest / 4);
+
+	const emptyFiles = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+	rank[emptyFiles()[rest % 6]] = 'Q';
+	rest = Math.floor(rest / 6);
+
+	const knightFiles = emptyFiles();
+	for (const knight of KNIGHT_PLACEMENTS[rest]) {
+		rank[knightFiles[knight]] = 'N';
+	}
+
+	const [queenRook, king, kingRook] = emptyFiles();
+	rank[queenRook] = 'R';
+	rank[king] = 'K';
+	rank[kingRook] = 'R';
+	return rank.join('');
+}
+
+/** Start FEN of Chess960 position `index`, with Shredder-FEN castling rights. */
+export function chess960StartFen(index: number): string {
+	const backRank = chess960BackRank(index);
+	const rookFiles = [...backRank].flatMap((piece, file) =>
+		piece === 'R' ? [BOARD_FILES[file]] : []
+	);
+	const [queenSide, kingSide] = rookFiles;
+	const castling = `${kingSide.toUpperCase()}${queenSide.toUpperCase()}${kingSide}${queenSide}`;
+	return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w ${castling} - 0 1`;
+}
+
+export function randomChess960StartFen(random: () => number = Math.random): string {
+	return chess960StartFen(Math.floor(random() * CHESS960_POSITION_COUNT));
+}
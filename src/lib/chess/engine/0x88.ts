@@ -1,4 +1,16 @@
 import type { AbstractBoard } from '$lib/chess/board';
+import {
+	ZOBRIST_BLACK_TO_MOVE_HIGH,
+	ZOBRIST_BLACK_TO_MOVE_LOW,
+	ZOBRIST_CASTLING_HIGH,
+	ZOBRIST_CASTLING_LOW,
+	ZOBRIST_EN_PASSANT_HIGH,
+	ZOBRIST_EN_PASSANT_LOW,
+	ZOBRIST_PIECES_HIGH,
+	ZOBRIST_PIECES_LOW,
+	zobristPieceIndex
+} from '$lib/chess/engine/zobrist';
+import { evaluatePieceSquares, evaluatePosition, PIECE_VALUES } from '$lib/chess/engine/evaluation';
 
 export const PieceColor = {
 	WHITE: 0,
@@ -112,6 +124,11 @@ export function isOnBoard0x88(sq: number): boolean {
 	return (sq & 0x88) === 0;
 }
 
+/** Convert a 0x88 square to a 0..63 index (a1 = 0, h8 = 63). */
+export function square0x88To64(sq: number): number {
+	return (sq >> 4) * 8 + (sq & 7);
+}
+
 const FILE_CHARS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 export function square0x88ToAlgebraic(sq: number): string {
 	return FILE_CHARS[fileOf0x88(sq)] + (rankOf0x88(sq) + 1);
@@ -130,6 +147,17 @@ const ROOK_OFFSETS = [16, -16, 1, -1];
 const BISHOP_OFFSETS = [17, 15, -15, -17];
 const KING_OFFSETS = [16, -16, 1, -1, 17, 15, -15, -17];
 const KNIGHT_OFFSETS = [33, 31, 18, 14, -33, -31, -18, -14];
+// Offsets from a square to the pawns attacking it, indexed by attacker color.
+const PAWN_ATTACKER_OFFSETS = [
+	[-17, -15],
+	[17, 15]
+];
+// Sliding pieces in the order the exchange evaluator looks for attackers.
+const SEE_SLIDERS = [
+	[PieceType.BISHOP, BISHOP_OFFSETS],
+	[PieceType.ROOK, ROOK_OFFSETS],
+	[PieceType.QUEEN, KING_OFFSETS]
+] as const;
 
 // NOTE: Flags follow the canonical 4-bit scheme: bit 2 (value 4) marks a capture,
 //       bit 3 (value 8) marks a promotion.
@@ -213,17 +241,24 @@ export const CASTLE_WQ = 2; // White queen-side
 export const CASTLE_BK = 4; // Black king-side
 export const CASTLE_BQ = 8; // Black queen-side
 
-// Per-square castling-rights mask. ANDing the rights with both
-// CASTLE_MASK[from] and CASTLE_MASK[to] clears the appropriate bits whenever a
-// king or rook leaves a home square, or a rook is captured on its home square.
-// Every square keeps all rights (0b1111) except the six relevant home squares.
-const CASTLE_MASK = new Int8Array(128).fill(0b1111);
-CASTLE_MASK[makeSquare0x88(0, 0)] &= ~CASTLE_WQ; // a1 -> 13
-CASTLE_MASK[makeSquare0x88(4, 0)] &= ~(CASTLE_WK | CASTLE_WQ); // e1 -> 12
-CASTLE_MASK[makeSquare0x88(7, 0)] &= ~CASTLE_WK; // h1 -> 14
-CASTLE_MASK[makeSquare0x88(0, 7)] &= ~CASTLE_BQ; // a8 -> 7
-CASTLE_MASK[makeSquare0x88(4, 7)] &= ~(CASTLE_BK | CASTLE_BQ); // e8 -> 3
-CASTLE_MASK[makeSquare0x88(7, 7)] &= ~CASTLE_BK; // h8 -> 11
+// Rook home square of every castling right, indexed by the bit number of the
+// right: WK, WQ, BK, BQ. Chess960 positions replace them on load.
+const STANDARD_CASTLING_ROOK_SQUARES = [
+	makeSquare0x88(7, 0),
+	makeSquare0x88(0, 0),
+	makeSquare0x88(7, 7),
+	makeSquare0x88(0, 7)
+];
+
+// Wherever the king and the rook start, castling puts them on the same squares
+// as in standard chess: g/f for king-side, c/d for queen-side.
+function castlingKingTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & 0x70) + (isKingSide ? 6 : 2);
+}
+
+function castlingRookTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & 0x70) + (isKingSide ? 5 : 3);
+}
 
 // ----------------------------------------------------------------------------
 // Undo record: everything needed to revert a move that the move integer alone
@@ -236,6 +271,8 @@ interface UndoRecord {
 	epSquare: number; // en passant target before the move (OFF_BOARD if none)
 	halfMoveClock: number;
 	fullMoveNumber: number;
+	hashLow: number; // Zobrist key before the move
+	hashHigh: number;
 }
 
 export const MAX_MOVES = 256; // generous upper bound on moves in any position
@@ -243,72 +280,21 @@ export const MAX_MOVES = 256; // generous upper bound on moves in any position
 // All evaluation is reported from WHITE's perspective (White positive). The
 // initial position — and any color-symmetric position — must evaluate to 0.
 
-// Material value in centipawns, indexed by piece type (index 0 = EMPTY, unused).
-// The king is 0 so material is a pure balance of the remaining pieces.
-const PIECE_VALUE = [0, 100, 320, 330, 500, 900, 0]; // EMPTY,PAWN,KNIGHT,BISHOP,ROOK,QUEEN,KING
-
-// Piece-square tables ("Simplified Evaluation Function"). Each is a 64-entry
-// array in VISUAL order: the first row is rank 8, the last row is rank 1, files
-// a..h left to right.
-const PST_PAWN = [
-	0, 0, 0, 0, 0, 0, 0, 0, 50, 50, 50, 50, 50, 50, 50, 50, 10, 10, 20, 30, 30, 20, 10, 10, 5, 5, 10,
-	25, 25, 10, 5, 5, 0, 0, 0, 20, 20, 0, 0, 0, 5, -5, -10, 0, 0, -10, -5, 5, 5, 10, 10, -20, -20, 10,
-	10, 5, 0, 0, 0, 0, 0, 0, 0, 0
-];
-const PST_KNIGHT = [
-	-50, -40, -30, -30, -30, -30, -40, -50, -40, -20, 0, 0, 0, 0, -20, -40, -30, 0, 10, 15, 15, 10, 0,
-	-30, -30, 5, 15, 20, 20, 15, 5, -30, -30, 0, 15, 20, 20, 15, 0, -30, -30, 5, 10, 15, 15, 10, 5,
-	-30, -40, -20, 0, 5, 5, 0, -20, -40, -50, -40, -30, -30, -30, -30, -40, -50
-];
-const PST_BISHOP = [
-	-20, -10, -10, -10, -10, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5, 10, 10, 5, 0, -10,
-	-10, 5, 5, 10, 10, 5, 5, -10, -10, 0, 10, 10, 10, 10, 0, -10, -10, 10, 10, 10, 10, 10, 10, -10,
-	-10, 5, 0, 0, 0, 0, 5, -10, -20, -10, -10, -10, -10, -10, -10, -20
-];
-const PST_ROOK = [
-	0, 0, 0, 0, 0, 0, 0, 0, 5, 10, 10, 10, 10, 10, 10, 5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0,
-	0, -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0, -5, 0, 0, 0, 5,
-	5, 0, 0, 0
-];
-const PST_QUEEN = [
-	-20, -10, -10, -5, -5, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5, 5, 5, 5, 0, -10, -5,
-	0, 5, 5, 5, 5, 0, -5, 0, 0, 5, 5, 5, 5, 0, -5, -10, 5, 5, 5, 5, 5, 0, -10, -10, 0, 5, 0, 0, 0, 0,
-	-10, -20, -10, -10, -5, -5, -10, -10, -20
-];
-const PST_KING = [
-	-30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40,
-	-50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40, -40, -30, -20, -30, -30, -40, -40, -30,
-	-30, -20, -10, -20, -20, -20, -20, -20, -20, -10, 20, 20, 0, 0, 0, 0, 20, 20, 20, 30, 10, 0, 0,
-	10, 30, 20
-];
+// Static exchange values. The king outweighs anything it could win, so an
+// exchange never ends with the king recapturing into an attack.
+const SEE_VALUE = [0, 100, 320, 330, 500, 900, 20000];
+const MAX_SEE_EXCHANGES = 40;
 
-// PST lookup indexed by piece type (index 0 = EMPTY, unused).
-const PST: (number[] | null)[] = [
-	null,
-	PST_PAWN,
-	PST_KNIGHT,
-	PST_BISHOP,
-	PST_ROOK,
-	PST_QUEEN,
-	PST_KING
-];
+// Halfmoves without a capture or pawn move after which the game is drawn.
+const FIFTY_MOVE_RULE_PLIES = 100;
 
 // Centipawns awarded per extra pseudo-legal move when scoring mobility.
 const MOBILITY_WEIGHT = 1;
 
-// Map a 0x88 square to a 64-entry VISUAL-order PST index. White reads the table
-// directly (rank 8 first); Black mirrors vertically so its own advancement is
-// rewarded the same way.
-function pstWhiteIndex(sq: number): number {
-	return (7 - rankOf0x88(sq)) * 8 + fileOf0x88(sq);
-}
-function pstBlackIndex(sq: number): number {
-	return rankOf0x88(sq) * 8 + fileOf0x88(sq);
-}
-
 export class Board0x88 implements AbstractBoard<Int32Array, number> {
 	/** 128-entry 0x88 board; each entry is a piece code (0 = empty). */
 	readonly board: Int8Array = new Int8Array(128);
+	readonly mobilityWeight = MOBILITY_WEIGHT;
 
 	turn: PieceColor = PieceColor.WHITE;
 	castling: number = 0; // (CASTLE_WK | CASTLE_WQ | CASTLE_BK | CASTLE_BQ)
@@ -320,9 +306,31 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 	/** King square per color, indexed [WHITE]=king sq, [BLACK]=king sq. */
 	readonly kingSquare: Int32Array = new Int32Array(2);
 
+	/** Chess960 castling: the king moves onto its rook, FENs get Shredder castling fields. */
+	chess960 = false;
+
+	/** Rook home square per castling right, see STANDARD_CASTLING_ROOK_SQUARES. */
+	private readonly castlingRookSquares: Int32Array = Int32Array.from(
+		STANDARD_CASTLING_ROOK_SQUARES
+	);
+
+	// Per-square castling-rights mask, built on load. ANDing the rights with both
+	// castleMask[from] and castleMask[to] clears the appropriate bits whenever a
+	// king or rook leaves a home square, or a rook is captured on its home square.
+	// Every square keeps all rights (0b1111) except the king and rook home squares.
+	private readonly castleMask: Int8Array = new Int8Array(128);
+
 	/** LIFO stack of undo records pushed by makeMove, popped by unmakeMove. */
 	private readonly undoStack: UndoRecord[] = [];
 
+	/** Scratch state of the static exchange evaluator, see `see`. */
+	private readonly seeRemoved: Uint8Array = new Uint8Array(128);
+	private readonly seeGains: Int32Array = new Int32Array(MAX_SEE_EXCHANGES);
+
+	/** Incrementally maintained Zobrist key, see computeHash. */
+	private zobristLow = 0;
+	private zobristHigh = 0;
+
 	constructor(fen?: string) {
 		if (fen) {
 			this.loadFen(fen);
@@ -374,12 +382,7 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		this.turn = turnStr === 'b' ? PieceColor.BLACK : PieceColor.WHITE;
 
 		// Castling rights.
-		let castling = 0;
-		if (castlingStr.includes('K')) castling |= CASTLE_WK;
-		if (castlingStr.includes('Q')) castling |= CASTLE_WQ;
-		if (castlingStr.includes('k')) castling |= CASTLE_BK;
-		if (castlingStr.includes('q')) castling |= CASTLE_BQ;
-		this.castling = castling;
+		this.loadCastlingRights(castlingStr);
 
 		// En passant target.
 		this.enPassantTargetSquare = epStr === '-' ? OFF_BOARD : algebraicToSquare0x88(epStr);
@@ -389,6 +392,124 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		this.halfMoveClock = isNaN(halfMoveClock) ? 0 : halfMoveClock;
 		const fullMoveNumber = parseInt(fullMoveStr, 10);
 		this.fullMoveNumber = isNaN(fullMoveNumber) ? 1 : fullMoveNumber;
+
+		[this.zobristLow, this.zobristHigh] = this.computeHash();
+	}
+
+	toFen(): string {
+		const rows: string[] = [];
+		for (let rank = 7; rank >= 0; rank--) {
+			let row = '';
+			let emptyCount = 0;
+			for (let file = 0; file < 8; file++) {
+				const piece = this.board[makeSquare0x88(file, rank)];
+				if (piece === PieceType.EMPTY) {
+					emptyCount++;
+					continue;
+				}
+				if (emptyCount > 0) row += emptyCount;
+				emptyCount = 0;
+				row += PIECE_TO_FEN[piece];
+			}
+			if (emptyCount > 0) row += emptyCount;
+			rows.push(row);
+		}
+
+		let castling = '';
+		if (this.chess960) {
+			// Shredder-FEN: the file of every castling rook.
+			for (let right = 0; right < STANDARD_CASTLING_ROOK_SQUARES.length; right++) {
+				if ((this.castling & (1 << right)) === 0) continue;
+				const file = square0x88ToAlgebraic(this.castlingRookSquares[right])[0];
+				castling += right < 2 ? file.toUpperCase() : file;
+			}
+		} else {
+			if (this.castling & CASTLE_WK) castling += 'K';
+			if (this.castling & CASTLE_WQ) castling += 'Q';
+			if (this.castling & CASTLE_BK) castling += 'k';
+			if (this.castling & CASTLE_BQ) castling += 'q';
+		}
+
+		const turn = this.turn === PieceColor.WHITE ? 'w' : 'b';
+		const enPassant =
+			this.enPassantTargetSquare === OFF_BOARD
+				? '-'
+				: square0x88ToAlgebraic(this.enPassantTargetSquare);
+		return `${rows.join('/')} ${turn} ${castling || '-'} ${enPassant} ${this.halfMoveClock} ${this.fullMoveNumber}`;
+	}
+
+	// Standard, X-FEN and Shredder-FEN castling fields: `K`/`Q` castle with the
+	// outermost rook on that side of the king, a file letter names the rook. Any
+	// right of a king off the e-file or of a rook off the a/h files makes it a
+	// Chess960 position. Unknown characters are skipped.
+	private loadCastlingRights(castlingStr: string): void {
+		this.castling = 0;
+		this.chess960 = false;
+		this.castlingRookSquares.set(STANDARD_CASTLING_ROOK_SQUARES);
+
+		for (const char of castlingStr) {
+			const letter = char.toLowerCase();
+			const isFileLetter = letter >= 'a' && letter <= 'h';
+			if (letter !== 'k' && letter !== 'q' && !isFileLetter) continue;
+
+			const color = char === letter ? PieceColor.BLACK : PieceColor.WHITE;
+			const rank = color === PieceColor.WHITE ? 0 : 7;
+			const kingSquare = this.kingSquare[color];
+			const standardKingSquare = makeSquare0x88(4, rank);
+			const hasKing = kingSquare !== OFF_BOARD && rankOf0x88(kingSquare) === rank;
+			const kingFile = fileOf0x88(hasKing ? kingSquare : standardKingSquare);
+
+			let isKingSide: boolean;
+			let rookSquare = OFF_BOARD;
+			if (isFileLetter) {
+				const rookFile = letter.charCodeAt(0) - 'a'.charCodeAt(0);
+				isKingSide = rookFile > kingFile;
+				rookSquare = makeSquare0x88(rookFile, rank);
+				this.chess960 = true;
+			} else {
+				isKingSide = letter === 'k';
+				if (hasKing) rookSquare = this.findOutermostRook(kingSquare, color, isKingSide);
+			}
+
+			const right = (color === PieceColor.WHITE ? 0 : 2) + (isKingSide ? 0 : 1);
+			const standardRookSquare = STANDARD_CASTLING_ROOK_SQUARES[right];
+			if (rookSquare === OFF_BOARD) rookSquare = standardRookSquare;
+			if (hasKing && (kingSquare !== standardKingSquare || rookSquare !== standardRookSquare)) {
+				this.chess960 = true;
+			}
+			this.castling |= 1 << right;
+			this.castlingRookSquares[right] = rookSquare;
+		}
+
+		this.castleMask.fill(0b1111);
+		for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+			const rank = color === PieceColor.WHITE ? 0 : 7;
+			const kingSquare = this.kingSquare[color];
+			const kingHome =
+				kingSquare !== OFF_BOARD && rankOf0x88(kingSquare) === rank
+					? kingSquare
+					: makeSquare0x88(4, rank);
+			this.castleMask[kingHome] &= color === PieceColor.WHITE ? 0b1100 : 0b0011;
+		}
+		for (let right = 0; right < STANDARD_CASTLING_ROOK_SQUARES.length; right++) {
+			this.castleMask[this.castlingRookSquares[right]] &= ~(1 << right);
+		}
+	}
+
+	private findOutermostRook(kingSquare: number, color: PieceColor, isKingSide: boolean): number {
+		const rook = packPiece0x88(PieceType.ROOK, color);
+		const rank = rankOf0x88(kingSquare);
+		const kingFile = fileOf0x88(kingSquare);
+		if (isKingSide) {
+			for (let file = 7; file > kingFile; file--) {
+				if (this.board[makeSquare0x88(file, rank)] === rook) return makeSquare0x88(file, rank);
+			}
+		} else {
+			for (let file = 0; file < kingFile; file++) {
+				if (this.board[makeSquare0x88(file, rank)] === rook) return makeSquare0x88(file, rank);
+			}
+		}
+		return OFF_BOARD;
 	}
 
 	allocateMoveBuffer(): Int32Array {
@@ -488,40 +609,7 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 					}
 
 					// Castling (fully legal).
-					const rank = color === PieceColor.WHITE ? 0 : 7;
-					const kingHome = makeSquare0x88(4, rank);
-					const kingSide = color === PieceColor.WHITE ? CASTLE_WK : CASTLE_BK;
-					const queenSide = color === PieceColor.WHITE ? CASTLE_WQ : CASTLE_BQ;
-
-					if (this.castling & kingSide) {
-						const f = makeSquare0x88(5, rank);
-						const g = makeSquare0x88(6, rank);
-						if (
-							board[f] === PieceType.EMPTY &&
-							board[g] === PieceType.EMPTY &&
-							!this.isSquareAttacked(kingHome, enemy) &&
-							!this.isSquareAttacked(f, enemy) &&
-							!this.isSquareAttacked(g, enemy)
-						) {
-							out[n++] = packMove0x88(kingHome, g, Flags0x88.KING_CASTLE);
-						}
-					}
-
-					if (this.castling & queenSide) {
-						const d = makeSquare0x88(3, rank);
-						const c = makeSquare0x88(2, rank);
-						const b = makeSquare0x88(1, rank);
-						if (
-							board[d] === PieceType.EMPTY &&
-							board[c] === PieceType.EMPTY &&
-							board[b] === PieceType.EMPTY &&
-							!this.isSquareAttacked(kingHome, enemy) &&
-							!this.isSquareAttacked(d, enemy) &&
-							!this.isSquareAttacked(c, enemy)
-						) {
-							out[n++] = packMove0x88(kingHome, c, Flags0x88.QUEEN_CASTLE);
-						}
-					}
+					n = this.generateCastlingMoves(out, n, from, color);
 					break;
 				}
 
@@ -557,6 +645,57 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		return n;
 	}
 
+	private generateCastlingMoves(
+		out: Int32Array,
+		n: number,
+		from: number,
+		color: PieceColor
+	): number {
+		const board = this.board;
+		const enemy = oppositeColor(color);
+		const rank = color === PieceColor.WHITE ? 0 : 7;
+		if (rankOf0x88(from) !== rank) return n;
+		if (!this.chess960 && from !== makeSquare0x88(4, rank)) return n;
+
+		const rook = packPiece0x88(PieceType.ROOK, color);
+		const firstRight = color === PieceColor.WHITE ? 0 : 2;
+		for (let right = firstRight; right < firstRight + 2; right++) {
+			if ((this.castling & (1 << right)) === 0) continue;
+			const rookSquare = this.castlingRookSquares[right];
+			if (board[rookSquare] !== rook) continue;
+
+			const isKingSide = right === firstRight;
+			const kingTo = castlingKingTarget(from, isKingSide);
+			const rookTo = castlingRookTarget(from, isKingSide);
+
+			// Everything between the outermost of the king, the rook and their
+			// targets is empty, except for the castling king and rook.
+			const low = Math.min(from, rookSquare, kingTo, rookTo);
+			const high = Math.max(from, rookSquare, kingTo, rookTo);
+			let isClear = true;
+			for (let sq = low; sq <= high && isClear; sq++) {
+				isClear = sq === from || sq === rookSquare || board[sq] === PieceType.EMPTY;
+			}
+			if (!isClear) continue;
+
+			// The king neither starts in check nor crosses or lands on an attacked square.
+			const step = kingTo > from ? 1 : -1;
+			let isSafe = true;
+			for (let sq = from; isSafe; sq += step) {
+				isSafe = !this.isSquareAttacked(sq, enemy);
+				if (sq === kingTo) break;
+			}
+			if (!isSafe) continue;
+
+			out[n++] = packMove0x88(
+				from,
+				this.chess960 ? rookSquare : kingTo,
+				isKingSide ? Flags0x88.KING_CASTLE : Flags0x88.QUEEN_CASTLE
+			);
+		}
+		return n;
+	}
+
 	generateLegalMoves(out: Int32Array): number {
 		const color = this.turn;
 		const pseudo = this.allocateMoveBuffer();
@@ -651,6 +790,210 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		return false;
 	}
 
+	isWhiteToMove(): boolean {
+		return this.turn === PieceColor.WHITE;
+	}
+
+	/** Signed piece type on a 0..63 square (a1 = 0), White positive. */
+	pieceAt(square: number): number {
+		const piece = this.board[makeSquare0x88(square & 7, square >> 3)];
+		if (piece === PieceType.EMPTY) return 0;
+		const type = pieceTypeOf0x88(piece);
+		return pieceColorOf0x88(piece) === PieceColor.WHITE ? type : -type;
+	}
+
+	/** Whether the king of the side to move is currently attacked. */
+	isInCheck(): boolean {
+		return this.isSquareAttacked(this.kingSquare[this.turn], oppositeColor(this.turn));
+	}
+
+	isFiftyMoveDraw(): boolean {
+		return this.halfMoveClock >= FIFTY_MOVE_RULE_PLIES;
+	}
+
+	repetitionCount(): number {
+		// Keys are compared as signed: a freshly computed key is unsigned, while
+		// the incremental XORs produce signed halves.
+		const low = this.zobristLow | 0;
+		const high = this.zobristHigh | 0;
+		let count = 1;
+		const plies = Math.min(this.halfMoveClock, this.undoStack.length);
+		for (let ply = 2; ply <= plies; ply += 2) {
+			const undo = this.undoStack[this.undoStack.length - ply];
+			if ((undo.hashLow | 0) === low && (undo.hashHigh | 0) === high) count++;
+		}
+		return count;
+	}
+
+	hasInsufficientMaterial(): boolean {
+		let minorPieces = 0;
+		let knights = 0;
+		let bishopSquareColors = 0;
+
+		for (let sq = 0; sq < 128; sq++) {
+			if (!isOnBoard0x88(sq)) continue;
+			switch (pieceTypeOf0x88(this.board[sq])) {
+				case PieceType.PAWN:
+				case PieceType.ROOK:
+				case PieceType.QUEEN:
+					return false;
+				case PieceType.KNIGHT:
+					minorPieces++;
+					knights++;
+					break;
+				case PieceType.BISHOP:
+					minorPieces++;
+					bishopSquareColors |= 1 << ((fileOf0x88(sq) + rankOf0x88(sq)) & 1);
+					break;
+			}
+		}
+
+		// A lone minor piece cannot mate, neither can any number of bishops that
+		// all stand on the same square color.
+		return minorPieces <= 1 || (knights === 0 && bishopSquareColors !== 0b11);
+	}
+
+	isCapture(move: number): boolean {
+		return isCaptureFlag(extractMoveFlags(move));
+	}
+
+	capturedPieceType(move: number): number {
+		const flags = extractMoveFlags(move);
+		if (flags === Flags0x88.EN_PASSANT_CAPTURE) return PieceType.PAWN;
+		if (!isCaptureFlag(flags)) return PieceType.EMPTY;
+		return pieceTypeOf0x88(this.board[extractMoveToSquare(move)]);
+	}
+
+	movedPieceType(move: number): number {
+		return pieceTypeOf0x88(this.board[extractMoveFromSquare(move)]);
+	}
+
+	promotionPieceType(move: number): number {
+		const flags = extractMoveFlags(move);
+		return isPromotionFlag(flags) ? promotionType(flags) : PieceType.EMPTY;
+	}
+
+	/**
+	 * Static exchange evaluation: material the side to move wins (negative when
+	 * it loses) by playing `move` and then trading on its target square with the
+	 * least valuable attackers. Pins and checks are ignored.
+	 */
+	see(move: number): number {
+		const fromSquare = extractMoveFromSquare(move);
+		const toSquare = extractMoveToSquare(move);
+		const flags = extractMoveFlags(move);
+		const color = pieceColorOf0x88(this.board[fromSquare]);
+		this.seeRemoved.fill(0);
+
+		let gain = SEE_VALUE[this.capturedPieceType(move)];
+		let attackerValue = SEE_VALUE[this.movedPieceType(move)];
+		if (flags === Flags0x88.EN_PASSANT_CAPTURE) {
+			this.seeRemoved[toSquare + (color === PieceColor.WHITE ? -16 : 16)] = 1;
+		}
+		if (isPromotionFlag(flags)) {
+			gain += SEE_VALUE[promotionType(flags)] - SEE_VALUE[PieceType.PAWN];
+			attackerValue = SEE_VALUE[promotionType(flags)];
+		}
+		this.seeRemoved[fromSquare] = 1;
+
+		return this.resolveExchange(toSquare, oppositeColor(color), gain, attackerValue);
+	}
+
+	/**
+	 * Exchange value for the opponent of the piece on `square` when it starts
+	 * capturing there; 0 for empty or unattacked squares. A positive value means
+	 * the piece is hanging.
+	 */
+	seeSquare(square: number): number {
+		const piece = this.board[square];
+		if (piece === PieceType.EMPTY) return 0;
+
+		const color = pieceColorOf0x88(piece);
+		this.seeRemoved.fill(0);
+		const attacker = this.findLeastValuableAttacker(square, oppositeColor(color));
+		if (attacker === OFF_BOARD) return 0;
+		this.seeRemoved[attacker] = 1;
+
+		return this.resolveExchange(
+			square,
+			color,
+			SEE_VALUE[pieceTypeOf0x88(piece)],
+			SEE_VALUE[pieceTypeOf0x88(this.board[attacker])]
+		);
+	}
+
+	// Swap algorithm: gains[d] is the balance for the side making the d-th
+	// capture, assuming it gets recaptured. `sideToCapture` makes the next one.
+	private resolveExchange(
+		square: number,
+		sideToCapture: PieceColor,
+		firstGain: number,
+		attackerValue: number
+	): number {
+		const gains = this.seeGains;
+		gains[0] = firstGain;
+		let depth = 0;
+		let side = sideToCapture;
+
+		while (depth < MAX_SEE_EXCHANGES - 1) {
+			depth++;
+			gains[depth] = attackerValue - gains[depth - 1];
+			const attacker = this.findLeastValuableAttacker(square, side);
+			if (attacker === OFF_BOARD) break;
+			attackerValue = SEE_VALUE[pieceTypeOf0x88(this.board[attacker])];
+			this.seeRemoved[attacker] = 1;
+			side = oppositeColor(side);
+		}
+
+		while (--depth > 0) {
+			gains[depth - 1] = -Math.max(-gains[depth - 1], gains[depth]);
+		}
+		return gains[0];
+	}
+
+	/**
+	 * Square of the cheapest `color` piece attacking `square`, or OFF_BOARD.
+	 * Squares marked in `seeRemoved` count as empty, which uncovers x-rays.
+	 */
+	private findLeastValuableAttacker(square: number, color: PieceColor): number {
+		const board = this.board;
+		const removed = this.seeRemoved;
+
+		const pawn = packPiece0x88(PieceType.PAWN, color);
+		for (const offset of PAWN_ATTACKER_OFFSETS[color]) {
+			const sq = square + offset;
+			if (isOnBoard0x88(sq) && board[sq] === pawn && !removed[sq]) return sq;
+		}
+
+		const knight = packPiece0x88(PieceType.KNIGHT, color);
+		for (const offset of KNIGHT_OFFSETS) {
+			const sq = square + offset;
+			if (isOnBoard0x88(sq) && board[sq] === knight && !removed[sq]) return sq;
+		}
+
+		for (const [type, offsets] of SEE_SLIDERS) {
+			const slider = packPiece0x88(type, color);
+			for (const offset of offsets) {
+				let sq = square + offset;
+				while (isOnBoard0x88(sq)) {
+					if (board[sq] !== PieceType.EMPTY && !removed[sq]) {
+						if (board[sq] === slider) return sq;
+						break; // ray blocked by the first piece encountered
+					}
+					sq += offset;
+				}
+			}
+		}
+
+		const king = packPiece0x88(PieceType.KING, color);
+		for (const offset of KING_OFFSETS) {
+			const sq = square + offset;
+			if (isOnBoard0x88(sq) && board[sq] === king && !removed[sq]) return sq;
+		}
+
+		return OFF_BOARD;
+	}
+
 	makeMove(move: number): void {
 		const fromSquare = extractMoveFromSquare(move);
 		const toSquare = extractMoveToSquare(move);
@@ -660,9 +1003,19 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		const moved = this.board[fromSquare];
 		const movedType = pieceTypeOf0x88(moved);
 
+		// In Chess960 the castling king "captures" its own rook; both land on the
+		// standard castling squares.
+		const isCastling = flags === Flags0x88.KING_CASTLE || flags === Flags0x88.QUEEN_CASTLE;
+		const isKingSide = flags === Flags0x88.KING_CASTLE;
+		const destination = isCastling ? castlingKingTarget(fromSquare, isKingSide) : toSquare;
+		const rookFrom = isCastling ? this.castlingRookSource(toSquare, isKingSide) : OFF_BOARD;
+		const rookTo = isCastling ? castlingRookTarget(fromSquare, isKingSide) : OFF_BOARD;
+		const rook = isCastling ? this.board[rookFrom] : PieceType.EMPTY;
+
 		let capturedPiece: number;
+		let captureSquare = toSquare;
 		if (flags === Flags0x88.EN_PASSANT_CAPTURE) {
-			const captureSquare = toSquare + (color === PieceColor.WHITE ? -16 : 16);
+			captureSquare = toSquare + (color === PieceColor.WHITE ? -16 : 16);
 			capturedPiece = this.board[captureSquare];
 		} else if (isCaptureFlag(flags)) {
 			capturedPiece = this.board[toSquare];
@@ -676,35 +1029,49 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 			castling: this.castling,
 			epSquare: this.enPassantTargetSquare,
 			halfMoveClock: this.halfMoveClock,
-			fullMoveNumber: this.fullMoveNumber
+			fullMoveNumber: this.fullMoveNumber,
+			hashLow: this.zobristLow,
+			hashHigh: this.zobristHigh
 		});
 
-		// Move the piece.
-		this.board[toSquare] = moved;
+		// Zobrist key: drop the old castling / en passant state and every piece
+		// that leaves a square, then add the pieces on their new squares.
+		this.toggleZobristEnPassant();
+		this.toggleZobristCastling();
+		this.toggleZobristPiece(moved, fromSquare);
+		if (capturedPiece !== PieceType.EMPTY) {
+			this.toggleZobristPiece(capturedPiece, captureSquare);
+		}
+		this.toggleZobristPiece(
+			isPromotionFlag(flags) ? packPiece0x88(promotionType(flags), color) : moved,
+			destination
+		);
+		if (isCastling) {
+			this.toggleZobristPiece(rook, rookFrom);
+			this.toggleZobristPiece(rook, rookTo);
+		}
+
+		// Move the piece. The castling rook is lifted first, in Chess960 the king
+		// may land on its square.
 		this.board[fromSquare] = PieceType.EMPTY;
+		if (isCastling) this.board[rookFrom] = PieceType.EMPTY;
+		this.board[destination] = moved;
 
 		// Special-case handling.
 		if (flags === Flags0x88.EN_PASSANT_CAPTURE) {
 			this.board[toSquare + (color === PieceColor.WHITE ? -16 : 16)] = PieceType.EMPTY;
 		} else if (isPromotionFlag(flags)) {
 			this.board[toSquare] = packPiece0x88(promotionType(flags), color);
-		} else if (flags === Flags0x88.KING_CASTLE) {
-			const rookFrom = toSquare + 1;
-			const rookTo = toSquare - 1;
-			this.board[rookTo] = this.board[rookFrom];
-			this.board[rookFrom] = PieceType.EMPTY;
-		} else if (flags === Flags0x88.QUEEN_CASTLE) {
-			const rookFrom = toSquare - 2;
-			const rookTo = toSquare + 1;
-			this.board[rookTo] = this.board[rookFrom];
-			this.board[rookFrom] = PieceType.EMPTY;
+		} else if (isCastling) {
+			this.board[rookTo] = rook;
 		}
 
 		// King tracking.
-		if (movedType === PieceType.KING) this.kingSquare[color] = toSquare;
+		if (movedType === PieceType.KING) this.kingSquare[color] = destination;
 
 		// Castling rights.
-		this.castling &= CASTLE_MASK[fromSquare] & CASTLE_MASK[toSquare];
+		this.castling &= this.castleMask[fromSquare] & this.castleMask[toSquare];
+		this.toggleZobristCastling();
 
 		// En passant target.
 		this.enPassantTargetSquare =
@@ -722,6 +1089,9 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 
 		// Flip side to move.
 		this.turn = oppositeColor(color);
+		this.zobristLow ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+		this.zobristHigh ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		this.toggleZobristEnPassant();
 	}
 
 	unmakeMove(move: number): void {
@@ -740,6 +1110,22 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		this.enPassantTargetSquare = undo.epSquare;
 		this.halfMoveClock = undo.halfMoveClock;
 		this.fullMoveNumber = undo.fullMoveNumber;
+		this.zobristLow = undo.hashLow;
+		this.zobristHigh = undo.hashHigh;
+
+		if (flags === Flags0x88.KING_CASTLE || flags === Flags0x88.QUEEN_CASTLE) {
+			const isKingSide = flags === Flags0x88.KING_CASTLE;
+			const kingTo = castlingKingTarget(from, isKingSide);
+			const rookTo = castlingRookTarget(from, isKingSide);
+			const king = this.board[kingTo];
+			const rook = this.board[rookTo];
+			this.board[kingTo] = PieceType.EMPTY;
+			this.board[rookTo] = PieceType.EMPTY;
+			this.board[this.castlingRookSource(to, isKingSide)] = rook;
+			this.board[from] = king;
+			this.kingSquare[color] = from;
+			return;
+		}
 
 		// Figure out the piece to put back on `from`. For a promotion the piece
 		// currently on `to` is the promoted piece; the original was a pawn.
@@ -755,22 +1141,96 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 			this.board[to + (color === PieceColor.WHITE ? -16 : 16)] = undo.capturedPiece;
 		} else if (isCaptureFlag(flags)) {
 			this.board[to] = undo.capturedPiece;
-		} else if (flags === Flags0x88.KING_CASTLE) {
-			const rookFrom = to + 1;
-			const rookTo = to - 1;
-			this.board[rookFrom] = this.board[rookTo];
-			this.board[rookTo] = PieceType.EMPTY;
-		} else if (flags === Flags0x88.QUEEN_CASTLE) {
-			const rookFrom = to - 2;
-			const rookTo = to + 1;
-			this.board[rookFrom] = this.board[rookTo];
-			this.board[rookTo] = PieceType.EMPTY;
 		}
 
 		// King tracking.
 		if (pieceTypeOf0x88(moved) === PieceType.KING) this.kingSquare[color] = from;
 	}
 
+	/** Home square of the rook of a castling move to `to`: the target itself in Chess960. */
+	private castlingRookSource(to: number, isKingSide: boolean): number {
+		if (this.chess960) return to;
+		return isKingSide ? to + 1 : to - 2;
+	}
+
+	hashLow(): number {
+		return this.zobristLow >>> 0;
+	}
+
+	hashHigh(): number {
+		return this.zobristHigh >>> 0;
+	}
+
+	/** Rebuild the Zobrist key from the current position. */
+	computeHash(): [low: number, high: number] {
+		let low = 0;
+		let high = 0;
+		for (let sq = 0; sq < 128; sq++) {
+			if (!isOnBoard0x88(sq)) continue;
+			const piece = this.board[sq];
+			if (piece === PieceType.EMPTY) continue;
+			const index = zobristPieceIndex(
+				pieceTypeOf0x88(piece),
+				pieceColorOf0x88(piece) === PieceColor.WHITE,
+				square0x88To64(sq)
+			);
+			low ^= ZOBRIST_PIECES_LOW[index];
+			high ^= ZOBRIST_PIECES_HIGH[index];
+		}
+
+		low ^= ZOBRIST_CASTLING_LOW[this.castling];
+		high ^= ZOBRIST_CASTLING_HIGH[this.castling];
+
+		const epFile = this.enPassantHashFile();
+		if (epFile >= 0) {
+			low ^= ZOBRIST_EN_PASSANT_LOW[epFile];
+			high ^= ZOBRIST_EN_PASSANT_HIGH[epFile];
+		}
+
+		if (this.turn === PieceColor.BLACK) {
+			low ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+			high ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		}
+		return [low >>> 0, high >>> 0];
+	}
+
+	private toggleZobristPiece(piece: number, sq: number): void {
+		const index = zobristPieceIndex(
+			pieceTypeOf0x88(piece),
+			pieceColorOf0x88(piece) === PieceColor.WHITE,
+			square0x88To64(sq)
+		);
+		this.zobristLow ^= ZOBRIST_PIECES_LOW[index];
+		this.zobristHigh ^= ZOBRIST_PIECES_HIGH[index];
+	}
+
+	private toggleZobristCastling(): void {
+		this.zobristLow ^= ZOBRIST_CASTLING_LOW[this.castling];
+		this.zobristHigh ^= ZOBRIST_CASTLING_HIGH[this.castling];
+	}
+
+	private toggleZobristEnPassant(): void {
+		const epFile = this.enPassantHashFile();
+		if (epFile < 0) return;
+		this.zobristLow ^= ZOBRIST_EN_PASSANT_LOW[epFile];
+		this.zobristHigh ^= ZOBRIST_EN_PASSANT_HIGH[epFile];
+	}
+
+	/**
+	 * File of the en passant target if it is part of the key, otherwise -1.
+	 * NOTE: Only hashed when a pawn of the side to move can reach the target,
+	 * so that an unusable en passant square does not break repetitions.
+	 */
+	private enPassantHashFile(): number {
+		const target = this.enPassantTargetSquare;
+		if (target === OFF_BOARD) return -1;
+		const victim = target + (this.turn === PieceColor.WHITE ? -16 : 16);
+		const pawn = packPiece0x88(PieceType.PAWN, this.turn);
+		if (isOnBoard0x88(victim - 1) && this.board[victim - 1] === pawn) return fileOf0x88(target);
+		if (isOnBoard0x88(victim + 1) && this.board[victim + 1] === pawn) return fileOf0x88(target);
+		return -1;
+	}
+
 	/** Material balance in centipawns, White positive. */
 	evaluateMaterial(): number {
 		const board = this.board;
@@ -779,7 +1239,7 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 			if (!isOnBoard0x88(sq)) continue;
 			const piece = board[sq];
 			if (piece === PieceType.EMPTY) continue;
-			const value = PIECE_VALUE[pieceTypeOf0x88(piece)];
+			const value = PIECE_VALUES[pieceTypeOf0x88(piece)];
 			if (pieceColorOf0x88(piece) === PieceColor.WHITE) {
 				score += value;
 			} else {
@@ -789,43 +1249,31 @@ export class Board0x88 implements AbstractBoard<Int32Array, number> {
 		return score;
 	}
 
-	/** Piece-square-table balance in centipawns, White positive. */
+	/** Piece-square-table balance in centipawns, White positive, blended by game phase. */
 	evaluatePST(): number {
-		const board = this.board;
-		let score = 0;
-		for (let sq = 0; sq < 128; sq++) {
-			if (!isOnBoard0x88(sq)) continue;
-			const piece = board[sq];
-			if (piece === PieceType.EMPTY) continue;
-			const table = PST[pieceTypeOf0x88(piece)]!;
-			if (pieceColorOf0x88(piece) === PieceColor.WHITE) {
-				score += table[pstWhiteIndex(sq)];
-			} else {
-				score -= table[pstBlackIndex(sq)];
-			}
-		}
-		return score;
+		return evaluatePieceSquares(this);
 	}
 
 	/**
-	 * Mobility balance in centipawns, White positive. This uses PSEUDO-LEGAL
-	 * move counts as a cheap proxy: it does NOT exclude moves that leave the
-	 * king in check. The side to move is temporarily overridden to count each
-	 * color and then restored.
+	 * Number of PSEUDO-LEGAL moves `isWhite`'s side would have if it were to
+	 * move, a cheap proxy for mobility: moves that leave the king in check are
+	 * counted too. The side to move is restored afterwards.
 	 */
-	evaluateMobility(): number {
-		const buf = this.allocateMoveBuffer();
+	countPseudoLegalMoves(isWhite: boolean): number {
 		const saved = this.turn;
-		this.turn = PieceColor.WHITE;
-		const whiteMoves = this.generatePseudoLegalMoves(buf);
-		this.turn = PieceColor.BLACK;
-		const blackMoves = this.generatePseudoLegalMoves(buf);
+		this.turn = isWhite ? PieceColor.WHITE : PieceColor.BLACK;
+		const count = this.generatePseudoLegalMoves(this.allocateMoveBuffer());
 		this.turn = saved;
-		return (whiteMoves - blackMoves) * MOBILITY_WEIGHT;
+		return count;
+	}
+
+	/** Mobility balance in centipawns, White positive. */
+	evaluateMobility(): number {
+		return (this.countPseudoLegalMoves(true) - this.countPseudoLegalMoves(false)) * MOBILITY_WEIGHT;
 	}
 
 	/** Combined static evaluation in centipawns, White positive. */
 	evaluate(): number {
-		return this.evaluateMaterial() + this.evaluatePST() + this.evaluateMobility();
+		return this.evaluateMaterial() + evaluatePosition(this) + this.evaluateMobility();
 	}
 }
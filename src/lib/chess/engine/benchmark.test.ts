@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BenchmarkKind,
+	compareBenchmarks,
+	formatBenchmarkComparisons,
+	formatBenchmarkReport,
+	parseBenchmarkArgs,
+	parseBenchmarkReport,
+	runBenchmark,
+	type BenchmarkReport
+} from '$lib/chess/engine/benchmark';
+import { PERFT_POSITIONS } from '$lib/chess/engine/perft';
+
+function smallBenchmark(): BenchmarkReport {
+	return runBenchmark({
+		boards: ['int8', 'bitboard'],
+		positions: [PERFT_POSITIONS[1]],
+		perftDepth: 2,
+		searchDepth: 2,
+		iterations: 5,
+		runs: 1
+	});
+}
+
+/** Same report with every rate of `board` scaled by `factor`. */
+function withSpeed(report: BenchmarkReport, board: string, factor: number): BenchmarkReport {
+	return {
+		...report,
+		results: report.results.map((result) =>
+			result.board === board ? { ...result, perSecond: result.perSecond * factor } : result
+		)
+	};
+}
+
+describe('engine benchmark', () => {
+	it('measures every kind for every board and position', () => {
+		const report = smallBenchmark();
+
+		expect(report.results).toHaveLength(2 * Object.values(BenchmarkKind).length);
+		for (const result of report.results) {
+			expect(result.perSecond, `${result.board} ${result.kind}`).toBeGreaterThan(0);
+		}
+		const perft = report.results.filter((result) => result.kind === BenchmarkKind.PERFT);
+		expect(perft.map((result) => result.count)).toEqual([2039, 2039]);
+		const hashedPerft = report.results.filter(
+			(result) => result.kind === BenchmarkKind.HASHED_PERFT
+		);
+		expect(hashedPerft.map((result) => result.count)).toEqual([2039, 2039]);
+		const makeMove = report.results.find((result) => result.kind === BenchmarkKind.MAKE_MOVE);
+		expect(makeMove?.count).toBe(5 * 48);
+		const summary = formatBenchmarkReport(report).split('\n');
+		expect(summary[0]).toMatch(/^int8 +perft +\d+\/s +\d\.\d\dx$/);
+		// NOTE: Every kind has a fastest board, at 1.00x.
+		for (const kind of Object.values(BenchmarkKind)) {
+			const lines = summary.filter((line) => line.includes(` ${kind} `));
+			expect(lines.filter((line) => line.endsWith(' 1.00x')).length, kind).toBeGreaterThan(0);
+		}
+	});
+
+	it('round-trips the report through JSON', () => {
+		const report = smallBenchmark();
+		expect(parseBenchmarkReport(JSON.stringify(report))).toEqual(report);
+		expect(() => parseBenchmarkReport('{"results": []}')).toThrow(/version/);
+	});
+
+	it('flags results that got slower than the baseline or changed their counts', () => {
+		const baseline = smallBenchmark();
+		expect(compareBenchmarks(baseline, baseline).some((c) => c.isRegression)).toBe(false);
+		expect(formatBenchmarkComparisons(compareBenchmarks(baseline, baseline))).toBe(
+			'No regressions in 10 results.'
+		);
+
+		const slower = compareBenchmarks(withSpeed(baseline, 'bitboard', 0.5), baseline);
+		expect(slower.filter((c) => c.isRegression).map((c) => c.board)).toEqual(
+			Array(Object.values(BenchmarkKind).length).fill('bitboard')
+		);
+		expect(slower.find((c) => c.isRegression)?.change).toBeCloseTo(-0.5, 2);
+		const noisy = compareBenchmarks(withSpeed(baseline, 'bitboard', 0.95), baseline, 0.1);
+		expect(noisy.some((c) => c.isRegression)).toBe(false);
+
+		const changed = structuredClone(baseline);
+		changed.results[0].count++;
+		const comparisons = compareBenchmarks(changed, baseline);
+		expect(comparisons[0].isCountChanged).toBe(true);
+		expect(formatBenchmarkComparisons(comparisons)).toMatch(
+			/^int8 perft "kiwipete".*count changed$/
+		);
+	});
+
+	it('parses the runner arguments', () => {
+		expect(parseBenchmarkArgs(['--boards=int8,0x88', '--perft-depth=5', '--compare'])).toEqual({
+			benchmark: { boards: ['int8', '0x88'], perftDepth: 5 },
+			compare: true,
+			threshold: 0.1
+		});
+		expect(parseBenchmarkArgs(['--threshold=0.25']).threshold).toBe(0.25);
+		expect(() => parseBenchmarkArgs(['--boards=mailbox'])).toThrow(/Unknown argument/);
+		expect(() => parseBenchmarkArgs(['--perft-depth=0'])).toThrow(/Unknown argument/);
+	});
+});
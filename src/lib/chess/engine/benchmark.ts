@@ -0,0 +1,371 @@
+import {
+	createEngineBoard,
+	ENGINE_BOARDS,
+	isEngineBoardName,
+	type EngineBoard,
+	type EngineBoardName
+} from '$lib/chess/engine/boards';
+import { perft, PERFT_POSITIONS, type PerftPosition } from '$lib/chess/engine/perft';
+import { Search } from '$lib/chess/engine/search';
+import { TranspositionTable } from '$lib/chess/engine/transposition';
+
+export const BENCHMARK_REPORT_VERSION = 1;
+
+export const BenchmarkKind = {
+	/** Legal move tree walk: generateLegalMoves + makeMove + unmakeMove. */
+	PERFT: 'perft',
+	/** The same walk with a transposition table, cleared before every run. */
+	HASHED_PERFT: 'hashedPerft',
+	/** Fixed-depth alpha-beta search, including evaluation. */
+	SEARCH: 'search',
+	/** generateLegalMoves alone, repeated on the same position. */
+	GENERATE_MOVES: 'generateLegalMoves',
+	/** makeMove + unmakeMove of every legal move, repeated on the same position. */
+	MAKE_MOVE: 'makeMove'
+} as const;
+export type BenchmarkKind = (typeof BenchmarkKind)[keyof typeof BenchmarkKind];
+
+export interface BenchmarkOptions {
+	boards: EngineBoardName[];
+	positions: PerftPosition[];
+	perftDepth: number;
+	searchDepth: number;
+	/** Repetitions of the generateLegalMoves and makeMove micro-benchmarks per position. */
+	iterations: number;
+	/** Every measurement is repeated this many times and the fastest run is kept. */
+	runs: number;
+	/** Hash size of the search and hashed perft benchmarks; the table is cleared before every run. */
+	hashSizeMb: number;
+}
+
+// NOTE: The standard perft positions; the tricky ones are tiny and would only
+//       add timer noise.
+export const BENCHMARK_POSITIONS: PerftPosition[] = PERFT_POSITIONS.slice(0, 7);
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+	boards: [...ENGINE_BOARDS],
+	positions: BENCHMARK_POSITIONS,
+	perftDepth: 4,
+	searchDepth: 4,
+	iterations: 10_000,
+	runs: 3,
+	hashSizeMb: 16
+};
+
+export interface BenchmarkResult {
+	board: EngineBoardName;
+	kind: BenchmarkKind;
+	position: string;
+	/** Perft or search depth, 0 for the micro-benchmarks. */
+	depth: number;
+	/** Nodes for perft and search, calls for the micro-benchmarks. */
+	count: number;
+	timeMs: number;
+	perSecond: number;
+}
+
+/** The JSON document written by the benchmark runner, and read back as a baseline. */
+export interface BenchmarkReport {
+	version: typeof BENCHMARK_REPORT_VERSION;
+	createdAt: string;
+	options: Omit<BenchmarkOptions, 'boards' | 'positions'>;
+	results: BenchmarkResult[];
+}
+
+export function runBenchmark(
+	options: Partial<BenchmarkOptions> = {},
+	onResult?: (result: BenchmarkResult) => void
+): BenchmarkReport {
+	const { boards, positions, ...settings } = { ...DEFAULT_BENCHMARK_OPTIONS, ...options };
+	const results: BenchmarkResult[] = [];
+	const record = (result: BenchmarkResult) => {
+		results.push(result);
+		onResult?.(result);
+	};
+
+	for (const name of boards) {
+		const engineBoard = createEngineBoard(name);
+		// NOTE: One untimed round first, so that every board is measured after JIT warm-up.
+		for (const position of positions) {
+			engineBoard.board.loadFen(position.fen);
+			perft(engineBoard.board, Math.min(settings.perftDepth, 3));
+		}
+
+		for (const position of positions) {
+			const { perftDepth, searchDepth, iterations, runs, hashSizeMb } = settings;
+			record(benchmarkPerft(engineBoard, position, perftDepth, runs));
+			record(benchmarkHashedPerft(engineBoard, position, perftDepth, runs, hashSizeMb));
+			record(benchmarkSearch(engineBoard, position, searchDepth, runs, hashSizeMb));
+			record(benchmarkGenerateMoves(engineBoard, position, iterations, runs));
+			record(benchmarkMakeMove(engineBoard, position, iterations, runs));
+		}
+	}
+
+	return {
+		version: BENCHMARK_REPORT_VERSION,
+		createdAt: new Date().toISOString(),
+		options: settings,
+		results
+	};
+}
+
+function benchmarkPerft(
+	{ name, board }: EngineBoard,
+	position: PerftPosition,
+	depth: number,
+	runs: number
+): BenchmarkResult {
+	board.loadFen(position.fen);
+	return measure(name, BenchmarkKind.PERFT, position, depth, runs, () => perft(board, depth));
+}
+
+function benchmarkHashedPerft(
+	{ name, board }: EngineBoard,
+	position: PerftPosition,
+	depth: number,
+	runs: number,
+	hashSizeMb: number
+): BenchmarkResult {
+	board.loadFen(position.fen);
+	const transpositionTable = TranspositionTable.withSizeMb(hashSizeMb);
+	return measure(
+		name,
+		BenchmarkKind.HASHED_PERFT,
+		position,
+		depth,
+		runs,
+		() => perft(board, depth, transpositionTable),
+		() => transpositionTable.clear()
+	);
+}
+
+function benchmarkSearch(
+	{ name, board }: EngineBoard,
+	position: PerftPosition,
+	depth: number,
+	runs: number,
+	hashSizeMb: number
+): BenchmarkResult {
+	board.loadFen(position.fen);
+	const transpositionTable = TranspositionTable.withSizeMb(hashSizeMb);
+	const search = new Search(board, { transpositionTable });
+	return measure(
+		name,
+		BenchmarkKind.SEARCH,
+		position,
+		depth,
+		runs,
+		() => search.search({ depth }).nodes,
+		() => transpositionTable.clear()
+	);
+}
+
+function benchmarkGenerateMoves(
+	{ name, board }: EngineBoard,
+	position: PerftPosition,
+	iterations: number,
+	runs: number
+): BenchmarkResult {
+	board.loadFen(position.fen);
+	const buffer = board.allocateMoveBuffer();
+	return measure(name, BenchmarkKind.GENERATE_MOVES, position, 0, runs, () => {
+		for (let i = 0; i < iterations; i++) board.generateLegalMoves(buffer);
+		return iterations;
+	});
+}
+
+function benchmarkMakeMove(
+	{ name, board }: EngineBoard,
+	position: PerftPosition,
+	iterations: number,
+	runs: number
+): BenchmarkResult {
+	board.loadFen(position.fen);
+	const buffer = board.allocateMoveBuffer();
+	const count = board.generateLegalMoves(buffer);
+	return measure(name, BenchmarkKind.MAKE_MOVE, position, 0, runs, () => {
+		for (let i = 0; i < iterations; i++) {
+			for (let j = 0; j < count; j++) {
+				const move = board.getMoveByIndex(buffer, j);
+				board.makeMove(move);
+				board.unmakeMove(move);
+			}
+		}
+		return iterations * count;
+	});
+}
+
+function measure(
+	board: EngineBoardName,
+	kind: BenchmarkKind,
+	position: PerftPosition,
+	depth: number,
+	runs: number,
+	run: () => number,
+	reset?: () => void
+): BenchmarkResult {
+	// NOTE: The fastest run is the one least disturbed by GC pauses and JIT
+	//       recompilation; it is also clamped so that a run below the timer
+	//       resolution still gives a finite rate.
+	let count = 0;
+	let timeMs = Infinity;
+	for (let i = 0; i < runs; i++) {
+		reset?.();
+		const start = performance.now();
+		count = run();
+		timeMs = Math.min(timeMs, performance.now() - start);
+	}
+	timeMs = Math.max(timeMs, 0.001);
+	return {
+		board,
+		kind,
+		position: position.name,
+		depth,
+		count,
+		timeMs,
+		perSecond: Math.round((count * 1000) / timeMs)
+	};
+}
+
+export interface BenchmarkComparison {
+	board: EngineBoardName;
+	kind: BenchmarkKind;
+	position: string;
+	depth: number;
+	baselinePerSecond: number;
+	perSecond: number;
+	/** Relative speed change, e.g. -0.25 when 25% slower than the baseline. */
+	change: number;
+	isRegression: boolean;
+	/**
+	 * The node or call count differs from the baseline. For perft that is a move
+	 * generation bug, for search a change in what the search visits.
+	 */
+	isCountChanged: boolean;
+}
+
+/**
+ * Matches the results of two reports by board, kind, position and depth.
+ * A result is a regression when it is more than `threshold` slower than the
+ * baseline. Results without a counterpart are skipped.
+ */
+export function compareBenchmarks(
+	current: BenchmarkReport,
+	baseline: BenchmarkReport,
+	threshold = 0.1
+): BenchmarkComparison[] {
+	const baselineResults = new Map(baseline.results.map((result) => [resultKey(result), result]));
+	const comparisons: BenchmarkComparison[] = [];
+	for (const result of current.results) {
+		const previous = baselineResults.get(resultKey(result));
+		if (!previous) continue;
+		const change = result.perSecond / previous.perSecond - 1;
+		comparisons.push({
+			board: result.board,
+			kind: result.kind,
+			position: result.position,
+			depth: result.depth,
+			baselinePerSecond: previous.perSecond,
+			perSecond: result.perSecond,
+			change,
+			isRegression: change < -threshold,
+			isCountChanged: result.count !== previous.count
+		});
+	}
+	return comparisons;
+}
+
+function resultKey(result: BenchmarkResult): string {
+	return `${result.board}/${result.kind}/${result.position}/${result.depth}`;
+}
+
+/** Reads a report written by the runner; throws on anything else. */
+export function parseBenchmarkReport(json: string): BenchmarkReport {
+	const report = JSON.parse(json) as BenchmarkReport;
+	if (report?.version !== BENCHMARK_REPORT_VERSION || !Array.isArray(report.results)) {
+		throw new Error(`Not a benchmark report of version ${BENCHMARK_REPORT_VERSION}`);
+	}
+	return report;
+}
+
+/**
+ * Per board and kind: total count divided by total time, over all positions,
+ * and relative to the fastest board of that kind.
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+	const totals = new Map<string, { kind: BenchmarkKind; count: number; timeMs: number }>();
+	for (const result of report.results) {
+		const key = `${result.board.padEnd(10)} ${result.kind.padEnd(20)}`;
+		const total = totals.get(key) ?? { kind: result.kind, count: 0, timeMs: 0 };
+		total.count += result.count;
+		total.timeMs += result.timeMs;
+		totals.set(key, total);
+	}
+	const rates = [...totals].map(([key, total]) => ({
+		key,
+		kind: total.kind,
+		perSecond: Math.round((total.count * 1000) / total.timeMs)
+	}));
+	const fastest = new Map<BenchmarkKind, number>();
+	for (const { kind, perSecond } of rates) {
+		fastest.set(kind, Math.max(fastest.get(kind) ?? 0, perSecond));
+	}
+	return rates
+		.map(({ key, kind, perSecond }) => {
+			const relative = (perSecond / fastest.get(kind)!).toFixed(2);
+			return `${key} ${perSecond.toString().padStart(12)}/s  ${relative}x`;
+		})
+		.join('\n');
+}
+
+export function formatBenchmarkComparisons(comparisons: BenchmarkComparison[]): string {
+	const flagged = comparisons.filter((c) => c.isRegression || c.isCountChanged);
+	if (flagged.length === 0) return `No regressions in ${comparisons.length} results.`;
+	return flagged
+		.map((c) => {
+			const change = `${c.change >= 0 ? '+' : ''}${(c.change * 100).toFixed(1)}%`;
+			const flags = [c.isRegression && 'slower', c.isCountChanged && 'count changed']
+				.filter(Boolean)
+				.join(', ');
+			return `${c.board} ${c.kind} "${c.position}" depth ${c.depth}: ${c.baselinePerSecond} -> ${c.perSecond}/s (${change}) ${flags}`;
+		})
+		.join('\n');
+}
+
+export interface BenchmarkCliOptions {
+	benchmark: Partial<BenchmarkOptions>;
+	/** Read a previous report from stdin and compare against it. */
+	compare: boolean;
+	threshold: number;
+}
+
+export function parseBenchmarkArgs(args: string[]): BenchmarkCliOptions {
+	const options: BenchmarkCliOptions = { benchmark: {}, compare: false, threshold: 0.1 };
+	const positiveInteger = (value: string) => Number.isInteger(Number(value)) && Number(value) > 0;
+	for (const arg of args) {
+		const [name, value = ''] = arg.split('=', 2);
+		const boards = value.split(',');
+		if (name === '--boards' && boards.every(isEngineBoardName)) {
+			options.benchmark.boards = boards;
+		} else if (name === '--perft-depth' && positiveInteger(value)) {
+			options.benchmark.perftDepth = Number(value);
+		} else if (name === '--search-depth' && positiveInteger(value)) {
+			options.benchmark.searchDepth = Number(value);
+		} else if (name === '--iterations' && positiveInteger(value)) {
+			options.benchmark.iterations = Number(value);
+		} else if (name === '--runs' && positiveInteger(value)) {
+			options.benchmark.runs = Number(value);
+		} else if (name === '--compare' && value === '') {
+			options.compare = true;
+		} else if (name === '--threshold' && Number(value) > 0 && Number(value) < 1) {
+			options.threshold = Number(value);
+		} else {
+			throw new Error(
+				`Unknown argument: ${arg}. Usage: [--boards=${ENGINE_BOARDS.join(',')}] ` +
+					'[--perft-depth=<n>] [--search-depth=<n>] [--iterations=<n>] [--runs=<n>] ' +
+					'[--compare < baseline.json] [--threshold=<0..1>]'
+			);
+		}
+	}
+	return options;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	algebraicToSquare,
+	BoardBitboard,
+	bitboardMoveToUci,
+	MoveFlag,
+	moveFlags,
+	moveFrom,
+	moveTo,
+	NO_SQUARE,
+	packMove,
+	pieceKind,
+	PieceColor,
+	PieceType,
+	squareToAlgebraic
+} from '$lib/chess/engine/bitboard';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { PERFT_POSITIONS } from '$lib/chess/engine/perft';
+import { mulberry32 } from '$lib/chess/engine/zobrist';
+
+function legalMoves(board: BoardBitboard): string[] {
+	const buffer = board.allocateMoveBuffer();
+	const count = board.generateLegalMoves(buffer);
+	const moves: string[] = [];
+	for (let i = 0; i < count; i++) moves.push(bitboardMoveToUci(buffer[i]));
+	return moves.sort();
+}
+
+describe('squares and moves', () => {
+	it('round-trips algebraic squares', () => {
+		expect(algebraicToSquare('a1')).toBe(0);
+		expect(algebraicToSquare('h8')).toBe(63);
+		expect(squareToAlgebraic(algebraicToSquare('e4'))).toBe('e4');
+		expect(algebraicToSquare('i9')).toBe(NO_SQUARE);
+	});
+
+	it('packs from, to and flags into one integer', () => {
+		const move = packMove(52, 60, MoveFlag.PROMO_ROOK_CAPTURE);
+		expect(moveFrom(move)).toBe(52);
+		expect(moveTo(move)).toBe(60);
+		expect(moveFlags(move)).toBe(MoveFlag.PROMO_ROOK_CAPTURE);
+		expect(bitboardMoveToUci(move)).toBe('e7e8r');
+	});
+});
+
+describe('BoardBitboard', () => {
+	it('keeps the bitboards and the mailbox in sync', () => {
+		const board = new BoardBitboard(PERFT_POSITIONS[1].fen);
+		for (let square = 0; square < 64; square++) {
+			const piece = board.pieceAt(square);
+			for (let kind = 0; kind < 12; kind++) {
+				const word = square < 32 ? board.piecesLo[kind] : board.piecesHi[kind];
+				const isSet = (word & (1 << square % 32)) !== 0;
+				const expected =
+					piece !== 0 &&
+					kind === pieceKind(Math.abs(piece), piece > 0 ? PieceColor.WHITE : PieceColor.BLACK);
+				expect(isSet, `${squareToAlgebraic(square)} kind ${kind}`).toBe(expected);
+			}
+		}
+	});
+
+	it('stops sliding attacks at the first blocker on both halves of the board', () => {
+		const board = new BoardBitboard('4k3/8/8/8/4p3/8/8/R3K2r w - - 0 1');
+		expect(board.isSquareAttacked(algebraicToSquare('a8'), PieceColor.WHITE)).toBe(true);
+		expect(board.isSquareAttacked(algebraicToSquare('d1'), PieceColor.WHITE)).toBe(true);
+		expect(board.isSquareAttacked(algebraicToSquare('f1'), PieceColor.BLACK)).toBe(true);
+		expect(board.isSquareAttacked(algebraicToSquare('e3'), PieceColor.WHITE)).toBe(false);
+		expect(board.isSquareAttacked(algebraicToSquare('d3'), PieceColor.BLACK)).toBe(true);
+		expect(board.isSquareAttacked(algebraicToSquare('e8'), PieceColor.WHITE)).toBe(false);
+		expect(board.isInCheck()).toBe(true);
+	});
+
+	it('generates the same legal moves as BoardInt8 along random games', () => {
+		const random = mulberry32(7);
+		const board = new BoardBitboard();
+		const reference = new BoardInt8();
+		const referenceBuffer = reference.allocateMoveBuffer();
+		const buffer = board.allocateMoveBuffer();
+		for (const position of PERFT_POSITIONS) {
+			board.loadFen(position.fen);
+			for (let ply = 0; ply < 40; ply++) {
+				reference.loadFen(board.toFen());
+				const referenceCount = reference.generateLegalMoves(referenceBuffer);
+				const referenceMoves = Array.from(referenceBuffer.subarray(0, referenceCount), moveToUci);
+				expect(legalMoves(board), board.toFen()).toEqual(referenceMoves.sort());
+
+				const count = board.generateLegalMoves(buffer);
+				if (count === 0) break;
+				board.makeMove(buffer[random() % count]);
+				expect(board.computeHash(), board.toFen()).toEqual([board.hashLow(), board.hashHigh()]);
+			}
+		}
+	});
+
+	it('restores the position after unmaking every legal move', () => {
+		for (const position of PERFT_POSITIONS) {
+			const board = new BoardBitboard(position.fen);
+			const buffer = board.allocateMoveBuffer();
+			const count = board.generateLegalMoves(buffer);
+			for (let i = 0; i < count; i++) {
+				board.makeMove(buffer[i]);
+				board.unmakeMove(buffer[i]);
+				expect(board.toFen(), bitboardMoveToUci(buffer[i])).toBe(position.fen);
+				expect(board.hashLow()).toBe(board.computeHash()[0]);
+			}
+		}
+	});
+
+	it('detects insufficient material by bishop square colors', () => {
+		const isDrawn = (fen: string) => new BoardBitboard(fen).hasInsufficientMaterial();
+		expect(isDrawn('4k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe(true);
+		expect(isDrawn('2b1k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe(false);
+		expect(isDrawn('3bk3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe(true);
+		expect(isDrawn('4k3/8/8/8/8/8/8/1N2K1N1 w - - 0 1')).toBe(false);
+	});
+
+	it('evaluates like BoardInt8 apart from mobility', () => {
+		for (const position of PERFT_POSITIONS) {
+			const board = new BoardBitboard(position.fen);
+			const reference = new BoardInt8(position.fen);
+			expect(board.evaluateMaterial(), position.name).toBe(reference.evaluateMaterial());
+			expect(board.evaluatePST(), position.name).toBe(reference.evaluatePST());
+		}
+		expect(new BoardBitboard().evaluate()).toBe(0);
+		expect(new BoardBitboard().pieceAt(algebraicToSquare('d8'))).toBe(-PieceType.QUEEN);
+	});
+
+	it('rejects positions without both kings', () => {
+		expect(() => new BoardBitboard('8/8/8/8/8/8/8/4K3 w - - 0 1')).toThrow(/king/);
+	});
+});
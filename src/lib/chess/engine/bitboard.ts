@@ -0,0 +1,1235 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import {
+	evaluatePieceSquares,
+	evaluatePosition,
+	MOBILITY_WEIGHT,
+	PIECE_VALUES
+} from '$lib/chess/engine/evaluation';
+import {
+	ZOBRIST_BLACK_TO_MOVE_HIGH,
+	ZOBRIST_BLACK_TO_MOVE_LOW,
+	ZOBRIST_CASTLING_HIGH,
+	ZOBRIST_CASTLING_LOW,
+	ZOBRIST_EN_PASSANT_HIGH,
+	ZOBRIST_EN_PASSANT_LOW,
+	ZOBRIST_PIECES_HIGH,
+	ZOBRIST_PIECES_LOW,
+	zobristPieceIndex
+} from '$lib/chess/engine/zobrist';
+
+// NOTE: A bitboard is the set of squares a1 (bit 0) through h8 (bit 63), kept
+//       as two signed 32-bit words: `lo` holds ranks 1-4, `hi` ranks 5-8.
+//       Plain numbers keep every operation allocation-free, unlike BigInt.
+
+export const PieceColor = {
+	WHITE: 0,
+	BLACK: 1
+} as const;
+export type PieceColor = (typeof PieceColor)[keyof typeof PieceColor];
+
+function oppositeColor(color: PieceColor): PieceColor {
+	return (color ^ 1) as PieceColor;
+}
+
+export const PieceType = {
+	EMPTY: 0,
+	PAWN: 1,
+	KNIGHT: 2,
+	BISHOP: 3,
+	ROOK: 4,
+	QUEEN: 5,
+	KING: 6
+} as const;
+export type PieceType = (typeof PieceType)[keyof typeof PieceType];
+
+/** Bitboard index of a piece: `color * 6 + type - 1`, the piece order of the Zobrist tables. */
+export function pieceKind(type: number, color: PieceColor): number {
+	return color * 6 + type - 1;
+}
+
+export const NO_SQUARE = -1;
+export const MAX_MOVES = 256;
+export const MAX_HISTORY = 4096;
+export const MAX_MOVE_DEPTH = 128;
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FILE_CHARS = 'abcdefgh';
+const FEN_PIECES = ' pnbrqk';
+
+export function squareToAlgebraic(square: number): string {
+	return FILE_CHARS[square & 7] + ((square >> 3) + 1);
+}
+
+/** Square index (a1 = 0, h8 = 63) of algebraic notation such as "e4", or NO_SQUARE. */
+export function algebraicToSquare(str: string): number {
+	if (!/^[a-h][1-8]$/.test(str)) return NO_SQUARE;
+	return (Number(str[1]) - 1) * 8 + FILE_CHARS.indexOf(str[0]);
+}
+
+// ----------------------------------------------------------------------------
+// Moves
+// ----------------------------------------------------------------------------
+
+// NOTE: Same 4-bit scheme as Flags0x88: bit 2 (value 4) marks a capture, bit 3
+//       (value 8) a promotion, whose piece is `(flags & 3) + KNIGHT`.
+export const MoveFlag = {
+	QUIET: 0,
+	DOUBLE_PAWN: 0b1,
+	KING_CASTLE: 0b10,
+	QUEEN_CASTLE: 0b11,
+	CAPTURE: 0b100,
+	EN_PASSANT_CAPTURE: 0b101,
+	PROMO_KNIGHT: 0b1000,
+	PROMO_BISHOP: 0b1001,
+	PROMO_ROOK: 0b1010,
+	PROMO_QUEEN: 0b1011,
+	PROMO_KNIGHT_CAPTURE: 0b1100,
+	PROMO_BISHOP_CAPTURE: 0b1101,
+	PROMO_ROOK_CAPTURE: 0b1110,
+	PROMO_QUEEN_CAPTURE: 0b1111
+} as const;
+
+const CAPTURE_FLAG_BIT = 0b0100;
+const PROMOTION_FLAG_BIT = 0b1000;
+
+// NOTE: A move is a single integer:
+//       bits  0..5  -> from square
+//       bits  6..11 -> to square (the castling rook in Chess960)
+//       bits 12..15 -> flags, see MoveFlag
+export function packMove(from: number, to: number, flags: number): number {
+	return from | (to << 6) | (flags << 12);
+}
+
+export function moveFrom(move: number): number {
+	return move & 0x3f;
+}
+
+export function moveTo(move: number): number {
+	return (move >> 6) & 0x3f;
+}
+
+export function moveFlags(move: number): number {
+	return (move >> 12) & 0xf;
+}
+
+function isCaptureFlag(flags: number): boolean {
+	return (flags & CAPTURE_FLAG_BIT) !== 0;
+}
+
+function isPromotionFlag(flags: number): boolean {
+	return (flags & PROMOTION_FLAG_BIT) !== 0;
+}
+
+function promotionType(flags: number): number {
+	return (flags & 0b11) + PieceType.KNIGHT;
+}
+
+export function bitboardMoveToUci(move: number): string {
+	const flags = moveFlags(move);
+	const promotion = isPromotionFlag(flags) ? FEN_PIECES[promotionType(flags)] : '';
+	return squareToAlgebraic(moveFrom(move)) + squareToAlgebraic(moveTo(move)) + promotion;
+}
+
+// ----------------------------------------------------------------------------
+// Bit tricks and attack tables
+// ----------------------------------------------------------------------------
+
+/** Index of the lowest set bit of a non-zero word. */
+function lowestBit(word: number): number {
+	return 31 - Math.clz32(word & -word);
+}
+
+/** Index of the highest set bit of a non-zero word. */
+function highestBit(word: number): number {
+	return 31 - Math.clz32(word);
+}
+
+function popCount(word: number): number {
+	word -= (word >>> 1) & 0x55555555;
+	word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+	return (Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) & 0xff;
+}
+
+function addSquare(lo: Int32Array, hi: Int32Array, index: number, square: number): void {
+	if (square < 32) {
+		lo[index] |= 1 << square;
+	} else {
+		hi[index] |= 1 << (square - 32);
+	}
+}
+
+// NOTE: Ray directions as [file, rank] steps; the rook uses the first four, the
+//       bishop the last four. Positive directions run toward h8, so the nearest
+//       blocker on their ray is its lowest set bit, on the others the highest.
+const DIRECTIONS = [
+	[0, 1],
+	[1, 0],
+	[0, -1],
+	[-1, 0],
+	[1, 1],
+	[-1, 1],
+	[1, -1],
+	[-1, -1]
+] as const;
+const IS_POSITIVE_DIRECTION = [true, true, false, false, true, true, false, false];
+const ROOK_DIRECTIONS_END = 4;
+const BISHOP_DIRECTIONS_START = 4;
+
+const KNIGHT_STEPS = [
+	[1, 2],
+	[2, 1],
+	[2, -1],
+	[1, -2],
+	[-1, -2],
+	[-2, -1],
+	[-2, 1],
+	[-1, 2]
+] as const;
+
+// Squares on each ray, indexed by `direction * 64 + square`, excluding the square itself.
+const RAYS_LO = new Int32Array(DIRECTIONS.length * 64);
+const RAYS_HI = new Int32Array(DIRECTIONS.length * 64);
+const KNIGHT_ATTACKS_LO = new Int32Array(64);
+const KNIGHT_ATTACKS_HI = new Int32Array(64);
+const KING_ATTACKS_LO = new Int32Array(64);
+const KING_ATTACKS_HI = new Int32Array(64);
+// Squares attacked by a pawn, indexed by `color * 64 + square`.
+const PAWN_ATTACKS_LO = new Int32Array(128);
+const PAWN_ATTACKS_HI = new Int32Array(128);
+// Index 0 holds the dark squares, index 1 the light ones.
+const SQUARE_COLORS_LO = new Int32Array(2);
+const SQUARE_COLORS_HI = new Int32Array(2);
+
+for (let square = 0; square < 64; square++) {
+	const file = square & 7;
+	const rank = square >> 3;
+	const isInside = (f: number, r: number) => f >= 0 && f < 8 && r >= 0 && r < 8;
+
+	for (let direction = 0; direction < DIRECTIONS.length; direction++) {
+		const [df, dr] = DIRECTIONS[direction];
+		for (let f = file + df, r = rank + dr; isInside(f, r); f += df, r += dr) {
+			addSquare(RAYS_LO, RAYS_HI, direction * 64 + square, r * 8 + f);
+		}
+		if (isInside(file + df, rank + dr)) {
+			addSquare(KING_ATTACKS_LO, KING_ATTACKS_HI, square, (rank + dr) * 8 + file + df);
+		}
+	}
+	for (const [df, dr] of KNIGHT_STEPS) {
+		if (isInside(file + df, rank + dr)) {
+			addSquare(KNIGHT_ATTACKS_LO, KNIGHT_ATTACKS_HI, square, (rank + dr) * 8 + file + df);
+		}
+	}
+	for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+		const r = rank + (color === PieceColor.WHITE ? 1 : -1);
+		for (const f of [file - 1, file + 1]) {
+			if (!isInside(f, r)) continue;
+			addSquare(PAWN_ATTACKS_LO, PAWN_ATTACKS_HI, color * 64 + square, r * 8 + f);
+		}
+	}
+	addSquare(SQUARE_COLORS_LO, SQUARE_COLORS_HI, (file + rank) & 1, square);
+}
+
+// ----------------------------------------------------------------------------
+// Castling rights: the same bitmask as on the other engine boards
+// (1 = White king-side, 2 = White queen-side, 4 = Black king-side, 8 = Black queen-side).
+// ----------------------------------------------------------------------------
+
+// Rook home square of every castling right, indexed by the bit number of the
+// right: WK, WQ, BK, BQ. Chess960 positions replace them on load.
+const STANDARD_CASTLING_ROOK_SQUARES = [7, 0, 63, 56];
+
+// Wherever the king and the rook start, castling puts them on the same squares
+// as in standard chess: g/f for king-side, c/d for queen-side.
+function castlingKingTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & ~7) + (isKingSide ? 6 : 2);
+}
+
+function castlingRookTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & ~7) + (isKingSide ? 5 : 3);
+}
+
+// Static exchange values. The king outweighs anything it could win, so an
+// exchange never ends with the king recapturing into an attack.
+const SEE_VALUES = [0, 100, 320, 330, 500, 900, 20000];
+const MAX_SEE_EXCHANGES = 40;
+
+// Halfmoves without a capture or pawn move after which the game is drawn.
+const FIFTY_MOVE_RULE_PLIES = 100;
+
+export class BoardBitboard implements AbstractBoard<Int32Array, number> {
+	/** One bitboard per piece kind (see pieceKind), split into low and high words. */
+	readonly piecesLo: Int32Array = new Int32Array(12);
+	readonly piecesHi: Int32Array = new Int32Array(12);
+	readonly mobilityWeight = MOBILITY_WEIGHT;
+	/** Occupancy per color. */
+	readonly colorsLo: Int32Array = new Int32Array(2);
+	readonly colorsHi: Int32Array = new Int32Array(2);
+	/** Mailbox view of the same position: signed piece types, White positive. */
+	readonly squares: Int8Array = new Int8Array(64);
+
+	turn: PieceColor = PieceColor.WHITE;
+	castling = 0;
+	enPassantSquare = NO_SQUARE;
+	halfMoveClock = 0;
+	fullMoveNumber = 1;
+
+	/** Chess960 castling: the king moves onto its rook, FENs get Shredder castling fields. */
+	chess960 = false;
+
+	/** Rook home square per castling right, see STANDARD_CASTLING_ROOK_SQUARES. */
+	private readonly castlingRookSquares = Int8Array.from(STANDARD_CASTLING_ROOK_SQUARES);
+	// Castling rights that survive a move from or to each square, built on load.
+	private readonly castleMask = new Int8Array(64);
+
+	private zobristLow = 0;
+	private zobristHigh = 0;
+
+	/** Result of computeSlidingAttacks, to avoid allocating a pair per call. */
+	private attacksLo = 0;
+	private attacksHi = 0;
+
+	private readonly moveBuffers = Array.from(
+		{ length: MAX_MOVE_DEPTH },
+		() => new Int32Array(MAX_MOVES)
+	);
+	private readonly mobilityBuffer = new Int32Array(MAX_MOVES);
+	private readonly seeGains = new Int32Array(MAX_SEE_EXCHANGES);
+	/** Occupancy during an exchange: pieces that already captured are gone, uncovering x-rays. */
+	private seeOccupiedLo = 0;
+	private seeOccupiedHi = 0;
+
+	private historyCount = 0;
+	private readonly historyCaptured = new Int8Array(MAX_HISTORY);
+	private readonly historyCastling = new Int8Array(MAX_HISTORY);
+	private readonly historyEnPassantSquare = new Int8Array(MAX_HISTORY);
+	private readonly historyHalfMoveClock = new Int32Array(MAX_HISTORY);
+	private readonly historyFullMoveNumber = new Int32Array(MAX_HISTORY);
+	private readonly historyZobristLow = new Int32Array(MAX_HISTORY);
+	private readonly historyZobristHigh = new Int32Array(MAX_HISTORY);
+
+	constructor(fen = INITIAL_FEN) {
+		this.loadFen(fen);
+	}
+
+	loadFen(fen: string): void {
+		const [
+			placement,
+			turnStr = 'w',
+			castlingStr = '-',
+			enPassantStr = '-',
+			halfMoveStr = '0',
+			fullMoveStr = '1'
+		] = fen.trim().split(/\s+/);
+		if (!placement) {
+			throw new Error('Invalid FEN string: missing piece placement');
+		}
+
+		this.piecesLo.fill(0);
+		this.piecesHi.fill(0);
+		this.colorsLo.fill(0);
+		this.colorsHi.fill(0);
+		this.squares.fill(PieceType.EMPTY);
+		this.historyCount = 0;
+
+		const ranks = placement.split('/');
+		for (let rankIndex = 0; rankIndex < ranks.length && rankIndex < 8; rankIndex++) {
+			const rank = 7 - rankIndex;
+			let file = 0;
+			for (const char of ranks[rankIndex]) {
+				if (char >= '1' && char <= '8') {
+					file += Number(char);
+					continue;
+				}
+				const type = FEN_PIECES.indexOf(char.toLowerCase());
+				if (type <= 0 || file > 7) {
+					throw new Error(`Invalid FEN string: unexpected "${char}" in rank ${rank + 1}`);
+				}
+				const color = char === char.toLowerCase() ? PieceColor.BLACK : PieceColor.WHITE;
+				this.putPiece(rank * 8 + file, type, color);
+				file++;
+			}
+		}
+		for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+			const kind = pieceKind(PieceType.KING, color);
+			if (popCount(this.piecesLo[kind]) + popCount(this.piecesHi[kind]) !== 1) {
+				throw new Error('Invalid FEN string: expected exactly one king for each side');
+			}
+		}
+
+		this.turn = turnStr === 'b' ? PieceColor.BLACK : PieceColor.WHITE;
+		this.loadCastlingRights(castlingStr);
+		this.enPassantSquare = algebraicToSquare(enPassantStr);
+		const halfMoveClock = parseInt(halfMoveStr, 10);
+		this.halfMoveClock = isNaN(halfMoveClock) ? 0 : halfMoveClock;
+		const fullMoveNumber = parseInt(fullMoveStr, 10);
+		this.fullMoveNumber = isNaN(fullMoveNumber) ? 1 : fullMoveNumber;
+
+		[this.zobristLow, this.zobristHigh] = this.computeHash();
+	}
+
+	toFen(): string {
+		const rows: string[] = [];
+		for (let rank = 7; rank >= 0; rank--) {
+			let row = '';
+			let emptyCount = 0;
+			for (let file = 0; file < 8; file++) {
+				const piece = this.squares[rank * 8 + file];
+				if (piece === PieceType.EMPTY) {
+					emptyCount++;
+					continue;
+				}
+				if (emptyCount > 0) row += emptyCount;
+				emptyCount = 0;
+				const char = FEN_PIECES[Math.abs(piece)];
+				row += piece > 0 ? char.toUpperCase() : char;
+			}
+			if (emptyCount > 0) row += emptyCount;
+			rows.push(row);
+		}
+
+		let castling = '';
+		for (let right = 0; right < STANDARD_CASTLING_ROOK_SQUARES.length; right++) {
+			if ((this.castling & (1 << right)) === 0) continue;
+			// Shredder-FEN in Chess960: the file of every castling rook.
+			const char = this.chess960
+				? FILE_CHARS[this.castlingRookSquares[right] & 7]
+				: right % 2 === 0
+					? 'k'
+					: 'q';
+			castling += right < 2 ? char.toUpperCase() : char;
+		}
+
+		const turn = this.turn === PieceColor.WHITE ? 'w' : 'b';
+		const enPassant =
+			this.enPassantSquare === NO_SQUARE ? '-' : squareToAlgebraic(this.enPassantSquare);
+		return `${rows.join('/')} ${turn} ${castling || '-'} ${enPassant} ${this.halfMoveClock} ${this.fullMoveNumber}`;
+	}
+
+	// Standard, X-FEN and Shredder-FEN castling fields, read the same way as by
+	// Board0x88: `K`/`Q` castle with the outermost rook on that side of the king,
+	// a file letter names the rook. Unknown characters are skipped.
+	private loadCastlingRights(castlingStr: string): void {
+		this.castling = 0;
+		this.chess960 = false;
+		this.castlingRookSquares.set(STANDARD_CASTLING_ROOK_SQUARES);
+
+		for (const char of castlingStr) {
+			const letter = char.toLowerCase();
+			const isFileLetter = letter >= 'a' && letter <= 'h';
+			if (letter !== 'k' && letter !== 'q' && !isFileLetter) continue;
+
+			const color = char === letter ? PieceColor.BLACK : PieceColor.WHITE;
+			const backRank = color === PieceColor.WHITE ? 0 : 56;
+			const kingSquare = this.kingSquare(color);
+			const hasKing = (kingSquare & ~7) === backRank;
+			const kingFile = hasKing ? kingSquare & 7 : 4;
+
+			let isKingSide: boolean;
+			let rookSquare = NO_SQUARE;
+			if (isFileLetter) {
+				const rookFile = FILE_CHARS.indexOf(letter);
+				isKingSide = rookFile > kingFile;
+				rookSquare = backRank + rookFile;
+				this.chess960 = true;
+			} else {
+				isKingSide = letter === 'k';
+				if (hasKing) rookSquare = this.findOutermostRook(kingSquare, color, isKingSide);
+			}
+
+			const right = color * 2 + (isKingSide ? 0 : 1);
+			const standardRookSquare = STANDARD_CASTLING_ROOK_SQUARES[right];
+			if (rookSquare === NO_SQUARE) rookSquare = standardRookSquare;
+			if (hasKing && (kingFile !== 4 || rookSquare !== standardRookSquare)) {
+				this.chess960 = true;
+			}
+			this.castling |= 1 << right;
+			this.castlingRookSquares[right] = rookSquare;
+		}
+
+		this.castleMask.fill(0b1111);
+		for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+			const backRank = color === PieceColor.WHITE ? 0 : 56;
+			const kingSquare = this.kingSquare(color);
+			const kingHome = (kingSquare & ~7) === backRank ? kingSquare : backRank + 4;
+			this.castleMask[kingHome] &= color === PieceColor.WHITE ? 0b1100 : 0b0011;
+		}
+		for (let right = 0; right < STANDARD_CASTLING_ROOK_SQUARES.length; right++) {
+			this.castleMask[this.castlingRookSquares[right]] &= ~(1 << right);
+		}
+	}
+
+	private findOutermostRook(kingSquare: number, color: PieceColor, isKingSide: boolean): number {
+		const rook = color === PieceColor.WHITE ? PieceType.ROOK : -PieceType.ROOK;
+		const backRank = kingSquare & ~7;
+		const kingFile = kingSquare & 7;
+		if (isKingSide) {
+			for (let file = 7; file > kingFile; file--) {
+				if (this.squares[backRank + file] === rook) return backRank + file;
+			}
+		} else {
+			for (let file = 0; file < kingFile; file++) {
+				if (this.squares[backRank + file] === rook) return backRank + file;
+			}
+		}
+		return NO_SQUARE;
+	}
+
+	allocateMoveBuffer(): Int32Array {
+		return new Int32Array(MAX_MOVES);
+	}
+
+	getMoveByIndex(buffer: Int32Array, index: number): number {
+		return buffer[index];
+	}
+
+	generatePseudoLegalMoves(out: Int32Array): number {
+		const color = this.turn;
+		const notOwnLo = ~this.colorsLo[color];
+		const notOwnHi = ~this.colorsHi[color];
+		const occupiedLo = this.colorsLo[0] | this.colorsLo[1];
+		const occupiedHi = this.colorsHi[0] | this.colorsHi[1];
+		let n = this.generatePawnMoves(out, 0, color);
+
+		for (let type: number = PieceType.KNIGHT; type <= PieceType.KING; type++) {
+			const kind = pieceKind(type, color);
+			for (let word = 0; word < 2; word++) {
+				let bits = word === 0 ? this.piecesLo[kind] : this.piecesHi[kind];
+				while (bits !== 0) {
+					const from = word * 32 + lowestBit(bits);
+					bits &= bits - 1;
+
+					switch (type) {
+						case PieceType.KNIGHT:
+							this.attacksLo = KNIGHT_ATTACKS_LO[from];
+							this.attacksHi = KNIGHT_ATTACKS_HI[from];
+							break;
+						case PieceType.BISHOP:
+							this.computeSlidingAttacks(from, BISHOP_DIRECTIONS_START, 8, occupiedLo, occupiedHi);
+							break;
+						case PieceType.ROOK:
+							this.computeSlidingAttacks(from, 0, ROOK_DIRECTIONS_END, occupiedLo, occupiedHi);
+							break;
+						case PieceType.QUEEN:
+							this.computeSlidingAttacks(from, 0, 8, occupiedLo, occupiedHi);
+							break;
+						case PieceType.KING:
+							this.attacksLo = KING_ATTACKS_LO[from];
+							this.attacksHi = KING_ATTACKS_HI[from];
+							break;
+					}
+					n = this.addTargets(out, n, from, this.attacksLo & notOwnLo, this.attacksHi & notOwnHi);
+					if (type === PieceType.KING) n = this.generateCastlingMoves(out, n, from, color);
+				}
+			}
+		}
+
+		return n;
+	}
+
+	private generatePawnMoves(out: Int32Array, n: number, color: PieceColor): number {
+		const squares = this.squares;
+		const enemyLo = this.colorsLo[oppositeColor(color)];
+		const enemyHi = this.colorsHi[oppositeColor(color)];
+		const forward = color === PieceColor.WHITE ? 8 : -8;
+		const startRank = color === PieceColor.WHITE ? 1 : 6;
+		const promotionRank = color === PieceColor.WHITE ? 7 : 0;
+		const kind = pieceKind(PieceType.PAWN, color);
+
+		for (let word = 0; word < 2; word++) {
+			let bits = word === 0 ? this.piecesLo[kind] : this.piecesHi[kind];
+			while (bits !== 0) {
+				const from = word * 32 + lowestBit(bits);
+				bits &= bits - 1;
+				const promotes = (from + forward) >> 3 === promotionRank;
+
+				// Single (and double) push.
+				const to = from + forward;
+				if (squares[to] === PieceType.EMPTY) {
+					if (promotes) {
+						n = addPromotions(out, n, from, to, MoveFlag.PROMO_KNIGHT);
+					} else {
+						out[n++] = packMove(from, to, MoveFlag.QUIET);
+						if (from >> 3 === startRank && squares[to + forward] === PieceType.EMPTY) {
+							out[n++] = packMove(from, to + forward, MoveFlag.DOUBLE_PAWN);
+						}
+					}
+				}
+
+				// Captures (and en passant).
+				const attacks = color * 64 + from;
+				for (let targetWord = 0; targetWord < 2; targetWord++) {
+					let targets =
+						targetWord === 0
+							? PAWN_ATTACKS_LO[attacks] & enemyLo
+							: PAWN_ATTACKS_HI[attacks] & enemyHi;
+					while (targets !== 0) {
+						const target = targetWord * 32 + lowestBit(targets);
+						targets &= targets - 1;
+						if (promotes) {
+							n = addPromotions(out, n, from, target, MoveFlag.PROMO_KNIGHT_CAPTURE);
+						} else {
+							out[n++] = packMove(from, target, MoveFlag.CAPTURE);
+						}
+					}
+				}
+				const enPassant = this.enPassantSquare;
+				if (
+					enPassant !== NO_SQUARE &&
+					hasSquare(PAWN_ATTACKS_LO, PAWN_ATTACKS_HI, attacks, enPassant)
+				) {
+					out[n++] = packMove(from, enPassant, MoveFlag.EN_PASSANT_CAPTURE);
+				}
+			}
+		}
+
+		return n;
+	}
+
+	private addTargets(
+		out: Int32Array,
+		n: number,
+		from: number,
+		targetsLo: number,
+		targetsHi: number
+	): number {
+		for (let word = 0; word < 2; word++) {
+			let bits = word === 0 ? targetsLo : targetsHi;
+			while (bits !== 0) {
+				const to = word * 32 + lowestBit(bits);
+				bits &= bits - 1;
+				const flags = this.squares[to] === PieceType.EMPTY ? MoveFlag.QUIET : MoveFlag.CAPTURE;
+				out[n++] = packMove(from, to, flags);
+			}
+		}
+		return n;
+	}
+
+	private generateCastlingMoves(
+		out: Int32Array,
+		n: number,
+		from: number,
+		color: PieceColor
+	): number {
+		const backRank = color === PieceColor.WHITE ? 0 : 56;
+		if ((from & ~7) !== backRank) return n;
+		if (!this.chess960 && from !== backRank + 4) return n;
+
+		const enemy = oppositeColor(color);
+		const rook = color === PieceColor.WHITE ? PieceType.ROOK : -PieceType.ROOK;
+		const firstRight = color * 2;
+		for (let right = firstRight; right < firstRight + 2; right++) {
+			if ((this.castling & (1 << right)) === 0) continue;
+			const rookSquare = this.castlingRookSquares[right];
+			if (this.squares[rookSquare] !== rook) continue;
+
+			const isKingSide = right === firstRight;
+			const kingTo = castlingKingTarget(from, isKingSide);
+			const rookTo = castlingRookTarget(from, isKingSide);
+
+			// Everything between the outermost of the king, the rook and their
+			// targets is empty, except for the castling king and rook.
+			const low = Math.min(from, rookSquare, kingTo, rookTo);
+			const high = Math.max(from, rookSquare, kingTo, rookTo);
+			let isClear = true;
+			for (let sq = low; sq <= high && isClear; sq++) {
+				isClear = sq === from || sq === rookSquare || this.squares[sq] === PieceType.EMPTY;
+			}
+			if (!isClear) continue;
+
+			// The king neither starts in check nor crosses or lands on an attacked square.
+			const step = kingTo > from ? 1 : -1;
+			let isSafe = true;
+			for (let sq = from; isSafe; sq += step) {
+				isSafe = !this.isSquareAttacked(sq, enemy);
+				if (sq === kingTo) break;
+			}
+			if (!isSafe) continue;
+
+			out[n++] = packMove(
+				from,
+				this.chess960 ? rookSquare : kingTo,
+				isKingSide ? MoveFlag.KING_CASTLE : MoveFlag.QUEEN_CASTLE
+			);
+		}
+		return n;
+	}
+
+	generateLegalMoves(out: Int32Array, moveDepth = 0): number {
+		if (moveDepth < 0 || moveDepth >= MAX_MOVE_DEPTH) {
+			throw new Error(`Move generation depth out of bounds: ${moveDepth}`);
+		}
+
+		const color = this.turn;
+		const pseudoMoves = this.moveBuffers[moveDepth];
+		const count = this.generatePseudoLegalMoves(pseudoMoves);
+
+		let n = 0;
+		for (let i = 0; i < count; i++) {
+			const move = pseudoMoves[i];
+			this.makeMove(move);
+			if (!this.isSquareAttacked(this.kingSquare(color), oppositeColor(color))) {
+				out[n++] = move;
+			}
+			this.unmakeMove(move);
+		}
+
+		return n;
+	}
+
+	/**
+	 * Classical ray attacks: every ray of the given directions up to and
+	 * including its nearest blocker. Stores the result in attacksLo/attacksHi.
+	 */
+	private computeSlidingAttacks(
+		square: number,
+		firstDirection: number,
+		endDirection: number,
+		occupiedLo: number,
+		occupiedHi: number
+	): void {
+		let lo = 0;
+		let hi = 0;
+		for (let direction = firstDirection; direction < endDirection; direction++) {
+			const ray = direction * 64 + square;
+			let rayLo = RAYS_LO[ray];
+			let rayHi = RAYS_HI[ray];
+			const blockersLo = rayLo & occupiedLo;
+			const blockersHi = rayHi & occupiedHi;
+			if (blockersLo !== 0 || blockersHi !== 0) {
+				let blocker: number;
+				if (IS_POSITIVE_DIRECTION[direction]) {
+					blocker = blockersLo !== 0 ? lowestBit(blockersLo) : 32 + lowestBit(blockersHi);
+				} else {
+					blocker = blockersHi !== 0 ? 32 + highestBit(blockersHi) : highestBit(blockersLo);
+				}
+				// Drop everything behind the blocker.
+				rayLo ^= RAYS_LO[direction * 64 + blocker];
+				rayHi ^= RAYS_HI[direction * 64 + blocker];
+			}
+			lo |= rayLo;
+			hi |= rayHi;
+		}
+		this.attacksLo = lo;
+		this.attacksHi = hi;
+	}
+
+	isSquareAttacked(square: number, byColor: number): boolean {
+		const color = byColor as PieceColor;
+		const lo = this.piecesLo;
+		const hi = this.piecesHi;
+
+		// A `color` pawn attacks `square` from where an enemy pawn on `square` would attack.
+		const pawnSquares = oppositeColor(color) * 64 + square;
+		const pawn = pieceKind(PieceType.PAWN, color);
+		if (
+			((PAWN_ATTACKS_LO[pawnSquares] & lo[pawn]) | (PAWN_ATTACKS_HI[pawnSquares] & hi[pawn])) !==
+			0
+		) {
+			return true;
+		}
+
+		const knight = pieceKind(PieceType.KNIGHT, color);
+		if (
+			((KNIGHT_ATTACKS_LO[square] & lo[knight]) | (KNIGHT_ATTACKS_HI[square] & hi[knight])) !==
+			0
+		) {
+			return true;
+		}
+
+		const king = pieceKind(PieceType.KING, color);
+		if (((KING_ATTACKS_LO[square] & lo[king]) | (KING_ATTACKS_HI[square] & hi[king])) !== 0) {
+			return true;
+		}
+
+		const occupiedLo = this.colorsLo[0] | this.colorsLo[1];
+		const occupiedHi = this.colorsHi[0] | this.colorsHi[1];
+		const queen = pieceKind(PieceType.QUEEN, color);
+
+		const bishop = pieceKind(PieceType.BISHOP, color);
+		const diagonalLo = lo[bishop] | lo[queen];
+		const diagonalHi = hi[bishop] | hi[queen];
+		if ((diagonalLo | diagonalHi) !== 0) {
+			this.computeSlidingAttacks(square, BISHOP_DIRECTIONS_START, 8, occupiedLo, occupiedHi);
+			if (((this.attacksLo & diagonalLo) | (this.attacksHi & diagonalHi)) !== 0) return true;
+		}
+
+		const rook = pieceKind(PieceType.ROOK, color);
+		const orthogonalLo = lo[rook] | lo[queen];
+		const orthogonalHi = hi[rook] | hi[queen];
+		if ((orthogonalLo | orthogonalHi) !== 0) {
+			this.computeSlidingAttacks(square, 0, ROOK_DIRECTIONS_END, occupiedLo, occupiedHi);
+			if (((this.attacksLo & orthogonalLo) | (this.attacksHi & orthogonalHi)) !== 0) return true;
+		}
+
+		return false;
+	}
+
+	isWhiteToMove(): boolean {
+		return this.turn === PieceColor.WHITE;
+	}
+
+	pieceAt(square: number): number {
+		return this.squares[square];
+	}
+
+	/** Whether the king of the side to move is currently attacked. */
+	isInCheck(): boolean {
+		return this.isSquareAttacked(this.kingSquare(this.turn), oppositeColor(this.turn));
+	}
+
+	kingSquare(color: PieceColor): number {
+		const kind = pieceKind(PieceType.KING, color);
+		const lo = this.piecesLo[kind];
+		return lo !== 0 ? lowestBit(lo) : 32 + lowestBit(this.piecesHi[kind]);
+	}
+
+	isFiftyMoveDraw(): boolean {
+		return this.halfMoveClock >= FIFTY_MOVE_RULE_PLIES;
+	}
+
+	repetitionCount(): number {
+		// NOTE: The history keeps the keys as signed integers.
+		const low = this.zobristLow | 0;
+		const high = this.zobristHigh | 0;
+		let count = 1;
+		const plies = Math.min(this.halfMoveClock, this.historyCount);
+		for (let ply = 2; ply <= plies; ply += 2) {
+			const h = this.historyCount - ply;
+			if (this.historyZobristLow[h] === low && this.historyZobristHigh[h] === high) count++;
+		}
+		return count;
+	}
+
+	hasInsufficientMaterial(): boolean {
+		const lo = this.piecesLo;
+		const hi = this.piecesHi;
+		for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+			for (const type of [PieceType.PAWN, PieceType.ROOK, PieceType.QUEEN]) {
+				const kind = pieceKind(type, color);
+				if ((lo[kind] | hi[kind]) !== 0) return false;
+			}
+		}
+
+		const whiteKnight = pieceKind(PieceType.KNIGHT, PieceColor.WHITE);
+		const blackKnight = pieceKind(PieceType.KNIGHT, PieceColor.BLACK);
+		const knights =
+			popCount(lo[whiteKnight]) +
+			popCount(hi[whiteKnight]) +
+			popCount(lo[blackKnight]) +
+			popCount(hi[blackKnight]);
+		const bishopsLo =
+			lo[pieceKind(PieceType.BISHOP, PieceColor.WHITE)] |
+			lo[pieceKind(PieceType.BISHOP, PieceColor.BLACK)];
+		const bishopsHi =
+			hi[pieceKind(PieceType.BISHOP, PieceColor.WHITE)] |
+			hi[pieceKind(PieceType.BISHOP, PieceColor.BLACK)];
+		const minorPieces = knights + popCount(bishopsLo) + popCount(bishopsHi);
+		const onDark = ((bishopsLo & SQUARE_COLORS_LO[0]) | (bishopsHi & SQUARE_COLORS_HI[0])) !== 0;
+		const onLight = ((bishopsLo & SQUARE_COLORS_LO[1]) | (bishopsHi & SQUARE_COLORS_HI[1])) !== 0;
+
+		// A lone minor piece cannot mate, neither can any number of bishops that
+		// all stand on the same square color.
+		return minorPieces <= 1 || (knights === 0 && !(onDark && onLight));
+	}
+
+	isCapture(move: number): boolean {
+		return isCaptureFlag(moveFlags(move));
+	}
+
+	capturedPieceType(move: number): number {
+		const flags = moveFlags(move);
+		if (flags === MoveFlag.EN_PASSANT_CAPTURE) return PieceType.PAWN;
+		if (!isCaptureFlag(flags)) return PieceType.EMPTY;
+		return Math.abs(this.squares[moveTo(move)]);
+	}
+
+	movedPieceType(move: number): number {
+		return Math.abs(this.squares[moveFrom(move)]);
+	}
+
+	promotionPieceType(move: number): number {
+		const flags = moveFlags(move);
+		return isPromotionFlag(flags) ? promotionType(flags) : PieceType.EMPTY;
+	}
+
+	/**
+	 * Static exchange evaluation: material the side to move wins (negative when
+	 * it loses) by playing `move` and then trading on its target square with the
+	 * least valuable attackers. Pins and checks are ignored.
+	 */
+	see(move: number): number {
+		const from = moveFrom(move);
+		const to = moveTo(move);
+		const flags = moveFlags(move);
+		const color = this.squares[from] > 0 ? PieceColor.WHITE : PieceColor.BLACK;
+		this.seeOccupiedLo = this.colorsLo[0] | this.colorsLo[1];
+		this.seeOccupiedHi = this.colorsHi[0] | this.colorsHi[1];
+
+		let gain = SEE_VALUES[this.capturedPieceType(move)];
+		let attackerValue = SEE_VALUES[this.movedPieceType(move)];
+		if (flags === MoveFlag.EN_PASSANT_CAPTURE) {
+			this.removeFromExchange(to + (color === PieceColor.WHITE ? -8 : 8));
+		}
+		if (isPromotionFlag(flags)) {
+			gain += SEE_VALUES[promotionType(flags)] - SEE_VALUES[PieceType.PAWN];
+			attackerValue = SEE_VALUES[promotionType(flags)];
+		}
+		this.removeFromExchange(from);
+
+		return this.resolveExchange(to, oppositeColor(color), gain, attackerValue);
+	}
+
+	/**
+	 * Exchange value for the opponent of the piece on `square` when it starts
+	 * capturing there; 0 for empty or unattacked squares. A positive value means
+	 * the piece is hanging.
+	 */
+	seeSquare(square: number): number {
+		const piece = this.squares[square];
+		if (piece === PieceType.EMPTY) return 0;
+
+		const color = piece > 0 ? PieceColor.WHITE : PieceColor.BLACK;
+		this.seeOccupiedLo = this.colorsLo[0] | this.colorsLo[1];
+		this.seeOccupiedHi = this.colorsHi[0] | this.colorsHi[1];
+		const attacker = this.findLeastValuableAttacker(square, oppositeColor(color));
+		if (attacker === NO_SQUARE) return 0;
+		this.removeFromExchange(attacker);
+
+		return this.resolveExchange(
+			square,
+			color,
+			SEE_VALUES[Math.abs(piece)],
+			SEE_VALUES[Math.abs(this.squares[attacker])]
+		);
+	}
+
+	// Swap algorithm: gains[d] is the balance for the side making the d-th
+	// capture, assuming it gets recaptured. `sideToCapture` makes the next one.
+	private resolveExchange(
+		square: number,
+		sideToCapture: PieceColor,
+		firstGain: number,
+		attackerValue: number
+	): number {
+		const gains = this.seeGains;
+		gains[0] = firstGain;
+		let depth = 0;
+		let side = sideToCapture;
+
+		while (depth < MAX_SEE_EXCHANGES - 1) {
+			depth++;
+			gains[depth] = attackerValue - gains[depth - 1];
+			const attacker = this.findLeastValuableAttacker(square, side);
+			if (attacker === NO_SQUARE) break;
+			attackerValue = SEE_VALUES[Math.abs(this.squares[attacker])];
+			this.removeFromExchange(attacker);
+			side = oppositeColor(side);
+		}
+
+		while (--depth > 0) {
+			gains[depth - 1] = -Math.max(-gains[depth - 1], gains[depth]);
+		}
+		return gains[0];
+	}
+
+	private removeFromExchange(square: number): void {
+		if (square < 32) {
+			this.seeOccupiedLo &= ~(1 << square);
+		} else {
+			this.seeOccupiedHi &= ~(1 << (square - 32));
+		}
+	}
+
+	/** Square of the cheapest `color` piece still in the exchange attacking `square`, or NO_SQUARE. */
+	private findLeastValuableAttacker(square: number, color: PieceColor): number {
+		const occupiedLo = this.seeOccupiedLo;
+		const occupiedHi = this.seeOccupiedHi;
+
+		for (let type: number = PieceType.PAWN; type <= PieceType.KING; type++) {
+			switch (type) {
+				case PieceType.PAWN: {
+					const pawnSquares = oppositeColor(color) * 64 + square;
+					this.attacksLo = PAWN_ATTACKS_LO[pawnSquares];
+					this.attacksHi = PAWN_ATTACKS_HI[pawnSquares];
+					break;
+				}
+				case PieceType.KNIGHT:
+					this.attacksLo = KNIGHT_ATTACKS_LO[square];
+					this.attacksHi = KNIGHT_ATTACKS_HI[square];
+					break;
+				case PieceType.BISHOP:
+					this.computeSlidingAttacks(square, BISHOP_DIRECTIONS_START, 8, occupiedLo, occupiedHi);
+					break;
+				case PieceType.ROOK:
+					this.computeSlidingAttacks(square, 0, ROOK_DIRECTIONS_END, occupiedLo, occupiedHi);
+					break;
+				case PieceType.QUEEN:
+					this.computeSlidingAttacks(square, 0, 8, occupiedLo, occupiedHi);
+					break;
+				case PieceType.KING:
+					this.attacksLo = KING_ATTACKS_LO[square];
+					this.attacksHi = KING_ATTACKS_HI[square];
+					break;
+			}
+
+			const kind = pieceKind(type, color);
+			const attackersLo = this.attacksLo & this.piecesLo[kind] & occupiedLo;
+			if (attackersLo !== 0) return lowestBit(attackersLo);
+			const attackersHi = this.attacksHi & this.piecesHi[kind] & occupiedHi;
+			if (attackersHi !== 0) return 32 + lowestBit(attackersHi);
+		}
+
+		return NO_SQUARE;
+	}
+
+	makeMove(move: number): void {
+		const from = moveFrom(move);
+		const to = moveTo(move);
+		const flags = moveFlags(move);
+		const color = this.turn;
+		const movedType = Math.abs(this.squares[from]);
+
+		const h = this.historyCount++;
+		this.historyCastling[h] = this.castling;
+		this.historyEnPassantSquare[h] = this.enPassantSquare;
+		this.historyHalfMoveClock[h] = this.halfMoveClock;
+		this.historyFullMoveNumber[h] = this.fullMoveNumber;
+		this.historyZobristLow[h] = this.zobristLow;
+		this.historyZobristHigh[h] = this.zobristHigh;
+
+		// Zobrist key: drop the old castling / en passant state here, the pieces
+		// update it as they are put and removed.
+		this.toggleZobristEnPassant();
+		this.toggleZobristCastling();
+
+		let captured: number = PieceType.EMPTY;
+		if (flags === MoveFlag.KING_CASTLE || flags === MoveFlag.QUEEN_CASTLE) {
+			// In Chess960 the castling king "captures" its own rook; both land on
+			// the standard castling squares.
+			const isKingSide = flags === MoveFlag.KING_CASTLE;
+			this.removePiece(from);
+			this.removePiece(this.castlingRookSource(to, isKingSide));
+			this.putPiece(castlingKingTarget(from, isKingSide), PieceType.KING, color);
+			this.putPiece(castlingRookTarget(from, isKingSide), PieceType.ROOK, color);
+		} else {
+			if (flags === MoveFlag.EN_PASSANT_CAPTURE) {
+				captured = this.removePiece(to + (color === PieceColor.WHITE ? -8 : 8));
+			} else if (isCaptureFlag(flags)) {
+				captured = this.removePiece(to);
+			}
+			this.removePiece(from);
+			this.putPiece(to, isPromotionFlag(flags) ? promotionType(flags) : movedType, color);
+		}
+		this.historyCaptured[h] = captured;
+
+		this.castling &= this.castleMask[from] & this.castleMask[to];
+		this.toggleZobristCastling();
+
+		this.enPassantSquare = flags === MoveFlag.DOUBLE_PAWN ? (from + to) >> 1 : NO_SQUARE;
+		if (movedType === PieceType.PAWN || captured !== PieceType.EMPTY) {
+			this.halfMoveClock = 0;
+		} else {
+			this.halfMoveClock++;
+		}
+		if (color === PieceColor.BLACK) this.fullMoveNumber++;
+
+		this.turn = oppositeColor(color);
+		this.zobristLow ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+		this.zobristHigh ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		this.toggleZobristEnPassant();
+	}
+
+	unmakeMove(move: number): void {
+		const from = moveFrom(move);
+		const to = moveTo(move);
+		const flags = moveFlags(move);
+		const h = --this.historyCount;
+
+		this.turn = oppositeColor(this.turn);
+		const color = this.turn;
+
+		if (flags === MoveFlag.KING_CASTLE || flags === MoveFlag.QUEEN_CASTLE) {
+			const isKingSide = flags === MoveFlag.KING_CASTLE;
+			this.removePiece(castlingKingTarget(from, isKingSide));
+			this.removePiece(castlingRookTarget(from, isKingSide));
+			this.putPiece(from, PieceType.KING, color);
+			this.putPiece(this.castlingRookSource(to, isKingSide), PieceType.ROOK, color);
+		} else {
+			const piece = this.removePiece(to);
+			this.putPiece(from, isPromotionFlag(flags) ? PieceType.PAWN : Math.abs(piece), color);
+			const captured = this.historyCaptured[h];
+			if (captured !== PieceType.EMPTY) {
+				const captureSquare =
+					flags === MoveFlag.EN_PASSANT_CAPTURE ? to + (color === PieceColor.WHITE ? -8 : 8) : to;
+				this.putPiece(captureSquare, Math.abs(captured), oppositeColor(color));
+			}
+		}
+
+		this.castling = this.historyCastling[h];
+		this.enPassantSquare = this.historyEnPassantSquare[h];
+		this.halfMoveClock = this.historyHalfMoveClock[h];
+		this.fullMoveNumber = this.historyFullMoveNumber[h];
+		this.zobristLow = this.historyZobristLow[h];
+		this.zobristHigh = this.historyZobristHigh[h];
+	}
+
+	/** Home square of the rook of a castling move to `to`: the target itself in Chess960. */
+	private castlingRookSource(to: number, isKingSide: boolean): number {
+		if (this.chess960) return to;
+		return isKingSide ? to + 1 : to - 2;
+	}
+
+	private putPiece(square: number, type: number, color: PieceColor): void {
+		this.togglePiece(square, type, color);
+		this.squares[square] = color === PieceColor.WHITE ? type : -type;
+	}
+
+	/** Removes the piece on `square` and returns it as a signed type. */
+	private removePiece(square: number): number {
+		const piece = this.squares[square];
+		this.togglePiece(square, Math.abs(piece), piece > 0 ? PieceColor.WHITE : PieceColor.BLACK);
+		this.squares[square] = PieceType.EMPTY;
+		return piece;
+	}
+
+	private togglePiece(square: number, type: number, color: PieceColor): void {
+		const kind = pieceKind(type, color);
+		if (square < 32) {
+			const bit = 1 << square;
+			this.piecesLo[kind] ^= bit;
+			this.colorsLo[color] ^= bit;
+		} else {
+			const bit = 1 << (square - 32);
+			this.piecesHi[kind] ^= bit;
+			this.colorsHi[color] ^= bit;
+		}
+		const index = zobristPieceIndex(type, color === PieceColor.WHITE, square);
+		this.zobristLow ^= ZOBRIST_PIECES_LOW[index];
+		this.zobristHigh ^= ZOBRIST_PIECES_HIGH[index];
+	}
+
+	hashLow(): number {
+		return this.zobristLow >>> 0;
+	}
+
+	hashHigh(): number {
+		return this.zobristHigh >>> 0;
+	}
+
+	/** Rebuild the Zobrist key from the current position. */
+	computeHash(): [low: number, high: number] {
+		let low = 0;
+		let high = 0;
+		for (let sq = 0; sq < 64; sq++) {
+			const piece = this.squares[sq];
+			if (piece === PieceType.EMPTY) continue;
+			const index = zobristPieceIndex(Math.abs(piece), piece > 0, sq);
+			low ^= ZOBRIST_PIECES_LOW[index];
+			high ^= ZOBRIST_PIECES_HIGH[index];
+		}
+
+		low ^= ZOBRIST_CASTLING_LOW[this.castling];
+		high ^= ZOBRIST_CASTLING_HIGH[this.castling];
+
+		const epFile = this.enPassantHashFile();
+		if (epFile >= 0) {
+			low ^= ZOBRIST_EN_PASSANT_LOW[epFile];
+			high ^= ZOBRIST_EN_PASSANT_HIGH[epFile];
+		}
+
+		if (this.turn === PieceColor.BLACK) {
+			low ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+			high ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		}
+		return [low >>> 0, high >>> 0];
+	}
+
+	private toggleZobristCastling(): void {
+		this.zobristLow ^= ZOBRIST_CASTLING_LOW[this.castling];
+		this.zobristHigh ^= ZOBRIST_CASTLING_HIGH[this.castling];
+	}
+
+	private toggleZobristEnPassant(): void {
+		const epFile = this.enPassantHashFile();
+		if (epFile < 0) return;
+		this.zobristLow ^= ZOBRIST_EN_PASSANT_LOW[epFile];
+		this.zobristHigh ^= ZOBRIST_EN_PASSANT_HIGH[epFile];
+	}
+
+	/**
+	 * File of the en passant target if it is part of the key, otherwise -1.
+	 * NOTE: Only hashed when a pawn of the side to move can reach the target,
+	 * the same rule as on the other engine boards.
+	 */
+	private enPassantHashFile(): number {
+		const target = this.enPassantSquare;
+		if (target === NO_SQUARE) return -1;
+		const pawnSquares = oppositeColor(this.turn) * 64 + target;
+		const pawn = pieceKind(PieceType.PAWN, this.turn);
+		const attackers =
+			(PAWN_ATTACKS_LO[pawnSquares] & this.piecesLo[pawn]) |
+			(PAWN_ATTACKS_HI[pawnSquares] & this.piecesHi[pawn]);
+		return attackers !== 0 ? target & 7 : -1;
+	}
+
+	/** Material balance in centipawns, White positive. */
+	evaluateMaterial(): number {
+		let score = 0;
+		for (let type: number = PieceType.PAWN; type <= PieceType.KING; type++) {
+			const white = pieceKind(type, PieceColor.WHITE);
+			const black = pieceKind(type, PieceColor.BLACK);
+			const count =
+				popCount(this.piecesLo[white]) +
+				popCount(this.piecesHi[white]) -
+				popCount(this.piecesLo[black]) -
+				popCount(this.piecesHi[black]);
+			score += count * PIECE_VALUES[type];
+		}
+		return score;
+	}
+
+	/** Piece-square-table balance in centipawns, White positive, blended by game phase. */
+	evaluatePST(): number {
+		return evaluatePieceSquares(this);
+	}
+
+	/**
+	 * Number of PSEUDO-LEGAL moves `isWhite`'s side would have if it were to
+	 * move, a cheap proxy for mobility. The side to move is restored afterwards.
+	 */
+	countPseudoLegalMoves(isWhite: boolean): number {
+		const saved = this.turn;
+		this.turn = isWhite ? PieceColor.WHITE : PieceColor.BLACK;
+		const count = this.generatePseudoLegalMoves(this.mobilityBuffer);
+		this.turn = saved;
+		return count;
+	}
+
+	/** Mobility balance in centipawns, White positive. */
+	evaluateMobility(): number {
+		return (this.countPseudoLegalMoves(true) - this.countPseudoLegalMoves(false)) * MOBILITY_WEIGHT;
+	}
+
+	/** Combined static evaluation in centipawns, White positive. */
+	evaluate(): number {
+		return this.evaluateMaterial() + evaluatePosition(this) + this.evaluateMobility();
+	}
+}
+
+function hasSquare(lo: Int32Array, hi: Int32Array, index: number, square: number): boolean {
+	return square < 32 ? (lo[index] & (1 << square)) !== 0 : (hi[index] & (1 << (square - 32))) !== 0;
+}
+
+function addPromotions(
+	out: Int32Array,
+	n: number,
+	from: number,
+	to: number,
+	knightFlag: number
+): number {
+	// Knight, bishop, rook and queen promotions have consecutive flags.
+	for (let flags = knightFlag; flags <= knightFlag + 3; flags++) {
+		out[n++] = packMove(from, to, flags);
+	}
+	return n;
+}
@@ -0,0 +1,29 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardBitboard, bitboardMoveToUci } from '$lib/chess/engine/bitboard';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+
+/** Every AbstractBoard implementation, by the name used on the command line. */
+export const ENGINE_BOARDS = ['int8', '0x88', 'bitboard'] as const;
+export type EngineBoardName = (typeof ENGINE_BOARDS)[number];
+
+export interface EngineBoard {
+	name: EngineBoardName;
+	board: AbstractBoard<Int32Array, number>;
+	moveToUci: (move: number) => string;
+}
+
+export function isEngineBoardName(name: string): name is EngineBoardName {
+	return ENGINE_BOARDS.includes(name as EngineBoardName);
+}
+
+export function createEngineBoard(name: EngineBoardName): EngineBoard {
+	switch (name) {
+		case 'int8':
+			return { name, board: new BoardInt8(), moveToUci };
+		case '0x88':
+			return { name, board: new Board0x88(), moveToUci: moveToLongAlgebraic };
+		case 'bitboard':
+			return { name, board: new BoardBitboard(), moveToUci: bitboardMoveToUci };
+	}
+}
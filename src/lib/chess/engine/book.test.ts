@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { BookWeighting, OpeningBook, pickBookMove } from '$lib/chess/engine/book';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { Search, SearchSource } from '$lib/chess/engine/search';
+import { getOpenings } from '$lib/chess/openings';
+import { createOpening } from '$lib/chess/openings.fixtures';
+
+function bookMoves(book: OpeningBook, board: BoardInt8): string[] {
+	return book.lookup(board.hashLow(), board.hashHigh()).map((move) => move.uci);
+}
+
+describe('OpeningBook', () => {
+	it('counts the repertoire lines behind every move', () => {
+		const opening = getOpenings()[0];
+		const book = OpeningBook.fromOpening(opening);
+		const board = new BoardInt8();
+
+		expect(book.lookup(board.hashLow(), board.hashHigh())).toEqual([
+			{ uci: 'd2d4', weight: opening.lines.length }
+		]);
+		expect(book.size).toBeGreaterThan(opening.lines[0].moves.length);
+	});
+
+	it('shares the entries of transposed positions', () => {
+		const book = OpeningBook.fromOpening(
+			createOpening('1. d4 d5 2. Nf3 Nf6 3. c4', '1. Nf3 Nf6 2. d4 d5 3. e3')
+		);
+		const board = new BoardInt8('rnbqkb1r/ppp1pppp/5n2/3p4/3P4/5N2/PPP1PPPP/RNBQKB1R w KQkq - 2 3');
+
+		expect(bookMoves(book, board)).toEqual(['c2c4', 'e2e3']);
+	});
+
+	it('picks moves by the configured weighting', () => {
+		const moves = [
+			{ uci: 'd2d4', weight: 1 },
+			{ uci: 'e2e4', weight: 3 }
+		];
+
+		expect(pickBookMove(moves, BookWeighting.BEST)?.uci).toBe('e2e4');
+		expect(pickBookMove(moves, BookWeighting.UNIFORM, () => 0.4)?.uci).toBe('d2d4');
+		expect(pickBookMove(moves, BookWeighting.BY_LINES, () => 0.4)?.uci).toBe('e2e4');
+		expect(pickBookMove(moves, BookWeighting.BY_LINES, () => 0.2)?.uci).toBe('d2d4');
+		expect(pickBookMove([], BookWeighting.BY_LINES)).toBeNull();
+	});
+});
+
+describe('search with an opening book', () => {
+	it('plays book moves without searching and searches after leaving the book', () => {
+		const book = OpeningBook.fromOpening(createOpening('1. e4 e5 2. Nf3'));
+		const board = new BoardInt8();
+		const search = new Search(board, { book: { book, moveToUci } });
+
+		const infos: number[] = [];
+		const inBook = search.search({ depth: 3 }, (info) => infos.push(info.depth));
+		expect(inBook.source).toBe(SearchSource.BOOK);
+		expect(infos).toEqual([0]);
+		expect(moveToUci(inBook.bestMove!)).toBe('e2e4');
+		expect(inBook.nodes).toBe(0);
+
+		board.loadFen('rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2');
+		const outOfBook = search.search({ depth: 3 });
+		expect(outOfBook.source).toBe(SearchSource.SEARCH);
+		expect(outOfBook.depth).toBe(3);
+	});
+});
@@ -0,0 +1,128 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import { boardInfoToEngineFen, boardMoveToUci } from '$lib/chess/engine/convert';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { zobristKeyToHex } from '$lib/chess/engine/zobrist';
+import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import type { Opening } from '$lib/chess/openings';
+
+export const BookWeighting = {
+	/** Every book move of the position is equally likely. */
+	UNIFORM: 'uniform',
+	/** Proportional to the number of repertoire lines that play the move. */
+	BY_LINES: 'byLines',
+	/** Always the move played by the most lines; ties go to the first line. */
+	BEST: 'best'
+} as const;
+export type BookWeighting = (typeof BookWeighting)[keyof typeof BookWeighting];
+
+export interface BookMove {
+	/** UCI long algebraic notation, as written by the engine boards. */
+	uci: string;
+	/** Number of repertoire lines that play this move in the position. */
+	weight: number;
+}
+
+/**
+ * Moves of an opening repertoire, keyed by the Zobrist key of the position
+ * they are played in. Transpositions between lines therefore share entries,
+ * and the key is the same for every AbstractBoard implementation.
+ */
+export class OpeningBook {
+	private readonly entries = new Map<string, BookMove[]>();
+
+	/**
+	 * Plays every line of the opening from its starting position. Throws when a
+	 * line contains a move that the engine board does not accept.
+	 */
+	static fromOpening(opening: Opening): OpeningBook {
+		const book = new OpeningBook();
+		const board = new BoardInt8();
+		const buffer = board.allocateMoveBuffer();
+		const fen = boardInfoToEngineFen(parseFen(opening.fen ?? INITIAL_FEN));
+		for (const line of opening.lines) {
+			board.loadFen(fen);
+			for (const lineMove of line.moves) {
+				const uci = boardMoveToUci(lineMove);
+				const move = findLegalMove(board, buffer, uci);
+				if (move === null) {
+					throw new Error(`${opening.name} (${line.name}): ${lineMove.algebraic} is not legal`);
+				}
+				book.add(board.hashLow(), board.hashHigh(), uci);
+				board.makeMove(move);
+			}
+		}
+		return book;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	add(hashLow: number, hashHigh: number, uci: string, weight = 1): void {
+		const key = zobristKeyToHex(hashLow, hashHigh);
+		const moves = this.entries.get(key) ?? [];
+		const existing = moves.find((move) => move.uci === uci);
+		if (existing) existing.weight += weight;
+		else moves.push({ uci, weight });
+		this.entries.set(key, moves);
+	}
+
+	/** Book moves of the position in the order they were added; empty when out of book. */
+	lookup(hashLow: number, hashHigh: number): BookMove[] {
+		return this.entries.get(zobristKeyToHex(hashLow, hashHigh)) ?? [];
+	}
+
+	/**
+	 * Picks one of the book moves of the board's position that is legal there,
+	 * and returns the board's move; null when out of book.
+	 */
+	probe<TMoveBuffer, TMove>(
+		board: AbstractBoard<TMoveBuffer, TMove>,
+		moveToUci: (move: TMove) => string,
+		weighting: BookWeighting = BookWeighting.BY_LINES,
+		random: () => number = Math.random
+	): TMove | null {
+		const buffer = board.allocateMoveBuffer();
+		const count = board.generateLegalMoves(buffer);
+		const legalMoves = new Map<string, TMove>();
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			legalMoves.set(moveToUci(move), move);
+		}
+		// NOTE: A Zobrist collision could suggest a move of another position.
+		const candidates = this.lookup(board.hashLow(), board.hashHigh()).filter((move) =>
+			legalMoves.has(move.uci)
+		);
+		const picked = pickBookMove(candidates, weighting, random);
+		return picked === null ? null : legalMoves.get(picked.uci)!;
+	}
+}
+
+function findLegalMove(board: BoardInt8, buffer: Int32Array, uci: string): number | null {
+	const count = board.generateLegalMoves(buffer);
+	for (let i = 0; i < count; i++) {
+		const move = board.getMoveByIndex(buffer, i);
+		if (moveToUci(move) === uci) return move;
+	}
+	return null;
+}
+
+export function pickBookMove(
+	moves: BookMove[],
+	weighting: BookWeighting,
+	random: () => number = Math.random
+): BookMove | null {
+	if (moves.length === 0) return null;
+	if (weighting === BookWeighting.BEST) {
+		return moves.reduce((best, move) => (move.weight > best.weight ? move : best));
+	}
+
+	const weightOf = (move: BookMove) => (weighting === BookWeighting.UNIFORM ? 1 : move.weight);
+	const total = moves.reduce((sum, move) => sum + weightOf(move), 0);
+	let remaining = random() * total;
+	for (const move of moves) {
+		remaining -= weightOf(move);
+		if (remaining < 0) return move;
+	}
+	return moves[moves.length - 1];
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCliArgs, runUciCli } from '$lib/chess/engine/cli';
+
+const encoder = new TextEncoder();
+
+// Runs a scripted session. Commands are fed as byte chunks that do not line up
+// with line breaks; a `#wait <prefix>` line pauses the script until the engine
+// has printed a line starting with `<prefix>`, and `#pause` waits a moment.
+async function run(script: string[], args: string[] = []): Promise<string[]> {
+	const output: string[] = [];
+	let pending = '';
+	const write = (text: string) => {
+		pending += text;
+		const lines = pending.split('\n');
+		pending = lines.pop()!;
+		output.push(...lines);
+	};
+
+	async function* input(): AsyncGenerator<Uint8Array> {
+		for (const line of script) {
+			if (line.startsWith('#wait ')) {
+				const prefix = line.slice('#wait '.length);
+				while (!output.some((outputLine) => outputLine.startsWith(prefix))) {
+					await new Promise((resolve) => setTimeout(resolve, 5));
+				}
+				continue;
+			}
+			if (line === '#pause') {
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				continue;
+			}
+			const bytes = encoder.encode(`${line}\r\n`);
+			const middle = Math.floor(bytes.length / 2);
+			yield bytes.subarray(0, middle);
+			yield bytes.subarray(middle);
+		}
+	}
+
+	await runUciCli(input(), write, parseCliArgs(args));
+	return output;
+}
+
+describe('UCI command-line adapter', () => {
+	it('plays through a scripted session', async () => {
+		const output = await run([
+			'uci',
+			'isready',
+			'ucinewgame',
+			'position startpos moves f2f3 e7e5 g2g4',
+			'go depth 2',
+			'#wait bestmove',
+			'isready',
+			'quit'
+		]);
+
+		expect(output.slice(0, 5)).toEqual([
+			'id name Opess',
+			'id author the Opess developers',
+			'option name MultiPV type spin default 1 min 1 max 256',
+			'uciok',
+			'readyok'
+		]);
+		expect(output).toContain('bestmove d8h4');
+		expect(output.at(-1)).toBe('readyok');
+		expect(output.filter((line) => line.startsWith('info depth')).length).toBeGreaterThan(0);
+	});
+
+	it('searches within the clock and increment of the side to move', async () => {
+		const start = performance.now();
+		const output = await run([
+			'position fen r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R b KQkq - 0 1',
+			'go wtime 600000 btime 900 winc 0 binc 0',
+			'#wait bestmove'
+		]);
+
+		expect(output.at(-1)).toMatch(/^bestmove [a-h][1-8][a-h][1-8]$/);
+		expect(performance.now() - start).toBeLessThan(900);
+	});
+
+	it('answers quit during an infinite search with the best move so far', async () => {
+		const output = await run(['position startpos', 'go infinite', '#pause', 'quit']);
+
+		expect(output.at(-1)).toMatch(/^bestmove [a-h][1-8][a-h][1-8]$/);
+	});
+
+	it('stops a deep infinite search in the middle of an iteration', async () => {
+		const output = await run([
+			'position fen r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+			'go infinite',
+			'#wait info depth 5 ',
+			'stop',
+			'#wait bestmove',
+			'isready',
+			'quit'
+		]);
+
+		const infos = output.filter((line) => line.startsWith('info depth'));
+		expect(infos.at(-1)).toMatch(/^info depth 5 /);
+		expect(output.slice(-2)).toEqual([
+			expect.stringMatching(/^bestmove [a-h][1-8][a-h][1-8]$/),
+			'readyok'
+		]);
+	}, 30_000);
+
+	for (const board of ['0x88', 'bitboard']) {
+		it(`drives the ${board} board`, async () => {
+			const output = await run(
+				['position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', 'go depth 3', '#wait bestmove', 'quit'],
+				[`--board=${board}`]
+			);
+
+			expect(output.at(-1)).toBe('bestmove a1a8');
+		});
+	}
+
+	it('rejects unknown arguments', () => {
+		expect(parseCliArgs(['--board=int8', '--hash=4'])).toEqual({ board: 'int8', hashSizeMb: 4 });
+		expect(() => parseCliArgs(['--board=mailbox'])).toThrow(/Unknown argument/);
+	});
+});
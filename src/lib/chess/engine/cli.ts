@@ -0,0 +1,68 @@
+import {
+	createEngineBoard,
+	ENGINE_BOARDS,
+	isEngineBoardName,
+	type EngineBoardName
+} from '$lib/chess/engine/boards';
+import { UciEngine } from '$lib/chess/engine/uci';
+
+export interface UciCliOptions {
+	board?: EngineBoardName;
+	hashSizeMb?: number;
+}
+
+/**
+ * Reads UCI commands line by line from `input` (e.g. Node's `process.stdin`)
+ * and writes replies through `write`. Resolves after `quit` or the end of the
+ * input, once the running search has reported its best move.
+ */
+export async function runUciCli(
+	input: AsyncIterable<Uint8Array | string>,
+	write: (text: string) => void,
+	options: UciCliOptions = {}
+): Promise<void> {
+	const send = (line: string) => write(`${line}\n`);
+	const { board, moveToUci } = createEngineBoard(options.board ?? 'int8');
+	const engine = new UciEngine(send, { board, moveToUci, hashSizeMb: options.hashSizeMb });
+
+	for await (const line of readLines(input)) {
+		engine.handle(line);
+		if (line.trim() === 'quit') break;
+	}
+
+	engine.handle('stop');
+	await engine.idle();
+}
+
+export function parseCliArgs(args: string[]): UciCliOptions {
+	const options: UciCliOptions = {};
+	for (const arg of args) {
+		const [name, value] = arg.split('=', 2);
+		if (name === '--board' && isEngineBoardName(value)) {
+			options.board = value;
+		} else if (name === '--hash' && Number(value) > 0) {
+			options.hashSizeMb = Number(value);
+		} else {
+			throw new Error(
+				`Unknown argument: ${arg}. Usage: [--board=${ENGINE_BOARDS.join('|')}] [--hash=<mb>]`
+			);
+		}
+	}
+	return options;
+}
+
+async function* readLines(input: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	let buffered = '';
+	for await (const chunk of input) {
+		buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+		let newline = buffered.indexOf('\n');
+		while (newline >= 0) {
+			yield buffered.slice(0, newline).replace(/\r$/, '');
+			buffered = buffered.slice(newline + 1);
+			newline = buffered.indexOf('\n');
+		}
+	}
+	buffered += decoder.decode();
+	if (buffered.length > 0) yield buffered;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { EngineClient, InProcessEngineWorker } from '$lib/chess/engine/client';
+import type { EngineInfo } from '$lib/chess/engine/uci';
+
+async function createClient(): Promise<EngineClient> {
+	const client = new EngineClient(new InProcessEngineWorker());
+	await client.init();
+	return client;
+}
+
+describe('EngineClient', () => {
+	it('resolves a search with the best move and the last info', async () => {
+		const client = await createClient();
+		client.setPosition('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+
+		const depths: number[] = [];
+		const result = await client.go({ depth: 3 }, (info) => depths.push(info.depth));
+
+		expect(result.bestMove).toBe('a1a8');
+		expect(result.info?.score).toEqual({ type: 'mate', value: 1 });
+		expect(depths[0]).toBe(1);
+		client.terminate();
+	});
+
+	it('reports every line of a MultiPV search and resolves with the best one', async () => {
+		const client = await createClient();
+		client.setOption('MultiPV', 2);
+		client.setPosition('6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1');
+
+		const lines = new Set<number>();
+		const result = await client.go({ depth: 2 }, (info) => lines.add(info.multiPv));
+
+		expect([...lines]).toEqual([1, 2]);
+		expect(result.info?.multiPv).toBe(1);
+		expect(result.info?.pv[0]).toBe(result.bestMove);
+		client.terminate();
+	});
+
+	it('plays moves on top of a position', async () => {
+		const client = await createClient();
+		client.setPosition('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', [
+			'f2f3',
+			'e7e5',
+			'g2g4'
+		]);
+
+		const result = await client.go({ depth: 2 });
+		expect(result.bestMove).toBe('d8h4');
+		client.terminate();
+	});
+
+	it('resolves with null when the side to move has no legal moves', async () => {
+		const client = await createClient();
+		client.setPosition('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+
+		const result = await client.go({ depth: 3 });
+		expect(result.bestMove).toBeNull();
+		expect(result.info?.pv).toEqual([]);
+		client.terminate();
+	});
+
+	it('stops an infinite search on request', async () => {
+		const client = await createClient();
+		client.setPosition('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+
+		let firstInfo: (info: EngineInfo) => void = () => {};
+		const reported = new Promise<EngineInfo>((resolve) => (firstInfo = resolve));
+		const search = client.go({}, firstInfo);
+		await reported;
+		client.stop();
+
+		const result = await search;
+		expect(result.bestMove).toMatch(/^[a-h][1-8][a-h][1-8]/);
+		expect(result.info?.pv[0]).toBe(result.bestMove);
+		client.terminate();
+	});
+
+	it('answers requests in order while a search is queued', async () => {
+		const client = await createClient();
+		client.setPosition('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+		const first = client.go({ movetimeMs: 20 });
+		const second = client.go({ depth: 1 });
+		await client.isReady();
+
+		expect((await first).bestMove).toBe('a1a8');
+		expect((await second).bestMove).toBe('a1a8');
+		client.terminate();
+	});
+});
@@ -0,0 +1,170 @@
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { NULL_MOVE_UCI, parseInfoLine, UciEngine, type EngineInfo } from '$lib/chess/engine/uci';
+
+/** The part of `Worker` (and of the worker's global scope) the engine protocol uses. */
+export interface EngineMessagePort {
+	postMessage(message: string): void;
+	onmessage: ((event: MessageEvent) => void) | null;
+}
+
+export interface EngineWorkerLike extends EngineMessagePort {
+	terminate(): void;
+}
+
+export interface EngineGoOptions {
+	depth?: number;
+	movetimeMs?: number;
+	nodes?: number;
+}
+
+export interface EngineSearchResult {
+	/** UCI move, or null when the side to move has no legal moves. */
+	bestMove: string | null;
+	/** Last `info` line of the best line (`multipv 1`) reported before the best move. */
+	info: EngineInfo | null;
+}
+
+interface PendingSearch {
+	onInfo?: (info: EngineInfo) => void;
+	lastInfo: EngineInfo | null;
+	resolve: (result: EngineSearchResult) => void;
+}
+
+export function createEngineWorker(): Worker {
+	return new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Typed wrapper around the engine protocol. Every request that expects a
+ * reply returns a promise; replies arrive in the order the requests were sent.
+ */
+export class EngineClient {
+	private readonly worker: EngineWorkerLike;
+	private readonly pendingSearches: PendingSearch[] = [];
+	private readonly pendingReplies: { expected: string; resolve: () => void }[] = [];
+
+	constructor(worker: EngineWorkerLike = createEngineWorker()) {
+		this.worker = worker;
+		this.worker.onmessage = (event) => {
+			if (typeof event.data === 'string') this.receive(event.data);
+		};
+	}
+
+	/** Performs the `uci` handshake and waits until the engine is ready. */
+	async init(): Promise<void> {
+		await this.request('uci', 'uciok');
+		await this.isReady();
+	}
+
+	isReady(): Promise<void> {
+		return this.request('isready', 'readyok');
+	}
+
+	newGame(): void {
+		this.worker.postMessage('ucinewgame');
+	}
+
+	/** Takes effect from the next `go` on, e.g. `setOption('MultiPV', 3)`. */
+	setOption(name: string, value: string | number): void {
+		this.worker.postMessage(`setoption name ${name} value ${value}`);
+	}
+
+	setPosition(fen: string, moves: string[] = []): void {
+		const movesPart = moves.length > 0 ? ` moves ${moves.join(' ')}` : '';
+		this.worker.postMessage(`position fen ${fen}${movesPart}`);
+	}
+
+	go(
+		options: EngineGoOptions = {},
+		onInfo?: (info: EngineInfo) => void
+	): Promise<EngineSearchResult> {
+		let command = 'go';
+		if (options.depth !== undefined) command += ` depth ${options.depth}`;
+		if (options.movetimeMs !== undefined) command += ` movetime ${options.movetimeMs}`;
+		if (options.nodes !== undefined) command += ` nodes ${options.nodes}`;
+		if (command === 'go') command += ' infinite';
+
+		return new Promise((resolve) => {
+			this.pendingSearches.push({ onInfo, lastInfo: null, resolve });
+			this.worker.postMessage(command);
+		});
+	}
+
+	/** Asks the running search to finish; its `go` promise resolves with the best move so far. */
+	stop(): void {
+		this.worker.postMessage('stop');
+	}
+
+	terminate(): void {
+		this.worker.terminate();
+		for (const search of this.pendingSearches.splice(0)) {
+			search.resolve({ bestMove: null, info: search.lastInfo });
+		}
+	}
+
+	private request(command: string, expected: string): Promise<void> {
+		return new Promise((resolve) => {
+			this.pendingReplies.push({ expected, resolve });
+			this.worker.postMessage(command);
+		});
+	}
+
+	private receive(line: string): void {
+		const keyword = line.split(/\s+/, 1)[0];
+		if (keyword === 'info') {
+			const info = parseInfoLine(line);
+			const search = this.pendingSearches[0];
+			if (info !== null && search !== undefined) {
+				if (info.multiPv === 1) search.lastInfo = info;
+				search.onInfo?.(info);
+			}
+			return;
+		}
+
+		if (keyword === 'bestmove') {
+			const search = this.pendingSearches.shift();
+			const move = line.split(/\s+/)[1];
+			search?.resolve({
+				bestMove: move === undefined || move === NULL_MOVE_UCI ? null : move,
+				info: search.lastInfo
+			});
+			return;
+		}
+
+		const replyIndex = this.pendingReplies.findIndex((reply) => reply.expected === line);
+		if (replyIndex >= 0) {
+			this.pendingReplies.splice(replyIndex, 1)[0].resolve();
+		}
+	}
+}
+
+/**
+ * Worker stand-in that runs the same UciEngine in the current thread. Messages
+ * are delivered asynchronously in both directions, like with a real worker.
+ * Used by tests and wherever Web Workers are not available.
+ */
+export class InProcessEngineWorker implements EngineWorkerLike {
+	onmessage: ((event: MessageEvent) => void) | null = null;
+	private readonly engine = new UciEngine((line) => this.reply(line), {
+		board: new BoardInt8(),
+		moveToUci
+	});
+	private terminated = false;
+
+	postMessage(message: string): void {
+		setTimeout(() => {
+			if (!this.terminated) this.engine.handle(message);
+		}, 0);
+	}
+
+	terminate(): void {
+		this.terminated = true;
+		this.engine.handle('stop');
+	}
+
+	private reply(line: string): void {
+		setTimeout(() => {
+			if (!this.terminated) this.onmessage?.(new MessageEvent('message', { data: line }));
+		}, 0);
+	}
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	boardInfoToEngineFen,
+	boardInfoToInt8,
+	int8ToBoardInfo,
+	uciLineToAlgebraic
+} from '$lib/chess/engine/convert';
+import { BoardInt8 } from '$lib/chess/engine/int8';
+import { newBoardInfo } from '$lib/chess/board';
+import { parseFen } from '$lib/chess/fen';
+import { PieceId } from '$lib/chess/piece';
+
+describe('BoardInfo conversion', () => {
+	it('round-trips a position through the engine board', () => {
+		const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3pP3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w Kq d6 3 17';
+		const board = boardInfoToInt8(parseFen(fen));
+
+		expect(board.toFen()).toBe(fen);
+		expect(boardInfoToEngineFen(int8ToBoardInfo(board))).toBe(fen);
+	});
+
+	it('writes the side to move and move number as standard FEN', () => {
+		const board = newBoardInfo();
+		board.pieces.set('e1', PieceId.WHITE_KING);
+		board.pieces.set('e8', PieceId.BLACK_KING);
+		board.turnColor = 'black';
+
+		expect(boardInfoToEngineFen(board)).toBe('4k3/8/8/8/8/8/8/4K3 b KQkq - 0 1');
+	});
+
+	it('loads into an existing board and rejects positions without kings', () => {
+		const target = new BoardInt8();
+
+		expect(boardInfoToInt8(parseFen('4k3/8/8/8/8/8/8/4K3 b - - 0 1'), target)).toBe(target);
+		expect(target.isWhiteToMove()).toBe(false);
+		expect(() => boardInfoToInt8(parseFen('8/8/8/8/8/8/8/8 w - - 0 1'), target)).toThrow(/king/);
+	});
+
+	it('converts a line of UCI moves to algebraic notation', () => {
+		const start = parseFen('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+		const line = ['e2e4', 'e7e5', 'g1f3', 'b8c6', 'f1c4', 'g8f6', 'e1g1'];
+		expect(uciLineToAlgebraic(start, line)).toEqual([
+			'e4',
+			'e5',
+			'Nf3',
+			'Nc6',
+			'Bc4',
+			'Nf6',
+			'O-O'
+		]);
+
+		const promotion = parseFen('1n5k/P7/8/8/8/8/8/7K w - - 0 1');
+		expect(uciLineToAlgebraic(promotion, ['a7b8q', 'h8g7'])).toEqual(['axb8=Q', 'Kg7']);
+	});
+
+	it('stops at the first illegal move', () => {
+		const start = parseFen('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+		expect(uciLineToAlgebraic(start, ['e2e4', 'e2e4', 'd7d5'])).toEqual(['e4']);
+	});
+});
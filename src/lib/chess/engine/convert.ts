@@ -0,0 +1,57 @@
+import { moveToAlgebraic } from '$lib/chess/algebraic';
+import { PlayerColor, type BoardInfo } from '$lib/chess/board';
+import { boardToFen, parseFen } from '$lib/chess/fen';
+import { BoardInt8 } from '$lib/chess/engine/int8';
+import { applyMove, getLegalMoves, type Move } from '$lib/chess/moves';
+
+/**
+ * Standard FEN of a BoardInfo, as accepted by the engine boards. Note that the
+ * engine boards are stricter than parseFen: positions without a king or with an
+ * impossible en passant target are rejected on load.
+ */
+export function boardInfoToEngineFen(board: BoardInfo): string {
+	// @HACK: boardToFen writes the turn as `white`/`black` (see TODO.md), the
+	//        engine boards only understand `w`/`b`.
+	const fields = boardToFen(board).split(' ');
+	fields[1] = board.turnColor === PlayerColor.WHITE ? 'w' : 'b';
+	// NOTE: newBoardInfo starts counting moves from 0, FEN from 1.
+	fields[5] = String(Math.max(1, board.fullMoveNumber));
+	return fields.join(' ');
+}
+
+/** Loads the position into `target` (a new board by default). Throws if the engine board rejects it. */
+export function boardInfoToInt8(board: BoardInfo, target = new BoardInt8()): BoardInt8 {
+	target.loadFen(boardInfoToEngineFen(board));
+	return target;
+}
+
+/** Position of the engine board; the move history is not part of it and is left empty. */
+export function int8ToBoardInfo(board: BoardInt8): BoardInfo {
+	return parseFen(board.toFen());
+}
+
+/**
+ * UCI notation of a BoardInfo move. Castling moves end on the same square as
+ * in UCI: the king's destination, or the rook in Chess960.
+ */
+export function boardMoveToUci(move: Move): string {
+	return `${move.from}${move.to}${move.promotion?.toLowerCase() ?? ''}`;
+}
+
+/**
+ * Algebraic notation of UCI moves (e.g. an engine's principal variation)
+ * played one after another from `board`. Conversion ends at the first move
+ * that is not legal in its position.
+ */
+export function uciLineToAlgebraic(board: BoardInfo, uciMoves: string[]): string[] {
+	const notations: string[] = [];
+	let current = board;
+	for (const uci of uciMoves) {
+		const move = getLegalMoves(current, true).find((legal) => boardMoveToUci(legal) === uci);
+		if (!move) break;
+		move.algebraic = moveToAlgebraic(current, move);
+		notations.push(move.algebraic);
+		current = applyMove(current, move);
+	}
+	return notations;
+}
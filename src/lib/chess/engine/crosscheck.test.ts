@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	createBoardGenerator,
+	createBoardInfoGenerator,
+	findPerftDivergence,
+	formatPerftDivergence,
+	type PerftMoveGenerator
+} from '$lib/chess/engine/crosscheck';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { CHESS960_PERFT_POSITIONS, PERFT_POSITIONS } from '$lib/chess/engine/perft';
+
+// NOTE: The BoardInfo generator builds full Move objects, so it is kept to
+//       shallow trees.
+const CROSSCHECK_NODE_BUDGET = 3_000;
+
+describe('perft cross-check', () => {
+	it('finds no divergence between the move generators', () => {
+		for (const position of PERFT_POSITIONS) {
+			const depth = position.nodes.filter((nodes) => nodes <= CROSSCHECK_NODE_BUDGET).length;
+			const divergence = findPerftDivergence(position.fen, Math.max(depth, 1));
+			expect(divergence, position.name).toBeNull();
+		}
+	}, 30_000);
+
+	it('finds no divergence in Chess960 positions', () => {
+		for (const position of CHESS960_PERFT_POSITIONS) {
+			const depth = position.nodes.filter((nodes) => nodes <= CROSSCHECK_NODE_BUDGET).length;
+			expect(findPerftDivergence(position.fen, depth), position.name).toBeNull();
+		}
+	}, 30_000);
+
+	it('reports the first diverging position and move', () => {
+		// NOTE: A generator that never captures en passant.
+		const int8 = createBoardGenerator('int8', new BoardInt8(), moveToUci);
+		const broken: PerftMoveGenerator = {
+			...int8,
+			name: 'no-en-passant',
+			legalMoves: () => int8.legalMoves().filter((move) => move !== 'e5d6')
+		};
+		const fen = '4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1';
+
+		expect(findPerftDivergence(fen, 2, [createBoardInfoGenerator(), broken])).toEqual({
+			fen,
+			path: [],
+			move: 'e5d6',
+			generatedBy: ['moves'],
+			missingFrom: ['no-en-passant']
+		});
+	});
+
+	it('reports divergences below the root with the path leading to them', () => {
+		const int8 = createBoardGenerator('int8', new BoardInt8(), moveToUci);
+		const path: string[] = [];
+		const broken: PerftMoveGenerator = {
+			...int8,
+			name: 'no-castling-after-king-walk',
+			makeMove: (uci) => {
+				path.push(uci);
+				int8.makeMove(uci);
+			},
+			unmakeMove: () => {
+				path.pop();
+				int8.unmakeMove();
+			},
+			legalMoves: () =>
+				int8.legalMoves().filter((move) => !(path.includes('a2a3') && move === 'e1g1'))
+		};
+
+		const divergence = findPerftDivergence('4k3/8/8/8/8/8/P7/4K2R w K - 0 1', 3, [
+			createBoardGenerator('int8', new BoardInt8(), moveToUci),
+			broken
+		]);
+
+		expect(divergence).toEqual({
+			fen: '8/3k4/8/8/8/P7/8/4K2R w K - 1 2',
+			path: ['a2a3', 'e8d7'],
+			move: 'e1g1',
+			generatedBy: ['int8'],
+			missingFrom: ['no-castling-after-king-walk']
+		});
+		expect(formatPerftDivergence(divergence!)).toContain('after: a2a3 e8d7');
+	});
+});
@@ -0,0 +1,197 @@
+import type { AbstractBoard, BoardInfo } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardBitboard, bitboardMoveToUci } from '$lib/chess/engine/bitboard';
+import { boardInfoToEngineFen, boardMoveToUci } from '$lib/chess/engine/convert';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { zobristKeyToHex } from '$lib/chess/engine/zobrist';
+import { parseFen } from '$lib/chess/fen';
+import { applyMove, getLegalMovesByRules, type Move } from '$lib/chess/moves';
+
+/** One move generator under test, driven by UCI moves so that any two can be compared. */
+export interface PerftMoveGenerator {
+	readonly name: string;
+	loadFen(fen: string): void;
+	toFen(): string;
+	/** Legal moves of the current position in UCI notation, in any order. */
+	legalMoves(): string[];
+	makeMove(uci: string): void;
+	unmakeMove(): void;
+	/** Position key, for generators that maintain one incrementally. */
+	hash?(): string;
+}
+
+export interface PerftDivergence {
+	/** Position in which the generators disagree. */
+	fen: string;
+	/** Moves from the root position to `fen`. */
+	path: string[];
+	/** First move, in UCI order, that is missing from some of the generators. */
+	move: string;
+	generatedBy: string[];
+	missingFrom: string[];
+}
+
+export function createBoardGenerator<TMoveBuffer, TMove>(
+	name: string,
+	board: AbstractBoard<TMoveBuffer, TMove>,
+	toUci: (move: TMove) => string
+): PerftMoveGenerator {
+	const buffer = board.allocateMoveBuffer();
+	const madeMoves: TMove[] = [];
+
+	return {
+		name,
+		loadFen: (fen) => {
+			board.loadFen(fen);
+			madeMoves.length = 0;
+		},
+		toFen: () => board.toFen(),
+		hash: () => zobristKeyToHex(board.hashLow(), board.hashHigh()),
+		legalMoves: () => {
+			const count = board.generateLegalMoves(buffer);
+			const moves: string[] = [];
+			for (let i = 0; i < count; i++) moves.push(toUci(board.getMoveByIndex(buffer, i)));
+			return moves;
+		},
+		makeMove: (uci) => {
+			const count = board.generateLegalMoves(buffer);
+			for (let i = 0; i < count; i++) {
+				const move = board.getMoveByIndex(buffer, i);
+				if (toUci(move) !== uci) continue;
+				board.makeMove(move);
+				madeMoves.push(move);
+				return;
+			}
+			throw new Error(`${name}: illegal move ${uci} in ${board.toFen()}`);
+		},
+		unmakeMove: () => {
+			const move = madeMoves.pop();
+			if (move === undefined) throw new Error(`${name}: no move to unmake`);
+			board.unmakeMove(move);
+		}
+	};
+}
+
+/**
+ * The `moves.ts` generator: calculateMove/applyMove over immutable BoardInfo
+ * snapshots. Legality comes from the piece rules, not from the BoardInt8
+ * lookup that moves.ts answers with otherwise, so that it stays independent.
+ */
+export function createBoardInfoGenerator(name = 'moves'): PerftMoveGenerator {
+	const boards: BoardInfo[] = [];
+	// NOTE: Building every Move is the expensive part, so keep them per position
+	//       for the makeMove calls that follow legalMoves.
+	const legalMovesCache = new WeakMap<BoardInfo, Map<string, Move>>();
+	const current = () => {
+		const board = boards.at(-1);
+		if (!board) throw new Error(`${name}: no position loaded`);
+		return board;
+	};
+	const currentLegalMoves = (): Map<string, Move> => {
+		const board = current();
+		let moves = legalMovesCache.get(board);
+		if (!moves) {
+			moves = new Map(
+				getLegalMovesByRules(board, true).map((move) => [boardMoveToUci(move), move])
+			);
+			legalMovesCache.set(board, moves);
+		}
+		return moves;
+	};
+
+	return {
+		name,
+		loadFen: (fen) => {
+			boards.length = 0;
+			boards.push(parseFen(fen));
+		},
+		toFen: () => boardInfoToEngineFen(current()),
+		legalMoves: () => [...currentLegalMoves().keys()],
+		makeMove: (uci) => {
+			const move = currentLegalMoves().get(uci);
+			if (!move) {
+				throw new Error(`${name}: illegal move ${uci} in ${boardInfoToEngineFen(current())}`);
+			}
+			boards.push(applyMove(current(), move));
+		},
+		unmakeMove: () => {
+			if (boards.length <= 1) throw new Error(`${name}: no move to unmake`);
+			boards.pop();
+		}
+	};
+}
+
+// NOTE: The four generators share no move generation or king safety code, so
+//       every pair is independent: BoardInt8, Board0x88 and BoardBitboard have
+//       their own, and the BoardInfo generator uses the piece rules of moves.ts.
+//       Only the conversions between FEN, BoardInfo and UCI moves are shared.
+export function createDefaultGenerators(): PerftMoveGenerator[] {
+	return [
+		createBoardGenerator('int8', new BoardInt8(), moveToUci),
+		createBoardGenerator('0x88', new Board0x88(), moveToLongAlgebraic),
+		createBoardGenerator('bitboard', new BoardBitboard(), bitboardMoveToUci),
+		createBoardInfoGenerator()
+	];
+}
+
+/**
+ * Walks the move tree to the given depth with all generators in lockstep and
+ * compares the legal moves of every position on the way, so the result covers
+ * exactly the positions counted by perft(depth). Returns the first position
+ * (in UCI move order) where the generators disagree, or null.
+ */
+export function findPerftDivergence(
+	fen: string,
+	depth: number,
+	generators: PerftMoveGenerator[] = createDefaultGenerators()
+): PerftDivergence | null {
+	if (generators.length === 0) throw new Error('No move generators to compare');
+	for (const generator of generators) generator.loadFen(fen);
+	return walk(generators, depth, []);
+}
+
+export function formatPerftDivergence(divergence: PerftDivergence): string {
+	const path = divergence.path.length > 0 ? divergence.path.join(' ') : '(root)';
+	return [
+		`position: ${divergence.fen}`,
+		`after: ${path}`,
+		`move: ${divergence.move}`,
+		`generated by: ${divergence.generatedBy.join(', ')}`,
+		`missing from: ${divergence.missingFrom.join(', ')}`
+	].join('\n');
+}
+
+function walk(
+	generators: PerftMoveGenerator[],
+	depth: number,
+	path: string[]
+): PerftDivergence | null {
+	if (depth <= 0) return null;
+
+	const moveSets = generators.map((generator) => new Set(generator.legalMoves()));
+	const allMoves = [...new Set(moveSets.flatMap((moves) => [...moves]))].sort();
+
+	for (const move of allMoves) {
+		const missingFrom = generators.filter((_, i) => !moveSets[i].has(move));
+		if (missingFrom.length === 0) continue;
+		return {
+			fen: generators[0].toFen(),
+			path: [...path],
+			move,
+			generatedBy: generators.filter((_, i) => moveSets[i].has(move)).map((g) => g.name),
+			missingFrom: missingFrom.map((g) => g.name)
+		};
+	}
+
+	if (depth === 1) return null;
+
+	for (const move of allMoves) {
+		for (const generator of generators) generator.makeMove(move);
+		path.push(move);
+		const divergence = walk(generators, depth - 1, path);
+		path.pop();
+		for (const generator of generators) generator.unmakeMove();
+		if (divergence) return divergence;
+	}
+	return null;
+}
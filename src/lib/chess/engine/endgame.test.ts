@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { EndgameMaterial, EndgameTablebase, Wdl } from '$lib/chess/engine/endgame';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { isMateScore, MATE_SCORE } from '$lib/chess/engine/score';
+import { Search, SearchSource } from '$lib/chess/engine/search';
+import { parseFen } from '$lib/chess/fen';
+
+// NOTE: Shared, so that every table is solved once for the whole file.
+const tablebase = new EndgameTablebase();
+
+function probe(fen: string) {
+	return tablebase.probeBoard(new BoardInt8(fen));
+}
+
+describe('EndgameTablebase', () => {
+	it('scores mates and stalemates', () => {
+		expect(probe('7k/8/6K1/8/8/8/8/1Q6 w - - 0 1')).toEqual({
+			material: EndgameMaterial.KQK,
+			wdl: Wdl.WIN,
+			dtm: 1
+		});
+		expect(probe('1Q5k/8/6K1/8/8/8/8/8 b - - 0 1')).toEqual({
+			material: EndgameMaterial.KQK,
+			wdl: Wdl.LOSS,
+			dtm: 0
+		});
+		expect(probe('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1')?.wdl).toBe(Wdl.DRAW);
+	});
+
+	it('wins with a rook from any corner', () => {
+		const result = probe('8/8/8/8/4k3/8/8/K6R w - - 0 1');
+		expect(result?.material).toBe(EndgameMaterial.KRK);
+		expect(result?.wdl).toBe(Wdl.WIN);
+		// NOTE: The longest KRK win is 16 moves, 31 plies.
+		expect(result?.dtm).toBeLessThanOrEqual(31);
+		expect(result!.dtm % 2).toBe(1);
+	});
+
+	it('knows the basic pawn endings', () => {
+		expect(probe('4k3/8/4K3/4P3/8/8/8/8 w - - 0 1')?.wdl).toBe(Wdl.WIN);
+		expect(probe('4k3/8/4K3/4P3/8/8/8/8 b - - 0 1')?.wdl).toBe(Wdl.LOSS);
+		// NOTE: The defending king blocks the pawn and keeps the opposition.
+		expect(probe('8/8/4k3/8/4P3/4K3/8/8 w - - 0 1')?.wdl).toBe(Wdl.DRAW);
+		expect(probe('k7/8/8/8/8/8/P7/K7 w - - 0 1')?.wdl).toBe(Wdl.DRAW);
+	});
+
+	it('mirrors positions where Black has the piece', () => {
+		expect(probe('1q6/8/8/8/8/6k1/8/7K b - - 0 1')).toEqual(
+			probe('7k/8/6K1/8/8/8/8/1Q6 w - - 0 1')
+		);
+		expect(probe('8/8/8/4p3/4k3/8/4K3/8 w - - 0 1')).toEqual(
+			probe('8/4k3/8/4K3/4P3/8/8/8 b - - 0 1')
+		);
+	});
+
+	it('probes BoardInfo like the engine board', () => {
+		const fen = '8/8/3k4/8/8/2R5/8/4K3 b - - 0 1';
+		expect(tablebase.probeBoardInfo(parseFen(fen))).toEqual(probe(fen));
+		expect(tablebase.probeBoardInfo(parseFen('8/8/3k4/8/8/2R5/4p3/4K3 b - - 0 1'))).toBeNull();
+		expect(probe('8/8/3k4/8/8/2B5/8/4K3 b - - 0 1')).toBeNull();
+	});
+});
+
+describe('search with a tablebase', () => {
+	it('plays the fastest mate from the table', () => {
+		const board = new BoardInt8('7k/8/6K1/8/8/8/8/1Q6 w - - 0 1');
+		const infos: number[] = [];
+		const result = new Search(board, { tablebase }).search({ depth: 4 }, (info) =>
+			infos.push(info.score)
+		);
+
+		expect(result.source).toBe(SearchSource.TABLEBASE);
+		expect(infos).toEqual([MATE_SCORE - 1]);
+		expect(moveToUci(result.bestMove!)).toBe('b1b8');
+		expect(result.score).toBe(MATE_SCORE - 1);
+		expect(result.pv).toHaveLength(1);
+	});
+
+	it('follows the table to mate in the principal variation', () => {
+		const board = new BoardInt8('8/8/8/8/4k3/8/8/K6R w - - 0 1');
+		const result = new Search(board, { tablebase }).search({ depth: 1, multiPv: 2 });
+
+		expect(result.lines).toHaveLength(2);
+		expect(result.pv).toHaveLength(probe('8/8/8/8/4k3/8/8/K6R w - - 0 1')!.dtm);
+		expect(result.lines[0].score).toBeGreaterThanOrEqual(result.lines[1].score);
+	});
+
+	it('scores captures that reach a table as mates', () => {
+		const fen = '8/8/8/3k4/8/8/8/r2QK3 w - - 0 1';
+		const withTablebase = new Search(new BoardInt8(fen), { tablebase }).search({ depth: 2 });
+		const withoutTablebase = new Search(new BoardInt8(fen)).search({ depth: 2 });
+
+		expect(withTablebase.source).toBe(SearchSource.SEARCH);
+		expect(moveToUci(withTablebase.bestMove!)).toBe('d1a1');
+		expect(isMateScore(withTablebase.score)).toBe(true);
+		expect(isMateScore(withoutTablebase.score)).toBe(false);
+	});
+});
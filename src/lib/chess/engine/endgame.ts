@@ -0,0 +1,372 @@
+import { PlayerColor, Position, type AbstractBoard, type BoardInfo } from '$lib/chess/board';
+import { PieceType } from '$lib/chess/engine/int8';
+import { MATE_SCORE } from '$lib/chess/engine/score';
+import { PieceId } from '$lib/chess/piece';
+
+/** Material sets with a table: both kings and one piece of the stronger side. */
+export const EndgameMaterial = {
+	KPK: 'KPK',
+	KRK: 'KRK',
+	KQK: 'KQK'
+} as const;
+export type EndgameMaterial = (typeof EndgameMaterial)[keyof typeof EndgameMaterial];
+
+/** Win, draw or loss for the side to move. */
+export const Wdl = {
+	LOSS: -1,
+	DRAW: 0,
+	WIN: 1
+} as const;
+export type Wdl = (typeof Wdl)[keyof typeof Wdl];
+
+export interface EndgameProbe {
+	material: EndgameMaterial;
+	wdl: Wdl;
+	/** Plies until mate with best play from both sides; 0 for draws and when mated. */
+	dtm: number;
+}
+
+/** Squares 0 (a1) through 63 (h8) and signed piece types, like AbstractBoard.pieceAt. */
+export interface EndgamePieces {
+	whiteToMove: boolean;
+	/** Squares of the pieces other than the kings. */
+	squares: number[];
+	pieces: number[];
+	whiteKing: number;
+	blackKing: number;
+}
+
+const MATERIAL_BY_PIECE_TYPE: Partial<Record<number, EndgameMaterial>> = {
+	[PieceType.PAWN]: EndgameMaterial.KPK,
+	[PieceType.ROOK]: EndgameMaterial.KRK,
+	[PieceType.QUEEN]: EndgameMaterial.KQK
+};
+const PIECE_TYPE_BY_MATERIAL: Record<EndgameMaterial, number> = {
+	[EndgameMaterial.KPK]: PieceType.PAWN,
+	[EndgameMaterial.KRK]: PieceType.ROOK,
+	[EndgameMaterial.KQK]: PieceType.QUEEN
+};
+// NOTE: Pawns promote to a queen or a rook; a knight or bishop would leave
+//       insufficient material, so those promotions are never better.
+const PROMOTIONS = [EndgameMaterial.KQK, EndgameMaterial.KRK] as const;
+
+// NOTE: Positions are indexed as (side to move, white king, black king, piece),
+//       6 bits each, with the stronger side always White; see EndgameTablebase.probe.
+const TABLE_SIZE = 2 * 64 * 64 * 64;
+const BLACK_TO_MOVE = 1 << 18;
+// NOTE: Marks a black position where the king can capture the piece, which
+//       draws; it is never counted down to 0.
+const ESCAPE = 255;
+
+const KING_DIRECTIONS = [
+	[1, 0],
+	[-1, 0],
+	[0, 1],
+	[0, -1],
+	[1, 1],
+	[1, -1],
+	[-1, 1],
+	[-1, -1]
+] as const;
+const ROOK_DIRECTIONS = KING_DIRECTIONS.slice(0, 4);
+
+const KING_MOVES: number[][] = Array.from({ length: 64 }, (_, square) =>
+	KING_DIRECTIONS.map(([file, rank]) => offsetSquare(square, file, rank)).filter(
+		(target) => target >= 0
+	)
+);
+
+function offsetSquare(square: number, fileOffset: number, rankOffset: number): number {
+	const file = (square & 7) + fileOffset;
+	const rank = (square >> 3) + rankOffset;
+	return file >= 0 && file < 8 && rank >= 0 && rank < 8 ? rank * 8 + file : -1;
+}
+
+function isAdjacent(a: number, b: number): boolean {
+	return Math.abs((a & 7) - (b & 7)) <= 1 && Math.abs((a >> 3) - (b >> 3)) <= 1;
+}
+
+function tableIndex(whiteToMove: boolean, whiteKing: number, blackKing: number, piece: number) {
+	return (whiteToMove ? 0 : BLACK_TO_MOVE) | (whiteKing << 12) | (blackKing << 6) | piece;
+}
+
+/**
+ * Retrograde solution of one material set: starting from the mates, every
+ * position is resolved in order of its distance to mate. Positions that are
+ * never reached are draws.
+ */
+class EndgameTable {
+	readonly material: EndgameMaterial;
+	private readonly pieceType: number;
+	// NOTE: Wdl of the side to move and plies to mate, by table index.
+	private readonly wdl = new Int8Array(TABLE_SIZE);
+	private readonly dtm = new Uint8Array(TABLE_SIZE);
+	// NOTE: Black positions only: moves that have not been shown to lose yet.
+	private readonly remainingMoves = new Uint8Array(TABLE_SIZE);
+	private readonly buckets: number[][] = [];
+
+	constructor(material: EndgameMaterial, promotionTables: EndgameTable[] = []) {
+		this.material = material;
+		this.pieceType = PIECE_TYPE_BY_MATERIAL[material];
+		this.seedBlackPositions();
+		for (const table of promotionTables) this.seedPromotions(table);
+		this.propagate();
+	}
+
+	probe(whiteToMove: boolean, whiteKing: number, blackKing: number, piece: number): EndgameProbe {
+		const index = tableIndex(whiteToMove, whiteKing, blackKing, piece);
+		const wdl = this.wdl[index] as Wdl;
+		return { material: this.material, wdl, dtm: wdl === Wdl.DRAW ? 0 : this.dtm[index] };
+	}
+
+	/** The piece may stand on the square: no pawns on the first or last rank. */
+	private isPieceSquare(square: number): boolean {
+		return this.pieceType !== PieceType.PAWN || (square >= 8 && square < 56);
+	}
+
+	/** Squares the piece attacks, with the white king as the only possible blocker. */
+	private attacks(piece: number, target: number, whiteKing: number): boolean {
+		if (this.pieceType === PieceType.PAWN) {
+			return target - piece === 7 ? (piece & 7) > 0 : target - piece === 9 && (piece & 7) < 7;
+		}
+		const fileStep = Math.sign((target & 7) - (piece & 7));
+		const rankStep = Math.sign((target >> 3) - (piece >> 3));
+		const isStraight = fileStep === 0 || rankStep === 0;
+		const isDiagonal =
+			Math.abs((target & 7) - (piece & 7)) === Math.abs((target >> 3) - (piece >> 3));
+		if (target === piece || !(isStraight || (isDiagonal && this.pieceType === PieceType.QUEEN))) {
+			return false;
+		}
+		for (let square = offsetSquare(piece, fileStep, rankStep); ; ) {
+			if (square === target) return true;
+			if (square === whiteKing) return false;
+			square = offsetSquare(square, fileStep, rankStep);
+		}
+	}
+
+	private isValid(whiteToMove: boolean, whiteKing: number, blackKing: number, piece: number) {
+		if (whiteKing === blackKing || piece === whiteKing || piece === blackKing) return false;
+		if (isAdjacent(whiteKing, blackKing) || !this.isPieceSquare(piece)) return false;
+		// NOTE: The side that is not to move cannot be in check.
+		return !whiteToMove || !this.attacks(piece, blackKing, whiteKing);
+	}
+
+	private push(dtm: number, index: number): void {
+		(this.buckets[dtm] ??= []).push(index);
+	}
+
+	/** Counts the moves of every black position and seeds the mates. */
+	private seedBlackPositions(): void {
+		for (let whiteKing = 0; whiteKing < 64; whiteKing++) {
+			for (let blackKing = 0; blackKing < 64; blackKing++) {
+				for (let piece = 0; piece < 64; piece++) {
+					if (!this.isValid(false, whiteKing, blackKing, piece)) continue;
+					const index = tableIndex(false, whiteKing, blackKing, piece);
+					let moves = 0;
+					for (const target of KING_MOVES[blackKing]) {
+						if (target === whiteKing || isAdjacent(target, whiteKing)) continue;
+						if (target === piece) {
+							moves = ESCAPE;
+							break;
+						}
+						if (!this.attacks(piece, target, whiteKing)) moves++;
+					}
+					this.remainingMoves[index] = moves;
+					if (moves === 0 && this.attacks(piece, blackKing, whiteKing)) {
+						this.wdl[index] = Wdl.LOSS;
+						this.push(0, index);
+					}
+				}
+			}
+		}
+	}
+
+	/** White pawn positions that win by promoting into a lost position of `table`. */
+	private seedPromotions(table: EndgameTable): void {
+		for (let whiteKing = 0; whiteKing < 64; whiteKing++) {
+			for (let blackKing = 0; blackKing < 64; blackKing++) {
+				for (let pawn = 48; pawn < 56; pawn++) {
+					const promotion = pawn + 8;
+					if (!this.isValid(true, whiteKing, blackKing, pawn)) continue;
+					if (promotion === whiteKing || promotion === blackKing) continue;
+					const result = table.probe(false, whiteKing, blackKing, promotion);
+					if (result.wdl === Wdl.LOSS) {
+						this.push(result.dtm + 1, tableIndex(true, whiteKing, blackKing, pawn));
+					}
+				}
+			}
+		}
+	}
+
+	private propagate(): void {
+		for (let dtm = 0; dtm < this.buckets.length; dtm++) {
+			for (const index of this.buckets[dtm] ?? []) {
+				const whiteKing = (index >> 12) & 63;
+				const blackKing = (index >> 6) & 63;
+				const piece = index & 63;
+				if ((index & BLACK_TO_MOVE) !== 0) {
+					this.resolveWhitePredecessors(dtm, whiteKing, blackKing, piece);
+				} else if (this.wdl[index] === Wdl.DRAW) {
+					// NOTE: A white position can be pushed more than once; the first is the shortest mate.
+					this.wdl[index] = Wdl.WIN;
+					this.dtm[index] = dtm;
+					this.resolveBlackPredecessors(dtm, whiteKing, blackKing, piece);
+				}
+			}
+		}
+	}
+
+	/** Every white move into a lost black position wins. */
+	private resolveWhitePredecessors(
+		dtm: number,
+		whiteKing: number,
+		blackKing: number,
+		piece: number
+	) {
+		this.dtm[tableIndex(false, whiteKing, blackKing, piece)] = dtm;
+		const win = (king: number, from: number) => {
+			if (!this.isValid(true, king, blackKing, from)) return;
+			const index = tableIndex(true, king, blackKing, from);
+			if (this.wdl[index] === Wdl.DRAW) this.push(dtm + 1, index);
+		};
+
+		for (const from of KING_MOVES[whiteKing]) {
+			if (from !== blackKing && from !== piece) win(from, piece);
+		}
+		if (this.pieceType === PieceType.PAWN) {
+			const from = piece - 8;
+			if (from !== whiteKing && from !== blackKing) {
+				win(whiteKing, from);
+				if (piece >> 3 === 3 && from - 8 !== whiteKing && from - 8 !== blackKing) {
+					win(whiteKing, from - 8);
+				}
+			}
+			return;
+		}
+		const directions = this.pieceType === PieceType.QUEEN ? KING_DIRECTIONS : ROOK_DIRECTIONS;
+		for (const [fileStep, rankStep] of directions) {
+			let from = offsetSquare(piece, fileStep, rankStep);
+			while (from >= 0 && from !== whiteKing && from !== blackKing) {
+				win(whiteKing, from);
+				from = offsetSquare(from, fileStep, rankStep);
+			}
+		}
+	}
+
+	/** A black position is lost once every one of its moves is. */
+	private resolveBlackPredecessors(
+		dtm: number,
+		whiteKing: number,
+		blackKing: number,
+		piece: number
+	) {
+		for (const from of KING_MOVES[blackKing]) {
+			if (from === whiteKing || from === piece) continue;
+			if (!this.isValid(false, whiteKing, from, piece)) continue;
+			const index = tableIndex(false, whiteKing, from, piece);
+			if (this.remainingMoves[index] === ESCAPE || this.wdl[index] !== Wdl.DRAW) continue;
+			if (--this.remainingMoves[index] === 0) {
+				this.wdl[index] = Wdl.LOSS;
+				this.push(dtm + 1, index);
+			}
+		}
+	}
+}
+
+/**
+ * Perfect play for KPK, KRK and KQK, with either side as the stronger one.
+ * Each table is solved in memory on its first probe, which takes a moment.
+ * The tables assume that castling is no longer possible.
+ */
+export class EndgameTablebase {
+	private readonly tables = new Map<EndgameMaterial, EndgameTable>();
+
+	/** Solves a table ahead of its first probe. */
+	solve(material: EndgameMaterial): void {
+		this.getTable(material);
+	}
+
+	/** Null unless the position is one of the solved material sets. */
+	probe(position: EndgamePieces): EndgameProbe | null {
+		if (position.pieces.length !== 1 || position.whiteKing < 0 || position.blackKing < 0) {
+			return null;
+		}
+		const [piece] = position.pieces;
+		const material = MATERIAL_BY_PIECE_TYPE[Math.abs(piece)];
+		if (material === undefined) return null;
+
+		// NOTE: With Black as the stronger side, the board is mirrored top to
+		//       bottom and the colors are swapped, so that White has the piece.
+		const isMirrored = piece < 0;
+		const flip = isMirrored ? 56 : 0;
+		return this.getTable(material).probe(
+			position.whiteToMove !== isMirrored,
+			(isMirrored ? position.blackKing : position.whiteKing) ^ flip,
+			(isMirrored ? position.whiteKing : position.blackKing) ^ flip,
+			position.squares[0] ^ flip
+		);
+	}
+
+	probeBoard<TMoveBuffer, TMove>(board: AbstractBoard<TMoveBuffer, TMove>): EndgameProbe | null {
+		const position: EndgamePieces = {
+			whiteToMove: board.isWhiteToMove(),
+			squares: [],
+			pieces: [],
+			whiteKing: -1,
+			blackKing: -1
+		};
+		for (let square = 0; square < 64; square++) {
+			const piece = board.pieceAt(square);
+			if (piece === PieceType.KING) position.whiteKing = square;
+			else if (piece === -PieceType.KING) position.blackKing = square;
+			else if (piece !== 0) {
+				if (position.pieces.length > 0) return null;
+				position.squares.push(square);
+				position.pieces.push(piece);
+			}
+		}
+		return this.probe(position);
+	}
+
+	probeBoardInfo(board: BoardInfo): EndgameProbe | null {
+		if (board.pieces.size !== 3) return null;
+		const position: EndgamePieces = {
+			whiteToMove: board.turnColor === PlayerColor.WHITE,
+			squares: [],
+			pieces: [],
+			whiteKing: -1,
+			blackKing: -1
+		};
+		for (const [positionStr, pieceId] of board.pieces) {
+			const square = Position.fromStr(positionStr);
+			const index = square.rankIndex() * 8 + square.fileIndex();
+			const type = 'pnbrqk'.indexOf(pieceId.toLowerCase()) + 1;
+			const piece = PieceId.isWhite(pieceId) ? type : -type;
+			if (piece === PieceType.KING) position.whiteKing = index;
+			else if (piece === -PieceType.KING) position.blackKing = index;
+			else {
+				position.squares.push(index);
+				position.pieces.push(piece);
+			}
+		}
+		return this.probe(position);
+	}
+
+	private getTable(material: EndgameMaterial): EndgameTable {
+		let table = this.tables.get(material);
+		if (!table) {
+			const promotions =
+				material === EndgameMaterial.KPK ? PROMOTIONS.map((m) => this.getTable(m)) : [];
+			table = new EndgameTable(material, promotions);
+			this.tables.set(material, table);
+		}
+		return table;
+	}
+}
+
+/** Search score of a probe at `ply`: a mate score for decided positions, like the search uses. */
+export function endgameProbeToScore(probe: EndgameProbe, ply: number): number {
+	if (probe.wdl === Wdl.DRAW) return 0;
+	const mate = MATE_SCORE - ply - probe.dtm;
+	return probe.wdl === Wdl.WIN ? mate : -mate;
+}
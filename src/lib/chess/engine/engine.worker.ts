@@ -0,0 +1,15 @@
+import type { EngineMessagePort } from '$lib/chess/engine/client';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { UciEngine } from '$lib/chess/engine/uci';
+
+// NOTE: The project is type-checked against the DOM lib, where `self` is a
+//       Window. Inside a dedicated worker it only needs to be a message port.
+const scope = self as unknown as EngineMessagePort;
+const engine = new UciEngine((line) => scope.postMessage(line), {
+	board: new BoardInt8(),
+	moveToUci
+});
+
+scope.onmessage = (event) => {
+	if (typeof event.data === 'string') engine.handle(event.data);
+};
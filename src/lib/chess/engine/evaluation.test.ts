@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import { Board0x88 } from '$lib/chess/engine/0x88';
+import { BoardBitboard } from '$lib/chess/engine/bitboard';
+import {
+	EvaluationTerm,
+	evaluatePosition,
+	explainEvaluation,
+	gamePhase,
+	MAX_GAME_PHASE,
+	type EvaluationBreakdown
+} from '$lib/chess/engine/evaluation';
+import { BoardInt8, INITIAL_FEN } from '$lib/chess/engine/int8';
+import { PERFT_POSITIONS } from '$lib/chess/engine/perft';
+
+/** Positional score of `fen`, checked to be the same on all engine boards. */
+function positional(fen: string): number {
+	const score = evaluatePosition(new BoardInt8(fen));
+	expect(evaluatePosition(new Board0x88(fen)), fen).toBe(score);
+	expect(evaluatePosition(new BoardBitboard(fen)), fen).toBe(score);
+	return score;
+}
+
+/** Same position with the colors swapped and the board flipped vertically. */
+function mirrorFen(fen: string): string {
+	const [placement, turn, castling, enPassant, ...counters] = fen.split(' ');
+	const swapCase = (text: string) =>
+		[...text].map((c) => (c === c.toUpperCase() ? c.toLowerCase() : c.toUpperCase())).join('');
+	const mirroredCastling = castling === '-' ? '-' : [...swapCase(castling)].sort().join('');
+	const mirroredEnPassant =
+		enPassant === '-' ? '-' : `${enPassant[0]}${9 - Number(enPassant.slice(1))}`;
+	return [
+		swapCase(placement.split('/').reverse().join('/')),
+		turn === 'w' ? 'b' : 'w',
+		mirroredCastling,
+		mirroredEnPassant,
+		...counters
+	].join(' ');
+}
+
+describe('tapered evaluation', () => {
+	it('is zero in the initial position', () => {
+		expect(positional(INITIAL_FEN)).toBe(0);
+		expect(new BoardInt8(INITIAL_FEN).evaluate()).toBe(0);
+		expect(new Board0x88(INITIAL_FEN).evaluate()).toBe(0);
+	});
+
+	it('scores mirrored positions with opposite signs on all boards', () => {
+		for (const position of PERFT_POSITIONS) {
+			const score = positional(position.fen);
+			expect(positional(mirrorFen(position.fen)) + score, position.name).toBe(0);
+		}
+	});
+
+	it('derives the game phase from the pieces left on the board', () => {
+		expect(gamePhase(new BoardInt8(INITIAL_FEN))).toBe(MAX_GAME_PHASE);
+		expect(gamePhase(new BoardInt8('4k3/pppp4/8/8/8/8/PPPP4/4K3 w - - 0 1'))).toBe(0);
+		expect(gamePhase(new BoardInt8('3qk3/8/8/8/8/8/8/R3K3 w - - 0 1'))).toBe(6);
+	});
+
+	it('centralizes the king in the endgame but keeps it home in the middlegame', () => {
+		expect(positional('4k3/8/8/8/4K3/8/8/8 w - - 0 1')).toBeGreaterThan(
+			positional('4k3/8/8/8/8/8/8/4K3 w - - 0 1')
+		);
+		expect(positional('rnbq1rk1/pppppppp/8/8/4K3/8/PPPPPPPP/RNBQ1BNR w - - 0 1')).toBeLessThan(
+			positional('rnbq1rk1/pppppppp/8/8/8/8/PPPPPPPP/RNBQ1RK1 w - - 0 1')
+		);
+	});
+
+	it('values passed pawns more the further they have advanced', () => {
+		expect(positional('4k3/8/3P4/8/8/8/8/4K3 w - - 0 1')).toBeGreaterThan(
+			positional('4k3/8/8/8/8/3P4/8/4K3 w - - 0 1') + 100
+		);
+	});
+
+	it('penalizes doubled and isolated pawns', () => {
+		expect(positional('4k3/8/8/8/8/P7/P7/4K3 w - - 0 1')).toBeLessThan(
+			positional('4k3/8/8/8/8/8/PP6/4K3 w - - 0 1')
+		);
+	});
+
+	it('rewards the bishop pair and rooks on open files', () => {
+		expect(positional('2b1k3/8/8/8/8/8/8/2B1KB2 w - - 0 1')).toBeGreaterThan(30);
+		expect(positional('4k3/pp6/8/8/8/8/PP6/3RK3 w - - 0 1')).toBeGreaterThan(
+			positional('4k3/pp6/8/8/8/8/PP6/R3K3 w - - 0 1') + 10
+		);
+	});
+
+	it('penalizes a broken pawn shield in front of the king', () => {
+		expect(positional('rn1q2k1/5ppp/8/8/8/8/5PPP/RN1Q2K1 w - - 0 1')).toBeGreaterThan(
+			positional('rn1q2k1/5ppp/8/8/6P1/8/5P1P/RN1Q2K1 w - - 0 1')
+		);
+	});
+});
+
+describe('evaluation breakdown', () => {
+	it('gives both sides the same terms in the initial position', () => {
+		const breakdown = explainEvaluation(new BoardInt8(INITIAL_FEN));
+
+		expect(breakdown.phase).toBe(MAX_GAME_PHASE);
+		expect(breakdown.total).toBe(0);
+		expect(breakdown.terms.map((score) => score.term)).toEqual(Object.values(EvaluationTerm));
+		expect(breakdown.terms[0]).toEqual({ term: 'material', white: 4000, black: 4000 });
+		expect(breakdown.terms[2]).toEqual({ term: 'mobility', white: 100, black: 100 });
+		// NOTE: Board0x88 weighs a move with 1 centipawn instead of 5.
+		expect(explainEvaluation(new Board0x88(INITIAL_FEN)).terms[2]).toEqual({
+			term: 'mobility',
+			white: 20,
+			black: 20
+		});
+		for (const score of breakdown.terms) expect(score.white, score.term).toBe(score.black);
+	});
+
+	it('adds up to the evaluation on both boards', () => {
+		// NOTE: Only mobility may differ: Board0x88 leaves castling through an
+		//       attacked square out of its pseudo-legal moves, BoardInt8 does not.
+		const withoutMobility = (breakdown: EvaluationBreakdown) =>
+			breakdown.terms.filter((score) => score.term !== EvaluationTerm.MOBILITY);
+
+		for (const position of PERFT_POSITIONS) {
+			const breakdowns = [
+				explainEvaluation(new BoardInt8(position.fen)),
+				explainEvaluation(new Board0x88(position.fen))
+			];
+			for (const breakdown of breakdowns) {
+				const sum = breakdown.terms.reduce((total, score) => total + score.white - score.black, 0);
+				expect(Math.abs(sum - breakdown.total), position.name).toBeLessThan(1);
+			}
+			expect(withoutMobility(breakdowns[1]), position.name).toEqual(withoutMobility(breakdowns[0]));
+		}
+	});
+
+	it('attributes each feature to the side that has it', () => {
+		const terms = explainEvaluation(new BoardInt8('2b1k3/8/P7/8/8/8/8/2B1KB2 w - - 0 1')).terms;
+		const score = (term: EvaluationTerm) => terms.find((entry) => entry.term === term)!;
+
+		expect(score(EvaluationTerm.BISHOP_PAIR).white).toBeGreaterThan(0);
+		expect(score(EvaluationTerm.BISHOP_PAIR).black).toBe(0);
+		expect(score(EvaluationTerm.PAWN_STRUCTURE).white).toBeGreaterThan(0);
+		expect(score(EvaluationTerm.PAWN_STRUCTURE).black).toBe(0);
+	});
+});
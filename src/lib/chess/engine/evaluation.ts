@@ -0,0 +1,342 @@
+import type { AbstractBoard } from '$lib/chess/board';
+
+/** The part of an engine board the shared evaluation reads. */
+export type EvaluationBoard = Pick<AbstractBoard<unknown, unknown>, 'pieceAt'>;
+
+export const EvaluationTerm = {
+	MATERIAL: 'material',
+	PIECE_SQUARES: 'pieceSquares',
+	MOBILITY: 'mobility',
+	PAWN_STRUCTURE: 'pawnStructure',
+	BISHOP_PAIR: 'bishopPair',
+	ROOK_FILES: 'rookFiles',
+	KING_SAFETY: 'kingSafety'
+} as const;
+export type EvaluationTerm = (typeof EvaluationTerm)[keyof typeof EvaluationTerm];
+
+export interface EvaluationTermScore {
+	term: EvaluationTerm;
+	/** Centipawns the term is worth to each side, positive when it helps that side. */
+	white: number;
+	black: number;
+}
+
+export interface EvaluationBreakdown {
+	/** Game phase the middlegame and endgame weights were blended with. */
+	phase: number;
+	terms: EvaluationTermScore[];
+	/**
+	 * The board's evaluate(), White positive. The terms are not rounded, so
+	 * their White minus Black sum may differ from it by less than a centipawn.
+	 */
+	total: number;
+}
+
+// Material value in centipawns, indexed by piece type (index 0 = empty, unused).
+// The king is 0 so material is a pure balance of the remaining pieces.
+export const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 0] as const;
+// Centipawns per pseudo-legal move of BoardInt8 and BoardBitboard; Board0x88 has its own.
+export const MOBILITY_WEIGHT = 5;
+
+// NOTE: Phase weights of the pieces still on the board: 24 with all minor and
+//       major pieces (the middlegame), 0 with only kings and pawns (the endgame).
+export const MAX_GAME_PHASE = 24;
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0] as const;
+
+const PAWN = 1;
+const BISHOP = 3;
+const ROOK = 4;
+const KING = 6;
+
+const WHITE = 0;
+const BLACK = 1;
+
+const MIDGAME = 0;
+const ENDGAME = 1;
+
+const TERM_PIECE_SQUARES = 0;
+const TERM_PAWN_STRUCTURE = 1;
+const TERM_BISHOP_PAIR = 2;
+const TERM_ROOK_FILES = 3;
+const TERM_KING_SAFETY = 4;
+const TERM_COUNT = 5;
+
+const DOUBLED_PAWN = [-10, -20] as const;
+const ISOLATED_PAWN = [-10, -15] as const;
+// NOTE: Indexed by the rank of the pawn as seen from its own side (0 = first rank).
+const PASSED_PAWN = [
+	[0, 5, 10, 15, 25, 40, 60, 0],
+	[0, 10, 20, 35, 60, 100, 150, 0]
+] as const;
+const BISHOP_PAIR = [30, 50] as const;
+const ROOK_OPEN_FILE = [25, 10] as const;
+const ROOK_SEMI_OPEN_FILE = [12, 5] as const;
+// NOTE: King safety only counts in the middlegame: per file next to a king on
+//       its first two ranks, a shield pawn that has advanced twice or is gone,
+//       and a file without pawns at all in front of the king.
+const KING_SHIELD_ADVANCED = -10;
+const KING_SHIELD_MISSING = -20;
+const KING_OPEN_FILE = -15;
+
+// Piece-square tables in VISUAL order: the first row is rank 8, the last row is
+// rank 1, files a..h left to right. Black reads them mirrored vertically.
+const PAWN_MIDGAME = [
+	0, 0, 0, 0, 0, 0, 0, 0, 50, 50, 50, 50, 50, 50, 50, 50, 10, 10, 20, 30, 30, 20, 10, 10, 5, 5, 10,
+	25, 25, 10, 5, 5, 0, 0, 0, 20, 20, 0, 0, 0, 5, -5, -10, 0, 0, -10, -5, 5, 5, 10, 10, -20, -20, 10,
+	10, 5, 0, 0, 0, 0, 0, 0, 0, 0
+];
+const PAWN_ENDGAME = [
+	0, 0, 0, 0, 0, 0, 0, 0, 60, 60, 60, 60, 60, 60, 60, 60, 40, 40, 40, 40, 40, 40, 40, 40, 25, 25,
+	25, 25, 25, 25, 25, 25, 15, 15, 15, 15, 15, 15, 15, 15, 5, 5, 5, 5, 5, 5, 5, 5, 0, 0, 0, 0, 0, 0,
+	0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+];
+const KNIGHT_TABLE = [
+	-50, -40, -30, -30, -30, -30, -40, -50, -40, -20, 0, 0, 0, 0, -20, -40, -30, 0, 10, 15, 15, 10, 0,
+	-30, -30, 5, 15, 20, 20, 15, 5, -30, -30, 0, 15, 20, 20, 15, 0, -30, -30, 5, 10, 15, 15, 10, 5,
+	-30, -40, -20, 0, 5, 5, 0, -20, -40, -50, -40, -30, -30, -30, -30, -40, -50
+];
+const BISHOP_TABLE = [
+	-20, -10, -10, -10, -10, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5, 10, 10, 5, 0, -10,
+	-10, 5, 5, 10, 10, 5, 5, -10, -10, 0, 10, 10, 10, 10, 0, -10, -10, 10, 10, 10, 10, 10, 10, -10,
+	-10, 5, 0, 0, 0, 0, 5, -10, -20, -10, -10, -10, -10, -10, -10, -20
+];
+const ROOK_TABLE = [
+	0, 0, 0, 0, 0, 0, 0, 0, 5, 10, 10, 10, 10, 10, 10, 5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0,
+	0, -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0, -5, 0, 0, 0, 5,
+	5, 0, 0, 0
+];
+const QUEEN_TABLE = [
+	-20, -10, -10, -5, -5, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5, 5, 5, 5, 0, -10, -5,
+	0, 5, 5, 5, 5, 0, -5, 0, 0, 5, 5, 5, 5, 0, -5, -10, 5, 5, 5, 5, 5, 0, -10, -10, 0, 5, 0, 0, 0, 0,
+	-10, -20, -10, -10, -5, -5, -10, -10, -20
+];
+const KING_MIDGAME = [
+	-30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40,
+	-50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40, -40, -30, -20, -30, -30, -40, -40, -30,
+	-30, -20, -10, -20, -20, -20, -20, -20, -20, -10, 20, 20, 0, 0, 0, 0, 20, 20, 20, 30, 10, 0, 0,
+	10, 30, 20
+];
+const KING_ENDGAME = [
+	-50, -40, -30, -20, -20, -30, -40, -50, -30, -20, -10, 0, 0, -10, -20, -30, -30, -10, 20, 30, 30,
+	20, -10, -30, -30, -10, 30, 40, 40, 30, -10, -30, -30, -10, 30, 40, 40, 30, -10, -30, -30, -10,
+	20, 30, 30, 20, -10, -30, -30, -30, 0, 0, 0, 0, -30, -30, -50, -30, -30, -30, -30, -30, -30, -50
+];
+
+// Tables indexed by [stage][piece type] (index 0 = empty, unused).
+const PIECE_SQUARE_TABLES = [
+	[[], PAWN_MIDGAME, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE, KING_MIDGAME],
+	[[], PAWN_ENDGAME, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE, KING_ENDGAME]
+] as const;
+
+// NOTE: Scratch state of the last evaluated position, so that evaluating in
+//       the search does not allocate.
+const squares = new Int8Array(64);
+const pawnsOnFile = [new Uint8Array(8), new Uint8Array(8)] as const;
+const bishopCount = new Uint8Array(2);
+const kingSquare = new Int8Array(2);
+// Indexed by (term * 2 + side) * 2 + stage, from the side's own perspective.
+const termScores = new Int32Array(TERM_COUNT * 4);
+let phase = 0;
+
+/** Game phase from MAX_GAME_PHASE (all pieces on the board) down to 0 (kings and pawns only). */
+export function gamePhase(board: EvaluationBoard): number {
+	loadPosition(board);
+	return phase;
+}
+
+/** Piece-square-table balance in centipawns, White positive, blended by game phase. */
+export function evaluatePieceSquares(board: EvaluationBoard): number {
+	loadPosition(board);
+	scoreTerms();
+	return taperTerms(TERM_PIECE_SQUARES, TERM_PIECE_SQUARES + 1);
+}
+
+/**
+ * Positional evaluation in centipawns, White positive: piece-square tables,
+ * pawn structure, bishop pair, rooks on open files and king safety, each with
+ * a middlegame and an endgame weight blended by game phase. Material and
+ * mobility are left to the boards.
+ */
+export function evaluatePosition(board: EvaluationBoard): number {
+	loadPosition(board);
+	scoreTerms();
+	return taperTerms(0, TERM_COUNT);
+}
+
+/**
+ * Every evaluation term for each side separately, so that a score can be
+ * explained: where White's +0.8 comes from and what Black gets in return.
+ */
+export function explainEvaluation<TMoveBuffer, TMove>(
+	board: AbstractBoard<TMoveBuffer, TMove>
+): EvaluationBreakdown {
+	// NOTE: evaluate() goes through the same scratch state, so it runs first.
+	const total = board.evaluate();
+	loadPosition(board);
+	scoreTerms();
+
+	const material = [0, 0];
+	for (let square = 0; square < 64; square++) {
+		const piece = squares[square];
+		if (piece !== 0) material[piece > 0 ? WHITE : BLACK] += PIECE_VALUES[Math.abs(piece)];
+	}
+
+	const sideScores = (term: EvaluationTerm, white: number, black: number): EvaluationTermScore => ({
+		term,
+		white,
+		black
+	});
+	const taperedScores = (term: EvaluationTerm, index: number) =>
+		sideScores(term, taperSide(index, WHITE), taperSide(index, BLACK));
+
+	return {
+		phase,
+		terms: [
+			sideScores(EvaluationTerm.MATERIAL, material[WHITE], material[BLACK]),
+			taperedScores(EvaluationTerm.PIECE_SQUARES, TERM_PIECE_SQUARES),
+			sideScores(
+				EvaluationTerm.MOBILITY,
+				board.countPseudoLegalMoves(true) * board.mobilityWeight,
+				board.countPseudoLegalMoves(false) * board.mobilityWeight
+			),
+			taperedScores(EvaluationTerm.PAWN_STRUCTURE, TERM_PAWN_STRUCTURE),
+			taperedScores(EvaluationTerm.BISHOP_PAIR, TERM_BISHOP_PAIR),
+			taperedScores(EvaluationTerm.ROOK_FILES, TERM_ROOK_FILES),
+			taperedScores(EvaluationTerm.KING_SAFETY, TERM_KING_SAFETY)
+		],
+		total
+	};
+}
+
+function loadPosition(board: EvaluationBoard): void {
+	pawnsOnFile[WHITE].fill(0);
+	pawnsOnFile[BLACK].fill(0);
+	bishopCount.fill(0);
+	kingSquare.fill(-1);
+	phase = 0;
+
+	for (let square = 0; square < 64; square++) {
+		const piece = board.pieceAt(square);
+		squares[square] = piece;
+		if (piece === 0) continue;
+
+		const type = Math.abs(piece);
+		const side = piece > 0 ? WHITE : BLACK;
+		phase += PHASE_WEIGHTS[type];
+		if (type === PAWN) pawnsOnFile[side][square & 7]++;
+		else if (type === BISHOP) bishopCount[side]++;
+		else if (type === KING) kingSquare[side] = square;
+	}
+	phase = Math.min(phase, MAX_GAME_PHASE);
+}
+
+function scoreTerms(): void {
+	termScores.fill(0);
+
+	for (let square = 0; square < 64; square++) {
+		const piece = squares[square];
+		if (piece === 0) continue;
+
+		const type = Math.abs(piece);
+		const side = piece > 0 ? WHITE : BLACK;
+		const file = square & 7;
+		const rank = square >> 3;
+		const tableIndex = side === WHITE ? (7 - rank) * 8 + file : rank * 8 + file;
+		addScore(
+			TERM_PIECE_SQUARES,
+			side,
+			PIECE_SQUARE_TABLES[MIDGAME][type][tableIndex],
+			PIECE_SQUARE_TABLES[ENDGAME][type][tableIndex]
+		);
+
+		if (type === PAWN) scorePawn(side, file, rank);
+		else if (type === ROOK) scoreRook(side, file);
+	}
+
+	for (let side = WHITE; side <= BLACK; side++) {
+		for (let file = 0; file < 8; file++) {
+			const doubled = Math.max(0, pawnsOnFile[side][file] - 1);
+			addScore(TERM_PAWN_STRUCTURE, side, doubled * DOUBLED_PAWN[0], doubled * DOUBLED_PAWN[1]);
+		}
+		if (bishopCount[side] >= 2) addScore(TERM_BISHOP_PAIR, side, BISHOP_PAIR[0], BISHOP_PAIR[1]);
+		scoreKingSafety(side);
+	}
+}
+
+function scorePawn(side: number, file: number, rank: number): void {
+	const ownPawns = pawnsOnFile[side];
+	const isIsolated =
+		(file === 0 || ownPawns[file - 1] === 0) && (file === 7 || ownPawns[file + 1] === 0);
+	if (isIsolated) addScore(TERM_PAWN_STRUCTURE, side, ISOLATED_PAWN[0], ISOLATED_PAWN[1]);
+
+	const forward = side === WHITE ? 1 : -1;
+	const enemyPawn = side === WHITE ? -PAWN : PAWN;
+	for (let r = rank + forward; r > 0 && r < 7; r += forward) {
+		for (let f = Math.max(0, file - 1); f <= Math.min(7, file + 1); f++) {
+			if (squares[r * 8 + f] === enemyPawn) return;
+		}
+	}
+	const relativeRank = side === WHITE ? rank : 7 - rank;
+	addScore(
+		TERM_PAWN_STRUCTURE,
+		side,
+		PASSED_PAWN[MIDGAME][relativeRank],
+		PASSED_PAWN[ENDGAME][relativeRank]
+	);
+}
+
+function scoreRook(side: number, file: number): void {
+	if (pawnsOnFile[side][file] > 0) return;
+	const bonus = pawnsOnFile[1 - side][file] === 0 ? ROOK_OPEN_FILE : ROOK_SEMI_OPEN_FILE;
+	addScore(TERM_ROOK_FILES, side, bonus[0], bonus[1]);
+}
+
+function scoreKingSafety(side: number): void {
+	const king = kingSquare[side];
+	if (king < 0) return;
+
+	const kingFile = king & 7;
+	const relativeRank = side === WHITE ? king >> 3 : 7 - (king >> 3);
+	if (relativeRank > 1) return;
+
+	const forward = side === WHITE ? 8 : -8;
+	const ownPawn = side === WHITE ? PAWN : -PAWN;
+	let penalty = 0;
+	for (let file = Math.max(0, kingFile - 1); file <= Math.min(7, kingFile + 1); file++) {
+		const shieldSquare = (king & ~7) + file + forward;
+		if (squares[shieldSquare] === ownPawn) continue;
+		penalty +=
+			squares[shieldSquare + forward] === ownPawn ? KING_SHIELD_ADVANCED : KING_SHIELD_MISSING;
+		if (pawnsOnFile[WHITE][file] === 0 && pawnsOnFile[BLACK][file] === 0) penalty += KING_OPEN_FILE;
+	}
+	addScore(TERM_KING_SAFETY, side, penalty, 0);
+}
+
+function addScore(term: number, side: number, midgame: number, endgame: number): void {
+	const index = (term * 2 + side) * 2;
+	termScores[index + MIDGAME] += midgame;
+	termScores[index + ENDGAME] += endgame;
+}
+
+function taperSide(term: number, side: number): number {
+	const index = (term * 2 + side) * 2;
+	return (
+		(termScores[index + MIDGAME] * phase + termScores[index + ENDGAME] * (MAX_GAME_PHASE - phase)) /
+		MAX_GAME_PHASE
+	);
+}
+
+/** Blends the White minus Black scores of the terms in [from, to) by game phase. */
+function taperTerms(from: number, to: number): number {
+	let midgame = 0;
+	let endgame = 0;
+	for (let term = from; term < to; term++) {
+		const white = (term * 2 + WHITE) * 2;
+		const black = (term * 2 + BLACK) * 2;
+		midgame += termScores[white + MIDGAME] - termScores[black + MIDGAME];
+		endgame += termScores[white + ENDGAME] - termScores[black + ENDGAME];
+	}
+	// NOTE: Truncated rather than rounded, so that mirrored positions evaluate
+	//       to exactly opposite scores.
+	return Math.trunc((midgame * phase + endgame * (MAX_GAME_PHASE - phase)) / MAX_GAME_PHASE);
+}
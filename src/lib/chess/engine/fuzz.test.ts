@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+
+import { chess960StartFen } from '$lib/chess/chess960';
+import {
+	createBoardGenerator,
+	createDefaultGenerators,
+	type PerftMoveGenerator
+} from '$lib/chess/engine/crosscheck';
+import {
+	formatFuzzFailure,
+	fuzzMoveGenerators,
+	playRandomGame,
+	shrinkGame
+} from '$lib/chess/engine/fuzz';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+
+// NOTE: Kept small for the regular test run; `npm run test:fuzz` plays
+//       thousands of games (see the README for FUZZ_GAMES and FUZZ_SEED).
+const FUZZ_GAMES = Number(process.env.FUZZ_GAMES ?? 12);
+const FUZZ_SEED = Number(process.env.FUZZ_SEED ?? 1);
+
+const CASTLING_FEN = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+
+/** int8 generator that forgets black's queen side castling once a white rook has left a1. */
+function createBrokenGenerator(): PerftMoveGenerator {
+	const int8 = createBoardGenerator('int8', new BoardInt8(), moveToUci);
+	const path: string[] = [];
+	return {
+		...int8,
+		name: 'broken',
+		loadFen: (fen) => {
+			path.length = 0;
+			int8.loadFen(fen);
+		},
+		makeMove: (uci) => {
+			path.push(uci);
+			int8.makeMove(uci);
+		},
+		unmakeMove: () => {
+			path.pop();
+			int8.unmakeMove();
+		},
+		legalMoves: () => {
+			const isCastlingQueenSide = int8.toFen().split(' ')[2].includes('q');
+			return int8
+				.legalMoves()
+				.filter(
+					(move) =>
+						!(move === 'e8c8' && isCastlingQueenSide && path.some((m) => m.startsWith('a1')))
+				);
+		}
+	};
+}
+
+describe('random-game fuzzer', () => {
+	it(
+		'finds no mismatch between the move generators',
+		() => {
+			const result = fuzzMoveGenerators({ seed: FUZZ_SEED, games: FUZZ_GAMES });
+			expect(result.failure && formatFuzzFailure(result.failure)).toBeNull();
+			expect(result.games).toBe(FUZZ_GAMES);
+		},
+		Math.max(60_000, FUZZ_GAMES * 5_000)
+	);
+
+	it('replays the same game for the same seed', () => {
+		const first = playRandomGame(CASTLING_FEN, 7, 30, createDefaultGenerators());
+		const second = playRandomGame(CASTLING_FEN, 7, 30, createDefaultGenerators());
+		expect(first.mismatch).toBeNull();
+		expect(first.moves).toHaveLength(30);
+		expect(second.moves).toEqual(first.moves);
+	});
+
+	it('drops the castling rights of a rook captured at home', () => {
+		const captures = [
+			{ fen: 'r3k2r/8/1N6/8/8/8/8/R3K2R w KQkq - 0 1', move: 'b6a8', rights: 'KQk' },
+			{ fen: 'r3k2r/8/8/8/8/8/6b1/R3K2R b KQkq - 0 1', move: 'g2h1', rights: 'Qkq' },
+			// NOTE: The capturing rook leaves its own corner too.
+			{ fen: CASTLING_FEN, move: 'a1a8', rights: 'Kk' }
+		];
+		for (const { fen, move, rights } of captures) {
+			for (const generator of createDefaultGenerators()) {
+				generator.loadFen(fen);
+				generator.makeMove(move);
+				expect(generator.toFen().split(' ')[2], `${generator.name} ${move}`).toBe(rights);
+			}
+		}
+	});
+
+	it('keeps the castling rights in sync when a rook is captured at home', () => {
+		const result = fuzzMoveGenerators({
+			seed: 1,
+			games: 20,
+			maxPlies: 40,
+			startFens: [CASTLING_FEN]
+		});
+		expect(result.failure).toBeNull();
+	});
+
+	it('keeps the generators in sync from Chess960 start positions', () => {
+		const result = fuzzMoveGenerators({
+			seed: FUZZ_SEED,
+			games: 10,
+			maxPlies: 40,
+			startFens: [0, 42, 333, 700, 959].map(chess960StartFen)
+		});
+		expect(result.failure && formatFuzzFailure(result.failure)).toBeNull();
+	}, 60_000);
+
+	it('shrinks a failing game to the moves that reproduce it', () => {
+		const createGenerators = () => [
+			createBoardGenerator('int8', new BoardInt8(), moveToUci),
+			createBrokenGenerator()
+		];
+		const result = fuzzMoveGenerators({
+			seed: 1,
+			games: 50,
+			maxPlies: 60,
+			startFens: [CASTLING_FEN],
+			createGenerators
+		});
+
+		const failure = result.failure!;
+		expect(failure).not.toBeNull();
+		expect(failure.moves).toHaveLength(1);
+		expect(failure.moves[0]).toMatch(/^a1/);
+		expect(failure.message).toBe('broken legal moves differ from int8: missing [e8c8], extra []');
+		expect(failure.originalLength).toBeGreaterThanOrEqual(failure.moves.length);
+		expect(formatFuzzFailure(failure)).toContain(`seed: ${failure.seed}`);
+
+		expect(shrinkGame(CASTLING_FEN, failure.moves, createGenerators).moves).toEqual(failure.moves);
+	});
+
+	it('refuses to shrink a game that does not fail', () => {
+		expect(() => shrinkGame(CASTLING_FEN, ['e1g1'])).toThrow('does not fail');
+	});
+});
@@ -0,0 +1,215 @@
+import { createDefaultGenerators, type PerftMoveGenerator } from '$lib/chess/engine/crosscheck';
+import { PERFT_POSITIONS } from '$lib/chess/engine/perft';
+import { mulberry32 } from '$lib/chess/engine/zobrist';
+
+export const DEFAULT_FUZZ_MAX_PLIES = 200;
+
+export interface FuzzOptions {
+	/** Seed of the first game; game `i` is played with `seed + i`. */
+	seed?: number;
+	games?: number;
+	maxPlies?: number;
+	/** Start positions, used in turn. Defaults to the perft positions. */
+	startFens?: string[];
+	/** Fresh generators for every replay; the first one picks the random moves. */
+	createGenerators?: () => PerftMoveGenerator[];
+}
+
+export interface FuzzMismatch {
+	/** Moves from the start position to the position that fails the check. */
+	moves: string[];
+	fen: string;
+	message: string;
+}
+
+export interface FuzzFailure extends FuzzMismatch {
+	seed: number;
+	startFen: string;
+	/** Moves played before the mismatch, before shrinking. */
+	originalLength: number;
+}
+
+export interface FuzzResult {
+	games: number;
+	plies: number;
+	failure: FuzzFailure | null;
+}
+
+type ReplayResult =
+	| { type: 'passed' }
+	| { type: 'illegal' }
+	| { type: 'mismatch'; mismatch: FuzzMismatch };
+
+/**
+ * Plays seeded random games with all generators in lockstep. At every ply the
+ * legal move sets and the FENs have to agree, and every generator has to come
+ * back to the same position after making and unmaking each legal move. The
+ * first failing game is shrunk to a minimal move list that still fails.
+ */
+export function fuzzMoveGenerators(options: FuzzOptions = {}): FuzzResult {
+	const seed = options.seed ?? 1;
+	const games = options.games ?? 100;
+	const maxPlies = options.maxPlies ?? DEFAULT_FUZZ_MAX_PLIES;
+	const startFens = options.startFens ?? PERFT_POSITIONS.map((position) => position.fen);
+	const createGenerators = options.createGenerators ?? createDefaultGenerators;
+	if (startFens.length === 0) throw new Error('No start positions to fuzz');
+
+	let plies = 0;
+	for (let game = 0; game < games; game++) {
+		const gameSeed = (seed + game) >>> 0;
+		const startFen = startFens[game % startFens.length];
+		const played = playRandomGame(startFen, gameSeed, maxPlies, createGenerators());
+		plies += played.moves.length;
+		if (!played.mismatch) continue;
+
+		const shrunk = shrinkGame(startFen, played.mismatch.moves, createGenerators);
+		return {
+			games: game + 1,
+			plies,
+			failure: {
+				...shrunk,
+				seed: gameSeed,
+				startFen,
+				originalLength: played.mismatch.moves.length
+			}
+		};
+	}
+	return { games, plies, failure: null };
+}
+
+/** Plays one random game; stops at the first mismatch, at mate or stalemate, or after `maxPlies`. */
+export function playRandomGame(
+	startFen: string,
+	seed: number,
+	maxPlies: number,
+	generators: PerftMoveGenerator[]
+): { moves: string[]; mismatch: FuzzMismatch | null } {
+	if (generators.length === 0) throw new Error('No move generators to compare');
+	const random = mulberry32(seed);
+	const moves: string[] = [];
+	for (const generator of generators) generator.loadFen(startFen);
+
+	for (let ply = 0; ; ply++) {
+		const mismatch = checkPosition(generators, moves);
+		if (mismatch) return { moves, mismatch };
+
+		// NOTE: Sorted, so that a seed replays the same game whatever order the
+		//       reference generator produces its moves in.
+		const legalMoves = generators[0].legalMoves().sort();
+		if (ply >= maxPlies || legalMoves.length === 0) return { moves, mismatch: null };
+
+		const move = legalMoves[random() % legalMoves.length];
+		for (const generator of generators) generator.makeMove(move);
+		moves.push(move);
+	}
+}
+
+/**
+ * Removes moves from a failing game for as long as it keeps failing. Candidates
+ * in which some move is no longer legal are skipped, and a candidate that fails
+ * earlier is cut at that ply.
+ */
+export function shrinkGame(
+	startFen: string,
+	moves: string[],
+	createGenerators: () => PerftMoveGenerator[] = createDefaultGenerators
+): FuzzMismatch {
+	const initial = replayGame(startFen, moves, createGenerators());
+	if (initial.type !== 'mismatch') throw new Error('The game to shrink does not fail');
+
+	let best = initial.mismatch;
+	let chunk = firstChunk(best.moves.length);
+	while (chunk > 0) {
+		// NOTE: Dropping a single move hands the turn to the other side, which
+		//       rarely keeps the failure, so pairs are tried at every offset too.
+		const step = chunk <= 2 ? 1 : chunk;
+		let removed = false;
+		for (let start = 0; start + chunk <= best.moves.length; ) {
+			const candidate = [...best.moves.slice(0, start), ...best.moves.slice(start + chunk)];
+			const result = replayGame(startFen, candidate, createGenerators());
+			if (result.type === 'mismatch') {
+				best = result.mismatch;
+				removed = true;
+			} else {
+				start += step;
+			}
+		}
+		chunk = removed ? firstChunk(best.moves.length) : chunk >> 1;
+	}
+	return best;
+}
+
+export function formatFuzzFailure(failure: FuzzFailure): string {
+	const moves = failure.moves.length > 0 ? failure.moves.join(' ') : '(none)';
+	return [
+		`seed: ${failure.seed}`,
+		`start: ${failure.startFen}`,
+		`moves: ${moves} (shrunk from ${failure.originalLength})`,
+		`position: ${failure.fen}`,
+		`error: ${failure.message}`
+	].join('\n');
+}
+
+function firstChunk(length: number): number {
+	return length === 0 ? 0 : Math.max(1, length >> 1);
+}
+
+function replayGame(
+	startFen: string,
+	moves: string[],
+	generators: PerftMoveGenerator[]
+): ReplayResult {
+	for (const generator of generators) generator.loadFen(startFen);
+	for (let ply = 0; ; ply++) {
+		const played = moves.slice(0, ply);
+		const mismatch = checkPosition(generators, played);
+		if (mismatch) return { type: 'mismatch', mismatch };
+		if (ply === moves.length) return { type: 'passed' };
+
+		const move = moves[ply];
+		if (!generators[0].legalMoves().includes(move)) return { type: 'illegal' };
+		for (const generator of generators) generator.makeMove(move);
+	}
+}
+
+function checkPosition(generators: PerftMoveGenerator[], moves: string[]): FuzzMismatch | null {
+	const [reference, ...others] = generators;
+	const fen = reference.toFen();
+	const fail = (message: string): FuzzMismatch => ({ moves: [...moves], fen, message });
+
+	const referenceMoves = reference.legalMoves().sort();
+	for (const generator of others) {
+		const generatorMoves = generator.legalMoves().sort();
+		const missing = referenceMoves.filter((move) => !generatorMoves.includes(move));
+		const extra = generatorMoves.filter((move) => !referenceMoves.includes(move));
+		if (missing.length > 0 || extra.length > 0) {
+			return fail(
+				`${generator.name} legal moves differ from ${reference.name}: ` +
+					`missing [${missing.join(' ')}], extra [${extra.join(' ')}]`
+			);
+		}
+
+		const generatorFen = generator.toFen();
+		if (generatorFen !== fen) {
+			return fail(`${generator.name} FEN differs from ${reference.name}: ${generatorFen}`);
+		}
+	}
+
+	for (const generator of generators) {
+		const before = snapshot(generator);
+		for (const move of referenceMoves) {
+			generator.makeMove(move);
+			generator.unmakeMove();
+			const after = snapshot(generator);
+			if (after !== before) {
+				return fail(`${generator.name} is not restored after unmaking ${move}: ${after}`);
+			}
+		}
+	}
+	return null;
+}
+
+function snapshot(generator: PerftMoveGenerator): string {
+	const hash = generator.hash?.();
+	return hash === undefined ? generator.toFen() : `${generator.toFen()} (${hash})`;
+}
@@ -1,4 +1,21 @@
 import type { AbstractBoard } from '$lib/chess/board';
+import {
+	evaluatePieceSquares,
+	evaluatePosition,
+	MOBILITY_WEIGHT,
+	PIECE_VALUES
+} from '$lib/chess/engine/evaluation';
+import {
+	ZOBRIST_BLACK_TO_MOVE_HIGH,
+	ZOBRIST_BLACK_TO_MOVE_LOW,
+	ZOBRIST_CASTLING_HIGH,
+	ZOBRIST_CASTLING_LOW,
+	ZOBRIST_EN_PASSANT_HIGH,
+	ZOBRIST_EN_PASSANT_LOW,
+	ZOBRIST_PIECES_HIGH,
+	ZOBRIST_PIECES_LOW,
+	zobristPieceIndex
+} from '$lib/chess/engine/zobrist';
 
 export type MoveInt8 = number;
 export type MoveBufferInt8 = Int32Array;
@@ -46,21 +63,11 @@ export const MAX_MOVE_DEPTH = 128;
 export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
 const A1 = 0;
-const B1 = 1;
-const C1 = 2;
-const D1 = 3;
 const E1 = 4;
-const F1 = 5;
-const G1 = 6;
 const H1 = 7;
 
 const A8 = 56;
-const B8 = 57;
-const C8 = 58;
-const D8 = 59;
 const E8 = 60;
-const F8 = 61;
-const G8 = 62;
 const H8 = 63;
 
 const CASTLE_WHITE_KING = 1;
@@ -68,13 +75,21 @@ const CASTLE_WHITE_QUEEN = 2;
 const CASTLE_BLACK_KING = 4;
 const CASTLE_BLACK_QUEEN = 8;
 
+// NOTE: Indexed by the bit number of the castling right: white king-side,
+//       white queen-side, black king-side, black queen-side.
+const STANDARD_CASTLING_ROOK_SQUARES = [H1, A1, H8, A8];
+
 const PROMOTION_PIECES = [
 	PieceType.QUEEN,
 	PieceType.ROOK,
 	PieceType.BISHOP,
 	PieceType.KNIGHT
 ] as const;
-const MATERIAL_VALUES = [0, 100, 320, 330, 500, 900, 0] as const;
+// NOTE: Same as PIECE_VALUES, but the king is worth more than anything it
+//       could win, so exchanges never end with the king recapturing into an attack.
+const SEE_VALUES = [0, 100, 320, 330, 500, 900, 20000] as const;
+const MAX_SEE_EXCHANGES = 40;
+const FIFTY_MOVE_RULE_PLIES = 100;
 
 const KNIGHT_DELTAS = [
 	[-2, -1],
@@ -179,6 +194,7 @@ export function moveToUci(move: MoveInt8): string {
 
 export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	readonly board = new Int8Array(BOARD_SIZE);
+	readonly mobilityWeight = MOBILITY_WEIGHT;
 	readonly pieceSquares = new Uint8Array(MAX_PIECES);
 	readonly pieceCodes = new Int8Array(MAX_PIECES);
 	readonly squareToPiece = new Uint8Array(BOARD_SIZE);
@@ -190,15 +206,23 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	fullMoveNumber = 1;
 	whiteKingSquare = -1;
 	blackKingSquare = -1;
+	/** Chess960 castling: the king moves onto its rook, FENs get Shredder castling fields. */
+	chess960 = false;
 
+	/** Start square of the rook of every castling right, see STANDARD_CASTLING_ROOK_SQUARES. */
+	private readonly castlingRookSquares = Int8Array.from(STANDARD_CASTLING_ROOK_SQUARES);
 	private pieceCount = 0;
 	private historyCount = 0;
+	private zobristLow = 0;
+	private zobristHigh = 0;
 
 	private readonly moveBuffers = Array.from(
 		{ length: MAX_MOVE_DEPTH },
 		() => new Int32Array(MAX_MOVES)
 	);
 	private readonly mobilityBuffer = new Int32Array(MAX_MOVES);
+	private readonly seeRemoved = new Uint8Array(BOARD_SIZE);
+	private readonly seeGains = new Int32Array(MAX_SEE_EXCHANGES);
 
 	private readonly historyMove = new Int32Array(MAX_HISTORY);
 	private readonly historyPiece = new Int8Array(MAX_HISTORY);
@@ -217,6 +241,8 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	private readonly historyPreviousFullMoveNumber = new Int32Array(MAX_HISTORY);
 	private readonly historyPreviousWhiteKingSquare = new Int16Array(MAX_HISTORY);
 	private readonly historyPreviousBlackKingSquare = new Int16Array(MAX_HISTORY);
+	private readonly historyPreviousZobristLow = new Int32Array(MAX_HISTORY);
+	private readonly historyPreviousZobristHigh = new Int32Array(MAX_HISTORY);
 
 	constructor(fen = INITIAL_FEN) {
 		this.pieceSquares.fill(NO_SQUARE);
@@ -232,12 +258,13 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		this.clear();
 		this.loadPiecePlacement(fenParts[0]);
 		this.turn = parseTurn(fenParts[1] ?? 'w');
-		this.castlingRights = parseCastlingRights(fenParts[2] ?? '-');
+		this.loadCastlingRights(fenParts[2] ?? '-');
 		this.enPassantSquare = parseEnPassantSquare(fenParts[3] ?? '-', this.turn, this.board);
 		this.halfMoveClock = parseFenInteger(fenParts[4] ?? '0', 'half move clock', 0);
 		this.fullMoveNumber = parseFenInteger(fenParts[5] ?? '1', 'full move number', 1);
 		this.validateKings();
 		this.historyCount = 0;
+		[this.zobristLow, this.zobristHigh] = this.computeHash();
 	}
 
 	allocateMoveBuffer(): MoveBufferInt8 {
@@ -342,6 +369,140 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		return this.isRayAttacked(square, attackingColor, ROOK_DELTAS, PieceType.ROOK, PieceType.QUEEN);
 	}
 
+	isWhiteToMove(): boolean {
+		return this.turn === PieceColor.WHITE;
+	}
+
+	pieceAt(square: number): number {
+		return this.board[square];
+	}
+
+	isInCheck(): boolean {
+		const kingSquare = this.turn === PieceColor.WHITE ? this.whiteKingSquare : this.blackKingSquare;
+		return this.isSquareAttacked(kingSquare, oppositeColor(this.turn));
+	}
+
+	isFiftyMoveDraw(): boolean {
+		return this.halfMoveClock >= FIFTY_MOVE_RULE_PLIES;
+	}
+
+	repetitionCount(): number {
+		// NOTE: The history keeps the keys as signed integers.
+		const low = this.zobristLow | 0;
+		const high = this.zobristHigh | 0;
+		let count = 1;
+		const plies = Math.min(this.halfMoveClock, this.historyCount);
+		for (let ply = 2; ply <= plies; ply += 2) {
+			const h = this.historyCount - ply;
+			if (
+				this.historyPreviousZobristLow[h] === low &&
+				this.historyPreviousZobristHigh[h] === high
+			) {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	hasInsufficientMaterial(): boolean {
+		let minorPieces = 0;
+		let knights = 0;
+		let bishopSquareColors = 0;
+
+		for (let pieceIndex = 0; pieceIndex < this.pieceCount; pieceIndex++) {
+			const boardSquare = this.pieceSquares[pieceIndex];
+			if (boardSquare === NO_SQUARE) continue;
+
+			switch (Math.abs(this.pieceCodes[pieceIndex])) {
+				case PieceType.PAWN:
+				case PieceType.ROOK:
+				case PieceType.QUEEN:
+					return false;
+				case PieceType.KNIGHT:
+					minorPieces++;
+					knights++;
+					break;
+				case PieceType.BISHOP:
+					minorPieces++;
+					bishopSquareColors |= 1 << ((squareFile(boardSquare) + squareRank(boardSquare)) & 1);
+					break;
+			}
+		}
+
+		// NOTE: A lone minor piece cannot mate, neither can any number of bishops
+		//       that all stand on the same square color.
+		return minorPieces <= 1 || (knights === 0 && bishopSquareColors !== 0b11);
+	}
+
+	isCapture(move: MoveInt8): boolean {
+		return this.capturedPieceType(move) !== PieceType.EMPTY;
+	}
+
+	capturedPieceType(move: MoveInt8): number {
+		const from = moveFrom(move);
+		const to = moveTo(move);
+		if (this.chess960 && this.isCastlingMove(move)) return PieceType.EMPTY;
+		if (this.isEnPassantMove(from, to, this.board[from])) return PieceType.PAWN;
+		return Math.abs(this.board[to]);
+	}
+
+	movedPieceType(move: MoveInt8): number {
+		return Math.abs(this.board[moveFrom(move)]);
+	}
+
+	promotionPieceType(move: MoveInt8): number {
+		return movePromotion(move);
+	}
+
+	/**
+	 * Static exchange evaluation: material the side to move wins (negative when
+	 * it loses) by playing `move` and then trading on its target square with the
+	 * least valuable attackers. Pins and checks are ignored.
+	 */
+	see(move: MoveInt8): number {
+		const from = moveFrom(move);
+		const to = moveTo(move);
+		const piece = this.board[from];
+		const promotion = movePromotion(move);
+		this.seeRemoved.fill(0);
+
+		let gain: number = SEE_VALUES[this.capturedPieceType(move)];
+		let attackerValue: number = SEE_VALUES[Math.abs(piece)];
+		if (this.isEnPassantMove(from, to, piece)) {
+			this.seeRemoved[to - colorOf(piece) * BOARD_WIDTH] = 1;
+		}
+		if (promotion !== PieceType.EMPTY) {
+			gain += SEE_VALUES[promotion] - SEE_VALUES[PieceType.PAWN];
+			attackerValue = SEE_VALUES[promotion];
+		}
+		this.seeRemoved[from] = 1;
+
+		return this.resolveExchange(to, oppositeColor(colorOf(piece)), gain, attackerValue);
+	}
+
+	/**
+	 * Exchange value for the opponent of the piece on `square` when it starts
+	 * capturing there; 0 for empty or unattacked squares. A positive value means
+	 * the piece is hanging.
+	 */
+	seeSquare(square: number): number {
+		assertSquare(square);
+		const piece = this.board[square];
+		if (piece === PieceType.EMPTY) return 0;
+
+		this.seeRemoved.fill(0);
+		const attacker = this.findLeastValuableAttacker(square, oppositeColor(colorOf(piece)));
+		if (attacker < 0) return 0;
+		this.seeRemoved[attacker] = 1;
+
+		return this.resolveExchange(
+			square,
+			colorOf(piece),
+			SEE_VALUES[Math.abs(piece)],
+			SEE_VALUES[Math.abs(this.board[attacker])]
+		);
+	}
+
 	makeMove(move: MoveInt8): void {
 		const from = moveFrom(move);
 		const to = moveTo(move);
@@ -355,8 +516,9 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		if (this.squareToPiece[from] === 0) {
 			throw new Error(`Missing piece index for square: ${squareToAlgebraic(from)}`);
 		}
+		const isCastling = this.isCastlingMove(move);
 		const targetPiece = this.board[to];
-		if (targetPiece !== PieceType.EMPTY && colorOf(targetPiece) === this.turn) {
+		if (!isCastling && targetPiece !== PieceType.EMPTY && colorOf(targetPiece) === this.turn) {
 			throw new Error(`Cannot capture own piece: ${squareToAlgebraic(to)}`);
 		}
 
@@ -366,12 +528,13 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		this.validatePromotionMove(from, to, piece, promotion);
 		const isEnPassant = this.isEnPassantMove(from, to, piece);
 		const capturedSquare = isEnPassant ? to - movingColor * BOARD_WIDTH : to;
-		const capturedPiece = this.board[capturedSquare];
+		const capturedPiece = isCastling ? PieceType.EMPTY : this.board[capturedSquare];
 		const capturedPieceIndex =
 			capturedPiece === PieceType.EMPTY ? -1 : this.squareToPiece[capturedSquare] - 1;
-		const isCastling = Math.abs(piece) === PieceType.KING && Math.abs(to - from) === 2;
-		const rookFrom = isCastling ? (to > from ? from + 3 : from - 4) : -1;
-		const rookTo = isCastling ? (to > from ? from + 1 : from - 1) : -1;
+		const isKingSide = to > from;
+		const destination = isCastling ? castlingKingTarget(from, isKingSide) : to;
+		const rookFrom = isCastling ? (this.chess960 ? to : isKingSide ? from + 3 : from - 4) : -1;
+		const rookTo = isCastling ? castlingRookTarget(from, isKingSide) : -1;
 		const rookPiece = isCastling ? this.board[rookFrom] : PieceType.EMPTY;
 		const rookPieceIndex = rookPiece === PieceType.EMPTY ? -1 : this.squareToPiece[rookFrom] - 1;
 		const h = this.historyCount;
@@ -396,40 +559,56 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		this.historyPreviousFullMoveNumber[h] = this.fullMoveNumber;
 		this.historyPreviousWhiteKingSquare[h] = this.whiteKingSquare;
 		this.historyPreviousBlackKingSquare[h] = this.blackKingSquare;
+		this.historyPreviousZobristLow[h] = this.zobristLow;
+		this.historyPreviousZobristHigh[h] = this.zobristHigh;
 		this.historyCount = h + 1;
 
+		this.toggleZobristEnPassant();
+		this.toggleZobristCastling();
+		this.toggleZobristPiece(piece, from);
+
 		this.board[from] = PieceType.EMPTY;
 		this.squareToPiece[from] = 0;
 
 		if (capturedPiece !== PieceType.EMPTY) {
+			this.toggleZobristPiece(capturedPiece, capturedSquare);
 			this.board[capturedSquare] = PieceType.EMPTY;
 			this.squareToPiece[capturedSquare] = 0;
 			this.pieceSquares[capturedPieceIndex] = NO_SQUARE;
 		}
 
+		// NOTE: The castling rook is lifted before the king lands: in Chess960 the
+		//       king may land on the square the rook starts from.
+		if (isCastling && rookPiece !== PieceType.EMPTY) {
+			this.toggleZobristPiece(rookPiece, rookFrom);
+			this.board[rookFrom] = PieceType.EMPTY;
+			this.squareToPiece[rookFrom] = 0;
+		}
+
 		const placedPiece = promotion === PieceType.EMPTY ? piece : movingColor * promotion;
-		this.board[to] = placedPiece;
-		this.squareToPiece[to] = movedPieceIndex + 1;
-		this.pieceSquares[movedPieceIndex] = to;
+		this.toggleZobristPiece(placedPiece, destination);
+		this.board[destination] = placedPiece;
+		this.squareToPiece[destination] = movedPieceIndex + 1;
+		this.pieceSquares[movedPieceIndex] = destination;
 		this.pieceCodes[movedPieceIndex] = placedPiece;
 
 		if (Math.abs(piece) === PieceType.KING) {
 			if (movingColor === PieceColor.WHITE) {
-				this.whiteKingSquare = to;
+				this.whiteKingSquare = destination;
 			} else {
-				this.blackKingSquare = to;
+				this.blackKingSquare = destination;
 			}
 		}
 
 		if (isCastling && rookPiece !== PieceType.EMPTY) {
-			this.board[rookFrom] = PieceType.EMPTY;
-			this.squareToPiece[rookFrom] = 0;
+			this.toggleZobristPiece(rookPiece, rookTo);
 			this.board[rookTo] = rookPiece;
 			this.squareToPiece[rookTo] = rookPieceIndex + 1;
 			this.pieceSquares[rookPieceIndex] = rookTo;
 		}
 
 		this.updateCastlingRightsAfterMove(from, piece, capturedSquare, capturedPiece);
+		this.toggleZobristCastling();
 		this.enPassantSquare =
 			Math.abs(piece) === PieceType.PAWN && Math.abs(to - from) === BOARD_WIDTH * 2
 				? from + movingColor * BOARD_WIDTH
@@ -442,6 +621,9 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 			this.fullMoveNumber += 1;
 		}
 		this.turn = oppositeColor(this.turn);
+		this.zobristLow ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+		this.zobristHigh ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		this.toggleZobristEnPassant();
 	}
 
 	unmakeMove(move: MoveInt8): void {
@@ -466,18 +648,22 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		const rookPieceIndex = this.historyRookPieceIndex[h];
 		const rookFrom = this.historyRookFrom[h];
 		const rookTo = this.historyRookTo[h];
+		const destination =
+			rookPiece === PieceType.EMPTY ? to : castlingKingTarget(from, rookFrom > from);
 
 		if (rookPiece !== PieceType.EMPTY) {
 			this.board[rookTo] = PieceType.EMPTY;
 			this.squareToPiece[rookTo] = 0;
+		}
+		this.board[destination] = PieceType.EMPTY;
+		this.squareToPiece[destination] = 0;
+
+		if (rookPiece !== PieceType.EMPTY) {
 			this.board[rookFrom] = rookPiece;
 			this.squareToPiece[rookFrom] = rookPieceIndex + 1;
 			this.pieceSquares[rookPieceIndex] = rookFrom;
 			this.pieceCodes[rookPieceIndex] = rookPiece;
 		}
-
-		this.board[to] = PieceType.EMPTY;
-		this.squareToPiece[to] = 0;
 		this.board[from] = piece;
 		this.squareToPiece[from] = movedPieceIndex + 1;
 		this.pieceSquares[movedPieceIndex] = from;
@@ -497,73 +683,80 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		this.fullMoveNumber = this.historyPreviousFullMoveNumber[h];
 		this.whiteKingSquare = this.historyPreviousWhiteKingSquare[h];
 		this.blackKingSquare = this.historyPreviousBlackKingSquare[h];
+		this.zobristLow = this.historyPreviousZobristLow[h];
+		this.zobristHigh = this.historyPreviousZobristHigh[h];
 	}
 
-	evaluateMaterial(): number {
-		let score = 0;
+	hashLow(): number {
+		return this.zobristLow >>> 0;
+	}
+
+	hashHigh(): number {
+		return this.zobristHigh >>> 0;
+	}
+
+	computeHash(): [low: number, high: number] {
+		let low = 0;
+		let high = 0;
 
 		for (let i = 0; i < this.pieceCount; i++) {
-			if (this.pieceSquares[i] === NO_SQUARE) continue;
+			const boardSquare = this.pieceSquares[i];
+			if (boardSquare === NO_SQUARE) continue;
 
 			const piece = this.pieceCodes[i];
-			score += colorOf(piece) * MATERIAL_VALUES[Math.abs(piece)];
+			const index = zobristPieceIndex(Math.abs(piece), piece > 0, boardSquare);
+			low ^= ZOBRIST_PIECES_LOW[index];
+			high ^= ZOBRIST_PIECES_HIGH[index];
 		}
 
-		return score;
+		low ^= ZOBRIST_CASTLING_LOW[this.castlingRights];
+		high ^= ZOBRIST_CASTLING_HIGH[this.castlingRights];
+
+		const enPassantFile = this.enPassantHashFile();
+		if (enPassantFile >= 0) {
+			low ^= ZOBRIST_EN_PASSANT_LOW[enPassantFile];
+			high ^= ZOBRIST_EN_PASSANT_HIGH[enPassantFile];
+		}
+
+		if (this.turn === PieceColor.BLACK) {
+			low ^= ZOBRIST_BLACK_TO_MOVE_LOW;
+			high ^= ZOBRIST_BLACK_TO_MOVE_HIGH;
+		}
+
+		return [low >>> 0, high >>> 0];
 	}
 
-	evaluatePST(): number {
+	evaluateMaterial(): number {
 		let score = 0;
-		const boardCenter = (BOARD_WIDTH - 1) / 2;
 
 		for (let i = 0; i < this.pieceCount; i++) {
-			const boardSquare = this.pieceSquares[i];
-			if (boardSquare === NO_SQUARE) continue;
+			if (this.pieceSquares[i] === NO_SQUARE) continue;
 
 			const piece = this.pieceCodes[i];
-			const color = colorOf(piece);
-			const file = boardSquare & (BOARD_WIDTH - 1);
-			const rank = boardSquare >> 3;
-			const normalizedRank = color === PieceColor.WHITE ? rank : BOARD_WIDTH - 1 - rank;
-			const centerBonus = Math.round(
-				(BOARD_WIDTH - 1 - (Math.abs(file - boardCenter) + Math.abs(rank - boardCenter))) * 2
-			);
-
-			switch (Math.abs(piece)) {
-				case PieceType.PAWN:
-					score += color * normalizedRank * 5;
-					break;
-				case PieceType.KNIGHT:
-				case PieceType.BISHOP:
-					score += color * centerBonus * 3;
-					break;
-				case PieceType.ROOK:
-					score += color * normalizedRank;
-					break;
-				case PieceType.QUEEN:
-					score += color * centerBonus;
-					break;
-				case PieceType.KING:
-					score -= color * centerBonus;
-					break;
-			}
+			score += colorOf(piece) * PIECE_VALUES[Math.abs(piece)];
 		}
+
 		return score;
 	}
 
-	evaluateMobility(): number {
+	evaluatePST(): number {
+		return evaluatePieceSquares(this);
+	}
+
+	countPseudoLegalMoves(isWhite: boolean): number {
 		const previousTurn = this.turn;
-		const buffer = this.mobilityBuffer;
-		this.turn = PieceColor.WHITE;
-		const whiteMoves = this.generatePseudoLegalMoves(buffer);
-		this.turn = PieceColor.BLACK;
-		const blackMoves = this.generatePseudoLegalMoves(buffer);
+		this.turn = isWhite ? PieceColor.WHITE : PieceColor.BLACK;
+		const count = this.generatePseudoLegalMoves(this.mobilityBuffer);
 		this.turn = previousTurn;
-		return (whiteMoves - blackMoves) * 5;
+		return count;
+	}
+
+	evaluateMobility(): number {
+		return (this.countPseudoLegalMoves(true) - this.countPseudoLegalMoves(false)) * MOBILITY_WEIGHT;
 	}
 
 	evaluate(): number {
-		return this.evaluateMaterial() + this.evaluatePST() + this.evaluateMobility();
+		return this.evaluateMaterial() + evaluatePosition(this) + this.evaluateMobility();
 	}
 
 	toFen(): string {
@@ -591,7 +784,7 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 			rows.push(row);
 		}
 
-		const castling = castlingRightsToFen(this.castlingRights);
+		const castling = this.castlingToFen();
 		const enPassant = this.enPassantSquare < 0 ? '-' : squareToAlgebraic(this.enPassantSquare);
 		return `${rows.join('/')} ${this.turn === PieceColor.WHITE ? 'w' : 'b'} ${castling} ${enPassant} ${
 			this.halfMoveClock
@@ -611,6 +804,77 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 		this.fullMoveNumber = 1;
 		this.whiteKingSquare = -1;
 		this.blackKingSquare = -1;
+		this.chess960 = false;
+		this.castlingRookSquares.set(STANDARD_CASTLING_ROOK_SQUARES);
+	}
+
+	// NOTE: Reads standard, X-FEN and Shredder-FEN castling fields like parseFen
+	//       does: `K`/`Q` castle with the outermost rook on that side of the king,
+	//       a file letter names the rook. Any right of a king off the e-file or
+	//       of a rook off the a/h files makes it a Chess960 position.
+	private loadCastlingRights(castling: string): void {
+		if (castling === '-') return;
+
+		for (const char of castling) {
+			const color = char === char.toUpperCase() ? PieceColor.WHITE : PieceColor.BLACK;
+			const backRank = color === PieceColor.WHITE ? A1 : A8;
+			const kingSquare = color === PieceColor.WHITE ? this.whiteKingSquare : this.blackKingSquare;
+			const standardKingSquare = color === PieceColor.WHITE ? E1 : E8;
+			const hasKing = kingSquare >= backRank && kingSquare < backRank + BOARD_WIDTH;
+			const kingFile = (hasKing ? kingSquare : standardKingSquare) - backRank;
+			const letter = char.toLowerCase();
+
+			let isKingSide: boolean;
+			let rookSquare = -1;
+			if (letter === 'k' || letter === 'q') {
+				isKingSide = letter === 'k';
+				if (hasKing) rookSquare = this.findOutermostRookSquare(kingSquare, isKingSide);
+			} else if (letter >= 'a' && letter <= 'h') {
+				const rookFile = letter.charCodeAt(0) - 'a'.charCodeAt(0);
+				isKingSide = rookFile > kingFile;
+				rookSquare = backRank + rookFile;
+				this.chess960 = true;
+			} else {
+				throw new Error(`Invalid FEN castling rights: ${castling}`);
+			}
+
+			const right = (color === PieceColor.WHITE ? 0 : 2) + (isKingSide ? 0 : 1);
+			const standardRookSquare = STANDARD_CASTLING_ROOK_SQUARES[right];
+			if (rookSquare < 0) rookSquare = standardRookSquare;
+			if (hasKing && (kingSquare !== standardKingSquare || rookSquare !== standardRookSquare)) {
+				this.chess960 = true;
+			}
+			this.castlingRights |= 1 << right;
+			this.castlingRookSquares[right] = rookSquare;
+		}
+	}
+
+	private findOutermostRookSquare(kingSquare: number, isKingSide: boolean): number {
+		const rook = colorOf(this.board[kingSquare]) * PieceType.ROOK;
+		const backRank = kingSquare & ~(BOARD_WIDTH - 1);
+		if (isKingSide) {
+			for (let sq = backRank + BOARD_WIDTH - 1; sq > kingSquare; sq--) {
+				if (this.board[sq] === rook) return sq;
+			}
+		} else {
+			for (let sq = backRank; sq < kingSquare; sq++) {
+				if (this.board[sq] === rook) return sq;
+			}
+		}
+		return -1;
+	}
+
+	private castlingToFen(): string {
+		if (!this.chess960) return castlingRightsToFen(this.castlingRights);
+
+		let castling = '';
+		for (let right = 0; right < STANDARD_CASTLING_ROOK_SQUARES.length; right++) {
+			if ((this.castlingRights & (1 << right)) === 0) continue;
+			// NOTE: Shredder-FEN: upper case files for white, lower case for black.
+			const file = squareToAlgebraic(this.castlingRookSquares[right])[0];
+			castling += right < 2 ? file.toUpperCase() : file;
+		}
+		return castling || '-';
 	}
 
 	private loadPiecePlacement(piecePlacement: string): void {
@@ -832,48 +1096,143 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	): number {
 		count = this.generateJumpMoves(out, count, from, piece, KING_DELTAS);
 		const color = colorOf(piece);
+		const backRank = color === PieceColor.WHITE ? A1 : A8;
+		if (from < backRank || from >= backRank + BOARD_WIDTH) return count;
+		if (!this.chess960 && from !== (color === PieceColor.WHITE ? E1 : E8)) return count;
+
+		const firstRight = color === PieceColor.WHITE ? 0 : 2;
+		for (let right = firstRight; right < firstRight + 2; right++) {
+			if ((this.castlingRights & (1 << right)) === 0) continue;
+			const rookSquare = this.castlingRookSquares[right];
+			if (this.board[rookSquare] !== color * PieceType.ROOK) continue;
+
+			const isKingSide = right === firstRight;
+			const kingTo = castlingKingTarget(from, isKingSide);
+			const rookTo = castlingRookTarget(from, isKingSide);
+			if (!this.isCastlingPathClear(from, rookSquare, kingTo, rookTo)) continue;
+			count = addMove(out, count, encodeMove(from, this.chess960 ? rookSquare : kingTo));
+		}
 
-		if (color === PieceColor.WHITE && from === E1) {
-			if (
-				(this.castlingRights & CASTLE_WHITE_KING) !== 0 &&
-				this.board[H1] === Piece.WHITE_ROOK &&
-				this.board[F1] === PieceType.EMPTY &&
-				this.board[G1] === PieceType.EMPTY
-			) {
-				count = addMove(out, count, encodeMove(from, G1));
-			}
-			if (
-				(this.castlingRights & CASTLE_WHITE_QUEEN) !== 0 &&
-				this.board[A1] === Piece.WHITE_ROOK &&
-				this.board[D1] === PieceType.EMPTY &&
-				this.board[C1] === PieceType.EMPTY &&
-				this.board[B1] === PieceType.EMPTY
-			) {
-				count = addMove(out, count, encodeMove(from, C1));
-			}
+		return count;
+	}
+
+	// NOTE: Every square between the outermost of the king, the rook and their
+	//       target squares has to be empty, except for the castling king and rook.
+	private isCastlingPathClear(
+		kingFrom: number,
+		rookFrom: number,
+		kingTo: number,
+		rookTo: number
+	): boolean {
+		const low = Math.min(kingFrom, rookFrom, kingTo, rookTo);
+		const high = Math.max(kingFrom, rookFrom, kingTo, rookTo);
+		for (let sq = low; sq <= high; sq++) {
+			if (sq !== kingFrom && sq !== rookFrom && this.board[sq] !== PieceType.EMPTY) return false;
 		}
+		return true;
+	}
 
-		if (color === PieceColor.BLACK && from === E8) {
-			if (
-				(this.castlingRights & CASTLE_BLACK_KING) !== 0 &&
-				this.board[H8] === Piece.BLACK_ROOK &&
-				this.board[F8] === PieceType.EMPTY &&
-				this.board[G8] === PieceType.EMPTY
-			) {
-				count = addMove(out, count, encodeMove(from, G8));
+	// NOTE: Swap algorithm: gains[d] is the balance for the side making the d-th
+	//       capture, assuming it gets recaptured. `sideToCapture` makes the next one.
+	private resolveExchange(
+		square: number,
+		sideToCapture: PieceColor,
+		firstGain: number,
+		attackerValue: number
+	): number {
+		const gains = this.seeGains;
+		gains[0] = firstGain;
+		let depth = 0;
+		let side = sideToCapture;
+
+		while (depth < MAX_SEE_EXCHANGES - 1) {
+			depth++;
+			gains[depth] = attackerValue - gains[depth - 1];
+			const attacker = this.findLeastValuableAttacker(square, side);
+			if (attacker < 0) break;
+			attackerValue = SEE_VALUES[Math.abs(this.board[attacker])];
+			this.seeRemoved[attacker] = 1;
+			side = oppositeColor(side);
+		}
+
+		while (--depth > 0) {
+			gains[depth - 1] = -Math.max(-gains[depth - 1], gains[depth]);
+		}
+		return gains[0];
+	}
+
+	/** Square of the cheapest `color` piece attacking `target`, skipping removed squares, or -1. */
+	private findLeastValuableAttacker(target: number, color: PieceColor): number {
+		const file = target & (BOARD_WIDTH - 1);
+		const pawnRank = (target >> 3) - color;
+		const pawn = color * PieceType.PAWN;
+		if (pawnRank >= 0 && pawnRank < BOARD_WIDTH) {
+			const left = pawnRank * BOARD_WIDTH + file - 1;
+			const right = pawnRank * BOARD_WIDTH + file + 1;
+			if (file > 0 && this.board[left] === pawn && !this.seeRemoved[left]) return left;
+			if (file < BOARD_WIDTH - 1 && this.board[right] === pawn && !this.seeRemoved[right]) {
+				return right;
 			}
-			if (
-				(this.castlingRights & CASTLE_BLACK_QUEEN) !== 0 &&
-				this.board[A8] === Piece.BLACK_ROOK &&
-				this.board[D8] === PieceType.EMPTY &&
-				this.board[C8] === PieceType.EMPTY &&
-				this.board[B8] === PieceType.EMPTY
-			) {
-				count = addMove(out, count, encodeMove(from, C8));
+		}
+
+		let square = this.findJumpAttacker(target, color * PieceType.KNIGHT, KNIGHT_DELTAS);
+		if (square >= 0) return square;
+		square = this.findRayAttacker(target, color * PieceType.BISHOP, BISHOP_DELTAS);
+		if (square >= 0) return square;
+		square = this.findRayAttacker(target, color * PieceType.ROOK, ROOK_DELTAS);
+		if (square >= 0) return square;
+		square = this.findRayAttacker(target, color * PieceType.QUEEN, QUEEN_DELTAS);
+		if (square >= 0) return square;
+		return this.findJumpAttacker(target, color * PieceType.KING, KING_DELTAS);
+	}
+
+	private findJumpAttacker(
+		target: number,
+		attackerPiece: number,
+		deltas: readonly (readonly [number, number])[]
+	): number {
+		const targetFile = target & (BOARD_WIDTH - 1);
+		const targetRank = target >> 3;
+
+		for (let i = 0; i < deltas.length; i++) {
+			const fromFile = targetFile + deltas[i][0];
+			const fromRank = targetRank + deltas[i][1];
+			if (!isSquareInsideBoard(fromFile, fromRank)) continue;
+			const from = fromRank * BOARD_WIDTH + fromFile;
+			if (this.board[from] === attackerPiece && !this.seeRemoved[from]) return from;
+		}
+
+		return -1;
+	}
+
+	// NOTE: Removed squares are treated as empty, which uncovers x-ray attackers.
+	private findRayAttacker(
+		target: number,
+		attackerPiece: number,
+		deltas: readonly (readonly [number, number])[]
+	): number {
+		const targetFile = target & (BOARD_WIDTH - 1);
+		const targetRank = target >> 3;
+
+		for (let i = 0; i < deltas.length; i++) {
+			const fileDelta = deltas[i][0];
+			const rankDelta = deltas[i][1];
+			let fromFile = targetFile + fileDelta;
+			let fromRank = targetRank + rankDelta;
+
+			while (isSquareInsideBoard(fromFile, fromRank)) {
+				const from = fromRank * BOARD_WIDTH + fromFile;
+				const piece = this.board[from];
+				if (piece !== PieceType.EMPTY && !this.seeRemoved[from]) {
+					if (piece === attackerPiece) return from;
+					break;
+				}
+				fromFile += fileDelta;
+				fromRank += rankDelta;
 			}
 		}
 
-		return count;
+		return -1;
 	}
 
 	private isJumpAttacked(
@@ -941,19 +1300,56 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	private isCastlingMove(move: MoveInt8): boolean {
 		const from = moveFrom(move);
 		const to = moveTo(move);
-		return Math.abs(this.board[from]) === PieceType.KING && Math.abs(to - from) === 2;
+		const piece = this.board[from];
+		if (Math.abs(piece) !== PieceType.KING) return false;
+		// NOTE: In Chess960 the king castles by moving onto its own rook.
+		return this.chess960
+			? this.board[to] === colorOf(piece) * PieceType.ROOK
+			: Math.abs(to - from) === 2;
 	}
 
+	/** Whether the king neither starts in check nor crosses or lands on an attacked square. */
 	private canCastleThroughCheck(move: MoveInt8, movingColor: number): boolean {
 		const from = moveFrom(move);
-		const to = moveTo(move);
-		const step = to > from ? 1 : -1;
+		const kingTo = castlingKingTarget(from, moveTo(move) > from);
+		const step = kingTo > from ? 1 : -1;
 		const opponent = -movingColor;
-		return (
-			!this.isSquareAttacked(from, opponent) &&
-			!this.isSquareAttacked(from + step, opponent) &&
-			!this.isSquareAttacked(to, opponent)
-		);
+		for (let sq = from; ; sq += step) {
+			if (this.isSquareAttacked(sq, opponent)) return false;
+			if (sq === kingTo) return true;
+		}
+	}
+
+	private toggleZobristPiece(piece: number, boardSquare: number): void {
+		const index = zobristPieceIndex(Math.abs(piece), piece > 0, boardSquare);
+		this.zobristLow ^= ZOBRIST_PIECES_LOW[index];
+		this.zobristHigh ^= ZOBRIST_PIECES_HIGH[index];
+	}
+
+	private toggleZobristCastling(): void {
+		this.zobristLow ^= ZOBRIST_CASTLING_LOW[this.castlingRights];
+		this.zobristHigh ^= ZOBRIST_CASTLING_HIGH[this.castlingRights];
+	}
+
+	private toggleZobristEnPassant(): void {
+		const file = this.enPassantHashFile();
+		if (file < 0) return;
+		this.zobristLow ^= ZOBRIST_EN_PASSANT_LOW[file];
+		this.zobristHigh ^= ZOBRIST_EN_PASSANT_HIGH[file];
+	}
+
+	// NOTE: The en passant file is only hashed when a pawn of the side to move
+	//       stands next to the pushed pawn, otherwise positions that only differ
+	//       by an unusable en passant target would never repeat.
+	private enPassantHashFile(): number {
+		if (this.enPassantSquare < 0) return -1;
+
+		const file = this.enPassantSquare & (BOARD_WIDTH - 1);
+		const victimSquare = this.enPassantSquare - this.turn * BOARD_WIDTH;
+		const pawn = this.turn * PieceType.PAWN;
+		if (file > 0 && this.board[victimSquare - 1] === pawn) return file;
+		if (file < BOARD_WIDTH - 1 && this.board[victimSquare + 1] === pawn) return file;
+		return -1;
 	}
 
 	private isEnPassantMove(from: number, to: number, piece: number): boolean {
@@ -996,12 +1392,9 @@ export class BoardInt8 implements AbstractBoard<MoveBufferInt8, MoveInt8> {
 	}
 
 	private clearCastlingRightForRookSquare(rookSquare: number, color: number): void {
-		if (color === PieceColor.WHITE) {
-			if (rookSquare === H1) this.castlingRights &= ~CASTLE_WHITE_KING;
-			if (rookSquare === A1) this.castlingRights &= ~CASTLE_WHITE_QUEEN;
-		} else {
-			if (rookSquare === H8) this.castlingRights &= ~CASTLE_BLACK_KING;
-			if (rookSquare === A8) this.castlingRights &= ~CASTLE_BLACK_QUEEN;
+		const firstRight = color === PieceColor.WHITE ? 0 : 2;
+		for (let right = firstRight; right < firstRight + 2; right++) {
+			if (this.castlingRookSquares[right] === rookSquare) this.castlingRights &= ~(1 << right);
 		}
 	}
 
@@ -1076,29 +1469,14 @@ function parseTurn(turn: string): PieceColor {
 	throw new Error(`Invalid FEN turn: ${turn}`);
 }
 
-function parseCastlingRights(castling: string): number {
-	if (castling === '-') return 0;
-
-	let rights = 0;
-	for (const char of castling) {
-		switch (char) {
-			case 'K':
-				rights |= CASTLE_WHITE_KING;
-				break;
-			case 'Q':
-				rights |= CASTLE_WHITE_QUEEN;
-				break;
-			case 'k':
-				rights |= CASTLE_BLACK_KING;
-				break;
-			case 'q':
-				rights |= CASTLE_BLACK_QUEEN;
-				break;
-			default:
-				throw new Error(`Invalid FEN castling rights: ${castling}`);
-		}
-	}
-	return rights;
+// NOTE: Wherever the king and the rook start, castling puts them on the same
+//       squares as in standard chess: g/f for king-side, c/d for queen-side.
+function castlingKingTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & ~(BOARD_WIDTH - 1)) + (isKingSide ? 6 : 2);
+}
+
+function castlingRookTarget(kingSquare: number, isKingSide: boolean): number {
+	return (kingSquare & ~(BOARD_WIDTH - 1)) + (isKingSide ? 5 : 3);
 }
 
 function parseEnPassantSquare(enPassant: string, turn: number, board: Int8Array): number {
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { ENGINE_BOARDS } from '$lib/chess/engine/boards';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { MateSolver, solveMatePuzzle } from '$lib/chess/engine/mate';
+import { INITIAL_FEN } from '$lib/chess/fen';
+
+const MATE_IN_TWO = 'kbK5/pp6/1P6/8/8/8/8/R7 w - - 0 1';
+
+describe('solveMatePuzzle', () => {
+	it('finds a unique mate in one', () => {
+		const proof = solveMatePuzzle(
+			'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4',
+			1
+		);
+
+		expect(proof.solutions).toEqual([{ move: 'h5f7', mateIn: 1, line: ['h5f7'] }]);
+		expect(proof.line).toEqual(['h5f7']);
+		expect(proof.hasMultipleSolutions).toBe(false);
+	});
+
+	it('plays the forced line against the longest defence', () => {
+		const proof = solveMatePuzzle(MATE_IN_TWO, 2);
+
+		expect(proof.solutions.map((solution) => solution.move)).toEqual(['a1a6']);
+		expect(proof.line).toEqual(['a1a6', 'b8c7', 'a6a7']);
+		expect(solveMatePuzzle(MATE_IN_TWO, 1).solutions).toEqual([]);
+	});
+
+	it('flags puzzles with more than one mating first move', () => {
+		const proof = solveMatePuzzle('6k1/5ppp/8/8/8/8/8/RR4K1 w - - 0 1', 1);
+		expect(proof.solutions.map((solution) => solution.move)).toEqual(['a1a8', 'b1b8']);
+		expect(proof.hasMultipleSolutions).toBe(true);
+
+		// NOTE: Quicker mates count as solutions too, and are listed first.
+		const cooked = solveMatePuzzle('7k/8/5K2/8/8/8/8/6Q1 w - - 0 1', 2);
+		expect(cooked.solutions[0]).toEqual({ move: 'g1g7', mateIn: 1, line: ['g1g7'] });
+		expect(cooked.solutions.slice(1).every((solution) => solution.mateIn === 2)).toBe(true);
+		expect(cooked.hasMultipleSolutions).toBe(true);
+	});
+
+	it('proves that there is no mate', () => {
+		const proof = solveMatePuzzle(INITIAL_FEN, 2);
+
+		expect(proof.solutions).toEqual([]);
+		expect(proof.line).toEqual([]);
+		expect(proof.nodes).toBeGreaterThan(0);
+	});
+
+	it('does not count stalemate as mate', () => {
+		// NOTE: Qf7 takes the last flight square without giving check; Qf8 mates.
+		const moves = solveMatePuzzle('7k/8/6K1/8/8/8/8/5Q2 w - - 0 1', 1).solutions.map(
+			(solution) => solution.move
+		);
+
+		const stalemate = new BoardInt8('7k/5Q2/6K1/8/8/8/8/8 b - - 1 1');
+		expect(stalemate.generateLegalMoves(stalemate.allocateMoveBuffer())).toBe(0);
+		expect(stalemate.isInCheck()).toBe(false);
+
+		expect(moves).toContain('f1f8');
+		expect(moves).not.toContain('f1f7');
+	});
+
+	it('gives the same solutions on every engine board', () => {
+		for (const board of ENGINE_BOARDS) {
+			const proof = solveMatePuzzle(MATE_IN_TWO, 2, board);
+			// NOTE: Defences that delay mate equally long are picked in move generation order.
+			expect(proof.solutions.map(({ move, mateIn }) => ({ move, mateIn }))).toEqual([
+				{ move: 'a1a6', mateIn: 2 }
+			]);
+			expect(proof.line).toHaveLength(3);
+		}
+	});
+});
+
+describe('MateSolver', () => {
+	it('leaves the board unchanged and rejects invalid move counts', () => {
+		const board = new BoardInt8(MATE_IN_TWO);
+		const solver = new MateSolver(board);
+
+		expect(solver.solve(3).line.map(moveToUci)).toEqual(['a1a6', 'b8c7', 'a6a7']);
+		expect(board.toFen()).toBe(MATE_IN_TWO);
+		expect(() => solver.solve(0)).toThrow('Invalid number of moves: 0');
+		expect(() => solver.solve(1.5)).toThrow();
+	});
+});
@@ -0,0 +1,213 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import { createEngineBoard, type EngineBoardName } from '$lib/chess/engine/boards';
+import { MAX_SEARCH_PLY } from '$lib/chess/engine/score';
+import { zobristKeyToHex } from '$lib/chess/engine/zobrist';
+
+export const MAX_MATE_MOVES = MAX_SEARCH_PLY / 2;
+
+export interface MateSolution<TMove> {
+	move: TMove;
+	/** Full moves until mate with best defence, at most the requested number. */
+	mateIn: number;
+	/** Starts with `move`: the quickest mate against the longest defence. */
+	line: TMove[];
+}
+
+export interface MateProof<TMove> {
+	/** The requested number of moves. */
+	moves: number;
+	/**
+	 * Every first move that mates within `moves`, quickest first. Empty when
+	 * there is no mate in `moves`: every first move was refuted.
+	 */
+	solutions: MateSolution<TMove>[];
+	/** Forced line of the first solution; empty without one. */
+	line: TMove[];
+	/** More than one first move mates within `moves`, counting quicker mates. */
+	hasMultipleSolutions: boolean;
+	nodes: number;
+}
+
+/**
+ * Exhaustive proof search for a forced mate by the side to move. Unlike the
+ * alpha-beta search it has no evaluation and no depth extensions: a first move
+ * is a solution only when every defence is mated in time. Works with any
+ * AbstractBoard implementation and leaves the board in its original state.
+ *
+ * NOTE: Repetitions and the fifty-move rule are not considered; they cannot
+ *       decide puzzle-length lines.
+ */
+export class MateSolver<TMoveBuffer, TMove> {
+	private readonly board: AbstractBoard<TMoveBuffer, TMove>;
+	private readonly moveBuffers: TMoveBuffer[];
+	// NOTE: Keyed by the Zobrist key of positions with the attacker to move:
+	//       the fewest moves a mate was found in, and the most moves proven
+	//       not to be enough.
+	private readonly mateWithin = new Map<string, number>();
+	private readonly noMateWithin = new Map<string, number>();
+	private nodes = 0;
+
+	constructor(board: AbstractBoard<TMoveBuffer, TMove>) {
+		this.board = board;
+		this.moveBuffers = Array.from({ length: MAX_SEARCH_PLY }, () => board.allocateMoveBuffer());
+	}
+
+	solve(moves: number): MateProof<TMove> {
+		if (!Number.isInteger(moves) || moves < 1 || moves > MAX_MATE_MOVES) {
+			throw new Error(`Invalid number of moves: ${moves}`);
+		}
+		this.nodes = 0;
+		this.mateWithin.clear();
+		this.noMateWithin.clear();
+
+		const board = this.board;
+		const buffer = this.moveBuffers[0];
+		const count = board.generateLegalMoves(buffer, 0);
+		const solutions: MateSolution<TMove>[] = [];
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			const mateIn = this.quickestMateAfter(moves, 1);
+			if (mateIn > 0) {
+				solutions.push({ move, mateIn, line: [move, ...this.defenceLine(mateIn, 1)] });
+			}
+			board.unmakeMove(move);
+		}
+		solutions.sort((a, b) => a.mateIn - b.mateIn);
+
+		return {
+			moves,
+			solutions,
+			line: solutions[0]?.line ?? [],
+			hasMultipleSolutions: solutions.length > 1,
+			nodes: this.nodes
+		};
+	}
+
+	/** Attacker to move: whether some move mates within `moves`. */
+	private canMate(moves: number, ply: number): boolean {
+		const board = this.board;
+		const key = zobristKeyToHex(board.hashLow(), board.hashHigh());
+		if ((this.mateWithin.get(key) ?? Infinity) <= moves) return true;
+		if ((this.noMateWithin.get(key) ?? 0) >= moves) return false;
+
+		this.nodes++;
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		let isMate = false;
+		for (let i = 0; i < count && !isMate; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			isMate = this.isLost(moves, ply + 1);
+			board.unmakeMove(move);
+		}
+
+		if (isMate) this.mateWithin.set(key, moves);
+		else this.noMateWithin.set(key, moves);
+		return isMate;
+	}
+
+	/** Defender to move: whether every defence is mated within `moves` of the attacker. */
+	private isLost(moves: number, ply: number): boolean {
+		this.nodes++;
+		const board = this.board;
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		if (count === 0) return board.isInCheck();
+		if (moves === 1) return false;
+
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			const isMate = this.canMate(moves - 1, ply + 1);
+			board.unmakeMove(move);
+			if (!isMate) return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Defender to move, after an attacker move: the fewest attacker moves,
+	 * that one included, that mate within `moves`; 0 when there is no mate.
+	 */
+	private quickestMateAfter(moves: number, ply: number): number {
+		for (let mateIn = 1; mateIn <= moves; mateIn++) {
+			if (this.isLost(mateIn, ply)) return mateIn;
+		}
+		return 0;
+	}
+
+	/**
+	 * Defender to move, mated within `mateIn`: the rest of the forced line,
+	 * with the defence that delays mate longest and the quickest mate against it.
+	 */
+	private defenceLine(mateIn: number, ply: number): TMove[] {
+		const board = this.board;
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		if (count === 0) return [];
+
+		let defence: TMove | null = null;
+		let longest = 0;
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			let remaining = 1;
+			while (remaining < mateIn - 1 && !this.canMate(remaining, ply + 1)) remaining++;
+			board.unmakeMove(move);
+			if (remaining > longest) {
+				longest = remaining;
+				defence = move;
+			}
+		}
+
+		board.makeMove(defence!);
+		const line = [defence!, ...this.attackLine(longest, ply + 1)];
+		board.unmakeMove(defence!);
+		return line;
+	}
+
+	/** Attacker to move, mating within `mateIn`: the quickest mate and the longest defence against it. */
+	private attackLine(mateIn: number, ply: number): TMove[] {
+		const board = this.board;
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		let attack: TMove | null = null;
+		let quickest = Infinity;
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			const moves = this.quickestMateAfter(Math.min(mateIn, quickest - 1), ply + 1);
+			board.unmakeMove(move);
+			if (moves > 0) {
+				quickest = moves;
+				attack = move;
+			}
+		}
+
+		board.makeMove(attack!);
+		const line = [attack!, ...this.defenceLine(quickest, ply + 1)];
+		board.unmakeMove(attack!);
+		return line;
+	}
+}
+
+/** Solves a puzzle given as FEN; moves are returned in UCI notation. */
+export function solveMatePuzzle(
+	fen: string,
+	moves: number,
+	boardName: EngineBoardName = 'int8'
+): MateProof<string> {
+	const { board, moveToUci } = createEngineBoard(boardName);
+	board.loadFen(fen);
+	const proof = new MateSolver(board).solve(moves);
+	return {
+		...proof,
+		solutions: proof.solutions.map((solution) => ({
+			move: moveToUci(solution.move),
+			mateIn: solution.mateIn,
+			line: solution.line.map(moveToUci)
+		})),
+		line: proof.line.map(moveToUci)
+	};
+}
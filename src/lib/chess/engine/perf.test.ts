@@ -1,40 +1,66 @@
 import { describe, expect, it } from 'vitest';
 
 import type { AbstractBoard } from '$lib/chess/board';
-import { BoardInt8 } from '$lib/chess/engine/int8';
-import { Board0x88 } from '$lib/chess/engine/0x88';
-
-function perft<TBuf, TMove>(board: AbstractBoard<TBuf, TMove>, depth: number): number {
-	if (depth <= 0) return 1;
-
-	const moveBuffer = board.allocateMoveBuffer();
-	const movesCount = board.generateLegalMoves(moveBuffer);
-
-	// At the leaf level the count of legal moves is the answer; no need to
-	// recurse into every child just to return 1 each time.
-	if (depth === 1) return movesCount;
-
-	let nodes = 0;
-	for (let i = 0; i < movesCount; i++) {
-		const move = board.getMoveByIndex(moveBuffer, i);
-		board.makeMove(move);
-		nodes += perft(board, depth - 1);
-		board.unmakeMove(move);
-	}
-
-	return nodes;
-}
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardBitboard, bitboardMoveToUci } from '$lib/chess/engine/bitboard';
+import { BenchmarkKind, formatBenchmarkReport, runBenchmark } from '$lib/chess/engine/benchmark';
+import { ENGINE_BOARDS } from '$lib/chess/engine/boards';
+import {
+	CHESS960_PERFT_POSITIONS,
+	formatPerftDivide,
+	perft,
+	perftDivide,
+	PERFT_POSITIONS
+} from '$lib/chess/engine/perft';
+import { TranspositionTable } from '$lib/chess/engine/transposition';
 
 describe('perft', () => {
 	describe('0x88', () => {
-		runBoardTests(new Board0x88());
+		runBoardTests(new Board0x88(), moveToLongAlgebraic);
 	});
 	describe('int8', () => {
-		runBoardTests(new BoardInt8());
+		runBoardTests(new BoardInt8(), moveToUci);
+	});
+	describe('bitboard', () => {
+		runBoardTests(new BoardBitboard(), bitboardMoveToUci);
 	});
 });
 
-function runBoardTests(board: AbstractBoard<unknown, unknown>) {
+describe('backend speed', () => {
+	it('reports the relative nodes per second of the engine boards', () => {
+		const depth = 3;
+		const positions = PERFT_POSITIONS.slice(0, 3);
+		const report = runBenchmark({
+			boards: [...ENGINE_BOARDS],
+			positions,
+			perftDepth: depth,
+			searchDepth: 1,
+			iterations: 1,
+			runs: 1
+		});
+		const results = report.results.filter((result) => result.kind === BenchmarkKind.PERFT);
+
+		for (const result of results) {
+			const position = positions.find((position) => position.name === result.position)!;
+			expect(result.count, `${result.board} ${result.position}`).toBe(position.nodes[depth - 1]);
+		}
+		const summary = formatBenchmarkReport({ ...report, results });
+		const lines = summary.split('\n');
+		expect(lines).toHaveLength(ENGINE_BOARDS.length);
+		// NOTE: The fastest board is at 1.00x; one within half a percent of it is too.
+		expect(lines.filter((line) => line.endsWith(' 1.00x')).length).toBeGreaterThan(0);
+		console.log(`perft(${depth}) speed by backend:\n${summary}`);
+	}, 30_000);
+});
+
+// NOTE: Deeper counts of the perft positions take too long for every test run.
+const PERFT_NODE_BUDGET = 100_000;
+
+function runBoardTests<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string
+) {
 	it('initial position', () => {
 		const timeName = `${board.constructor.name} perft`;
 		console.time(timeName);
@@ -63,45 +89,50 @@ function runBoardTests(board: AbstractBoard<unknown, unknown>) {
 		expect(perft(board, 3)).toBe(97862);
 	});
 
-	it('position 3', () => {
-		const fen = '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1';
-		board.loadFen(fen);
-		expect(perft(board, 1)).toBe(14);
-		board.loadFen(fen);
-		expect(perft(board, 2)).toBe(191);
-		board.loadFen(fen);
-		expect(perft(board, 3)).toBe(2812);
-		board.loadFen(fen);
-		expect(perft(board, 4)).toBe(43238);
-	});
+	it('matches the known counts of the perft positions', () => {
+		for (const position of PERFT_POSITIONS) {
+			for (let depth = 1; depth <= position.nodes.length; depth++) {
+				const expected = position.nodes[depth - 1];
+				if (expected > PERFT_NODE_BUDGET) break;
+				board.loadFen(position.fen);
+				expect(perft(board, depth), `${position.name} at depth ${depth}`).toBe(expected);
+			}
+		}
+	}, 30_000);
 
-	it('position 4', () => {
-		const fen = 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1';
-		board.loadFen(fen);
-		expect(perft(board, 1)).toBe(6);
-		board.loadFen(fen);
-		expect(perft(board, 2)).toBe(264);
-		board.loadFen(fen);
-		expect(perft(board, 3)).toBe(9467);
-	});
+	it('matches the known counts of the Chess960 perft positions', () => {
+		for (const position of CHESS960_PERFT_POSITIONS) {
+			for (let depth = 1; depth <= position.nodes.length; depth++) {
+				const expected = position.nodes[depth - 1];
+				if (expected > PERFT_NODE_BUDGET) break;
+				board.loadFen(position.fen);
+				expect(perft(board, depth), `${position.name} at depth ${depth}`).toBe(expected);
+			}
+			board.loadFen(position.fen);
+			expect(board.toFen(), position.name).toBe(position.fen);
+		}
+	}, 30_000);
 
-	it('position 5', () => {
-		const fen = 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8';
-		board.loadFen(fen);
-		expect(perft(board, 1)).toBe(44);
-		board.loadFen(fen);
-		expect(perft(board, 2)).toBe(1486);
-		board.loadFen(fen);
-		expect(perft(board, 3)).toBe(62379);
+	it('divides the node count by root move', () => {
+		board.loadFen(PERFT_POSITIONS[1].fen);
+		const entries = perftDivide(board, 2, toUci);
+
+		expect(entries).toHaveLength(48);
+		expect(entries.reduce((sum, entry) => sum + entry.nodes, 0)).toBe(2039);
+		expect(entries.find((entry) => entry.move === 'e1g1')?.nodes).toBe(43);
+		expect(formatPerftDivide(entries)).toMatch(/^a1b1: 43\n[^]*\n\nNodes searched: 2039$/);
 	});
 
-	it('position 6', () => {
-		const fen = 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10';
+	// NOTE: Deeper hashed runs are left to the benchmark runner (`--perft-depth`).
+	it('hashed perft matches the plain node counts', () => {
+		const table = new TranspositionTable(1 << 16);
+		const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
 		board.loadFen(fen);
-		expect(perft(board, 1)).toBe(46);
+		expect(perft(board, 3, table)).toBe(97862);
+		// NOTE: The second run is answered from the table.
 		board.loadFen(fen);
-		expect(perft(board, 2)).toBe(2079);
+		expect(perft(board, 3, table)).toBe(97862);
 		board.loadFen(fen);
-		expect(perft(board, 3)).toBe(89890);
+		expect(perft(board, 2, table)).toBe(2039);
 	});
 }
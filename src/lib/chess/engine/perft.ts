@@ -0,0 +1,243 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import type { TranspositionTable } from '$lib/chess/engine/transposition';
+
+export interface PerftPosition {
+	name: string;
+	fen: string;
+	/** Known node counts: `nodes[depth - 1]` is perft(depth). */
+	nodes: number[];
+}
+
+// NOTE: The standard positions are from https://www.chessprogramming.org/Perft_Results,
+//       the tricky ones are the well-known set of en passant, castling and
+//       promotion edge cases by Martin Sedlak. The deepest count of every entry
+//       is the published one.
+export const PERFT_POSITIONS: PerftPosition[] = [
+	{
+		name: 'initial position',
+		fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+		nodes: [20, 400, 8902, 197281, 4865609]
+	},
+	{
+		name: 'kiwipete',
+		fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+		nodes: [48, 2039, 97862, 4085603]
+	},
+	{
+		name: 'position 3',
+		fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+		nodes: [14, 191, 2812, 43238, 674624]
+	},
+	{
+		name: 'position 4',
+		fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+		nodes: [6, 264, 9467, 422333]
+	},
+	{
+		name: 'position 4 mirrored',
+		fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+		nodes: [6, 264, 9467, 422333]
+	},
+	{
+		name: 'position 5',
+		fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+		nodes: [44, 1486, 62379, 2103487]
+	},
+	{
+		name: 'position 6',
+		fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+		nodes: [46, 2079, 89890, 3894594]
+	},
+	{
+		name: 'illegal en passant capture (pinned along the diagonal)',
+		fen: '8/5bk1/8/2Pp4/8/1K6/8/8 w - d6 0 1',
+		nodes: [8, 104, 736, 9287, 62297, 824064]
+	},
+	{
+		name: 'illegal en passant capture (pinned along the rank)',
+		fen: '3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1',
+		nodes: [18, 92, 1670, 10138, 185429, 1134888]
+	},
+	{
+		name: 'en passant capture gives check',
+		fen: '8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1',
+		nodes: [15, 126, 1928, 13931, 206379, 1440467]
+	},
+	{
+		name: 'short castling gives check',
+		fen: '5k2/8/8/8/8/8/8/4K2R w K - 0 1',
+		nodes: [15, 66, 1198, 6399, 120330, 661072]
+	},
+	{
+		name: 'long castling gives check',
+		fen: '3k4/8/8/8/8/8/8/R3K3 w Q - 0 1',
+		nodes: [16, 71, 1286, 7418, 141077, 803711]
+	},
+	{
+		name: 'castling rights lost to rook captures',
+		fen: 'r3k2r/1b4bq/8/8/8/8/7B/R3K2R w KQkq - 0 1',
+		nodes: [26, 1141, 27826, 1274206]
+	},
+	{
+		name: 'castling prevented by attacks',
+		fen: 'r3k2r/8/3Q4/8/8/5q2/8/R3K2R b KQkq - 0 1',
+		nodes: [44, 1494, 50509, 1720476]
+	},
+	{
+		name: 'promote out of check',
+		fen: '2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1',
+		nodes: [11, 133, 1442, 19174, 266199, 3821001]
+	},
+	{
+		name: 'discovered check',
+		fen: '8/8/1P2K3/8/2n5/1q6/8/5k2 b - - 0 1',
+		nodes: [29, 165, 5160, 31961, 1004658]
+	},
+	{
+		name: 'promote to give check',
+		fen: '4k3/1P6/8/8/8/8/K7/8 w - - 0 1',
+		nodes: [9, 40, 472, 2661, 38983, 217342]
+	},
+	{
+		name: 'underpromote to give check',
+		fen: '8/P1k5/K7/8/8/8/8/8 w - - 0 1',
+		nodes: [6, 27, 273, 1329, 18135, 92683]
+	},
+	{
+		name: 'self stalemate',
+		fen: 'K1k5/8/P7/8/8/8/8/8 w - - 0 1',
+		nodes: [2, 6, 13, 63, 382, 2217]
+	},
+	{
+		name: 'stalemate and checkmate',
+		fen: '8/k1P5/8/1K6/8/8/8/8 w - - 0 1',
+		nodes: [10, 25, 268, 926, 10857, 43261, 567584]
+	},
+	{
+		name: 'double check',
+		fen: '8/8/2k5/5q2/5n2/8/5K2/8 b - - 0 1',
+		nodes: [37, 183, 6559, 23527]
+	}
+];
+
+// NOTE: From https://www.chessprogramming.org/Chess960_Perft_Results. Castling
+//       fields are Shredder-FEN, so the castling rook is always explicit.
+export const CHESS960_PERFT_POSITIONS: PerftPosition[] = [
+	{
+		name: 'chess960 position 1',
+		fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+		nodes: [21, 528, 12189, 326672]
+	},
+	{
+		name: 'chess960 position 2',
+		fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+		nodes: [21, 807, 18002, 667366]
+	},
+	{
+		name: 'chess960 position 3',
+		fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9',
+		nodes: [20, 479, 10471, 273318]
+	},
+	{
+		name: 'chess960 position 4',
+		fen: 'qbbnnrkr/2pp2pp/p7/1p2pp2/8/P3PP2/1PPP1KPP/QBBNNR1R w hf - 0 9',
+		nodes: [22, 593, 13440, 382958]
+	},
+	{
+		name: 'chess960 position 5',
+		fen: '1nbbnrkr/p1p1ppp1/3p4/1p3P1p/3Pq2P/8/PPP1P1P1/QNBBNRKR w HFhf - 0 9',
+		nodes: [28, 1120, 31058, 1171749]
+	},
+	{
+		name: 'chess960 position 6',
+		fen: 'qnbnr1kr/ppp1b1pp/4p3/3p1p2/8/2NPP3/PPP1BPPP/QNB1R1KR w HEhe - 1 9',
+		nodes: [29, 899, 26578, 824055]
+	},
+	{
+		name: 'chess960 position 7',
+		fen: 'q1bnrkr1/ppppp2p/2n2p2/4b1p1/2NP4/8/PPP1PPPP/QNB1RRKB w ge - 1 9',
+		nodes: [30, 860, 24566, 732757]
+	},
+	{
+		name: 'chess960 position 8',
+		fen: 'qbn1brkr/ppp1p1p1/2n4p/3p1p2/P7/6PP/QPPPPP2/1BNNBRKR w HFhf - 0 9',
+		nodes: [25, 635, 17054, 465806]
+	},
+	{
+		name: 'chess960 position 9',
+		fen: 'qnnbbrkr/1p2ppp1/2pp3p/p7/1P5P/2NP4/P1P1PPP1/Q1NBBRKR w HFhf - 0 9',
+		nodes: [24, 572, 15243, 384260]
+	}
+];
+
+/**
+ * Counts the leaf nodes of the legal move tree to the given depth. When a
+ * table is passed, subtree counts are cached by position key (hashed perft),
+ * which pays off on positions with many transpositions.
+ */
+export function perft<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	depth: number,
+	table?: TranspositionTable
+): number {
+	if (depth <= 0) return 1;
+
+	const moveBuffer = board.allocateMoveBuffer();
+	const movesCount = board.generateLegalMoves(moveBuffer);
+
+	// At the leaf level the count of legal moves is the answer; no need to
+	// recurse into every child just to return 1 each time.
+	if (depth === 1) return movesCount;
+
+	if (table !== undefined) {
+		const cached = table.probeNodeCount(board.hashLow(), board.hashHigh(), depth);
+		if (cached >= 0) return cached;
+	}
+
+	let nodes = 0;
+	for (let i = 0; i < movesCount; i++) {
+		const move = board.getMoveByIndex(moveBuffer, i);
+		board.makeMove(move);
+		nodes += perft(board, depth - 1, table);
+		board.unmakeMove(move);
+	}
+
+	table?.storeNodeCount(board.hashLow(), board.hashHigh(), depth, nodes);
+	return nodes;
+}
+
+export interface PerftDivideEntry {
+	move: string;
+	nodes: number;
+}
+
+/**
+ * Per-root-move node counts (the `divide` command of most engines), sorted by
+ * move. Comparing them with a reference engine narrows a wrong total down to
+ * the subtree that causes it.
+ */
+export function perftDivide<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	depth: number,
+	moveToUci: (move: TMove) => string
+): PerftDivideEntry[] {
+	if (depth <= 0) return [];
+
+	const moveBuffer = board.allocateMoveBuffer();
+	const movesCount = board.generateLegalMoves(moveBuffer);
+	const entries: PerftDivideEntry[] = [];
+	for (let i = 0; i < movesCount; i++) {
+		const move = board.getMoveByIndex(moveBuffer, i);
+		board.makeMove(move);
+		entries.push({ move: moveToUci(move), nodes: perft(board, depth - 1) });
+		board.unmakeMove(move);
+	}
+	return entries.sort((a, b) => (a.move < b.move ? -1 : a.move > b.move ? 1 : 0));
+}
+
+/** Same layout as the `go perft` output of Stockfish. */
+export function formatPerftDivide(entries: PerftDivideEntry[]): string {
+	const total = entries.reduce((sum, entry) => sum + entry.nodes, 0);
+	const lines = entries.map((entry) => `${entry.move}: ${entry.nodes}`);
+	return `${lines.join('\n')}\n\nNodes searched: ${total}`;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	polyglotKey,
+	POLYGLOT_ENTRY_SIZE,
+	PolyglotBook,
+	writePolyglotBook
+} from '$lib/chess/engine/polyglot';
+import { boardMoveToUci } from '$lib/chess/engine/convert';
+import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import { applyMove } from '$lib/chess/moves';
+import { getOpenings } from '$lib/chess/openings';
+import { createOpening } from '$lib/chess/openings.fixtures';
+
+describe('polyglotKey', () => {
+	// NOTE: The reference keys from the Polyglot format description.
+	it('matches the keys of the format description', () => {
+		const keys: [fen: string, key: string][] = [
+			['rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', '463b96181691fc9c'],
+			['rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1', '823c9b50fd114196'],
+			['rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2', '0756b94461c50fb0'],
+			['rnbqkbnr/ppp1pppp/8/3pP3/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2', '662fafb965db29d4'],
+			['rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3', '22a48b5a8e47ff78'],
+			['rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPPKPPP/RNBQ1BNR b kq - 0 3', '652a607ca3f242c1'],
+			['rnbq1bnr/ppp1pkpp/8/3pPp2/8/8/PPPPKPPP/RNBQ1BNR w - - 0 4', '00fdd303c946bdd9'],
+			['rnbqkbnr/p1pppppp/8/8/PpP4P/8/1P1PPPP1/RNBQKBNR b KQkq c3 0 3', '3c8123ea7b067637'],
+			['rnbqkbnr/p1pppppp/8/8/P6P/R1p5/1P1PPPP1/1NBQKBNR b Kkq - 0 4', '5c3f9b829b279560']
+		];
+		for (const [fen, key] of keys) {
+			expect(polyglotKey(parseFen(fen)).toString(16).padStart(16, '0'), fen).toBe(key);
+		}
+	});
+});
+
+describe('Polyglot book', () => {
+	it('reads back every move of the repertoire it was written from', () => {
+		const opening = getOpenings()[0];
+		const book = new PolyglotBook(writePolyglotBook(opening));
+
+		expect(book.lookup(INITIAL_FEN)).toEqual([
+			{ uci: 'd2d4', weight: opening.lines.length, learn: 0 }
+		]);
+		for (const line of opening.lines) {
+			let board = parseFen(INITIAL_FEN);
+			for (const move of line.moves) {
+				const uci = boardMoveToUci(move);
+				expect(book.lookup(board).map((entry) => entry.uci)).toContain(uci);
+				board = applyMove(board, move);
+			}
+		}
+	});
+
+	it('sorts entries by key and weight and merges transpositions', () => {
+		const buffer = writePolyglotBook(
+			createOpening('1. e4 e5 2. Nf3', '1. e4 c5 2. Nf3', '1. e4 e5 2. Bc4', '1. d4')
+		);
+		const book = new PolyglotBook(buffer);
+
+		expect(book.size).toBe(7);
+		expect(book.lookup(INITIAL_FEN)).toEqual([
+			{ uci: 'e2e4', weight: 3, learn: 0 },
+			{ uci: 'd2d4', weight: 1, learn: 0 }
+		]);
+		const view = new DataView(buffer);
+		for (let i = 1; i < book.size; i++) {
+			const previous = view.getBigUint64((i - 1) * POLYGLOT_ENTRY_SIZE);
+			expect(view.getBigUint64(i * POLYGLOT_ENTRY_SIZE)).toBeGreaterThanOrEqual(previous);
+		}
+	});
+
+	it('writes castling as the king taking its rook and reads it back as a king move', () => {
+		const opening = createOpening('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O');
+		const buffer = writePolyglotBook(opening);
+		const fen = 'r1bqk1nr/pppp1ppp/2n5/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4';
+		const key = polyglotKey(parseFen(fen));
+		const view = new DataView(buffer);
+		let move = -1;
+		for (let offset = 0; offset < buffer.byteLength; offset += POLYGLOT_ENTRY_SIZE) {
+			if (view.getBigUint64(offset) === key) move = view.getUint16(offset + 8);
+		}
+
+		// NOTE: e1h1: to h1 (file 7, rank 0), from e1 (file 4, rank 0).
+		expect(move).toBe(7 | (4 << 6));
+		expect(new PolyglotBook(buffer).lookup(fen)).toEqual([{ uci: 'e1g1', weight: 1, learn: 0 }]);
+	});
+
+	it('returns no moves for unknown positions and rejects truncated books', () => {
+		const book = new PolyglotBook(writePolyglotBook(createOpening('1. e4')));
+		expect(book.lookup('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual([]);
+		expect(new PolyglotBook(new ArrayBuffer(0)).lookup(INITIAL_FEN)).toEqual([]);
+		expect(() => new PolyglotBook(new ArrayBuffer(20))).toThrow(/multiple of 16/);
+	});
+});
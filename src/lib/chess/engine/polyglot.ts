@@ -0,0 +1,394 @@
+import {
+	BOARD_FILES,
+	BOARD_RANKS,
+	getCastlingRookFiles,
+	PlayerColor,
+	Position,
+	type BoardInfo
+} from '$lib/chess/board';
+import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import { applyMove, type Move } from '$lib/chess/moves';
+import type { Opening } from '$lib/chess/openings';
+import { PieceId } from '$lib/chess/piece';
+
+/** Bytes per book entry: key (8), move (2), weight (2) and learn (4), all big-endian. */
+export const POLYGLOT_ENTRY_SIZE = 16;
+const MAX_POLYGLOT_WEIGHT = 0xffff;
+
+// NOTE: The Random64 table of the Polyglot format: 768 values for the pieces
+//       (kind * 64 + square), 4 for the castling rights, 8 for the en passant
+//       file and 1 for White to move. Books written by other tools can only be
+//       read with exactly these values. Each value is written as its high and
+//       low 32-bit halves.
+const POLYGLOT_RANDOM_HALVES = [
+	0x9d39247e, 0x33776d41, 0x2af73980, 0x05aaa5c7, 0x44db0150, 0x24623547, 0x9c15f73e, 0x62a76ae2,
+	0x75834465, 0x489c0c89, 0x3290ac3a, 0x203001bf, 0x0fbbad1f, 0x61042279, 0xe83a908f, 0xf2fb60ca,
+	0x0d7e765d, 0x58755c10, 0x1a083822, 0xceafe02d, 0x9605d5f0, 0xe25ec3b0, 0xd021ff5c, 0xd13a2ed5,
+	0x40bdf15d, 0x4a672e32, 0x01135514, 0x6fd56395, 0x5db48320, 0x46f3d9e5, 0x239f8b2d, 0x7ff719cc,
+	0x05d1a1ae, 0x85b49aa1, 0x679f848f, 0x6e8fc971, 0x7449bbff, 0x801fed0b, 0x7d11cdb1, 0xc3b7adf0,
+	0x82c7709e, 0x781eb7cc, 0xf3218f1c, 0x9510786c, 0x331478f3, 0xaf51bbe6, 0x4bb38de5, 0xe7219443,
+	0xaa649c6e, 0xbcfd50fc, 0x8dbd98a3, 0x52afd40b, 0x87d2074b, 0x81d79217, 0x19f3c751, 0xd3e92ae1,
+	0xb4ab30f0, 0x62b19abf, 0x7b0500ac, 0x42047ac4, 0xc9452ca8, 0x1a09d85d, 0x24aa6c51, 0x4da27500,
+	0x4c9f3442, 0x7501b447, 0x14a68fd7, 0x3c910841, 0xa71b9b83, 0x461cbd93, 0x03488b95, 0xb0f1850f,
+	0x637b2b34, 0xff93c040, 0x09d1bc9a, 0x3dd90a94, 0x35756683, 0x34a1dd3b, 0x735e2b97, 0xa4c45a23,
+	0x18727070, 0xf1bd400b, 0x1fcbacd2, 0x59bf02e7, 0xd310a7c2, 0xce9b6555, 0xbf983fe0, 0xfe5d8244,
+	0x9f74d14f, 0x7454a824, 0x51ebdc4a, 0xb9ba3035, 0x5c82c505, 0xdb9ab0fa, 0xfcf7fe8a, 0x3430b241,
+	0x3253a729, 0xb9ba3dde, 0x8c74c368, 0x081b3075, 0xb9bc6c87, 0x167c33e7, 0x7ef48f2b, 0x83024e20,
+	0x11d505d4, 0xc351bd7f, 0x6568fca9, 0x2c76a243, 0x4de0b0f4, 0x0f32a7b8, 0x96d69346, 0x0cc37e5d,
+	0x42e240cb, 0x63689f2f, 0x6d2bdcda, 0xe2919661, 0x42880b02, 0x36e4d951, 0x5f0f4a58, 0x98171bb6,
+	0x39f890f5, 0x79f92f88, 0x93c5b5f4, 0x7356388b, 0x63dc359d, 0x8d231b78, 0xec16ca8a, 0xea98ad76,
+	0x5355f900, 0xc2a82dc7, 0x07fb9f85, 0x5a997142, 0x5093417a, 0xa8a7ed5e, 0x7bcbc38d, 0xa25a7f3c,
+	0x19fc8a76, 0x8cf4b6d4, 0x637a7780, 0xdecfc0d9, 0x8249a47a, 0xee0e41f7, 0x79ad6955, 0x01e7d1e8,
+	0x14acbaf4, 0x777d5776, 0xf145b6be, 0xccdea195, 0xdabf2ac8, 0x201752fc, 0x24c3c94d, 0xf9c8d3f6,
+	0xbb6e2924, 0xf03912ea, 0x0ce26c0b, 0x95c980d9, 0xa49cd132, 0xbfbf7cc4, 0xe99d662a, 0xf4243939,
+	0x27e6ad78, 0x91165c3f, 0x8535f040, 0xb9744ff1, 0x54b3f4fa, 0x5f40d873, 0x72b12c32, 0x127fed2b,
+	0xee954d3c, 0x7b411f47, 0x9a85ac90, 0x9a24eaa1, 0x70ac4cd9, 0xf04f21f5, 0xf9b89d3e, 0x99a075c2,
+	0x87b3e2b2, 0xb5c907b1, 0xa366e5b8, 0xc54f48b8, 0xae4a9346, 0xcc3f7cf2, 0x1920c04d, 0x47267bbd,
+	0x87bf02c6, 0xb49e2ae9, 0x092237ac, 0x237f3859, 0xff07f64e, 0xf8ed14d0, 0x8de8dca9, 0xf03cc54e,
+	0x9c163326, 0x4db49c89, 0xb3f22c3d, 0x0b0b38ed, 0x390e5fb4, 0x4d01144b, 0x5bfea5b4, 0x712768e9,
+	0x1e103291, 0x1fa78984, 0x9a74acb9, 0x64e78cb3, 0x4f80f7a0, 0x35dafb04, 0x6304d09a, 0x0b3738c4,
+	0x2171e646, 0x83023a08, 0x5b9b63eb, 0x9ceff80c, 0x506aacf4, 0x89889342, 0x1881afc9, 0xa3a701d6,
+	0x65030804, 0x40750644, 0xdfd39533, 0x9cdbf4a7, 0xef927dbc, 0xf00c20f2, 0x7b32f7d1, 0xe03680ec,
+	0xb9fd7620, 0xe7316243, 0x05a7e8a5, 0x7db91b77, 0xb5889c6e, 0x15630a75, 0x4a750a09, 0xce9573f7,
+	0xcf464cec, 0x899a2f8a, 0xf538639c, 0xe705b824, 0x3c79a0ff, 0x5580ef7f, 0xede6c87f, 0x8477609d,
+	0x799e81f0, 0x5bc93f31, 0x86536b8c, 0xf3428a8c, 0x97d7374c, 0x60087b73, 0xa246637c, 0xff328532,
+	0x043fcae6, 0x0cc0eba0, 0x920e4495, 0x35dd359e, 0x70eb093b, 0x15b290cc, 0x73a19219, 0x16591cbd,
+	0x56436c9f, 0xe1a1aa8d, 0xefac4b70, 0x633b8f81, 0xbb215798, 0xd45df7af, 0x45f20042, 0xf24f1768,
+	0x930f80f4, 0xe8eb7462, 0xff6712ff, 0xcfd75ea1, 0xae623fd6, 0x7468aa70, 0xdd2c5bc8, 0x4bc8d8fc,
+	0x7eed120d, 0x54cf2dd9, 0x22fe5454, 0x01165f1c, 0xc91800e9, 0x8fb99929, 0x808bd68e, 0x6ac10365,
+	0xdec46814, 0x5b7605f6, 0x1bede3a3, 0xaef53302, 0x43539603, 0xd6c55602, 0xaa969b5c, 0x691ccb7a,
+	0xa87832d3, 0x92efee56, 0x65942c7b, 0x3c7e11ae, 0xded2d633, 0xcad004f6, 0x21f08570, 0xf420e565,
+	0xb415938d, 0x7da94e3c, 0x91b859e5, 0x9ecb6350, 0x10cff333, 0xe0ed804a, 0x28aed140, 0xbe0bb7dd,
+	0xc5cc1d89, 0x724fa456, 0x5648f680, 0xf11a2741, 0x2d255069, 0xf0b7dab3, 0x9bc5a38e, 0xf729abd4,
+	0xef2f0543, 0x08f6a2bc, 0xaf2042f5, 0xcc5c2858, 0x480412ba, 0xb7f5be2a, 0xaef3af4a, 0x563dfe43,
+	0x19afe59a, 0xe451497f, 0x52593803, 0xdff1e840, 0xf4f076e6, 0x5f2ce6f0, 0x11379625, 0x747d5af3,
+	0xbce5d224, 0x8682c115, 0x9da4243d, 0xe836994f, 0x066f70b3, 0x3fe09017, 0x4dc4de18, 0x9b671a1c,
+	0x51039ab7, 0x712457c3, 0xc07a3f80, 0xc31fb4b4, 0xb46ee9c5, 0xe64a6e7c, 0xb3819a42, 0xabe61c87,
+	0x21a00793, 0x3a522a20, 0x2df16f76, 0x1598aa4f, 0x763c4a13, 0x71b368fd, 0xf793c467, 0x02e086a0,
+	0xd7288e01, 0x2aeb8d31, 0xde336a2a, 0x4bc1c44b, 0x0bf692b3, 0x8d079f23, 0x2c604a7a, 0x177326b3,
+	0x4850e73e, 0x03eb6064, 0xcfc447f1, 0xe53c8e1b, 0xb05ca3f5, 0x64268d99, 0x9ae182c8, 0xbc9474e8,
+	0xa4fc4bd4, 0xfc5558ca, 0xe755178d, 0x58fc4e76, 0x69b97db1, 0xa4c03dfe, 0xf9b5b7c4, 0xacc67c96,
+	0xfc6a82d6, 0x4b8655fb, 0x9c684cb6, 0xc4d24417, 0x8ec97d29, 0x17456ed0, 0x6703df9d, 0x2924e97e,
+	0xc547f57e, 0x42a7444e, 0x78e37644, 0xe7cad29e, 0xfe9a44e9, 0x362f05fa, 0x08bd35cc, 0x38336615,
+	0x9315e5eb, 0x3a129ace, 0x94061b87, 0x1e04df75, 0xdf1d9f9d, 0x784ba010, 0x3bba57b6, 0x8871b59d,
+	0xd2b7adee, 0xded1f73f, 0xf7a255d8, 0x3bc373f8, 0xd7f4f244, 0x8c0ceb81, 0xd95be88c, 0xd210ffa7,
+	0x336f52f8, 0xff4728e7, 0xa74049da, 0xc312ac71, 0xa2f61bb6, 0xe437fdb5, 0x4f2a5cb0, 0x7f6a35b3,
+	0x87d380bd, 0xa5bf7859, 0x16b9f7e0, 0x6c453a21, 0x7ba2484c, 0x8a0fd54e, 0xf3a678ca, 0xd9a2e38c,
+	0x39b0bf7d, 0xde437ba2, 0xfcaf55c1, 0xbf8a4424, 0x18fcf680, 0x573fa594, 0x4c0563b8, 0x9f495ac3,
+	0x40e08793, 0x1a00930d, 0x8cffa941, 0x2eb642c1, 0x68ca3905, 0x3261169f, 0x7a1ee967, 0xd27579e2,
+	0x9d1d60e5, 0x076f5b6f, 0x3810e399, 0xb6f65ba2, 0x32095b6d, 0x4ab5f9b1, 0x35cab621, 0x09dd038a,
+	0xa90b2449, 0x9fcfafb1, 0x77a225a0, 0x7cc2c6bd, 0x513e5e63, 0x4c70e331, 0x4361c0ca, 0x3f692f12,
+	0xd941aca4, 0x4b20a45b, 0x528f7c86, 0x02c5807b, 0x52ab92be, 0xb9613989, 0x9d1dfa2e, 0xfc557f73,
+	0x722ff175, 0xf572c348, 0x1d1260a5, 0x1107fe97, 0x7a249a57, 0xec0c9ba2, 0x04208fe9, 0xe8f7f2d6,
+	0x5a110c60, 0x58b920a0, 0x0cd9a497, 0x658a5698, 0x56fd23c8, 0xf9715a4c, 0x284c847b, 0x9d887aae,
+	0x04feabfb, 0xbdb619cb, 0x742e1e65, 0x1c60ba83, 0x9a9632e6, 0x5904ad3c, 0x881b82a1, 0x3b51b9e2,
+	0x506e6744, 0xcd974924, 0xb0183db5, 0x6ffc6a79, 0x0ed9b915, 0xc66ed37e, 0x5e11e86d, 0x5873d484,
+	0xf678647e, 0x3519ac6e, 0x1b85d488, 0xd0f20cc5, 0xdab9fe65, 0x25d89021, 0x0d151d86, 0xadb73615,
+	0xa865a54e, 0xdcc0f019, 0x93c42566, 0xaef98ffb, 0x99e7afea, 0xbe000731, 0x48cbff08, 0x6ddf285a,
+	0x7f9b6af1, 0xebf78baf, 0x58627e1a, 0x149bba21, 0x2cd16e2a, 0xbd791e33, 0xd363eff5, 0xf0977996,
+	0x0ce2a38c, 0x344a6eed, 0x1a804aad, 0xb9cfa741, 0x907f3042, 0x1d78c5de, 0x501f65ed, 0xb3034d07,
+	0x37624ae5, 0xa48fa6e9, 0x957baf61, 0x700cff4e, 0x3a6c2793, 0x4e31188a, 0xd4950353, 0x6abca345,
+	0x088e0495, 0x89c432e0, 0xf943aee7, 0xfebf21b8, 0x6c3b8e3e, 0x336139d3, 0x364f6ffa, 0x464ee52e,
+	0xd60f6dce, 0xdc314222, 0x56963b0d, 0xca418fc0, 0x16f50edf, 0x91e513af, 0xef195591, 0x4b609f93,
+	0x565601c0, 0x364e3228, 0xecb53939, 0x887e8175, 0xbac7a9a1, 0x8531294b, 0xb344c470, 0x397bba52,
+	0x65d34954, 0xdaf3cebd, 0xb4b81b3f, 0xa97511e2, 0xb4220611, 0x93d6f6a7, 0x07158240, 0x1c38434d,
+	0x7a13f18b, 0xbedc4ff5, 0xbc4097b1, 0x16c524d2, 0x59b97885, 0xe2f2ea28, 0x99170a5d, 0xc3115544,
+	0x6f423357, 0xe7c6a9f9, 0x325928ee, 0x6e6f8794, 0xd0e43662, 0x28b03343, 0x565c31f7, 0xde89ea27,
+	0x30f56114, 0x84119414, 0xd873db39, 0x1292ed4f, 0x7bd94e1d, 0x8e17debc, 0xc7d9f168, 0x64a76e94,
+	0x947ae053, 0xee56e63c, 0xc8c93882, 0xf9475f5f, 0x3a9bf55b, 0xa91f81ca, 0xd9a11fbb, 0x3d9808e4,
+	0x0fd22063, 0xedc29fca, 0xb3f256d8, 0xaca0b0b9, 0xb03031a8, 0xb4516e84, 0x35dd37d5, 0x871448af,
+	0xe9f6082b, 0x05542e4e, 0xebfafa33, 0xd7254b59, 0x9255abb5, 0x0d532280, 0xb9ab4ce5, 0x7f2d34f3,
+	0x693501d6, 0x28297551, 0xc62c58f9, 0x7dd949bf, 0xcd454f8f, 0x19c5126a, 0xbbe83f4e, 0xcc2bdecb,
+	0xdc842b7e, 0x2819e230, 0xba89142e, 0x007503b8, 0xa3bc941d, 0x0a5061cb, 0xe9f6760e, 0x32cd8021,
+	0x09c7e552, 0xbc76492f, 0x852f5493, 0x4da55cc9, 0x8107fccf, 0x064fcf56, 0x098954d5, 0x1fff6580,
+	0x23b70edb, 0x1955c4bf, 0xc330de42, 0x6430f69d, 0x4715ed43, 0xe8a45c0a, 0xa8d7e4da, 0xb780a08d,
+	0x0572b974, 0xf03ce0bb, 0xb57d2e98, 0x5e1419c7, 0xe8d9ecbe, 0x2cf3d73f, 0x2fe4b171, 0x70e59750,
+	0x11317ba8, 0x7905e790, 0x7fbf21ec, 0x8a1f45ec, 0x1725cabf, 0xcb045b00, 0x964e915c, 0xd5e2b207,
+	0x3e2b8bcb, 0xf016d66d, 0xbe7444e3, 0x9328a0ac, 0xf85b2b4f, 0xbcde44b7, 0x49353fea, 0x39ba63b1,
+	0x1dd01aaf, 0xcd53486a, 0x1fca8a92, 0xfd719f85, 0xfc7c95d8, 0x27357afa, 0x18a6a990, 0xc8b35ebd,
+	0xcccb7005, 0xc6b9c28d, 0x3bdbb92c, 0x43b17f26, 0xaa70b5b4, 0xf89695a2, 0xe94c39a5, 0x4a98307f,
+	0xb7a0b174, 0xcff6f36e, 0xd4dba847, 0x29af48ad, 0x2e18bc1a, 0xd9704a68, 0x2de0966d, 0xaf2f8b1c,
+	0xb9c11d5b, 0x1e43a07e, 0x64972d68, 0xdee33360, 0x94628d38, 0xd0c20584, 0xdbc0d2b6, 0xab90a559,
+	0xd2733c43, 0x35c6a72f, 0x7e75d99d, 0x94a70f4d, 0x6ced1983, 0x376fa72b, 0x97fcaacb, 0xf030bc24,
+	0x7b77497b, 0x32503b12, 0x8547eddf, 0xb81ccb94, 0x79999cdf, 0xf70902cb, 0xcffe1939, 0x438e9b24,
+	0x829626e3, 0x892d95d7, 0x92fae242, 0x91f2b3f1, 0x63e22c14, 0x7b9c3403, 0xc678b6d8, 0x60284a1c,
+	0x58738888, 0x50659ae7, 0x0981dcd2, 0x96a8736d, 0x9f65789a, 0x6509a440, 0x9ff38fed, 0x72e9052f,
+	0xe479ee5b, 0x9930578c, 0xe7f28ecd, 0x2d49eecd, 0x56c074a5, 0x81ea17fe, 0x5544f7d7, 0x74b14aef,
+	0x7b3f0195, 0xfc6f290f, 0x12153635, 0xb2c0cf57, 0x7f5126db, 0xba5e0ca7, 0x7a76956c, 0x3eafb413,
+	0x3d5774a1, 0x1d31ab39, 0x8a1b0838, 0x21f40cb4, 0x7b4a38e3, 0x2537df62, 0x95011364, 0x6d1d6e03,
+	0x4da8979a, 0x0041e8a9, 0x3bc36e07, 0x8f7515d7, 0x5d0a12f2, 0x7ad310d1, 0x7f9d1a2e, 0x1ebe1327,
+	0xda3a361b, 0x1c5157b1, 0xdcdd7d20, 0x903d0c25, 0x36833336, 0xd068f707, 0xce68341f, 0x79893389,
+	0xab909016, 0x8dd05f34, 0x43954b32, 0x52dc25e5, 0xb438c2b6, 0x7f98e5e9, 0x10dcd78e, 0x3851a492,
+	0xdbc27ab5, 0x447822bf, 0x9b3cdb65, 0xf82ca382, 0xb67b7896, 0x167b4c84, 0xbfced1b0, 0x048eac50,
+	0xa9119b60, 0x369ffebd, 0x1fff7ac8, 0x0904bf45, 0xac12fb17, 0x1817eee7, 0xaf08da91, 0x77dda93d,
+	0x1b0cab93, 0x6e65c744, 0xb559eb1d, 0x04e5e932, 0xc37b45b3, 0xf8d6f2ba, 0xc3a9dc22, 0x8caac9e9,
+	0xf3b8b667, 0x5a6507ff, 0x9fc477de, 0x4ed681da, 0x67378d8e, 0xccef96cb, 0x6dd856d9, 0x4d259236,
+	0xa319ce15, 0xb0b4db31, 0x07397375, 0x1f12dd5e, 0x8a8e849e, 0xb32781a5, 0xe1925c71, 0x285279f5,
+	0x74c04bf1, 0x790c0efe, 0x4dda4815, 0x3c94938a, 0x9d266d6a, 0x1cc0542c, 0x7440fb81, 0x6508c4fe,
+	0x13328503, 0xdf48229f, 0xd6bf7bae, 0xe43cac40, 0x4838d65f, 0x6ef6748f, 0x1e152328, 0xf3318dea,
+	0x8f8419a3, 0x48f296bf, 0x72c8834a, 0x5957b511, 0xd7a023a7, 0x3260b45c, 0x94ebc8ab, 0xcfb56dae,
+	0x9fc10d0f, 0x989993e0, 0xde68a235, 0x5b93cae6, 0xa44cfe79, 0xae538bbe, 0x9d1d84fc, 0xce371425,
+	0x51d2b1ab, 0x2ddfb636, 0x2fd7e4b9, 0xe72cd38c, 0x65ca5b96, 0xb7552210, 0xdd69a0d8, 0xab3b546d,
+	0x604d51b2, 0x5fbf70e2, 0x73aa8a56, 0x4fb7ac9e, 0x1a8c1e99, 0x2b941148, 0xaac40a27, 0x03d9bea0,
+	0x764dbeae, 0x7fa4f3a6, 0x1e99b96e, 0x70a9be8b, 0x2c5e9deb, 0x57ef4743, 0x3a938fee, 0x32d29981,
+	0x26e6db8f, 0xfdf5adfe, 0x469356c5, 0x04ec9f9d, 0xc8763c5b, 0x08d1908c, 0x3f6c6af8, 0x59d80055,
+	0x7f7cc394, 0x20a3a545, 0x9bfb227e, 0xbdf4c5ce, 0x89039d79, 0xd6fc5c5c, 0x8fe88b57, 0x305e2ab6,
+	0xa09e8c8c, 0x35ab96de, 0xfa7e3939, 0x83325753, 0xd6b6d0ec, 0xc617c699, 0xdfea21ea, 0x9e7557e3,
+	0xb67c1fa4, 0x81680af8, 0xca1e3785, 0xa9e724e5, 0x1cfc8bed, 0x0d681639, 0xd18d8549, 0xd140caea,
+	0x4ed0fe7e, 0x9dc91335, 0xe4dbf063, 0x4473f5d2, 0x1761f93a, 0x44d5aefe, 0x53898e4c, 0x3910da55,
+	0x734de818, 0x1f6ec39a, 0x2680b122, 0xbaa28d97, 0x298af231, 0xc85bafab, 0x7983eed3, 0x740847d5,
+	0x66c1a2a1, 0xa60cd889, 0x9e17e496, 0x42a3e4c1, 0xedb454e7, 0xbadc0805, 0x50b704ca, 0xb602c329,
+	0x4cc317fb, 0x9cddd023, 0x66b4835d, 0x9eafea22, 0x219b97e2, 0x6ffc81bd, 0x261e4e4c, 0x0a333a9d,
+	0x1fe2cca7, 0x6517db90, 0xd7504dfa, 0x8816edbb, 0xb9571fa0, 0x4dc089c8, 0x1ddc0325, 0x259b27de,
+	0xcf3f4688, 0x801eb9aa, 0xf4f5d05c, 0x10cab243, 0x38b6525c, 0x21a42b0e, 0x36f60e2b, 0xa4fa6800,
+	0xeb359380, 0x3173e0ce, 0x9c4cd625, 0x7c5a3603, 0xaf0c317d, 0x32adaa8a, 0x258e5a80, 0xc7204c4b,
+	0x8b889d62, 0x4d44885d, 0xf4d14597, 0xe660f855, 0xd4347f66, 0xec8941c3, 0xe699ed85, 0xb0dfb40d,
+	0x2472f620, 0x7c2d0484, 0xc2a1e7b5, 0xb459aeb5, 0xab4f6451, 0xcc1d45ec, 0x63767572, 0xae3d6174,
+	0xa59e0bd1, 0x01731a28, 0x116d0016, 0xcb948f09, 0x2cf9c8ca, 0x052f6e9f, 0x0b090a75, 0x60a968e3,
+	0xabeeddb2, 0xdde06ff1, 0x58efc10b, 0x06a2068d, 0xc6e57a78, 0xfbd986e0, 0x2eab8ca6, 0x3ce802d7,
+	0x14a19564, 0x0116f336, 0x7c0828dd, 0x624ec390, 0xd74bbe77, 0xe6116ac7, 0x804456af, 0x10f5fb53,
+	0xebe9ea2a, 0xdf4321c7, 0x03219a39, 0xee587a30, 0x49787fef, 0x17af9924, 0xa1e9300c, 0xd8520548,
+	0x5b45e522, 0xe4b1b4ef, 0xb49c3b39, 0x95091a36, 0xd4490ad5, 0x26f14431, 0x12a8f216, 0xaf9418c2,
+	0x001f837c, 0xc7350524, 0x1877b51e, 0x57a764d5, 0xa2853b80, 0xf17f58ee, 0x993e1de7, 0x2d36d310,
+	0xb3598080, 0xce64a656, 0x252f59cf, 0x0d9f04bb, 0xd23c8e17, 0x6d113600, 0x1bda0492, 0xe7e4586e,
+	0x21e0bd50, 0x26c619bf, 0x3b097ada, 0xf088f94e, 0x8d14dedb, 0x30be846e, 0xf95cffa2, 0x3af5f6f4,
+	0x38717007, 0x61b3f743, 0xca672b91, 0xe9e4fa16, 0x64c8e531, 0xbff53b55, 0x241260ed, 0x4ad1e87d,
+	0x106c09b9, 0x72d2e822, 0x7fba1954, 0x10e5ca30, 0x7884d9bc, 0x6cb569d8, 0x0647dfed, 0xcd894a29,
+	0x63573ff0, 0x3e224774, 0x4fc8e956, 0x0f91b123, 0x1db956e4, 0x50275779, 0xb8d91274, 0xb9e9d4fb,
+	0xa2ebee47, 0xe2fbfce1, 0xd9f1f30c, 0xcd97fb09, 0xefed53d7, 0x5fd64e6b, 0x2e6d02c3, 0x6017f67f,
+	0xa9aa4d20, 0xdb084e9b, 0xb64be8d8, 0xb25396c1, 0x70cb6af7, 0xc2d5bcf0, 0x98f076a4, 0xf7a2322e,
+	0xbf844708, 0x05e69b5f, 0x94c3251f, 0x06f90cf3, 0x3e003e61, 0x6a6591e9, 0xb925a6cd, 0x0421aff3,
+	0x61bdd130, 0x7c66e300, 0xbf8d5108, 0xe27e0d48, 0x240ab57a, 0x8b888b20, 0xfc87614b, 0xaf287e07,
+	0xef02cdd0, 0x6ffdb432, 0xa1082c04, 0x66df6c0a, 0x8215e577, 0x001332c8, 0xd39bb9c3, 0xa48db6cf,
+	0x27382596, 0x34305c14, 0x61cf4f94, 0xc97df93d, 0x1b6baca2, 0xae4e125b, 0x758f450c, 0x88572e0b,
+	0x959f587d, 0x507a8359, 0xb063e962, 0xe045f54d, 0x60e8ed72, 0xc0dff5d1, 0x7b649785, 0x55326f9f,
+	0xfd080d23, 0x6da814ba, 0x8c90fd9b, 0x083f4558, 0x106f72fe, 0x81e2c590, 0x7976033a, 0x39f7d952,
+	0xa4ec0132, 0x764ca04b, 0x733ea705, 0xfae4fa77, 0xb4d8f77b, 0xc3e56167, 0x9e21f4f9, 0x03b33fd9,
+	0x9d765e41, 0x9fb69f6d, 0xd30c088b, 0xa61ea5ef, 0x5d94337f, 0xbfaf7f5b, 0x1a4e4822, 0xeb4d7a59,
+	0x6ffe73e8, 0x1b637fb3, 0xddf957bc, 0x36d8b9ca, 0x64d0e29e, 0xea8838b3, 0x08dd9bdf, 0xd96b9f63,
+	0x087e79e5, 0xa57d1d13, 0xe328e230, 0xe3e2b3fb, 0x1c2559e3, 0x0f0946be, 0x720bf5f2, 0x6f4d2eaa,
+	0xb0774d26, 0x1cc609db, 0x443f64ec, 0x5a371195, 0x4112cf68, 0x649a260e, 0xd813f2fa, 0xb7f5c5ca,
+	0x660d3257, 0x380841ee, 0x59ac2c78, 0x73f910a3, 0xe8469638, 0x77671a17, 0x93b633ab, 0xfa3469f8,
+	0xc0c0f5a6, 0x0ef4cdcf, 0xcaf21ecd, 0x4377b28c, 0x57277707, 0x199b8175, 0x506c11b9, 0xd90e8b1d,
+	0xd83cc268, 0x7a19255f, 0x4a29c646, 0x5a314cd1, 0xed2df212, 0x16235097, 0xb5635c95, 0xff7296e2,
+	0x22af003a, 0xb672e811, 0x52e76259, 0x6bf68235, 0x9aeba33a, 0xc6ecc6b0, 0x944f6de0, 0x9134dfb6,
+	0x6c47bec8, 0x83a7de39, 0x6ad047c4, 0x30a12104, 0xa5b1cfdb, 0xa0ab4067, 0x7c45d833, 0xaff07862,
+	0x5092ef95, 0x0a16da0b, 0x9338e69c, 0x052b8e7b, 0x455a4b4c, 0xfe30e3f5, 0x6b02e631, 0x95ad0cf8,
+	0x6b17b224, 0xbad6bf27, 0xd1e0ccd2, 0x5bb9c169, 0xde0c89a5, 0x56b9ae70, 0x50065e53, 0x5a213cf6,
+	0x9c1169fa, 0x2777b874, 0x78edefd6, 0x94af1eed, 0x6dc93d95, 0x26a50e68, 0xee97f453, 0xf06791ed,
+	0x32ab0edb, 0x696703d3, 0x3a6853c7, 0xe70757a7, 0x31865ced, 0x6120f37d, 0x67fef95d, 0x92607890,
+	0x1f2b1d1f, 0x15f6dc9c, 0xb69e38a8, 0x965c6b65, 0xaa9119ff, 0x184cccf4, 0xf43c7328, 0x73f24c13,
+	0xfb4a3d79, 0x4a9a80d2, 0x3550c232, 0x1fd6109c, 0x371f77e7, 0x6bb8417e, 0x6bfa9aae, 0x5ec05779,
+	0xcd04f3ff, 0x001a4778, 0xe3273522, 0x064480ca, 0x9f91508b, 0xffcfc14a, 0x049a7f41, 0x061a9e60,
+	0xfcb6be43, 0xa9f2fe9b, 0x08de8a1c, 0x7797da9b, 0x8f9887e6, 0x078735a1, 0xb5b4071d, 0xbfc73a66,
+	0x230e343d, 0xfba08d33, 0x43ed7f5a, 0x0fae657d, 0x3a88a0fb, 0xbcb05c63, 0x21874b8b, 0x4d2dbc4f,
+	0x1bdea12e, 0x35f6a8c9, 0x53c065c6, 0xc8e63528, 0xe34a1d25, 0x0e7a8d6b, 0xd6b04d3b, 0x7651dd7e,
+	0x5e90277e, 0x7cb39e2d, 0x2c046f22, 0x062dc67d, 0xb10bb459, 0x132d0a26, 0x3fa9ddfb, 0x67e2f199,
+	0x0e09b88e, 0x1914f7af, 0x10e8b35a, 0xf3eeab37, 0x9eedeca8, 0xe272b933, 0xd4c718bc, 0x4ae8ae5f,
+	0x81536d60, 0x1170fc20, 0x91b534f8, 0x85818a06, 0xec8177f8, 0x3f900978, 0x190e714f, 0xada5156e,
+	0xb592bf39, 0xb0364963, 0x89c350c8, 0x93ae7dc1, 0xac042e70, 0xf8b383f2, 0xb49b52e5, 0x87a1ee60,
+	0xfb152fe3, 0xff26da89, 0x3e666e6f, 0x69ae2c15, 0x3b544ebe, 0x544c19f9, 0xe805a1e2, 0x90cf2456,
+	0x24b33c9d, 0x7ed25117, 0xe7473342, 0x7b72f0c1, 0x0a804d18, 0xb7097475, 0x57e3306d, 0x881edb4f,
+	0x4ae7d6a3, 0x6eb5dbcb, 0x2d8d5432, 0x157064c8, 0xd1e649de, 0x1e7f268b, 0x8a328a1c, 0xedfe552c,
+	0x07a3aec7, 0x9624c7da, 0x84547ddc, 0x3e203c94, 0x990a98fd, 0x5071d263, 0x1a4ff126, 0x16eefc89,
+	0xf6f7fd14, 0x31714200, 0x30c05b1b, 0xa332f41c, 0x8d2636b8, 0x1555a786, 0x46c9feb5, 0x5d120902,
+	0xccec0a73, 0xb49c9921, 0x4e9d2827, 0x355fc492, 0x19ebb029, 0x435dcb0f, 0x4659d2b7, 0x43848a2c,
+	0x963ef2c9, 0x6b33be31, 0x74f85198, 0xb05a2e7d, 0x5a0f544d, 0xd2b1fb18, 0x03727073, 0xc2e134b1,
+	0xc7f6aa2d, 0xe59aea61, 0x352787ba, 0xa0d7c22f, 0x9853eab6, 0x3b5e0b35, 0xabbdcdd7, 0xed5c0860,
+	0xcf05daf5, 0xac8d77b0, 0x49cad48c, 0xebf4a71e, 0x7a4c10ec, 0x2158c4a6, 0xd9e92aa2, 0x46bf719e,
+	0x13ae978d, 0x09fe5557, 0x730499af, 0x921549ff, 0x4e4b705b, 0x92903ba4, 0xff577222, 0xc14f0a3a,
+	0x55b6344c, 0xf97aafae, 0xb862225b, 0x055b6960, 0xcac09afb, 0xddd2cdb4, 0xdaf8e982, 0x9fe96b5f,
+	0xb5fdfc5d, 0x3132c498, 0x310cb380, 0xdb6f7503, 0xe87fbb46, 0x217a360e, 0x2102ae46, 0x6ebb1148,
+	0xf8549e1a, 0x3aa5e00d, 0x07a69afd, 0xcc42261a, 0xc4c118bf, 0xe78feaae, 0xf9f4892e, 0xd96bd438,
+	0x1af3dbe2, 0x5d8f45da, 0xf5b4b0b0, 0xd2deeeb4, 0x962aceef, 0xa82e1c84, 0x046e3eca, 0xaf453ce9,
+	0xf05d1296, 0x81949a4c, 0x964781ce, 0x734b3c84, 0x9c2ed440, 0x81ce5fbd, 0x522e23f3, 0x925e319e,
+	0x177e00f9, 0xfc32f791, 0x2bc60a63, 0xa6f3b3f2, 0x222bbfae, 0x61725606, 0x486289dd, 0xcc3d6780,
+	0x7dc7785b, 0x8efdfc80, 0x8af38731, 0xc02ba980, 0x1fab64ea, 0x29a2ddf7, 0xe4d94293, 0x22cd065a,
+	0x9da058c6, 0x7844f20c, 0x24c0e332, 0xb70019b0, 0x233003b5, 0xa6cfe6ad, 0xd586bd01, 0xc5c217f6,
+	0x5e563788, 0x5f29bc2b, 0x7eba726d, 0x8c94094b, 0x0a56a5f0, 0xbfe39272, 0xd79476a8, 0x4ee20d06,
+	0x9e4c1269, 0xbaa4bf37, 0x17efee45, 0xb0dee640, 0x1d95b0a5, 0xfcf90bc6, 0x93cbe0b6, 0x99c2585d,
+	0x65fa4f22, 0x7a2b6d79, 0xd5f9e858, 0x292504d5, 0xc2b5a03f, 0x71471a6f, 0x59300222, 0xb4561e00,
+	0xce2f8642, 0xca0712dc, 0x7ca9723f, 0xbb2e8988, 0x27853383, 0x47f2ba08, 0xc61bb3a1, 0x41e50e8c,
+	0x150f361d, 0xab9dec26, 0x9f6a419d, 0x382595f4, 0x64a53dc9, 0x24fe7ac9, 0x142de49f, 0xff7a7c3d,
+	0x0c335248, 0x857fa9e7, 0x0a9c32d5, 0xeae45305, 0xe6c42178, 0xc4bbb92e, 0x71f1ce24, 0x90d20b07,
+	0xf1bcc3d2, 0x75afe51a, 0xe728e8c8, 0x3c334074, 0x96fbf83a, 0x12884624, 0x81a1549f, 0xd6573da5,
+	0x5fa7867c, 0xaf35e149, 0x56986e2e, 0xf3ed091b, 0x917f1dd5, 0xf8886c61, 0xd20d8c88, 0xc8ffe65f,
+	0x31d71dce, 0x64b2c310, 0xf165b587, 0xdf898190, 0xa57e6339, 0xdd2cf3a0, 0x1ef6e6db, 0xb1961ec9,
+	0x70cc73d9, 0x0bc26e24, 0xe21a6b35, 0xdf0c3ad7, 0x003a93d8, 0xb2806962, 0x1c99ded3, 0x3cb890a1,
+	0xcf3145de, 0x0add4289, 0xd0e4427a, 0x5514fb72, 0x77c621cc, 0x9fb3a483, 0x67a34dac, 0x4356550b,
+	0xf8d626aa, 0xaf278509
+];
+const POLYGLOT_RANDOM: readonly bigint[] = Array.from(
+	{ length: POLYGLOT_RANDOM_HALVES.length / 2 },
+	(_, i) =>
+		(BigInt(POLYGLOT_RANDOM_HALVES[2 * i]) << 32n) | BigInt(POLYGLOT_RANDOM_HALVES[2 * i + 1])
+);
+const RANDOM_CASTLE = 768;
+const RANDOM_EN_PASSANT = 772;
+const RANDOM_TURN = 780;
+
+// NOTE: Polyglot piece kinds alternate colors, black first: pawn, knight,
+//       bishop, rook, queen, king.
+const POLYGLOT_PIECE_KINDS = 'pPnNbBrRqQkK';
+// NOTE: Index is the 3-bit promotion field of a Polyglot move, 0 for none.
+const POLYGLOT_PROMOTIONS = ['', 'n', 'b', 'r', 'q'];
+
+export interface PolyglotBookMove {
+	/** UCI long algebraic notation; castling names the king's destination, as in BoardInfo moves. */
+	uci: string;
+	weight: number;
+	learn: number;
+}
+
+/** The Polyglot Zobrist key of a position; it differs from the engine boards' keys. */
+export function polyglotKey(board: BoardInfo): bigint {
+	let key = 0n;
+	for (const [square, piece] of board.pieces) {
+		const position = Position.fromStr(square);
+		const kind = POLYGLOT_PIECE_KINDS.indexOf(piece);
+		key ^= POLYGLOT_RANDOM[kind * 64 + position.rankIndex() * 8 + position.fileIndex()];
+	}
+
+	const castling = board.canCastle;
+	if (castling.whiteKingSide) key ^= POLYGLOT_RANDOM[RANDOM_CASTLE];
+	if (castling.whiteQueenSide) key ^= POLYGLOT_RANDOM[RANDOM_CASTLE + 1];
+	if (castling.blackKingSide) key ^= POLYGLOT_RANDOM[RANDOM_CASTLE + 2];
+	if (castling.blackQueenSide) key ^= POLYGLOT_RANDOM[RANDOM_CASTLE + 3];
+
+	const enPassantFile = getPolyglotEnPassantFile(board);
+	if (enPassantFile >= 0) key ^= POLYGLOT_RANDOM[RANDOM_EN_PASSANT + enPassantFile];
+	if (board.turnColor === PlayerColor.WHITE) key ^= POLYGLOT_RANDOM[RANDOM_TURN];
+	return key;
+}
+
+// NOTE: Unlike FEN, Polyglot only hashes the en passant file when a pawn of
+//       the side to move stands next to the pawn that has just advanced.
+function getPolyglotEnPassantFile(board: BoardInfo): number {
+	const target = board.enPassantTarget;
+	if (!target) return -1;
+
+	const isWhite = board.turnColor === PlayerColor.WHITE;
+	const pawn = isWhite ? PieceId.WHITE_PAWN : PieceId.BLACK_PAWN;
+	const rank = isWhite ? '5' : '4';
+	const file = target.fileIndex();
+	for (const neighbour of [BOARD_FILES[file - 1], BOARD_FILES[file + 1]]) {
+		if (neighbour && board.pieces.get(`${neighbour}${rank}`) === pawn) return file;
+	}
+	return -1;
+}
+
+/**
+ * Read-only view of a Polyglot `.bin` book. Entries must be sorted by key,
+ * as the format requires; lookups are a binary search over the buffer.
+ */
+export class PolyglotBook {
+	private readonly view: DataView;
+
+	constructor(buffer: ArrayBuffer) {
+		if (buffer.byteLength % POLYGLOT_ENTRY_SIZE !== 0) {
+			throw new Error(`Polyglot book size must be a multiple of ${POLYGLOT_ENTRY_SIZE} bytes`);
+		}
+		this.view = new DataView(buffer);
+	}
+
+	/** Number of entries. */
+	get size(): number {
+		return this.view.byteLength / POLYGLOT_ENTRY_SIZE;
+	}
+
+	/** Moves stored for the position (a BoardInfo or FEN), in book order. */
+	lookup(position: BoardInfo | string): PolyglotBookMove[] {
+		const board = typeof position === 'string' ? parseFen(position) : position;
+		const key = polyglotKey(board);
+
+		let low = 0;
+		let high = this.size;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			if (this.keyAt(middle) < key) low = middle + 1;
+			else high = middle;
+		}
+
+		const moves: PolyglotBookMove[] = [];
+		for (let index = low; index < this.size && this.keyAt(index) === key; index++) {
+			const offset = index * POLYGLOT_ENTRY_SIZE;
+			moves.push({
+				uci: decodePolyglotMove(board, this.view.getUint16(offset + 8)),
+				weight: this.view.getUint16(offset + 10),
+				learn: this.view.getUint32(offset + 12)
+			});
+		}
+		return moves;
+	}
+
+	private keyAt(index: number): bigint {
+		return this.view.getBigUint64(index * POLYGLOT_ENTRY_SIZE);
+	}
+}
+
+/**
+ * Writes every position of the opening's lines with the moves played there.
+ * The weight of a move is the number of lines that play it, highest first.
+ */
+export function writePolyglotBook(opening: Opening): ArrayBuffer {
+	const entries = new Map<string, { key: bigint; move: number; weight: number }>();
+	for (const line of opening.lines) {
+		let board = parseFen(opening.fen ?? INITIAL_FEN);
+		for (const move of line.moves) {
+			const key = polyglotKey(board);
+			const encoded = encodePolyglotMove(board, move);
+			const entry = entries.get(`${key}:${encoded}`);
+			if (entry) entry.weight = Math.min(entry.weight + 1, MAX_POLYGLOT_WEIGHT);
+			else entries.set(`${key}:${encoded}`, { key, move: encoded, weight: 1 });
+			board = applyMove(board, move);
+		}
+	}
+
+	const sorted = [...entries.values()].sort((a, b) =>
+		a.key === b.key ? b.weight - a.weight : a.key < b.key ? -1 : 1
+	);
+	const view = new DataView(new ArrayBuffer(sorted.length * POLYGLOT_ENTRY_SIZE));
+	for (const [index, entry] of sorted.entries()) {
+		const offset = index * POLYGLOT_ENTRY_SIZE;
+		view.setBigUint64(offset, entry.key);
+		view.setUint16(offset + 8, entry.move);
+		view.setUint16(offset + 10, entry.weight);
+		view.setUint32(offset + 12, 0);
+	}
+	return view.buffer;
+}
+
+// NOTE: A Polyglot move packs the destination file and rank, the origin file
+//       and rank and the promotion piece into 3 bits each, in that order from
+//       the lowest bit. Castling is written as the king capturing its own rook.
+function encodePolyglotMove(board: BoardInfo, move: Move): number {
+	let to = move.to;
+	if (move.castling) {
+		const rookFiles = getCastlingRookFiles(board.canCastle, move.turn);
+		const rookFile = move.castling === 'king-side' ? rookFiles.kingSide : rookFiles.queenSide;
+		to = Position.make(rookFile, move.from.rank);
+	}
+	const promotion = move.promotion ? POLYGLOT_PROMOTIONS.indexOf(move.promotion.toLowerCase()) : 0;
+	return (
+		to.fileIndex() |
+		(to.rankIndex() << 3) |
+		(move.from.fileIndex() << 6) |
+		(move.from.rankIndex() << 9) |
+		(promotion << 12)
+	);
+}
+
+function decodePolyglotMove(board: BoardInfo, move: number): string {
+	const from = Position.make(BOARD_FILES[(move >> 6) & 7], BOARD_RANKS[(move >> 9) & 7]);
+	let to = Position.make(BOARD_FILES[move & 7], BOARD_RANKS[(move >> 3) & 7]);
+	const promotion = POLYGLOT_PROMOTIONS[(move >> 12) & 7] ?? '';
+
+	const piece = board.pieces.get(from);
+	const rook = piece === PieceId.WHITE_KING ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+	const isCastling = piece !== undefined && PieceId.isKing(piece) && board.pieces.get(to) === rook;
+	// NOTE: In Chess960 BoardInfo castling moves keep the rook square.
+	if (isCastling && !board.canCastle.rookFiles) {
+		to = Position.make(to.fileIndex() > from.fileIndex() ? 'g' : 'c', from.rank);
+	}
+	return `${from}${to}${promotion}`;
+}
@@ -0,0 +1,22 @@
+// NOTE: Search scores are centipawns from the side to move's perspective.
+//       Mate scores are encoded as MATE_SCORE minus the ply at which the mate
+//       happens, so that shorter mates are preferred.
+
+export const MAX_SEARCH_PLY = 64;
+export const MATE_SCORE = 32000;
+export const INFINITE_SCORE = 32767;
+// NOTE: Mates from the endgame tables can be much deeper than the search itself.
+export const MAX_MATE_PLY = 512;
+
+export function isMateScore(score: number): boolean {
+	return Math.abs(score) >= MATE_SCORE - MAX_MATE_PLY;
+}
+
+/**
+ * Full moves until mate for a mate score: positive when the side to move
+ * delivers mate, negative when it gets mated.
+ */
+export function mateInMoves(score: number): number {
+	const moves = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+	return score > 0 ? moves : -moves;
+}
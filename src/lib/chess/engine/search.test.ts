@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AbstractBoard } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { isMateScore, mateInMoves, MATE_SCORE } from '$lib/chess/engine/score';
+import { Search } from '$lib/chess/engine/search';
+import { TranspositionTable } from '$lib/chess/engine/transposition';
+
+describe('search', () => {
+	describe('int8', () => {
+		runSearchTests(new BoardInt8(), moveToUci);
+	});
+	describe('0x88', () => {
+		runSearchTests(new Board0x88(), moveToLongAlgebraic);
+	});
+
+	it('converts mate scores to full moves', () => {
+		expect(mateInMoves(MATE_SCORE - 1)).toBe(1);
+		expect(mateInMoves(MATE_SCORE - 3)).toBe(2);
+		expect(mateInMoves(-(MATE_SCORE - 2))).toBe(-1);
+		expect(isMateScore(MATE_SCORE - 5)).toBe(true);
+		expect(isMateScore(900)).toBe(false);
+	});
+});
+
+function runSearchTests<TBuf, TMove extends number>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string
+) {
+	it('finds a back-rank mate in one', () => {
+		board.loadFen('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+		const result = new Search(board).search({ depth: 3 });
+
+		expect(result.bestMove).not.toBeNull();
+		expect(toUci(result.bestMove!)).toBe('a1a8');
+		expect(isMateScore(result.score)).toBe(true);
+		expect(mateInMoves(result.score)).toBe(1);
+	});
+
+	it('finds a mate in two', () => {
+		// 1. Ra6! followed by 2. b7# or 2. Rxa7#
+		board.loadFen('kbK5/pp6/1P6/8/8/8/8/R7 w - - 0 1');
+		const result = new Search(board).search({ depth: 4 });
+
+		expect(mateInMoves(result.score)).toBe(2);
+		expect(toUci(result.bestMove!)).toBe('a1a6');
+		expect(result.pv).toHaveLength(3);
+	});
+
+	it('scores a move that ends the fifty-move count as a draw, unless it mates', () => {
+		// NOTE: No capture or pawn move is left to reset the count of 99 plies.
+		board.loadFen('7k/8/8/8/8/8/8/1Q2K3 w - - 99 80');
+		// NOTE: Negated draws are -0.
+		expect(new Search(board).search({ depth: 3 }).score).toBeCloseTo(0);
+
+		board.loadFen('6k1/5ppp/8/8/8/8/8/R5K1 w - - 99 80');
+		const result = new Search(board).search({ depth: 3 });
+		expect(toUci(result.bestMove!)).toBe('a1a8');
+		expect(mateInMoves(result.score)).toBe(1);
+	});
+
+	it('wins a hanging queen', () => {
+		board.loadFen('4k3/8/8/3q4/8/8/8/3RK3 w - - 0 1');
+		const result = new Search(board).search({ depth: 3 });
+
+		expect(toUci(result.bestMove!)).toBe('d1d5');
+		expect(result.score).toBeGreaterThan(300);
+	});
+
+	it('resolves captures beyond the nominal depth', () => {
+		// NOTE: Qxd5 looks like a free pawn at depth 1, but exd5 recaptures the queen.
+		board.loadFen('4k3/8/4p3/3p4/8/8/8/3QK3 w - - 0 1');
+		const result = new Search(board).search({ depth: 1 });
+
+		expect(toUci(result.bestMove!)).not.toBe('d1d5');
+		expect(result.score).toBeGreaterThan(500);
+	});
+
+	it('reports mate and stalemate at the root without a best move', () => {
+		board.loadFen('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
+		const mated = new Search(board).search({ depth: 2 });
+		expect(mated.bestMove).toBeNull();
+		expect(mated.score).toBe(-MATE_SCORE);
+
+		board.loadFen('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+		const stalemate = new Search(board).search({ depth: 2 });
+		expect(stalemate.bestMove).toBeNull();
+		expect(stalemate.score).toBe(0);
+	});
+
+	it('reports every completed iteration with a principal variation', () => {
+		board.loadFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+		const depths: number[] = [];
+		const result = new Search(board).search({ depth: 3 }, (info) => {
+			depths.push(info.depth);
+			expect(info.pv.length).toBeGreaterThan(0);
+			expect(info.pv.length).toBeLessThanOrEqual(info.depth);
+		});
+
+		expect(depths).toEqual([1, 2, 3]);
+		expect(result.depth).toBe(3);
+		expect(result.pv[0]).toBe(result.bestMove);
+	});
+
+	it('reports several lines with different first moves, best first', () => {
+		board.loadFen('6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1');
+		const result = new Search(board).search({ depth: 3, multiPv: 3 });
+
+		expect(result.lines).toHaveLength(3);
+		expect(toUci(result.lines[0].pv[0])).toBe('a1a8');
+		expect(result.lines[0].score).toBe(result.score);
+		expect(result.lines[0].pv).toEqual(result.pv);
+		const firstMoves = new Set(result.lines.map((line) => line.pv[0]));
+		expect(firstMoves.size).toBe(3);
+		for (let i = 1; i < result.lines.length; i++) {
+			expect(result.lines[i].score).toBeLessThanOrEqual(result.lines[i - 1].score);
+			expect(isMateScore(result.lines[i].score)).toBe(false);
+		}
+	});
+
+	it('reports no more lines than there are legal moves', () => {
+		board.loadFen('7k/8/6K1/8/8/8/8/1R6 b - - 0 1');
+		const result = new Search(board).search({ depth: 2, multiPv: 5 });
+
+		expect(result.lines.map((line) => toUci(line.pv[0])).sort()).toEqual(['h8g8']);
+		expect(() => new Search(board).search({ multiPv: 0 })).toThrow(/principal variations/);
+	});
+
+	it('stops within the node budget and keeps the last completed iteration', () => {
+		board.loadFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+		const result = new Search(board).search({ nodes: 5000 });
+
+		expect(result.bestMove).not.toBeNull();
+		expect(result.depth).toBeGreaterThanOrEqual(1);
+		expect(result.nodes).toBeLessThan(5000 + 1024);
+	});
+
+	it('stops on the time budget', () => {
+		board.loadFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+		const result = new Search(board).search({ timeMs: 50 });
+
+		expect(result.bestMove).not.toBeNull();
+		expect(result.depth).toBeLessThan(64);
+	});
+
+	it('pauses after every slice and finishes the iteration when resumed', () => {
+		const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+		board.loadFen(fen);
+		const expected = new Search(board).search({ depth: 4 });
+		const search = new Search(board, { transpositionTable: new TranspositionTable(1 << 16) });
+
+		// NOTE: An empty slice pauses at every limit check after depth 1.
+		const iterations = search.iterate({ depth: 4 }, 0);
+		let pauses = 0;
+		let step = iterations.next();
+		for (; !step.done; step = iterations.next()) {
+			if (step.value === null) pauses++;
+		}
+
+		expect(pauses).toBeGreaterThan(10);
+		expect(step.value.depth).toBe(4);
+		expect(toUci(step.value.bestMove!)).toBe(toUci(expected.bestMove!));
+		expect(step.value.score).toBe(expected.score);
+		expect(step.value.pv.map(toUci)).toEqual(expected.pv.map(toUci));
+	});
+
+	it('stops during a pause and keeps the last completed iteration', () => {
+		board.loadFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+		const search = new Search(board, { transpositionTable: new TranspositionTable(1 << 16) });
+
+		const iterations = search.iterate({}, 0);
+		let depth = 0;
+		let step = iterations.next();
+		for (; !step.done; step = iterations.next()) {
+			if (step.value !== null) depth = step.value.depth;
+			else if (depth >= 2) search.stop();
+		}
+
+		// NOTE: The first pause after depth 2 interrupts a later iteration, which is discarded.
+		expect(step.value.depth).toBe(depth);
+		expect(depth).toBeGreaterThanOrEqual(2);
+		expect(step.value.bestMove).not.toBeNull();
+	});
+
+	it('leaves the board in its original state', () => {
+		const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+		board.loadFen(fen);
+		const buffer = board.allocateMoveBuffer();
+		const movesBefore = board.generateLegalMoves(buffer);
+		const evalBefore = board.evaluate();
+
+		new Search(board).search({ depth: 3 });
+
+		expect(board.generateLegalMoves(buffer)).toBe(movesBefore);
+		expect(board.evaluate()).toBe(evalBefore);
+		expect(board.isWhiteToMove()).toBe(true);
+	});
+}
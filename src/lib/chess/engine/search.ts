@@ -0,0 +1,656 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import type { BookWeighting, OpeningBook } from '$lib/chess/engine/book';
+import { endgameProbeToScore, Wdl, type EndgameTablebase } from '$lib/chess/engine/endgame';
+import { INFINITE_SCORE, isMateScore, MATE_SCORE, MAX_SEARCH_PLY } from '$lib/chess/engine/score';
+import { NO_TT_MOVE, TTBound, type TranspositionTable } from '$lib/chess/engine/transposition';
+
+// NOTE: Reading the clock on every node is measurably slow, so time and node
+//       budgets are only checked once per this many nodes (must be a power of 2).
+const LIMIT_CHECK_INTERVAL = 1024;
+
+// NOTE: Upper bound on legal moves in a position (the known maximum is 218).
+const MAX_ORDERED_MOVES = 256;
+const FIRST_MOVE_SCORE = 1 << 20;
+const TACTICAL_MOVE_SCORE = 1 << 16;
+// NOTE: Every tablebase has both kings and one more piece.
+const TABLEBASE_PIECES = 3;
+
+/** Where the best move of a search result comes from. */
+export const SearchSource = {
+	SEARCH: 'search',
+	/** Taken from the opening book; depth, score and nodes are all 0. */
+	BOOK: 'book',
+	/** Every legal move was scored by the endgame tables; depth is 0. */
+	TABLEBASE: 'tablebase'
+} as const;
+export type SearchSource = (typeof SearchSource)[keyof typeof SearchSource];
+
+export interface SearchLimits {
+	/** Maximum iterative deepening depth in plies. Defaults to MAX_SEARCH_PLY. */
+	depth?: number;
+	/** Wall-clock budget in milliseconds. */
+	timeMs?: number;
+	/** Maximum number of visited nodes. */
+	nodes?: number;
+	/**
+	 * Number of principal variations to report, each with a different first
+	 * move. Defaults to 1; fewer lines are reported when there are fewer legal moves.
+	 */
+	multiPv?: number;
+}
+
+export interface SearchLine<TMove> {
+	/** Centipawns from the perspective of the side to move. */
+	score: number;
+	pv: TMove[];
+}
+
+export interface SearchInfo<TMove> {
+	depth: number;
+	/** Centipawns from the perspective of the side to move. */
+	score: number;
+	nodes: number;
+	timeMs: number;
+	pv: TMove[];
+	/** Best line first; `lines[0]` has the same score and pv as the info itself. */
+	lines: SearchLine<TMove>[];
+}
+
+export interface SearchResult<TMove> extends SearchInfo<TMove> {
+	/** NOTE: null when the side to move has no legal moves (mate or stalemate). */
+	bestMove: TMove | null;
+	source: SearchSource;
+}
+
+export interface SearchBookOptions<TMove> {
+	book: OpeningBook;
+	moveToUci: (move: TMove) => string;
+	/** Defaults to BookWeighting.BY_LINES. */
+	weighting?: BookWeighting;
+	/** Returns a number in [0, 1), like Math.random (the default). */
+	random?: () => number;
+}
+
+export interface SearchOptions<TMove = number> {
+	/** Shared between searches; entries of previous searches are reused for move ordering. */
+	transpositionTable?: TranspositionTable;
+	/** Consulted first: while the position is in the book, a book move is played without searching. */
+	book?: SearchBookOptions<TMove>;
+	/**
+	 * Positions with a table are not searched but scored with perfect play,
+	 * at the root as well as after captures inside the search.
+	 */
+	tablebase?: EndgameTablebase;
+}
+
+/**
+ * Negamax alpha-beta search with iterative deepening. Works with any
+ * AbstractBoard implementation; the board is searched in place with
+ * makeMove/unmakeMove and is left in its original state afterwards.
+ */
+export class Search<TMoveBuffer, TMove extends number> {
+	private readonly board: AbstractBoard<TMoveBuffer, TMove>;
+	private readonly tt: TranspositionTable | null;
+	private readonly book: SearchBookOptions<TMove> | null;
+	private readonly tablebase: EndgameTablebase | null;
+	private readonly moveBuffers: TMoveBuffer[];
+	// NOTE: Triangular PV table: pvTable[ply] holds the best line found from
+	//       `ply` onwards, in slots ply..pvLength[ply]-1.
+	private readonly pvTable: TMove[][];
+	private readonly pvLength = new Int32Array(MAX_SEARCH_PLY + 1);
+	private readonly orderScores = Array.from(
+		{ length: MAX_SEARCH_PLY },
+		() => new Int32Array(MAX_ORDERED_MOVES)
+	);
+	private readonly orderIndices = Array.from(
+		{ length: MAX_SEARCH_PLY },
+		() => new Int32Array(MAX_ORDERED_MOVES)
+	);
+	private previousPv: TMove[] = [];
+	// NOTE: Root moves that already lead a line of the current multi-PV iteration.
+	private readonly excludedRootMoves: TMove[] = [];
+
+	private nodes = 0;
+	private startTime = 0;
+	private deadline = Infinity;
+	private nodeLimit = Infinity;
+	private currentDepth = 0;
+	private stopped = false;
+	// NOTE: See `iterate`: a slice that runs out stops the search like a
+	//       limit does, but the interrupted iteration is searched again.
+	private sliceDeadline = Infinity;
+	private isSliceOver = false;
+	// NOTE: Where the search is: the line being searched and the order index
+	//       of the move being searched at every ply, up to `slicePly` when a
+	//       slice ran out.
+	private currentLine = 0;
+	private readonly moveOrders = new Int32Array(MAX_SEARCH_PLY + 1);
+	private slicePly = 0;
+	// NOTE: Kept up to date through captures only when there is a tablebase,
+	//       so that it is probed without scanning the board at every node.
+	private pieceCount = Infinity;
+
+	constructor(board: AbstractBoard<TMoveBuffer, TMove>, options: SearchOptions<TMove> = {}) {
+		this.board = board;
+		this.tt = options.transpositionTable ?? null;
+		this.book = options.book ?? null;
+		this.tablebase = options.tablebase ?? null;
+		this.moveBuffers = Array.from({ length: MAX_SEARCH_PLY }, () => board.allocateMoveBuffer());
+		this.pvTable = Array.from({ length: MAX_SEARCH_PLY + 1 }, () => []);
+	}
+
+	search(
+		limits: SearchLimits = {},
+		onInfo?: (info: SearchInfo<TMove>) => void
+	): SearchResult<TMove> {
+		const iterations = this.iterate(limits);
+		let step = iterations.next();
+		while (!step.done) {
+			if (step.value !== null) onInfo?.(step.value);
+			step = iterations.next();
+		}
+		return step.value;
+	}
+
+	/**
+	 * Same as `search`, but yields after every completed iteration. Lets callers
+	 * that must stay responsive (e.g. a worker waiting for `stop`) hand control
+	 * back to the event loop between iterations. A book or tablebase move is
+	 * yielded once, as the only iteration (with depth 0).
+	 *
+	 * With `sliceMs`, it also yields null whenever an iteration has run that
+	 * long, so that `stop` is seen within a slice even when one iteration takes
+	 * seconds. A paused iteration cannot be resumed: it is searched again from
+	 * the root, and the subtrees that were finished before the pause come back
+	 * from the transposition table. Without a table every slice starts over,
+	 * so slices then grow until an iteration fits into one.
+	 */
+	*iterate(
+		limits: SearchLimits = {},
+		sliceMs = Infinity
+	): Generator<SearchInfo<TMove> | null, SearchResult<TMove>, void> {
+		const maxDepth = Math.min(limits.depth ?? MAX_SEARCH_PLY, MAX_SEARCH_PLY);
+		if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+			throw new Error(`Invalid search depth: ${limits.depth}`);
+		}
+		const multiPv = limits.multiPv ?? 1;
+		if (!Number.isInteger(multiPv) || multiPv < 1) {
+			throw new Error(`Invalid number of principal variations: ${limits.multiPv}`);
+		}
+
+		this.nodes = 0;
+		this.stopped = false;
+		this.isSliceOver = false;
+		this.previousPv = [];
+		this.startTime = performance.now();
+		this.deadline = limits.timeMs === undefined ? Infinity : this.startTime + limits.timeMs;
+		this.nodeLimit = limits.nodes ?? Infinity;
+		this.tt?.newSearch();
+
+		let result: SearchResult<TMove> = {
+			bestMove: null,
+			depth: 0,
+			score: 0,
+			nodes: 0,
+			timeMs: 0,
+			pv: [],
+			lines: [],
+			source: SearchSource.SEARCH
+		};
+
+		const bookMove = this.probeBook();
+		if (bookMove !== null) {
+			result.bestMove = bookMove;
+			result.pv = [bookMove];
+			result.lines = [{ score: 0, pv: [bookMove] }];
+			result.source = SearchSource.BOOK;
+			result.timeMs = performance.now() - this.startTime;
+			yield result;
+			return result;
+		}
+
+		this.pieceCount = this.tablebase === null ? Infinity : this.countPieces();
+		const tablebaseLines = this.pieceCount <= TABLEBASE_PIECES ? this.scoreTablebaseRoot() : [];
+		if (tablebaseLines.length > 0) {
+			const lines = tablebaseLines.slice(0, multiPv);
+			result.bestMove = lines[0].pv[0];
+			result.score = lines[0].score;
+			result.pv = lines[0].pv;
+			result.lines = lines;
+			result.nodes = this.nodes;
+			result.source = SearchSource.TABLEBASE;
+			result.timeMs = performance.now() - this.startTime;
+			yield result;
+			return result;
+		}
+
+		for (let depth = 1; depth <= maxDepth; depth++) {
+			this.currentDepth = depth;
+			let slice = sliceMs;
+			let furthest: number[] = [];
+			this.sliceDeadline = performance.now() + slice;
+			let iteration = this.searchRoot(depth, multiPv, result.lines);
+			let isSearchedAgain = false;
+			while (this.isSliceOver) {
+				// NOTE: A slice that ran out no further into the tree than any slice
+				//       before made no progress: a subtree that has to be finished
+				//       in one go (or the whole iteration, without a table) does
+				//       not fit into it. Slices only grow, so one eventually fits.
+				const position = [this.currentLine, ...this.moveOrders.subarray(0, this.slicePly)];
+				if (isLaterInSearch(position, furthest)) furthest = position;
+				else slice = Math.max(1, slice * 2);
+				this.isSliceOver = false;
+				this.stopped = false;
+				yield null;
+				// NOTE: `stop` was called during the pause.
+				if (this.stopped) break;
+				this.sliceDeadline = performance.now() + slice;
+				iteration = this.searchRoot(depth, multiPv, result.lines);
+				isSearchedAgain = true;
+			}
+			// NOTE: An interrupted iteration is incomplete and cannot be trusted,
+			//       so keep the result of the last finished one.
+			if (this.stopped) break;
+			const { score } = iteration;
+			const lines = isSearchedAgain
+				? iteration.lines.map((line) => ({
+						score: line.score,
+						pv: this.extendPvFromTable(line.pv, depth)
+					}))
+				: iteration.lines;
+
+			const pv = lines[0]?.pv ?? [];
+			result = {
+				bestMove: pv[0] ?? null,
+				depth,
+				score: lines[0]?.score ?? score,
+				nodes: this.nodes,
+				timeMs: performance.now() - this.startTime,
+				pv,
+				lines,
+				source: SearchSource.SEARCH
+			};
+			yield result;
+
+			// NOTE: A full-width search cannot find a shorter mate at a greater depth.
+			const isSettled = lines.every((line) => isMateScore(line.score));
+			if (this.stopped || result.bestMove === null || isSettled) break;
+		}
+
+		result.nodes = this.nodes;
+		result.timeMs = performance.now() - this.startTime;
+		return result;
+	}
+
+	/**
+	 * One iteration: the root is searched once per line, every time without the
+	 * first moves of the lines found before. The score is that of the first
+	 * search, which is also the mate or stalemate score when there are no moves.
+	 */
+	private searchRoot(
+		depth: number,
+		multiPv: number,
+		previousLines: SearchLine<TMove>[]
+	): { score: number; lines: SearchLine<TMove>[] } {
+		const lines: SearchLine<TMove>[] = [];
+		let rootScore = 0;
+		for (let index = 0; index < multiPv; index++) {
+			this.currentLine = index;
+			this.previousPv = previousLines[index]?.pv ?? [];
+			const score = this.negamax(depth, 0, -INFINITE_SCORE, INFINITE_SCORE, true);
+			if (this.stopped) break;
+			if (index === 0) rootScore = score;
+			// NOTE: Every root move already leads a line (or there are none at all).
+			if (this.pvLength[0] === 0) break;
+
+			const pv = this.pvTable[0].slice(0, this.pvLength[0]);
+			lines.push({ score, pv });
+			this.excludedRootMoves.push(pv[0]);
+		}
+		this.excludedRootMoves.length = 0;
+		// NOTE: Later lines are searched without the better moves and should not
+		//       score higher, but the transposition table can make them.
+		lines.sort((a, b) => b.score - a.score);
+		return { score: rootScore, lines };
+	}
+
+	/**
+	 * Completes a line up to `depth` moves with the best moves stored in the
+	 * transposition table. A searched again iteration gets the subtrees that
+	 * were finished before a pause from the table, without their lines.
+	 */
+	private extendPvFromTable(pv: TMove[], depth: number): TMove[] {
+		const board = this.board;
+		const tt = this.tt;
+		const line = [...pv];
+		for (const move of line) board.makeMove(move);
+		while (tt !== null && line.length < depth) {
+			const slot = tt.probe(board.hashLow(), board.hashHigh());
+			const move = slot < 0 ? NO_TT_MOVE : (tt.entryMove(slot) as TMove);
+			if (move === NO_TT_MOVE || !this.isLegalMove(move, line.length)) break;
+			board.makeMove(move);
+			line.push(move);
+		}
+		for (let i = line.length - 1; i >= 0; i--) board.unmakeMove(line[i]);
+		return line;
+	}
+
+	private isLegalMove(move: TMove, ply: number): boolean {
+		const buffer = this.moveBuffers[ply];
+		const count = this.board.generateLegalMoves(buffer, ply);
+		for (let i = 0; i < count; i++) {
+			if (this.board.getMoveByIndex(buffer, i) === move) return true;
+		}
+		return false;
+	}
+
+	private probeBook(): TMove | null {
+		if (this.book === null) return null;
+		const { book, moveToUci, weighting, random } = this.book;
+		return book.probe(this.board, moveToUci, weighting, random);
+	}
+
+	private countPieces(): number {
+		let count = 0;
+		for (let square = 0; square < 64; square++) {
+			if (this.board.pieceAt(square) !== 0) count++;
+		}
+		return count;
+	}
+
+	/**
+	 * Every legal root move with its score and the line of best play from the
+	 * tables, best first. Empty when the root has no table or no legal moves.
+	 */
+	private scoreTablebaseRoot(): SearchLine<TMove>[] {
+		const board = this.board;
+		if (!this.tablebase?.probeBoard(board)) return [];
+
+		const buffer = this.moveBuffers[0];
+		const count = board.generateLegalMoves(buffer, 0);
+		const lines: SearchLine<TMove>[] = [];
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			board.makeMove(move);
+			lines.push({ score: -this.tablebaseScore(1), pv: [move, ...this.tablebaseLine(1)] });
+			board.unmakeMove(move);
+		}
+		return lines.sort((a, b) => b.score - a.score);
+	}
+
+	/**
+	 * Score of a position reached from a table position: one with a table
+	 * itself, or a draw (the piece was captured or promoted to a minor piece).
+	 */
+	private tablebaseScore(ply: number): number {
+		this.nodes++;
+		const probe = this.tablebase?.probeBoard(this.board);
+		return probe ? endgameProbeToScore(probe, ply) : 0;
+	}
+
+	/** Best play from the tables until mate; empty for draws, which would go on forever. */
+	private tablebaseLine(ply: number): TMove[] {
+		const board = this.board;
+		const line: TMove[] = [];
+		while (ply + line.length < MAX_SEARCH_PLY) {
+			const probe = this.tablebase?.probeBoard(board);
+			if (!probe || probe.wdl === Wdl.DRAW) break;
+
+			const buffer = this.moveBuffers[ply + line.length];
+			const count = board.generateLegalMoves(buffer, ply + line.length);
+			let bestMove: TMove | null = null;
+			let bestScore = -INFINITE_SCORE;
+			for (let i = 0; i < count; i++) {
+				const move = board.getMoveByIndex(buffer, i);
+				board.makeMove(move);
+				const score = -this.tablebaseScore(ply + line.length + 1);
+				board.unmakeMove(move);
+				if (score > bestScore) {
+					bestScore = score;
+					bestMove = move;
+				}
+			}
+			if (bestMove === null) break;
+			board.makeMove(bestMove);
+			line.push(bestMove);
+		}
+		for (let i = line.length - 1; i >= 0; i--) board.unmakeMove(line[i]);
+		return line;
+	}
+
+	/** Requests the running search to finish; the last completed iteration is returned. */
+	stop(): void {
+		this.stopped = true;
+	}
+
+	private negamax(depth: number, ply: number, alpha: number, beta: number, onPv: boolean): number {
+		this.pvLength[ply] = ply;
+		// NOTE: The board remembers the game since its last loadFen, so this also
+		//       finds positions of the game before the root. One repetition is
+		//       already a draw: whoever steered into it can repeat it again.
+		if (ply > 0 && this.board.repetitionCount() > 1) return 0;
+		if (depth <= 0) return this.quiescence(ply, alpha, beta);
+
+		this.nodes++;
+		if ((this.nodes & (LIMIT_CHECK_INTERVAL - 1)) === 0) {
+			this.checkLimits(ply);
+		}
+		if (this.stopped) return 0;
+
+		const board = this.board;
+		if (ply >= MAX_SEARCH_PLY) return this.evaluate();
+		if (ply > 0 && this.pieceCount <= TABLEBASE_PIECES) {
+			const probe = this.tablebase?.probeBoard(board);
+			if (probe) return endgameProbeToScore(probe, ply);
+		}
+
+		const tt = this.tt;
+		let ttMove = NO_TT_MOVE;
+		if (tt !== null) {
+			const slot = tt.probe(board.hashLow(), board.hashHigh());
+			if (slot >= 0) {
+				ttMove = tt.entryMove(slot);
+				// NOTE: The root is always searched so that it produces a best move and PV.
+				if (ply > 0 && tt.entryDepth(slot) >= depth) {
+					const score = tt.entryScore(slot, ply);
+					const bound = tt.entryBound(slot);
+					if (
+						bound === TTBound.EXACT ||
+						(bound === TTBound.LOWER && score >= beta) ||
+						(bound === TTBound.UPPER && score <= alpha)
+					) {
+						return score;
+					}
+				}
+			}
+		}
+
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		if (count === 0) {
+			return board.isInCheck() ? -MATE_SCORE + ply : 0;
+		}
+		// NOTE: After the mate test: a mate on the hundredth ply still wins.
+		if (ply > 0 && board.isFiftyMoveDraw()) return 0;
+
+		// NOTE: Searching the previous iteration's principal variation (or the
+		//       stored best move) first makes the following cutoffs much more likely.
+		const pvMove = onPv ? this.previousPv[ply] : undefined;
+		const firstMove = pvMove ?? ttMove;
+		const originalAlpha = alpha;
+		let bestScore = -INFINITE_SCORE;
+		let bestMove: number = NO_TT_MOVE;
+
+		const scores = this.orderScores[ply];
+		const indices = this.orderIndices[ply];
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			indices[i] = i;
+			scores[i] = move === firstMove ? FIRST_MOVE_SCORE : this.scoreTacticalMove(move);
+		}
+
+		for (let order = 0; order < count; order++) {
+			this.moveOrders[ply] = order;
+			const move = board.getMoveByIndex(buffer, this.pickNextMove(ply, order, count));
+			if (ply === 0 && this.excludedRootMoves.includes(move)) continue;
+
+			const isCapture = this.tablebase !== null && board.isCapture(move);
+			if (isCapture) this.pieceCount--;
+			board.makeMove(move);
+			const score = -this.negamax(depth - 1, ply + 1, -beta, -alpha, move === pvMove);
+			board.unmakeMove(move);
+			if (isCapture) this.pieceCount++;
+			if (this.stopped) return 0;
+
+			if (score > bestScore) {
+				bestScore = score;
+				bestMove = move;
+				if (score > alpha) {
+					alpha = score;
+					this.updatePv(ply, move);
+				}
+			}
+			if (alpha >= beta) break;
+		}
+
+		// NOTE: A root searched without some of its moves has no score of its own.
+		if (tt !== null && (ply > 0 || this.excludedRootMoves.length === 0)) {
+			const bound =
+				bestScore >= beta
+					? TTBound.LOWER
+					: bestScore > originalAlpha
+						? TTBound.EXACT
+						: TTBound.UPPER;
+			// NOTE: After a fail-low every move was refuted, so none of them is known to be best.
+			const move = bound === TTBound.UPPER ? NO_TT_MOVE : bestMove;
+			tt.store(board.hashLow(), board.hashHigh(), depth, bound, bestScore, move, ply);
+		}
+		return bestScore;
+	}
+
+	// NOTE: Only captures and promotions are searched, so a position is never
+	//       evaluated in the middle of an exchange. The static evaluation is a
+	//       lower bound ("stand pat"): the side to move may decline every capture.
+	private quiescence(ply: number, alpha: number, beta: number): number {
+		this.pvLength[ply] = ply;
+		this.nodes++;
+		if ((this.nodes & (LIMIT_CHECK_INTERVAL - 1)) === 0) {
+			this.checkLimits(ply);
+		}
+		if (this.stopped) return 0;
+
+		const board = this.board;
+		const standPat = this.evaluate();
+		if (ply >= MAX_SEARCH_PLY || standPat >= beta) return standPat;
+		if (standPat > alpha) alpha = standPat;
+
+		const buffer = this.moveBuffers[ply];
+		const count = board.generateLegalMoves(buffer, ply);
+		if (count === 0) {
+			return board.isInCheck() ? -MATE_SCORE + ply : 0;
+		}
+
+		const scores = this.orderScores[ply];
+		const indices = this.orderIndices[ply];
+		let tacticalCount = 0;
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			const isPromotion = board.promotionPieceType(move) !== 0;
+			if (!isPromotion && !board.isCapture(move)) continue;
+			// NOTE: Captures that lose material in the exchange cannot raise alpha
+			//       above the stand-pat score in any sensible line.
+			if (!isPromotion && board.see(move) < 0) continue;
+			indices[tacticalCount] = i;
+			scores[tacticalCount] = this.scoreTacticalMove(move);
+			tacticalCount++;
+		}
+
+		let bestScore = standPat;
+		for (let order = 0; order < tacticalCount; order++) {
+			this.moveOrders[ply] = order;
+			const move = board.getMoveByIndex(buffer, this.pickNextMove(ply, order, tacticalCount));
+
+			board.makeMove(move);
+			const score = -this.quiescence(ply + 1, -beta, -alpha);
+			board.unmakeMove(move);
+			if (this.stopped) return 0;
+
+			if (score > bestScore) {
+				bestScore = score;
+				if (score > alpha) alpha = score;
+			}
+			if (alpha >= beta) break;
+		}
+
+		return bestScore;
+	}
+
+	/** MVV-LVA: most valuable victim first, then least valuable attacker. Quiet moves score 0. */
+	private scoreTacticalMove(move: TMove): number {
+		const board = this.board;
+		const victim = board.capturedPieceType(move);
+		const promotion = board.promotionPieceType(move);
+		if (victim === 0 && promotion === 0) return 0;
+		return TACTICAL_MOVE_SCORE + (victim + promotion) * 8 - board.movedPieceType(move);
+	}
+
+	/**
+	 * Selection sort step: moves the best scored of the remaining moves to
+	 * `order` and returns its index in the move buffer.
+	 */
+	private pickNextMove(ply: number, order: number, count: number): number {
+		const scores = this.orderScores[ply];
+		const indices = this.orderIndices[ply];
+		let best = order;
+		for (let i = order + 1; i < count; i++) {
+			if (scores[i] > scores[best]) best = i;
+		}
+		if (best !== order) {
+			const score = scores[order];
+			scores[order] = scores[best];
+			scores[best] = score;
+			const index = indices[order];
+			indices[order] = indices[best];
+			indices[best] = index;
+		}
+		return indices[order];
+	}
+
+	private evaluate(): number {
+		const score = this.board.evaluate();
+		return this.board.isWhiteToMove() ? score : -score;
+	}
+
+	private updatePv(ply: number, move: TMove): void {
+		const line = this.pvTable[ply];
+		const childLine = this.pvTable[ply + 1];
+		const childLength = this.pvLength[ply + 1];
+		line[ply] = move;
+		for (let i = ply + 1; i < childLength; i++) {
+			line[i] = childLine[i];
+		}
+		this.pvLength[ply] = Math.max(childLength, ply + 1);
+	}
+
+	private checkLimits(ply: number): void {
+		// NOTE: Depth 1 is always completed so that a legal best move is available.
+		if (this.currentDepth <= 1) return;
+		const now = performance.now();
+		if (this.nodes >= this.nodeLimit || now >= this.deadline) {
+			this.stopped = true;
+		} else if (now >= this.sliceDeadline) {
+			this.stopped = true;
+			this.isSliceOver = true;
+			this.slicePly = ply;
+		}
+	}
+}
+
+/** Whether the search reaches `position` after `previous`, both as in `moveOrders`. */
+function isLaterInSearch(position: number[], previous: number[]): boolean {
+	for (let i = 0; i < Math.min(position.length, previous.length); i++) {
+		if (position[i] !== previous[i]) return position[i] > previous[i];
+	}
+	// NOTE: The tree is searched depth-first, so a node comes after its ancestors.
+	return position.length > previous.length;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AbstractBoard } from '$lib/chess/board';
+import { Board0x88, algebraicToSquare0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { algebraicToSquare, BoardBitboard, bitboardMoveToUci } from '$lib/chess/engine/bitboard';
+import { BoardInt8, moveToUci, squareFromAlgebraic } from '$lib/chess/engine/int8';
+
+function findMove<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string,
+	uci: string
+): TMove {
+	const buffer = board.allocateMoveBuffer();
+	const count = board.generateLegalMoves(buffer);
+	for (let i = 0; i < count; i++) {
+		const move = board.getMoveByIndex(buffer, i);
+		if (toUci(move) === uci) return move;
+	}
+	throw new Error(`Expected legal move not found: ${uci}`);
+}
+
+describe('static exchange evaluation', () => {
+	describe('int8', () => {
+		runSeeTests(new BoardInt8(), moveToUci, squareFromAlgebraic);
+	});
+	describe('0x88', () => {
+		runSeeTests(new Board0x88(), moveToLongAlgebraic, algebraicToSquare0x88);
+	});
+	describe('bitboard', () => {
+		runSeeTests(new BoardBitboard(), bitboardMoveToUci, algebraicToSquare);
+	});
+});
+
+function runSeeTests<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string,
+	toSquare: (algebraic: string) => number
+) {
+	function see(fen: string, uci: string): number {
+		board.loadFen(fen);
+		return board.see(findMove(board, toUci, uci));
+	}
+
+	it('wins an undefended pawn', () => {
+		expect(see('1k1r4/1pp4p/p7/4p3/8/P5P1/1PP4P/2K1R3 w - - 0 1', 'e1e5')).toBe(100);
+	});
+
+	it('loses a knight for a pawn against a longer chain of defenders', () => {
+		const fen = '1k1r3q/1ppn3p/p4b2/4p3/8/P2N2P1/1PP1R1BP/2K1Q3 w - - 0 1';
+		expect(see(fen, 'd3e5')).toBe(-220);
+	});
+
+	it('counts x-ray attackers behind the first capturer', () => {
+		// NOTE: Rxe5 Rxe5 Rxe5 wins the pawn thanks to the second rook.
+		expect(see('4r1k1/8/8/4p3/8/8/4R3/4R1K1 w - - 0 1', 'e2e5')).toBe(100);
+		expect(see('4r1k1/8/8/4p3/8/8/8/4R1K1 w - - 0 1', 'e1e5')).toBe(-400);
+	});
+
+	it('does not let the king recapture into a defended square', () => {
+		// NOTE: Rxe2 Qxe2 and Kxe2 is impossible because of the rook behind the queen.
+		expect(see('4r1k1/4q3/8/8/8/8/1R2n3/5K2 w - - 0 1', 'b2e2')).toBe(-180);
+		expect(see('4r1k1/8/8/8/8/8/1R2n3/5K2 w - - 0 1', 'b2e2')).toBe(320);
+	});
+
+	it('scores quiet moves onto attacked squares as losses', () => {
+		expect(see('4k3/8/8/4p3/8/8/8/3QK3 w - - 0 1', 'd1d4')).toBe(-900);
+		expect(see('4k3/8/8/8/8/8/8/3QK3 w - - 0 1', 'd1d4')).toBe(0);
+	});
+
+	it('handles en passant and promotions', () => {
+		expect(see('4k3/8/8/3Pp3/8/8/8/4K3 w - e6 0 1', 'd5e6')).toBe(100);
+		expect(see('4k3/P7/8/8/8/8/8/4K3 w - - 0 1', 'a7a8q')).toBe(800);
+		expect(see('r3k3/1P6/8/8/8/8/8/4K3 w - - 0 1', 'b7a8q')).toBe(1300);
+		expect(see('1r2k3/P7/8/8/8/8/8/4K3 w - - 0 1', 'a7a8q')).toBe(-100);
+	});
+
+	it('labels hanging pieces by square', () => {
+		board.loadFen('4k3/8/2n5/3P4/8/8/8/4K3 b - - 0 1');
+		// NOTE: The undefended knight is attacked by a pawn, the pawn by nothing.
+		expect(board.seeSquare(toSquare('c6'))).toBe(320);
+		expect(board.seeSquare(toSquare('d5'))).toBe(0);
+
+		board.loadFen('4k3/3p4/2n5/3P4/8/8/8/4K3 w - - 0 1');
+		expect(board.seeSquare(toSquare('c6'))).toBe(220);
+		expect(board.seeSquare(toSquare('e4'))).toBe(0);
+
+		board.loadFen('4k3/8/2n5/8/4B3/8/8/4K3 w - - 0 1');
+		expect(board.seeSquare(toSquare('c6'))).toBe(320);
+		expect(board.seeSquare(toSquare('e4'))).toBe(0);
+	});
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	formatEpdSuiteReport,
+	parseEpdSuiteArgs,
+	runEpdSuite,
+	type EpdTestResult
+} from '$lib/chess/engine/suite';
+import { parseEpdFile } from '$lib/chess/epd';
+
+// NOTE: Depth-limited, so that the results do not depend on the speed of the machine.
+const OPTIONS = { depth: 3, timeMs: 10_000, hashSizeMb: 1 };
+
+describe('runEpdSuite', () => {
+	it('checks the engine move against bm and am', () => {
+		const records = parseEpdFile(
+			[
+				'7k/8/6K1/8/8/8/8/1Q6 w - - bm Qb8#; id "mate in 1";',
+				'7k/8/6K1/8/8/8/8/1Q6 w - - am Qb8#; id "avoid mate";',
+				'7k/8/6K1/8/8/8/8/1Q6 w - - id "nothing to check";',
+				'r3k3/8/8/8/8/8/8/4K2R w K - bm O-O;'
+			].join('\n')
+		);
+		const reported: EpdTestResult[] = [];
+		const report = runEpdSuite(records, OPTIONS, (result) => reported.push(result));
+
+		expect(report.results).toEqual(reported);
+		expect(report.results.map(({ id, move, passed }) => [id, move, passed])).toEqual([
+			['mate in 1', 'Qb8', true],
+			['avoid mate', 'Qb8', false],
+			['4', 'Rh8', false]
+		]);
+		expect(report.passed).toBe(1);
+		expect(report.skipped).toBe(1);
+		expect(formatEpdSuiteReport(report)).toMatch('Passed 1/3 (33.3%), 1 without bm/am skipped');
+	});
+
+	it('throws on moves that are not legal in the position', () => {
+		const records = parseEpdFile('7k/8/6K1/8/8/8/8/1Q6 w - - bm Qh2; id "typo";');
+		expect(() => runEpdSuite(records, OPTIONS)).toThrow(/typo.*Qh2/);
+	});
+
+	it('parses command line options', () => {
+		expect(parseEpdSuiteArgs(['--board=0x88', '--time=500', '--depth=8', '--hash=4'])).toEqual({
+			board: '0x88',
+			timeMs: 500,
+			depth: 8,
+			hashSizeMb: 4
+		});
+		expect(() => parseEpdSuiteArgs(['--time=fast'])).toThrow(/Usage/);
+	});
+});
@@ -0,0 +1,158 @@
+import { calculateMoveFromAlgebraic } from '$lib/chess/algebraic';
+import {
+	createEngineBoard,
+	ENGINE_BOARDS,
+	isEngineBoardName,
+	type EngineBoardName
+} from '$lib/chess/engine/boards';
+import {
+	boardInfoToEngineFen,
+	boardMoveToUci,
+	uciLineToAlgebraic
+} from '$lib/chess/engine/convert';
+import { Search } from '$lib/chess/engine/search';
+import { TranspositionTable } from '$lib/chess/engine/transposition';
+import { type Epd } from '$lib/chess/epd';
+
+export interface EpdSuiteOptions {
+	board: EngineBoardName;
+	/** Search time of every position. */
+	timeMs: number;
+	/** Optional depth limit, for runs that do not depend on the speed of the machine. */
+	depth?: number;
+	/** The table is cleared before every position. */
+	hashSizeMb: number;
+}
+
+export const DEFAULT_EPD_SUITE_OPTIONS: EpdSuiteOptions = {
+	board: 'int8',
+	timeMs: 1000,
+	hashSizeMb: 16
+};
+
+export interface EpdTestResult {
+	/** The `id` operation, or the 1-based number of the position in the suite. */
+	id: string;
+	fen: string;
+	/** The engine's move in SAN; null when the side to move has no legal moves. */
+	move: string | null;
+	bestMoves: string[];
+	avoidMoves: string[];
+	/** The move is one of `bestMoves` (when there are any) and none of `avoidMoves`. */
+	passed: boolean;
+	/** Centipawns from the perspective of the side to move. */
+	score: number;
+	depth: number;
+	nodes: number;
+	timeMs: number;
+}
+
+export interface EpdSuiteReport {
+	results: EpdTestResult[];
+	passed: number;
+	/** Positions without `bm` or `am` have nothing to check and are not counted. */
+	skipped: number;
+}
+
+/**
+ * Searches every position of an EPD suite (e.g. WAC, STS, Bratko-Kopec) and
+ * checks the engine's move against its `bm` and `am` operations. Throws if
+ * one of those moves is not legal in its position.
+ */
+export function runEpdSuite(
+	records: Epd[],
+	options: Partial<EpdSuiteOptions> = {},
+	onResult?: (result: EpdTestResult) => void
+): EpdSuiteReport {
+	const { timeMs, depth, ...settings } = { ...DEFAULT_EPD_SUITE_OPTIONS, ...options };
+	const { board, moveToUci } = createEngineBoard(settings.board);
+	const transpositionTable = TranspositionTable.withSizeMb(settings.hashSizeMb);
+	const results: EpdTestResult[] = [];
+	let skipped = 0;
+
+	for (const [index, record] of records.entries()) {
+		if (record.bestMoves.length === 0 && record.avoidMoves.length === 0) {
+			skipped++;
+			continue;
+		}
+		const id = record.id ?? String(index + 1);
+		const bestMoves = record.bestMoves.map((san) => sanToUci(record, san, id));
+		const avoidMoves = record.avoidMoves.map((san) => sanToUci(record, san, id));
+
+		const fen = boardInfoToEngineFen(record.board);
+		board.loadFen(fen);
+		transpositionTable.clear();
+		const search = new Search(board, { transpositionTable });
+		const result = search.search({ timeMs, depth });
+
+		const uci = result.bestMove === null ? null : moveToUci(result.bestMove);
+		const passed =
+			uci !== null &&
+			(bestMoves.length === 0 || bestMoves.includes(uci)) &&
+			!avoidMoves.includes(uci);
+		const testResult: EpdTestResult = {
+			id,
+			fen,
+			move: uci === null ? null : (uciLineToAlgebraic(record.board, [uci])[0] ?? uci),
+			bestMoves: record.bestMoves,
+			avoidMoves: record.avoidMoves,
+			passed,
+			score: result.score,
+			depth: result.depth,
+			nodes: result.nodes,
+			timeMs: result.timeMs
+		};
+		results.push(testResult);
+		onResult?.(testResult);
+	}
+
+	return { results, passed: results.filter((result) => result.passed).length, skipped };
+}
+
+export function formatEpdTestResult(result: EpdTestResult): string {
+	const expected = [
+		result.bestMoves.length > 0 && `bm ${result.bestMoves.join(' ')}`,
+		result.avoidMoves.length > 0 && `am ${result.avoidMoves.join(' ')}`
+	]
+		.filter(Boolean)
+		.join('; ');
+	return `${result.passed ? 'pass' : 'FAIL'} ${result.id.padEnd(12)} ${(result.move ?? '-').padEnd(8)} (${expected}) depth ${result.depth}, score ${result.score}`;
+}
+
+export function formatEpdSuiteReport(report: EpdSuiteReport): string {
+	const total = report.results.length;
+	const percent = total > 0 ? ((report.passed * 100) / total).toFixed(1) : '0.0';
+	const skipped = report.skipped > 0 ? `, ${report.skipped} without bm/am skipped` : '';
+	return `Passed ${report.passed}/${total} (${percent}%)${skipped}`;
+}
+
+export function parseEpdSuiteArgs(args: string[]): Partial<EpdSuiteOptions> {
+	const options: Partial<EpdSuiteOptions> = {};
+	const positiveInteger = (value: string) => Number.isInteger(Number(value)) && Number(value) > 0;
+	for (const arg of args) {
+		const [name, value = ''] = arg.split('=', 2);
+		if (name === '--board' && isEngineBoardName(value)) {
+			options.board = value;
+		} else if (name === '--time' && positiveInteger(value)) {
+			options.timeMs = Number(value);
+		} else if (name === '--depth' && positiveInteger(value)) {
+			options.depth = Number(value);
+		} else if (name === '--hash' && Number(value) > 0) {
+			options.hashSizeMb = Number(value);
+		} else {
+			throw new Error(
+				`Unknown argument: ${arg}. Usage: [--board=${ENGINE_BOARDS.join('|')}] ` +
+					'[--time=<ms>] [--depth=<n>] [--hash=<mb>] < suite.epd'
+			);
+		}
+	}
+	return options;
+}
+
+function sanToUci(record: Epd, san: string, id: string): string {
+	const [move, error] = calculateMoveFromAlgebraic(record.board, san);
+	if (error) {
+		throw new Error(`Position ${id}: "${san}" is not a legal move (${error.type})`);
+	}
+	return boardMoveToUci(move);
+}
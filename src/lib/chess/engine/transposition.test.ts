@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AbstractBoard } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { MATE_SCORE } from '$lib/chess/engine/score';
+import { Search } from '$lib/chess/engine/search';
+import {
+	scoreFromTT,
+	scoreToTT,
+	TranspositionTable,
+	TTBound
+} from '$lib/chess/engine/transposition';
+
+describe('transposition table', () => {
+	it('rounds the size down to a power of two', () => {
+		expect(new TranspositionTable(1000).size).toBe(512);
+		expect(TranspositionTable.withSizeMb(1).size).toBe(32768);
+		expect(() => new TranspositionTable(0)).toThrow();
+	});
+
+	it('stores and probes entries by full key', () => {
+		const table = new TranspositionTable(16);
+		table.store(0x12345671, 0xabc, 5, TTBound.LOWER, 42, 777, 0);
+
+		const slot = table.probe(0x12345671, 0xabc);
+		expect(slot).toBeGreaterThanOrEqual(0);
+		expect(table.entryDepth(slot)).toBe(5);
+		expect(table.entryBound(slot)).toBe(TTBound.LOWER);
+		expect(table.entryScore(slot, 0)).toBe(42);
+		expect(table.entryMove(slot)).toBe(777);
+
+		// NOTE: Same slot, different high half.
+		expect(table.probe(0x12345671, 0xabd)).toBe(-1);
+	});
+
+	it('prefers deeper entries within the same search', () => {
+		const table = new TranspositionTable(16);
+		table.store(0x1, 0x1, 6, TTBound.EXACT, 10, 1, 0);
+		table.store(0x11, 0x2, 3, TTBound.EXACT, 20, 2, 0);
+		expect(table.probe(0x11, 0x2)).toBe(-1);
+		expect(table.probe(0x1, 0x1)).toBeGreaterThanOrEqual(0);
+
+		table.newSearch();
+		table.store(0x11, 0x2, 3, TTBound.EXACT, 20, 2, 0);
+		expect(table.probe(0x11, 0x2)).toBeGreaterThanOrEqual(0);
+		expect(table.probe(0x1, 0x1)).toBe(-1);
+	});
+
+	it('keeps the best move of a position when a fail-low result has none', () => {
+		const table = new TranspositionTable(16);
+		table.store(0x3, 0x3, 2, TTBound.EXACT, 10, 99, 0);
+		table.store(0x3, 0x3, 3, TTBound.UPPER, -5, 0, 0);
+
+		expect(table.entryMove(table.probe(0x3, 0x3))).toBe(99);
+	});
+
+	it('adjusts mate scores by ply', () => {
+		// NOTE: Mate found 5 plies from the root, stored at ply 2 and read back at ply 4.
+		const stored = scoreToTT(MATE_SCORE - 5, 2);
+		expect(stored).toBe(MATE_SCORE - 3);
+		expect(scoreFromTT(stored, 4)).toBe(MATE_SCORE - 7);
+		expect(scoreFromTT(scoreToTT(-(MATE_SCORE - 5), 2), 2)).toBe(-(MATE_SCORE - 5));
+		expect(scoreToTT(150, 10)).toBe(150);
+
+		const table = new TranspositionTable(16);
+		table.store(0x4, 0x4, 1, TTBound.EXACT, MATE_SCORE - 5, 0, 2);
+		expect(table.entryScore(table.probe(0x4, 0x4), 4)).toBe(MATE_SCORE - 7);
+	});
+
+	it('clears all entries', () => {
+		const table = new TranspositionTable(16);
+		table.store(0x5, 0x5, 1, TTBound.EXACT, 0, 0, 0);
+		table.clear();
+		expect(table.probe(0x5, 0x5)).toBe(-1);
+		expect(table.hashFull()).toBe(0);
+	});
+
+	describe('int8 search', () => {
+		runTableSearchTests(new BoardInt8(), moveToUci);
+	});
+	describe('0x88 search', () => {
+		runTableSearchTests(new Board0x88(), moveToLongAlgebraic);
+	});
+});
+
+function runTableSearchTests<TBuf, TMove extends number>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string
+) {
+	const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+	it('finds the same mate with a table', () => {
+		board.loadFen('kbK5/pp6/1P6/8/8/8/8/R7 w - - 0 1');
+		const transpositionTable = new TranspositionTable(1 << 14);
+		const result = new Search(board, { transpositionTable }).search({ depth: 4 });
+
+		expect(toUci(result.bestMove!)).toBe('a1a6');
+		expect(result.score).toBe(MATE_SCORE - 3);
+	});
+
+	it('returns the same score as a search without a table', () => {
+		board.loadFen(KIWIPETE);
+		const plain = new Search(board).search({ depth: 4 });
+		const transpositionTable = new TranspositionTable(1 << 16);
+		const hashed = new Search(board, { transpositionTable }).search({ depth: 4 });
+
+		expect(hashed.score).toBe(plain.score);
+		expect(hashed.nodes).toBeLessThan(plain.nodes);
+		expect(transpositionTable.hashFull()).toBeGreaterThan(0);
+	});
+
+	it('reuses entries from a previous search', () => {
+		board.loadFen(KIWIPETE);
+		const transpositionTable = new TranspositionTable(1 << 16);
+		const search = new Search(board, { transpositionTable });
+		const first = search.search({ depth: 4 });
+		const second = search.search({ depth: 4 });
+
+		expect(second.score).toBe(first.score);
+		expect(second.nodes).toBeLessThan(first.nodes);
+	});
+}
@@ -0,0 +1,180 @@
+import { isMateScore } from '$lib/chess/engine/score';
+
+export const TTBound = {
+	NONE: 0,
+	EXACT: 1,
+	/** Fail-high: the real score is at least the stored one. */
+	LOWER: 2,
+	/** Fail-low: the real score is at most the stored one. */
+	UPPER: 3
+} as const;
+export type TTBound = (typeof TTBound)[keyof typeof TTBound];
+
+export const NO_TT_MOVE = 0;
+
+const BYTES_PER_ENTRY = 4 + 4 + 4 + 8 + 1 + 1 + 1;
+const DEFAULT_SIZE_MB = 16;
+
+/**
+ * Fixed-size hash table indexed by the Zobrist key of a position. Every field
+ * lives in its own typed array; an entry is addressed by its slot index, which
+ * is returned by `probe` and then read with the `entry*` getters.
+ *
+ * Replacement policy: a slot is overwritten when it is empty, belongs to an
+ * older search (see `newSearch`), holds the same position, or when the new
+ * result was searched at least as deep as the stored one.
+ */
+export class TranspositionTable {
+	readonly size: number;
+	private readonly mask: number;
+
+	private readonly keysLow: Uint32Array;
+	private readonly keysHigh: Uint32Array;
+	private readonly moves: Int32Array;
+	private readonly values: Float64Array;
+	private readonly depths: Int8Array;
+	private readonly bounds: Uint8Array;
+	private readonly generations: Uint8Array;
+	private generation = 0;
+
+	/** @param size number of entries, rounded down to a power of two. */
+	constructor(size: number) {
+		if (!Number.isInteger(size) || size < 1) {
+			throw new Error(`Invalid transposition table size: ${size}`);
+		}
+		this.size = 2 ** Math.floor(Math.log2(size));
+		this.mask = this.size - 1;
+		this.keysLow = new Uint32Array(this.size);
+		this.keysHigh = new Uint32Array(this.size);
+		this.moves = new Int32Array(this.size);
+		this.values = new Float64Array(this.size);
+		this.depths = new Int8Array(this.size);
+		this.bounds = new Uint8Array(this.size);
+		this.generations = new Uint8Array(this.size);
+	}
+
+	static withSizeMb(sizeMb = DEFAULT_SIZE_MB): TranspositionTable {
+		return new TranspositionTable(
+			Math.max(1, Math.floor((sizeMb * 1024 * 1024) / BYTES_PER_ENTRY))
+		);
+	}
+
+	clear(): void {
+		this.bounds.fill(TTBound.NONE);
+		this.generation = 0;
+	}
+
+	/** Marks existing entries as stale so that they are replaced first. */
+	newSearch(): void {
+		this.generation = (this.generation + 1) & 0xff;
+	}
+
+	/** Slot index of the entry for the given key, or -1 when it is not stored. */
+	probe(keyLow: number, keyHigh: number): number {
+		const slot = keyLow & this.mask;
+		if (
+			this.bounds[slot] === TTBound.NONE ||
+			this.keysLow[slot] !== keyLow >>> 0 ||
+			this.keysHigh[slot] !== keyHigh >>> 0
+		) {
+			return -1;
+		}
+		return slot;
+	}
+
+	entryDepth(slot: number): number {
+		return this.depths[slot];
+	}
+
+	entryBound(slot: number): TTBound {
+		return this.bounds[slot] as TTBound;
+	}
+
+	entryMove(slot: number): number {
+		return this.moves[slot];
+	}
+
+	/** Stored score converted back to be relative to the root at `ply`. */
+	entryScore(slot: number, ply: number): number {
+		return scoreFromTT(this.values[slot], ply);
+	}
+
+	store(
+		keyLow: number,
+		keyHigh: number,
+		depth: number,
+		bound: TTBound,
+		score: number,
+		move: number,
+		ply: number
+	): void {
+		const slot = keyLow & this.mask;
+		const isSamePosition =
+			this.keysLow[slot] === keyLow >>> 0 && this.keysHigh[slot] === keyHigh >>> 0;
+		if (
+			this.bounds[slot] !== TTBound.NONE &&
+			this.generations[slot] === this.generation &&
+			!isSamePosition &&
+			depth < this.depths[slot]
+		) {
+			return;
+		}
+
+		// NOTE: Keep the previously found best move when a fail-low result has none.
+		if (move === NO_TT_MOVE && isSamePosition && this.bounds[slot] !== TTBound.NONE) {
+			move = this.moves[slot];
+		}
+
+		this.keysLow[slot] = keyLow;
+		this.keysHigh[slot] = keyHigh;
+		this.depths[slot] = depth;
+		this.bounds[slot] = bound;
+		this.values[slot] = scoreToTT(score, ply);
+		this.moves[slot] = move;
+		this.generations[slot] = this.generation;
+	}
+
+	/** Node count stored by `storeNodeCount` for this position and depth, or -1. */
+	probeNodeCount(keyLow: number, keyHigh: number, depth: number): number {
+		const slot = this.probe(keyLow, keyHigh);
+		if (slot < 0 || this.depths[slot] !== depth) return -1;
+		return this.values[slot];
+	}
+
+	/**
+	 * Stores a perft node count. NOTE: Shares the slots with search entries, so
+	 * a table should be used either for perft or for search, not both at once.
+	 */
+	storeNodeCount(keyLow: number, keyHigh: number, depth: number, nodes: number): void {
+		const slot = keyLow & this.mask;
+		this.keysLow[slot] = keyLow;
+		this.keysHigh[slot] = keyHigh;
+		this.depths[slot] = depth;
+		this.bounds[slot] = TTBound.EXACT;
+		this.values[slot] = nodes;
+		this.moves[slot] = NO_TT_MOVE;
+		this.generations[slot] = this.generation;
+	}
+
+	/** Per-mille of slots filled during the current search (UCI `hashfull`). */
+	hashFull(): number {
+		const sample = Math.min(1000, this.size);
+		let used = 0;
+		for (let i = 0; i < sample; i++) {
+			if (this.bounds[i] !== TTBound.NONE && this.generations[i] === this.generation) used++;
+		}
+		return Math.round((used * 1000) / sample);
+	}
+}
+
+// NOTE: Mate scores are relative to the root, but a table entry can be reached
+//       at a different ply. Store them relative to the entry's own position.
+export function scoreToTT(score: number, ply: number): number {
+	if (!isMateScore(score)) return score;
+	return score > 0 ? score + ply : score - ply;
+}
+
+export function scoreFromTT(score: number, ply: number): number {
+	if (!isMateScore(score)) return score;
+	return score > 0 ? score - ply : score + ply;
+}
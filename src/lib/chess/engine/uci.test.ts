@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { parseInfoLine, UciEngine } from '$lib/chess/engine/uci';
+
+function createEngine() {
+	const output: string[] = [];
+	const engine = new UciEngine((line) => output.push(line), { board: new BoardInt8(), moveToUci });
+	return { engine, output };
+}
+
+async function waitForLine(output: string[], pattern: RegExp): Promise<void> {
+	while (!output.some((line) => pattern.test(line))) {
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+describe('UciEngine', () => {
+	it('answers the handshake and readiness checks', () => {
+		const { engine, output } = createEngine();
+		engine.handle('uci');
+		engine.handle('isready');
+
+		expect(output).toEqual([
+			'id name Opess',
+			'id author the Opess developers',
+			'option name MultiPV type spin default 1 min 1 max 256',
+			'uciok',
+			'readyok'
+		]);
+	});
+
+	it('reports info lines and a best move for a fixed depth', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+		engine.handle('go depth 3');
+		await engine.idle();
+
+		const infos = output.filter((line) => line.startsWith('info depth'));
+		expect(infos.length).toBeGreaterThan(0);
+		expect(infos[0]).toMatch(/^info depth 1 score (cp|mate) -?\d+ nodes \d+ nps \d+ time \d+ pv /);
+		expect(infos.at(-1)).toMatch(/ pv a1a8/);
+		expect(output.at(-1)).toBe('bestmove a1a8');
+		expect(parseInfoLine(infos.at(-1)!)?.score).toEqual({ type: 'mate', value: 1 });
+	});
+
+	it('applies moves after the starting position', async () => {
+		const { engine, output } = createEngine();
+		// NOTE: After 1. f3 e5 2. g4 the only sensible reply is Qh4#.
+		engine.handle('position startpos moves f2f3 e7e5 g2g4');
+		engine.handle('go depth 2');
+		await engine.idle();
+
+		expect(output.at(-1)).toBe('bestmove d8h4');
+	});
+
+	it('steers into a repetition of the moves since the position command when losing', async () => {
+		const { engine, output } = createEngine();
+		// NOTE: Kg8 repeats the position after the first move, every other move loses
+		//       to the queen. The blocked pawns keep the endgame tables out of it.
+		engine.handle('position fen 7k/8/8/p7/P7/8/8/1Q2K3 b - - 0 1 moves h8g8 e1d1 g8h8 d1e1');
+		engine.handle('go depth 3');
+		await engine.idle();
+
+		const infos = output.filter((line) => line.startsWith('info depth'));
+		expect(parseInfoLine(infos.at(-1)!)?.score).toEqual({ type: 'cp', value: 0 });
+		expect(output.at(-1)).toBe('bestmove h8g8');
+	});
+
+	it('reports a null move when there is no legal move', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position fen 7k/5Q2/6K1/8/8/8/8/8 b - - 0 1');
+		engine.handle('go depth 2');
+		await engine.idle();
+
+		expect(output.at(-1)).toBe('bestmove 0000');
+	});
+
+	it('stops an infinite search and still reports a best move', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position startpos');
+		engine.handle('go infinite');
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		engine.handle('stop');
+		await engine.idle();
+
+		expect(output.at(-1)).toMatch(/^bestmove [a-h][1-8][a-h][1-8]$/);
+	});
+
+	it('stops a deep infinite search without finishing the current iteration', async () => {
+		const { engine, output } = createEngine();
+		engine.handle(
+			'position fen r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1'
+		);
+		engine.handle('go infinite');
+		await waitForLine(output, /^info depth 5 /);
+		const reported = output.length;
+		engine.handle('stop');
+		await engine.idle();
+
+		// NOTE: Depth 6 takes seconds; the search stops within a slice and drops it.
+		expect(output.slice(reported)).toEqual([
+			expect.stringMatching(/^bestmove [a-h][1-8][a-h][1-8]/)
+		]);
+	}, 30_000);
+
+	it('stops searches that are queued behind the current one', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position startpos');
+		engine.handle('go infinite');
+		engine.handle('go infinite');
+		engine.handle('stop');
+		await engine.idle();
+
+		expect(output.filter((line) => line.startsWith('bestmove'))).toHaveLength(2);
+	});
+
+	it('reads values only after the arguments that take one', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position startpos');
+		engine.handle('go searchmoves e2e4 d2d4 depth 2');
+		await engine.idle();
+
+		expect(output.filter((line) => line.startsWith('info depth')).at(-1)).toMatch(/^info depth 2 /);
+		expect(output.at(-1)).toMatch(/^bestmove /);
+
+		// NOTE: Read as `wtime ponder`, this would search without a time limit.
+		engine.handle('go ponder wtime 1000 btime 1000');
+		await engine.idle();
+
+		expect(output.filter((line) => line.startsWith('bestmove'))).toHaveLength(2);
+	});
+
+	it('reports the score of a tablebase move', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position fen 8/8/8/8/4k3/8/8/K6R w - - 0 1');
+		engine.handle('go depth 3');
+		await engine.idle();
+
+		expect(output).toHaveLength(2);
+		expect(parseInfoLine(output[0])?.score.type).toBe('mate');
+		expect(output[1]).toMatch(/^bestmove /);
+	});
+
+	it('holds the best move of an infinite search until stop', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('position fen 8/8/8/8/4k3/8/8/K6R w - - 0 1');
+		engine.handle('go infinite');
+		await waitForLine(output, /^info depth/);
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(output.some((line) => line.startsWith('bestmove'))).toBe(false);
+
+		engine.handle('stop');
+		await engine.idle();
+
+		expect(output.at(-1)).toMatch(/^bestmove /);
+	});
+
+	it('reports one info line per principal variation with MultiPV', async () => {
+		const { engine, output } = createEngine();
+		engine.handle('setoption name MultiPV value 3');
+		engine.handle('position fen 6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1');
+		engine.handle('go depth 2');
+		await engine.idle();
+
+		const infos = output.filter((line) => line.startsWith('info depth 2')).map(parseInfoLine);
+		expect(infos.map((info) => info?.multiPv)).toEqual([1, 2, 3]);
+		expect(infos[0]?.pv[0]).toBe('a1a8');
+		expect(new Set(infos.map((info) => info?.pv[0])).size).toBe(3);
+		expect(output.at(-1)).toBe('bestmove a1a8');
+	});
+
+	it('rejects unknown options and invalid MultiPV values', () => {
+		const { engine, output } = createEngine();
+		engine.handle('setoption name Hash value 32');
+		engine.handle('setoption name MultiPV value 0');
+
+		expect(output).toEqual([
+			'info string unknown option: Hash',
+			'info string invalid MultiPV value: 0'
+		]);
+	});
+
+	it('reports invalid input as info strings', () => {
+		const { engine, output } = createEngine();
+		engine.handle('position fen 8/8/8/8/8/8/8/8 w - - 0 1');
+		engine.handle('position startpos moves e2e5');
+		engine.handle('castle');
+
+		expect(output[0]).toMatch(/^info string invalid fen: /);
+		expect(output.slice(1)).toEqual([
+			'info string illegal move: e2e5',
+			'info string unknown command: castle'
+		]);
+	});
+});
+
+describe('parseInfoLine', () => {
+	it('parses scores, counters and the principal variation', () => {
+		expect(
+			parseInfoLine('info depth 4 score cp -35 nodes 1200 nps 60000 time 20 pv e2e4 e7e5')
+		).toEqual({
+			depth: 4,
+			score: { type: 'cp', value: -35 },
+			nodes: 1200,
+			timeMs: 20,
+			multiPv: 1,
+			pv: ['e2e4', 'e7e5']
+		});
+		expect(parseInfoLine('info depth 2 multipv 3 score cp 5 nodes 1 time 1 pv d2d4')?.multiPv).toBe(
+			3
+		);
+		expect(parseInfoLine('info depth 3 score mate -2 nodes 10 time 1 pv')?.score).toEqual({
+			type: 'mate',
+			value: -2
+		});
+		expect(parseInfoLine('info string hello')).toBeNull();
+		expect(parseInfoLine('bestmove e2e4')).toBeNull();
+	});
+});
@@ -0,0 +1,342 @@
+import type { AbstractBoard } from '$lib/chess/board';
+import { EndgameTablebase } from '$lib/chess/engine/endgame';
+import { INITIAL_FEN } from '$lib/chess/engine/int8';
+import { isMateScore, mateInMoves } from '$lib/chess/engine/score';
+import { Search, type SearchInfo, type SearchLimits } from '$lib/chess/engine/search';
+import { TranspositionTable } from '$lib/chess/engine/transposition';
+
+export const ENGINE_NAME = 'Opess';
+export const ENGINE_AUTHOR = 'the Opess developers';
+export const NULL_MOVE_UCI = '0000';
+
+// NOTE: Without `movestogo` the clock is split as if this many moves remained.
+const DEFAULT_MOVES_TO_GO = 30;
+// Kept in reserve so that the engine never loses on time to move overhead.
+const TIME_SAFETY_MARGIN_MS = 50;
+// NOTE: Upper bound on legal moves in a position, so every move can get a line.
+export const MAX_MULTI_PV = 256;
+// NOTE: How long the search runs before it gives the event loop a turn, i.e.
+//       roughly the longest `stop`, `position` or `ucinewgame` wait for it.
+//       Every pause costs searching the interrupted iteration again down to
+//       the transposition table, so slices should not be much shorter.
+const SEARCH_SLICE_MS = 50;
+// NOTE: `go` arguments followed by a number; the others are flags or `searchmoves`.
+const GO_NUMBER_ARGS = new Set([
+	'wtime',
+	'btime',
+	'winc',
+	'binc',
+	'movestogo',
+	'depth',
+	'nodes',
+	'mate',
+	'movetime'
+]);
+const GO_KEYWORDS = new Set([...GO_NUMBER_ARGS, 'searchmoves', 'ponder', 'infinite']);
+
+export interface UciEngineOptions<TMoveBuffer, TMove> {
+	board: AbstractBoard<TMoveBuffer, TMove>;
+	moveToUci: (move: TMove) => string;
+	hashSizeMb?: number;
+}
+
+export type EngineScore = { type: 'cp'; value: number } | { type: 'mate'; value: number };
+
+export interface EngineInfo {
+	depth: number;
+	score: EngineScore;
+	nodes: number;
+	timeMs: number;
+	/** 1-based index of the line for `MultiPV` searches, 1 otherwise. */
+	multiPv: number;
+	/** Principal variation in UCI long algebraic notation (e.g. `e2e4`, `e7e8q`). */
+	pv: string[];
+}
+
+/**
+ * Host side of a UCI-like text protocol around the search of any AbstractBoard.
+ * Every command is one line passed to `handle`; replies go through `send`, one
+ * line at a time. The same handler runs inside the Web Worker, in-process and
+ * behind the command-line adapter.
+ *
+ * Supported commands: `uci`, `isready`, `ucinewgame`,
+ * `setoption name MultiPV value <n>`, `position (startpos | fen <fen>) [moves <uci>...]`,
+ * `go [depth <n>] [movetime <ms>] [nodes <n>] [wtime <ms>] [btime <ms>]
+ * [winc <ms>] [binc <ms>] [movestogo <n>] [infinite]`, `stop`, `quit`.
+ */
+export class UciEngine<TMoveBuffer, TMove extends number> {
+	private readonly send: (line: string) => void;
+	private readonly board: AbstractBoard<TMoveBuffer, TMove>;
+	private readonly moveToUci: (move: TMove) => string;
+	private readonly transpositionTable: TranspositionTable;
+	private readonly search: Search<TMoveBuffer, TMove>;
+	private readonly moveBuffer: TMoveBuffer;
+	// NOTE: Searches run one after another; a `go` received while searching is
+	//       started once the current search has reported its best move.
+	private pendingSearch: Promise<void> = Promise.resolve();
+	// NOTE: Searches are numbered as they are received; `stop` applies to every
+	//       one received before it, including those still waiting to start.
+	private lastSearchId = 0;
+	private stoppedSearchId = 0;
+	// NOTE: Set while a finished `go infinite` holds back its best move until `stop`.
+	private resolveStop: (() => void) | null = null;
+	private multiPv = 1;
+
+	constructor(send: (line: string) => void, options: UciEngineOptions<TMoveBuffer, TMove>) {
+		this.send = send;
+		this.board = options.board;
+		this.moveToUci = options.moveToUci;
+		this.transpositionTable = TranspositionTable.withSizeMb(options.hashSizeMb);
+		// NOTE: The endgame tables are solved on the first position that needs them.
+		this.search = new Search(this.board, {
+			transpositionTable: this.transpositionTable,
+			tablebase: new EndgameTablebase()
+		});
+		this.moveBuffer = this.board.allocateMoveBuffer();
+		this.board.loadFen(INITIAL_FEN);
+	}
+
+	handle(line: string): void {
+		const tokens = line.trim().split(/\s+/);
+		const command = tokens[0];
+		if (!command) return;
+
+		switch (command) {
+			case 'uci':
+				this.send(`id name ${ENGINE_NAME}`);
+				this.send(`id author ${ENGINE_AUTHOR}`);
+				this.send(`option name MultiPV type spin default 1 min 1 max ${MAX_MULTI_PV}`);
+				this.send('uciok');
+				break;
+			case 'isready':
+				this.send('readyok');
+				break;
+			case 'ucinewgame':
+				this.stopSearch();
+				this.transpositionTable.clear();
+				break;
+			case 'setoption':
+				this.setOption(tokens.slice(1));
+				break;
+			case 'position':
+				this.stopSearch();
+				this.setPosition(tokens.slice(1));
+				break;
+			case 'go':
+				this.startSearch(tokens.slice(1));
+				break;
+			case 'stop':
+			// NOTE: Closing the input is up to the host; the engine only makes sure
+			//       that the running search reports its best move.
+			case 'quit':
+				this.stopSearch();
+				break;
+			default:
+				this.send(`info string unknown command: ${command}`);
+		}
+	}
+
+	/** Resolves once every search started so far has reported its best move. */
+	idle(): Promise<void> {
+		return this.pendingSearch;
+	}
+
+	private setOption(args: string[]): void {
+		const valueIndex = args.indexOf('value');
+		const name = args.slice(1, valueIndex < 0 ? args.length : valueIndex).join(' ');
+		const value = Number(args[valueIndex + 1]);
+		if (args[0] !== 'name' || name.toLowerCase() !== 'multipv') {
+			this.send(`info string unknown option: ${name || args.join(' ')}`);
+		} else if (valueIndex < 0 || !Number.isInteger(value) || value < 1 || value > MAX_MULTI_PV) {
+			this.send(`info string invalid MultiPV value: ${args[valueIndex + 1] ?? ''}`);
+		} else {
+			// NOTE: Like every option, it applies from the next `go` on.
+			this.multiPv = value;
+		}
+	}
+
+	private setPosition(args: string[]): void {
+		const movesIndex = args.indexOf('moves');
+		const positionArgs = movesIndex < 0 ? args : args.slice(0, movesIndex);
+		const moves = movesIndex < 0 ? [] : args.slice(movesIndex + 1);
+
+		let fen: string;
+		if (positionArgs[0] === 'startpos') {
+			fen = INITIAL_FEN;
+		} else if (positionArgs[0] === 'fen' && positionArgs.length > 1) {
+			fen = positionArgs.slice(1).join(' ');
+		} else {
+			this.send(`info string invalid position: ${args.join(' ')}`);
+			return;
+		}
+
+		try {
+			this.board.loadFen(fen);
+		} catch (error) {
+			this.send(`info string invalid fen: ${(error as Error).message}`);
+			this.board.loadFen(INITIAL_FEN);
+			return;
+		}
+
+		for (const uci of moves) {
+			const move = this.findLegalMove(uci);
+			if (move === null) {
+				this.send(`info string illegal move: ${uci}`);
+				return;
+			}
+			this.board.makeMove(move);
+		}
+	}
+
+	private findLegalMove(uci: string): TMove | null {
+		const count = this.board.generateLegalMoves(this.moveBuffer);
+		for (let i = 0; i < count; i++) {
+			const move = this.board.getMoveByIndex(this.moveBuffer, i);
+			if (this.moveToUci(move) === uci) return move;
+		}
+		return null;
+	}
+
+	private startSearch(args: string[]): void {
+		const limits = parseGoArgs(args, this.board.isWhiteToMove());
+		limits.multiPv = this.multiPv;
+		const isInfinite = args.includes('infinite');
+		const id = ++this.lastSearchId;
+		this.pendingSearch = this.pendingSearch.then(() => this.runSearch(id, limits, isInfinite));
+	}
+
+	private stopSearch(): void {
+		this.stoppedSearchId = this.lastSearchId;
+		this.resolveStop?.();
+	}
+
+	private async runSearch(id: number, limits: SearchLimits, isInfinite: boolean): Promise<void> {
+		try {
+			const iterations = this.search.iterate(limits, SEARCH_SLICE_MS);
+			let step = iterations.next();
+			while (!step.done) {
+				// NOTE: Without legal moves there are no lines, but the score is still reported.
+				for (let i = 0; step.value !== null && i < Math.max(1, step.value.lines.length); i++) {
+					this.send(formatInfo(step.value, this.moveToUci, i));
+				}
+				// NOTE: A synchronous search would keep `stop` queued until it ends,
+				//       so give the event loop a turn after every iteration and slice.
+				await yieldToEventLoop();
+				if (id <= this.stoppedSearchId) this.search.stop();
+				step = iterations.next();
+			}
+			// NOTE: UCI allows the best move of an infinite search only after `stop`,
+			//       even when the search ended by itself (book, tablebase, a mate).
+			if (isInfinite && id > this.stoppedSearchId) {
+				await new Promise<void>((resolve) => (this.resolveStop = resolve));
+				this.resolveStop = null;
+			}
+			const bestMove = step.value.bestMove;
+			this.send(`bestmove ${bestMove === null ? NULL_MOVE_UCI : this.moveToUci(bestMove)}`);
+		} catch (error) {
+			this.send(`info string search failed: ${(error as Error).message}`);
+			this.send(`bestmove ${NULL_MOVE_UCI}`);
+		}
+	}
+}
+
+function yieldToEventLoop(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function parseGoArgs(args: string[], isWhiteToMove: boolean): SearchLimits {
+	const values = new Map<string, number>();
+	for (let i = 0; i < args.length; i++) {
+		if (GO_NUMBER_ARGS.has(args[i])) {
+			const value = Number(args[i + 1]);
+			if (Number.isFinite(value) && value >= 0) values.set(args[i], value);
+			i++;
+		} else if (args[i] === 'searchmoves') {
+			// NOTE: Restricting the root moves is not supported, so the whole
+			//       root is searched; the moves run until the next keyword.
+			while (i + 1 < args.length && !GO_KEYWORDS.has(args[i + 1])) i++;
+		}
+		// NOTE: `infinite` is the default: search until `stop` or MAX_SEARCH_PLY.
+		//       `ponder` is not offered as an option, so it is searched as usual.
+	}
+
+	const limits: SearchLimits = {};
+	const depth = values.get('depth');
+	if (depth !== undefined && Number.isInteger(depth) && depth > 0) limits.depth = depth;
+	const nodes = values.get('nodes');
+	if (nodes !== undefined && Number.isInteger(nodes) && nodes > 0) limits.nodes = nodes;
+
+	const moveTime = values.get('movetime');
+	const clock = values.get(isWhiteToMove ? 'wtime' : 'btime');
+	if (moveTime !== undefined) {
+		limits.timeMs = moveTime;
+	} else if (clock !== undefined) {
+		const increment = values.get(isWhiteToMove ? 'winc' : 'binc') ?? 0;
+		const movesToGo = Math.max(1, values.get('movestogo') ?? DEFAULT_MOVES_TO_GO);
+		const budget = clock / movesToGo + (increment * 3) / 4;
+		limits.timeMs = Math.max(0, Math.min(budget, clock - TIME_SAFETY_MARGIN_MS));
+	}
+	return limits;
+}
+
+/**
+ * Formats the line at `lineIndex` of the info. The `multipv` field is only
+ * written for multi-PV searches, to keep single-line output short.
+ */
+export function formatInfo<TMove>(
+	info: SearchInfo<TMove>,
+	moveToUci: (move: TMove) => string,
+	lineIndex = 0
+): string {
+	const line = info.lines[lineIndex] ?? info;
+	const multiPv = info.lines.length > 1 ? ` multipv ${lineIndex + 1}` : '';
+	const score = isMateScore(line.score) ? `mate ${mateInMoves(line.score)}` : `cp ${line.score}`;
+	const timeMs = Math.round(info.timeMs);
+	const nps = timeMs > 0 ? Math.round((info.nodes * 1000) / timeMs) : info.nodes;
+	const pv = line.pv.map(moveToUci).join(' ');
+	return `info depth ${info.depth}${multiPv} score ${score} nodes ${info.nodes} nps ${nps} time ${timeMs} pv ${pv}`.trimEnd();
+}
+
+/** Parses an `info ... pv ...` line; returns null for other lines (e.g. `info string`). */
+export function parseInfoLine(line: string): EngineInfo | null {
+	const tokens = line.trim().split(/\s+/);
+	if (tokens[0] !== 'info' || !tokens.includes('depth') || !tokens.includes('score')) {
+		return null;
+	}
+
+	const info: EngineInfo = {
+		depth: 0,
+		score: { type: 'cp', value: 0 },
+		nodes: 0,
+		timeMs: 0,
+		multiPv: 1,
+		pv: []
+	};
+	for (let i = 1; i < tokens.length; i++) {
+		switch (tokens[i]) {
+			case 'depth':
+				info.depth = Number(tokens[++i]);
+				break;
+			case 'score': {
+				const type = tokens[++i];
+				const value = Number(tokens[++i]);
+				if (type === 'cp' || type === 'mate') info.score = { type, value };
+				break;
+			}
+			case 'nodes':
+				info.nodes = Number(tokens[++i]);
+				break;
+			case 'time':
+				info.timeMs = Number(tokens[++i]);
+				break;
+			case 'multipv':
+				info.multiPv = Number(tokens[++i]);
+				break;
+			case 'pv':
+				info.pv = tokens.slice(i + 1);
+				i = tokens.length;
+				break;
+		}
+	}
+	return info;
+}
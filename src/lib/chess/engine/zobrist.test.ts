@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AbstractBoard } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardBitboard, bitboardMoveToUci } from '$lib/chess/engine/bitboard';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { zobristKeyToBigInt, zobristKeyToHex } from '$lib/chess/engine/zobrist';
+
+const POSITIONS = [
+	'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+	'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+	'8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+	'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+	'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8'
+];
+
+function key<TBuf, TMove>(board: AbstractBoard<TBuf, TMove>): bigint {
+	return zobristKeyToBigInt(board.hashLow(), board.hashHigh());
+}
+
+function recomputedKey<TBuf, TMove>(board: AbstractBoard<TBuf, TMove>): bigint {
+	const [low, high] = board.computeHash();
+	return zobristKeyToBigInt(low, high);
+}
+
+// Walks a perft tree and returns the number of nodes whose incremental key did
+// not match the key computed from scratch.
+function countHashMismatches<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	depth: number
+): number {
+	let mismatches = key(board) === recomputedKey(board) ? 0 : 1;
+	if (depth === 0) return mismatches;
+
+	const buffer = board.allocateMoveBuffer();
+	const count = board.generateLegalMoves(buffer);
+	for (let i = 0; i < count; i++) {
+		const move = board.getMoveByIndex(buffer, i);
+		const before = key(board);
+		board.makeMove(move);
+		mismatches += countHashMismatches(board, depth - 1);
+		board.unmakeMove(move);
+		if (key(board) !== before) mismatches++;
+	}
+	return mismatches;
+}
+
+function playMoves<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string,
+	moves: string[]
+): void {
+	const buffer = board.allocateMoveBuffer();
+	for (const uci of moves) {
+		const count = board.generateLegalMoves(buffer);
+		let found = false;
+		for (let i = 0; i < count; i++) {
+			const move = board.getMoveByIndex(buffer, i);
+			if (toUci(move) === uci) {
+				board.makeMove(move);
+				found = true;
+				break;
+			}
+		}
+		if (!found) throw new Error(`Expected legal move not found: ${uci}`);
+	}
+}
+
+describe('zobrist', () => {
+	describe('int8', () => {
+		runZobristTests(new BoardInt8(), moveToUci);
+	});
+	describe('0x88', () => {
+		runZobristTests(new Board0x88(), moveToLongAlgebraic);
+	});
+	describe('bitboard', () => {
+		runZobristTests(new BoardBitboard(), bitboardMoveToUci);
+	});
+
+	it('produces identical keys on all boards', () => {
+		const int8 = new BoardInt8();
+		const ox88 = new Board0x88();
+		const bitboard = new BoardBitboard();
+		for (const fen of POSITIONS) {
+			int8.loadFen(fen);
+			ox88.loadFen(fen);
+			bitboard.loadFen(fen);
+			expect(key(int8)).toBe(key(ox88));
+			expect(key(bitboard)).toBe(key(int8));
+		}
+	});
+
+	it('formats keys as 16 hex digits', () => {
+		expect(zobristKeyToHex(0x1, 0xff)).toBe('000000ff00000001');
+		expect(zobristKeyToBigInt(0xffffffff, 0)).toBe(0xffffffffn);
+	});
+});
+
+function runZobristTests<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string
+) {
+	for (const fen of POSITIONS) {
+		it(`keeps the incremental key equal to the recomputed key: ${fen}`, () => {
+			board.loadFen(fen);
+			expect(countHashMismatches(board, 3)).toBe(0);
+		});
+	}
+
+	it('returns to the same key after a transposition back to the start', () => {
+		board.loadFen(POSITIONS[0]);
+		const start = key(board);
+
+		playMoves(board, toUci, ['g1f3', 'g8f6', 'f3g1', 'f6g8']);
+
+		expect(key(board)).toBe(start);
+	});
+
+	it('distinguishes side to move, castling rights and en passant', () => {
+		board.loadFen('4k3/8/8/3pP3/8/8/8/R3K3 w Q d6 0 1');
+		const withEnPassant = key(board);
+		board.loadFen('4k3/8/8/3pP3/8/8/8/R3K3 w Q - 0 1');
+		const withoutEnPassant = key(board);
+		board.loadFen('4k3/8/8/3pP3/8/8/8/R3K3 w - - 0 1');
+		const withoutCastling = key(board);
+		board.loadFen('4k3/8/8/3pP3/8/8/8/R3K3 b Q - 0 1');
+		const blackToMove = key(board);
+
+		expect(new Set([withEnPassant, withoutEnPassant, withoutCastling, blackToMove]).size).toBe(4);
+	});
+
+	it('ignores an en passant target no pawn can capture', () => {
+		board.loadFen('4k3/8/8/8/4P3/8/8/4K3 b - e3 0 1');
+		const withTarget = key(board);
+		board.loadFen('4k3/8/8/8/4P3/8/8/4K3 b - - 0 1');
+
+		expect(key(board)).toBe(withTarget);
+	});
+}
@@ -0,0 +1,61 @@
+// NOTE: Zobrist keys are 64-bit, stored as two 32-bit halves so that they can
+//       live in typed arrays and be XORed without BigInt allocations.
+
+export const ZOBRIST_PIECE_KINDS = 12;
+export const ZOBRIST_SQUARES = 64;
+
+export const ZOBRIST_PIECES_LOW = new Uint32Array(ZOBRIST_PIECE_KINDS * ZOBRIST_SQUARES);
+export const ZOBRIST_PIECES_HIGH = new Uint32Array(ZOBRIST_PIECE_KINDS * ZOBRIST_SQUARES);
+// Indexed by the full 4-bit castling rights mask (K=1, Q=2, k=4, q=8).
+export const ZOBRIST_CASTLING_LOW = new Uint32Array(16);
+export const ZOBRIST_CASTLING_HIGH = new Uint32Array(16);
+// Indexed by the file of the en passant target square.
+export const ZOBRIST_EN_PASSANT_LOW = new Uint32Array(8);
+export const ZOBRIST_EN_PASSANT_HIGH = new Uint32Array(8);
+
+// NOTE: Fixed seed so that keys are stable between runs and between boards.
+const random = mulberry32(0x0badc0de);
+fillRandom(ZOBRIST_PIECES_LOW, ZOBRIST_PIECES_HIGH);
+fillRandom(ZOBRIST_CASTLING_LOW, ZOBRIST_CASTLING_HIGH);
+fillRandom(ZOBRIST_EN_PASSANT_LOW, ZOBRIST_EN_PASSANT_HIGH);
+ZOBRIST_CASTLING_LOW[0] = 0;
+ZOBRIST_CASTLING_HIGH[0] = 0;
+
+/** XORed into the key when Black is to move. */
+export const ZOBRIST_BLACK_TO_MOVE_LOW = random();
+export const ZOBRIST_BLACK_TO_MOVE_HIGH = random();
+
+/**
+ * Index into the ZOBRIST_PIECES tables. `pieceType` is 1..6 (pawn..king) and
+ * `square` is a 0..63 index with a1 = 0 and h8 = 63.
+ */
+export function zobristPieceIndex(pieceType: number, isWhite: boolean, square: number): number {
+	return ((isWhite ? 0 : 6) + pieceType - 1) * ZOBRIST_SQUARES + square;
+}
+
+export function zobristKeyToBigInt(low: number, high: number): bigint {
+	return (BigInt(high >>> 0) << 32n) | BigInt(low >>> 0);
+}
+
+export function zobristKeyToHex(low: number, high: number): string {
+	return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+}
+
+function fillRandom(low: Uint32Array, high: Uint32Array): void {
+	for (let i = 0; i < low.length; i++) {
+		low[i] = random();
+		high[i] = random();
+	}
+}
+
+/** Small seeded PRNG; every call returns the next unsigned 32-bit integer. */
+export function mulberry32(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return (t ^ (t >>> 14)) >>> 0;
+	};
+}
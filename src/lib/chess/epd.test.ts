@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { PlayerColor } from '$lib/chess/board';
+import { epdToString, parseEpd, parseEpdFile } from '$lib/chess/epd';
+import { PieceId } from '$lib/chess/piece';
+
+const WAC_001 = '2rr3k/pp3pp1/1nnqbN1p/3pN3/2pP4/2P3Q1/PPB4P/R4RK1 w - - bm Qg6; id "WAC.001";';
+
+describe('EPD', () => {
+	it('parses the position and the standard opcodes', () => {
+		const epd = parseEpd(
+			'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - ' +
+				'bm Bb5 Bc4; am Nxe5; id "test; one"; ce +35; pv Bb5 a6 Ba4; c0 "Ruy Lopez"; c7 "x";'
+		);
+
+		expect(epd.board.pieces.get('c6')).toBe(PieceId.BLACK_KNIGHT);
+		expect(epd.board.turnColor).toBe(PlayerColor.WHITE);
+		expect(epd.board.canCastle.blackQueenSide).toBe(true);
+		expect(epd.board.halfMoveClock).toBe(0);
+		expect(epd.board.fullMoveNumber).toBe(1);
+		expect(epd).toMatchObject({
+			id: 'test; one',
+			bestMoves: ['Bb5', 'Bc4'],
+			avoidMoves: ['Nxe5'],
+			centipawnEvaluation: 35,
+			pv: ['Bb5', 'a6', 'Ba4'],
+			comments: { 0: 'Ruy Lopez', 7: 'x' },
+			operations: []
+		});
+	});
+
+	it('reads move counters from hmvc and fmvn and keeps other opcodes', () => {
+		const epd = parseEpd('4k3/8/8/8/8/8/8/4K3 b - - hmvc 12; fmvn 40; dm 3; tcgs "a b" c;');
+
+		expect(epd.board.halfMoveClock).toBe(12);
+		expect(epd.board.fullMoveNumber).toBe(40);
+		expect(epd.operations).toEqual([
+			{ opcode: 'dm', operands: ['3'] },
+			{ opcode: 'tcgs', operands: ['a b', 'c'] }
+		]);
+		expect(epdToString(epd)).toBe(
+			'4k3/8/8/8/8/8/8/4K3 b - - dm 3; tcgs "a b" c; hmvc 12; fmvn 40;'
+		);
+	});
+
+	it('writes back what it reads', () => {
+		expect(epdToString(parseEpd(WAC_001))).toBe(WAC_001);
+		const line = '4k3/8/8/3pP3/8/8/8/4K3 w - d6 bm exd6; am Kd1 Kf1; ce -20; pv exd6; c3 "c";';
+		expect(epdToString(parseEpd(line))).toBe(line);
+	});
+
+	it('reports invalid lines', () => {
+		expect(() => parseEpd('4k3/8/8/8/8/8/8/4K3 w -')).toThrow(/4 position fields/);
+		expect(() => parseEpd('4k3/8/8/8/8/8/8/4K3 x - - bm Kd2;')).toThrow(/Side to move/);
+		expect(() => parseEpd('4k3/8/8/8/8/8/8/4K3 w - - id "open;')).toThrow(/Unterminated/);
+		expect(() => parseEpd('4k3/8/8/8/8/8/8/4K3 w - - ce high;')).toThrow(/integer/);
+		expect(() => parseEpd('4k3/8/8/8/8/8/8/4K3 w - - id a b;')).toThrow(/1 operand/);
+		expect(() => parseEpdFile(`${WAC_001}\n\n4k3/8/8 w - -\n`)).toThrow(/^Line 3:/);
+		expect(parseEpdFile(`${WAC_001}\r\n\r\n${WAC_001}`)).toHaveLength(2);
+	});
+});
@@ -0,0 +1,216 @@
+import { type BoardInfo } from '$lib/chess/board';
+import { boardInfoToEngineFen } from '$lib/chess/engine/convert';
+import { getFenDiagnostics, parseFen } from '$lib/chess/fen';
+
+/** Opcodes with a meaning of their own; any other opcode is kept in `Epd.operations`. */
+export const EpdOpcode = {
+	BEST_MOVE: 'bm',
+	AVOID_MOVE: 'am',
+	ID: 'id',
+	CENTIPAWN_EVALUATION: 'ce',
+	PREDICTED_VARIATION: 'pv',
+	HALF_MOVE_CLOCK: 'hmvc',
+	FULL_MOVE_NUMBER: 'fmvn'
+} as const;
+export type EpdOpcode = (typeof EpdOpcode)[keyof typeof EpdOpcode];
+
+/** `c0` to `c9`. */
+export const EPD_COMMENT_COUNT = 10;
+
+export interface EpdOperation {
+	opcode: string;
+	/** Without the quotes of string operands. */
+	operands: string[];
+}
+
+/**
+ * One line of an EPD file: a position without move counters, followed by
+ * operations like `bm Qg6; id "WAC.001";`. Moves are in SAN, as written.
+ */
+export interface Epd {
+	/** Move counters come from the `hmvc` and `fmvn` operations, 0 and 1 without them. */
+	board: BoardInfo;
+	id: string | null;
+	bestMoves: string[];
+	avoidMoves: string[];
+	/** `ce`: centipawns from the perspective of the side to move. */
+	centipawnEvaluation: number | null;
+	pv: string[];
+	/** `c0` to `c9` by their digit. */
+	comments: Partial<Record<number, string>>;
+	/** Operations with other opcodes, written back unchanged by epdToString. */
+	operations: EpdOperation[];
+}
+
+const OPCODE_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,14}$/;
+const COMMENT_OPCODE_PATTERN = /^c([0-9])$/;
+
+/** Parses every non-empty line; errors name the line number. */
+export function parseEpdFile(text: string): Epd[] {
+	const records: Epd[] = [];
+	for (const [index, line] of text.split('\n').entries()) {
+		if (!line.trim()) continue;
+		try {
+			records.push(parseEpd(line));
+		} catch (error) {
+			throw new Error(`Line ${index + 1}: ${(error as Error).message}`);
+		}
+	}
+	return records;
+}
+
+export function parseEpd(line: string): Epd {
+	const match = /^\s*(\S+)\s+(\S+)\s+(\S+)\s+(\S+)(.*)$/.exec(line.replace(/\r$/, ''));
+	if (!match) {
+		throw new Error(`Invalid EPD: expected 4 position fields in "${line}"`);
+	}
+	const [, placement, turn, castling, enPassant, rest] = match;
+	const operations = parseOperations(rest);
+
+	const epd: Omit<Epd, 'board'> = {
+		id: null,
+		bestMoves: [],
+		avoidMoves: [],
+		centipawnEvaluation: null,
+		pv: [],
+		comments: {},
+		operations: []
+	};
+	let halfMoveClock = '0';
+	let fullMoveNumber = '1';
+	for (const operation of operations) {
+		const { opcode, operands } = operation;
+		const commentMatch = COMMENT_OPCODE_PATTERN.exec(opcode);
+		if (commentMatch) {
+			epd.comments[Number(commentMatch[1])] = singleOperand(operation);
+			continue;
+		}
+		switch (opcode) {
+			case EpdOpcode.BEST_MOVE:
+				epd.bestMoves = operands;
+				break;
+			case EpdOpcode.AVOID_MOVE:
+				epd.avoidMoves = operands;
+				break;
+			case EpdOpcode.ID:
+				epd.id = singleOperand(operation);
+				break;
+			case EpdOpcode.CENTIPAWN_EVALUATION:
+				epd.centipawnEvaluation = Number(integerOperand(operation));
+				break;
+			case EpdOpcode.PREDICTED_VARIATION:
+				epd.pv = operands;
+				break;
+			case EpdOpcode.HALF_MOVE_CLOCK:
+				halfMoveClock = integerOperand(operation);
+				break;
+			case EpdOpcode.FULL_MOVE_NUMBER:
+				fullMoveNumber = integerOperand(operation);
+				break;
+			default:
+				epd.operations.push(operation);
+		}
+	}
+
+	const fen = [placement, turn, castling, enPassant, halfMoveClock, fullMoveNumber].join(' ');
+	const [error] = getFenDiagnostics(fen);
+	if (error) {
+		throw new Error(`Invalid EPD position "${fen}": ${error.message}`);
+	}
+	return { board: parseFen(fen), ...epd };
+}
+
+/** One EPD line; the move counters are written as `hmvc` and `fmvn` when they are not 0 and 1. */
+export function epdToString(epd: Epd): string {
+	const position = boardInfoToEngineFen(epd.board).split(' ').slice(0, 4).join(' ');
+	const operations: string[] = [];
+	const add = (opcode: string, operands: string[]) =>
+		operations.push([opcode, ...operands].join(' ') + ';');
+
+	if (epd.bestMoves.length > 0) add(EpdOpcode.BEST_MOVE, epd.bestMoves);
+	if (epd.avoidMoves.length > 0) add(EpdOpcode.AVOID_MOVE, epd.avoidMoves);
+	if (epd.centipawnEvaluation !== null) {
+		add(EpdOpcode.CENTIPAWN_EVALUATION, [String(epd.centipawnEvaluation)]);
+	}
+	if (epd.pv.length > 0) add(EpdOpcode.PREDICTED_VARIATION, epd.pv);
+	if (epd.id !== null) add(EpdOpcode.ID, [quote(epd.id)]);
+	for (let index = 0; index < EPD_COMMENT_COUNT; index++) {
+		const comment = epd.comments[index];
+		if (comment !== undefined) add(`c${index}`, [quote(comment)]);
+	}
+	for (const { opcode, operands } of epd.operations) {
+		add(
+			opcode,
+			operands.map((operand) => (/^[^\s";]+$/.test(operand) ? operand : quote(operand)))
+		);
+	}
+	if (epd.board.halfMoveClock !== 0) {
+		add(EpdOpcode.HALF_MOVE_CLOCK, [String(epd.board.halfMoveClock)]);
+	}
+	// NOTE: newBoardInfo starts counting moves from 0, like boardInfoToEngineFen this writes 1.
+	if (epd.board.fullMoveNumber > 1) {
+		add(EpdOpcode.FULL_MOVE_NUMBER, [String(epd.board.fullMoveNumber)]);
+	}
+	return [position, ...operations].join(' ');
+}
+
+function parseOperations(text: string): EpdOperation[] {
+	const operations: EpdOperation[] = [];
+	let offset = 0;
+	const skipSpaces = () => {
+		while (offset < text.length && /\s/.test(text[offset])) offset++;
+	};
+	const readToken = () => {
+		const start = offset;
+		while (offset < text.length && !/[\s;]/.test(text[offset])) offset++;
+		return text.slice(start, offset);
+	};
+
+	skipSpaces();
+	while (offset < text.length) {
+		const opcode = readToken();
+		if (!OPCODE_PATTERN.test(opcode)) {
+			throw new Error(`Invalid EPD opcode "${opcode || text[offset]}" at ${offset}`);
+		}
+		const operands: string[] = [];
+		skipSpaces();
+		while (offset < text.length && text[offset] !== ';') {
+			if (text[offset] === '"') {
+				const end = text.indexOf('"', offset + 1);
+				if (end < 0) {
+					throw new Error(`Unterminated string operand of "${opcode}"`);
+				}
+				operands.push(text.slice(offset + 1, end));
+				offset = end + 1;
+			} else {
+				operands.push(readToken());
+			}
+			skipSpaces();
+		}
+		// NOTE: The last operation is accepted without its `;`, a common mistake in hand-written suites.
+		offset++;
+		operations.push({ opcode, operands });
+		skipSpaces();
+	}
+	return operations;
+}
+
+function singleOperand({ opcode, operands }: EpdOperation): string {
+	if (operands.length !== 1) {
+		throw new Error(`EPD opcode "${opcode}" expects 1 operand, got ${operands.length}`);
+	}
+	return operands[0];
+}
+
+function integerOperand(operation: EpdOperation): string {
+	const operand = singleOperand(operation);
+	if (!/^[-+]?\d+$/.test(operand)) {
+		throw new Error(`EPD opcode "${operation.opcode}" expects an integer, got "${operand}"`);
+	}
+	return String(Number(operand));
+}
+
+function quote(value: string): string {
+	// NOTE: EPD has no escapes; a quote would end the string early.
+	return `"${value.replaceAll('"', "'")}"`;
+}
@@ -1,17 +1,75 @@
 import { describe, expect, it } from 'vitest';
 
 import { PlayerColor } from '$lib/chess/board';
-import { boardToFen, parseFen, validateFen } from '$lib/chess/fen';
+import { FenField, boardToFen, getFenDiagnostics, parseFen, validateFen } from '$lib/chess/fen';
 import { PieceId } from '$lib/chess/piece';
 
 describe('FEN helpers', () => {
 	it('validates piece placement structure', () => {
-		expect(validateFen('8/8/8/8/8/8/8/4K3 w - - 0 1')).toBe(true);
+		expect(validateFen('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe(true);
 		expect(validateFen('8/8/8/8/8/8/8/4X3 w - - 0 1')).toBe(false);
 		expect(validateFen('8/8/8/8/8/8/8/5K3 w - - 0 1')).toBe(false);
 		expect(validateFen('')).toBe(false);
 	});
 
+	it('reports syntax errors of every field with their offsets', () => {
+		const diagnostics = getFenDiagnostics('8/8/8/8/8/8/8/4X3 x KK e4 -1 0');
+
+		expect(diagnostics.map(({ field, offset, length }) => [field, offset, length])).toEqual([
+			[FenField.PIECE_PLACEMENT, 15, 1],
+			[FenField.TURN, 18, 1],
+			[FenField.CASTLING, 21, 1],
+			[FenField.EN_PASSANT, 23, 2],
+			[FenField.HALF_MOVE_CLOCK, 26, 2],
+			[FenField.FULL_MOVE_NUMBER, 29, 1]
+		]);
+		expect(diagnostics[0].message).toMatch(/"X"/);
+		expect(getFenDiagnostics('8/8/8/8/8/8/8/5K3 w - -')).toEqual([
+			expect.objectContaining({ field: FenField.PIECE_PLACEMENT, offset: 14, length: 3 }),
+			expect.objectContaining({ field: FenField.HALF_MOVE_CLOCK, offset: 23, length: 0 }),
+			expect.objectContaining({ field: FenField.FULL_MOVE_NUMBER, offset: 23, length: 0 })
+		]);
+		expect(getFenDiagnostics('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toEqual(
+			[]
+		);
+	});
+
+	it('reports positions that cannot happen in a game', () => {
+		const messages = (fen: string) =>
+			getFenDiagnostics(fen).map(({ field, message }) => [field, message]);
+
+		expect(messages('4k3/8/8/8/8/8/8/4K2P w - - 0 1')).toEqual([
+			[FenField.PIECE_PLACEMENT, 'Pawn on h1: pawns cannot stand on rank 1 or 8']
+		]);
+		expect(messages('4k3/8/8/8/8/8/8/8 w - - 0 1')).toEqual([
+			[FenField.PIECE_PLACEMENT, 'White has no king']
+		]);
+		expect(messages('4k3/8/8/8/8/8/8/4K2R w - - 0 1')).toEqual([]);
+		expect(messages('4k3/8/8/8/8/8/8/4R2K w - - 0 1')).toEqual([
+			[FenField.TURN, "Black is in check, but it is not Black's move"]
+		]);
+		expect(messages('4k3/pppppppp/pppppppp/8/8/PPPPPPPP/PPPPPPPP/4K3 w - - 0 1')).toEqual([
+			[FenField.PIECE_PLACEMENT, 'White has 16 pawns: a side cannot have more than 8'],
+			[FenField.PIECE_PLACEMENT, 'Black has 16 pawns: a side cannot have more than 8']
+		]);
+		expect(validateFen('4k3/pppppppp/pppppppp/8/8/PPPPPPPP/PPPPPPPP/4K3 w - - 0 1')).toBe(false);
+		expect(messages('4k3/8/8/8/8/8/PPPPPPP1/QQQ1K3 w - - 0 1')).toEqual([
+			[FenField.PIECE_PLACEMENT, 'White has more promoted pieces than missing pawns']
+		]);
+		expect(messages('4k3/8/8/8/8/8/PPPPPP2/QQQ1K3 w - - 0 1')).toEqual([]);
+		expect(messages('4k3/8/8/8/3P4/8/8/4K3 b - d3 0 1')).toEqual([]);
+		expect(messages('4k3/8/8/8/8/8/8/4K3 b - d3 0 1')).toEqual([
+			[FenField.EN_PASSANT, 'No pawn on d4 that could have just moved past d3']
+		]);
+		expect(messages('4k3/8/8/8/3P4/8/8/4K3 w - d3 0 1')).toEqual([
+			[FenField.EN_PASSANT, 'En passant square must be on rank 6 when White is to move']
+		]);
+		expect(messages('4k3/8/8/8/8/8/8/5K1R w KQk - 0 1')).toEqual([
+			[FenField.CASTLING, '"Q": there is no white rook on the queen side of rank 1'],
+			[FenField.CASTLING, '"k": there is no black rook on the king side of rank 8']
+		]);
+	});
+
 	it('parses board pieces and metadata', () => {
 		const board = parseFen('4k3/8/8/3pP3/8/8/8/4K3 b Kq d6 7 22');
 
@@ -53,4 +111,32 @@ describe('FEN helpers', () => {
 		expect(halfMove).toBe('7');
 		expect(fullMove).toBe('22');
 	});
+
+	it('reads X-FEN and Shredder-FEN castling fields of Chess960 positions', () => {
+		const shredder = parseFen('bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9');
+		const xFen = parseFen('bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w KQkq - 2 9');
+
+		for (const board of [shredder, xFen]) {
+			expect(board.canCastle).toEqual({
+				whiteKingSide: true,
+				whiteQueenSide: true,
+				blackKingSide: true,
+				blackQueenSide: true,
+				rookFiles: {
+					[PlayerColor.WHITE]: { kingSide: 'h', queenSide: 'f' },
+					[PlayerColor.BLACK]: { kingSide: 'h', queenSide: 'f' }
+				}
+			});
+			expect(boardToFen(board).split(' ')[2]).toBe('HFhf');
+		}
+	});
+
+	it('keeps standard castling fields for kings on e and rooks on a/h', () => {
+		const board = parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+
+		expect(board.canCastle.rookFiles).toBeUndefined();
+		expect(boardToFen(board).split(' ')[2]).toBe('KQkq');
+		expect(parseFen('r3k2r/8/8/8/8/8/8/R3K2R w HAha - 0 1').canCastle.rookFiles).toBeDefined();
+		expect(() => parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KX - 0 1')).toThrow(/castling rights/);
+	});
 });
@@ -2,44 +2,375 @@ import {
 	BOARD_FILES,
 	BOARD_RANKS,
 	BoardMap,
+	EnPassantRank,
+	InitialRank,
 	PlayerColor,
 	Position,
+	STANDARD_ROOK_FILES,
+	isBoardFile,
 	isPositionStr,
-	type BoardInfo
+	type BoardFile,
+	type BoardInfo,
+	type CastlingRights,
+	type CastlingRookFiles,
+	type PositionStr
 } from '$lib/chess/board';
+import {
+	BoardInt8,
+	PieceColor as EnginePieceColor,
+	squareFromAlgebraic
+} from '$lib/chess/engine/int8';
 import { isNumberChar } from '$lib/number';
 import { PieceId } from '$lib/chess/piece';
 
 export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
+export const FenField = {
+	PIECE_PLACEMENT: 'piecePlacement',
+	TURN: 'turn',
+	CASTLING: 'castling',
+	EN_PASSANT: 'enPassant',
+	HALF_MOVE_CLOCK: 'halfMoveClock',
+	FULL_MOVE_NUMBER: 'fullMoveNumber'
+} as const;
+export type FenField = (typeof FenField)[keyof typeof FenField];
+
+const FEN_FIELDS: FenField[] = Object.values(FenField);
+
+export interface FenDiagnostic {
+	field: FenField;
+	/** Offset of the first character the message is about, in the whole FEN string. */
+	offset: number;
+	length: number;
+	message: string;
+}
+
+/** Whether the FEN has no diagnostics, see getFenDiagnostics. */
 export function validateFen(fen: string): boolean {
-	if (!fen) return false;
+	return getFenDiagnostics(fen).length === 0;
+}
 
-	const fenParts = fen.split(' ');
-	if (fenParts.length !== 6) return false;
-	// TODO: @Incomplete: Validate turn, castling rights, en passant target, half move clock, and full move number
-	const [piecePlacement] = fenParts;
-	if (!piecePlacement) return false;
-
-	const rows = piecePlacement.split('/');
-	if (rows.length !== 8) return false;
-
-	for (const row of rows) {
-		let sum = 0;
-		for (const char of row) {
-			if (!isNaN(Number(char))) {
-				sum += Number(char);
+/**
+ * Every problem of the FEN, ordered by offset. The position is only checked
+ * for consistency (kings, piece counts, pawns, check, en passant and
+ * castling) when all fields can be read.
+ */
+export function getFenDiagnostics(fen: string): FenDiagnostic[] {
+	const diagnostics: FenDiagnostic[] = [];
+	const fields: { value: string; offset: number }[] = [];
+	let offset = 0;
+	for (const value of fen.split(' ')) {
+		fields.push({ value, offset });
+		offset += value.length + 1;
+	}
+
+	for (const [index, field] of FEN_FIELDS.entries()) {
+		const { value, offset } = fields[index] ?? { value: '', offset: fen.length };
+		if (!value) {
+			const message = fields[index]
+				? `Empty ${FIELD_NAMES[field]}`
+				: `Missing ${FIELD_NAMES[field]}`;
+			diagnostics.push({ field, offset, length: 0, message });
+			continue;
+		}
+		diagnostics.push(...FIELD_VALIDATORS[field](value, offset));
+	}
+	if (fields.length > FEN_FIELDS.length) {
+		const { offset } = fields[FEN_FIELDS.length];
+		diagnostics.push({
+			field: FenField.FULL_MOVE_NUMBER,
+			offset: offset - 1,
+			length: fen.length - offset + 1,
+			message: 'Unexpected text after the full move number'
+		});
+	}
+
+	if (diagnostics.length === 0) {
+		diagnostics.push(...getPositionDiagnostics(fen, fields));
+	}
+	return diagnostics.sort((a, b) => a.offset - b.offset);
+}
+
+const FIELD_NAMES: Record<FenField, string> = {
+	[FenField.PIECE_PLACEMENT]: 'piece placement',
+	[FenField.TURN]: 'side to move',
+	[FenField.CASTLING]: 'castling rights',
+	[FenField.EN_PASSANT]: 'en passant square',
+	[FenField.HALF_MOVE_CLOCK]: 'half move clock',
+	[FenField.FULL_MOVE_NUMBER]: 'full move number'
+};
+
+type FieldValidator = (value: string, offset: number) => FenDiagnostic[];
+
+const FIELD_VALIDATORS: Record<FenField, FieldValidator> = {
+	[FenField.PIECE_PLACEMENT]: validatePiecePlacement,
+	[FenField.TURN]: (value, offset) =>
+		value === 'w' || value === 'b'
+			? []
+			: [fenError(FenField.TURN, offset, value.length, 'Side to move must be "w" or "b"')],
+	[FenField.CASTLING]: validateCastlingField,
+	[FenField.EN_PASSANT]: (value, offset) =>
+		value === '-' || (isPositionStr(value) && (value[1] === '3' || value[1] === '6'))
+			? []
+			: [
+					fenError(
+						FenField.EN_PASSANT,
+						offset,
+						value.length,
+						'En passant square must be "-" or a square on rank 3 or 6'
+					)
+				],
+	[FenField.HALF_MOVE_CLOCK]: (value, offset) =>
+		/^\d+$/.test(value)
+			? []
+			: [
+					fenError(
+						FenField.HALF_MOVE_CLOCK,
+						offset,
+						value.length,
+						'Half move clock must be a number'
+					)
+				],
+	[FenField.FULL_MOVE_NUMBER]: (value, offset) =>
+		/^\d+$/.test(value) && Number(value) >= 1
+			? []
+			: [
+					fenError(
+						FenField.FULL_MOVE_NUMBER,
+						offset,
+						value.length,
+						'Full move number must be a number from 1'
+					)
+				]
+};
+
+function fenError(field: FenField, offset: number, length: number, message: string): FenDiagnostic {
+	return { field, offset, length, message };
+}
+
+function validatePiecePlacement(value: string, offset: number): FenDiagnostic[] {
+	const field = FenField.PIECE_PLACEMENT;
+	const ranks = value.split('/');
+	if (ranks.length !== 8) {
+		return [fenError(field, offset, value.length, `Expected 8 ranks, found ${ranks.length}`)];
+	}
+
+	const diagnostics: FenDiagnostic[] = [];
+	let rankOffset = offset;
+	for (const [index, rank] of ranks.entries()) {
+		const rankName = BOARD_RANKS[BOARD_RANKS.length - 1 - index];
+		let squares = 0;
+		for (const [charIndex, char] of [...rank].entries()) {
+			if (char >= '1' && char <= '8') {
+				squares += Number(char);
+			} else if (PieceId.isPiece(char)) {
+				squares += 1;
 			} else {
-				if (!PieceId.isPiece(char.toLowerCase())) {
-					return false;
-				}
-				sum += 1;
+				const message = `Unexpected "${char}": expected a piece letter or a digit from 1 to 8`;
+				diagnostics.push(fenError(field, rankOffset + charIndex, 1, message));
+				squares = NaN;
+				break;
 			}
 		}
-		if (sum !== 8) return false;
+		if (!isNaN(squares) && squares !== 8) {
+			const message = `Rank ${rankName} has ${squares} squares instead of 8`;
+			diagnostics.push(fenError(field, rankOffset, rank.length, message));
+		}
+		rankOffset += rank.length + 1;
+	}
+	return diagnostics;
+}
+
+function validateCastlingField(value: string, offset: number): FenDiagnostic[] {
+	if (value === '-') return [];
+	const diagnostics: FenDiagnostic[] = [];
+	for (const [index, char] of [...value].entries()) {
+		if (!/^[KQkqA-Ha-h]$/.test(char)) {
+			const message = `Unexpected "${char}": expected "-" or K, Q, k, q or a rook file`;
+			diagnostics.push(fenError(FenField.CASTLING, offset + index, 1, message));
+		} else if (value.indexOf(char) !== index) {
+			diagnostics.push(fenError(FenField.CASTLING, offset + index, 1, `Repeated "${char}"`));
+		}
+	}
+	return diagnostics;
+}
+
+/** Consistency of a position whose fields are all readable. */
+function getPositionDiagnostics(
+	fen: string,
+	fields: { value: string; offset: number }[]
+): FenDiagnostic[] {
+	const board = parseFen(fen);
+	const placement = fields[0];
+	const diagnostics: FenDiagnostic[] = [];
+	const field = FenField.PIECE_PLACEMENT;
+	// NOTE: Offsets of the placement characters by square, to point at single pieces.
+	const pieceOffsets = new Map<string, number>();
+	let rankIndex = BOARD_RANKS.length - 1;
+	let fileIndex = 0;
+	for (const [index, char] of [...placement.value].entries()) {
+		if (char === '/') {
+			rankIndex--;
+			fileIndex = 0;
+		} else if (isNumberChar(char)) {
+			fileIndex += Number(char);
+		} else {
+			pieceOffsets.set(
+				`${BOARD_FILES[fileIndex]}${BOARD_RANKS[rankIndex]}`,
+				placement.offset + index
+			);
+			fileIndex++;
+		}
+	}
+
+	const kings: Record<PlayerColor, PositionStr[]> = {
+		[PlayerColor.WHITE]: [],
+		[PlayerColor.BLACK]: []
+	};
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.isKing(piece)) kings[PieceId.getColor(piece)].push(position);
+		if (PieceId.isPawn(piece) && (position[1] === '1' || position[1] === '8')) {
+			const message = `Pawn on ${position}: pawns cannot stand on rank 1 or 8`;
+			diagnostics.push(fenError(field, pieceOffsets.get(position)!, 1, message));
+		}
+	}
+	for (const color of [PlayerColor.WHITE, PlayerColor.BLACK]) {
+		const name = color === PlayerColor.WHITE ? 'White' : 'Black';
+		if (kings[color].length === 0) {
+			const message = `${name} has no king`;
+			diagnostics.push(fenError(field, placement.offset, placement.value.length, message));
+		}
+		for (const extraKing of kings[color].slice(1)) {
+			const message = `${name} has more than one king`;
+			diagnostics.push(fenError(field, pieceOffsets.get(extraKing)!, 1, message));
+		}
+		const message = getPieceCountMessage(board, color);
+		if (message) {
+			diagnostics.push(fenError(field, placement.offset, placement.value.length, message));
+		}
+	}
+
+	// NOTE: The engine board only takes positions with one king per side and
+	//       at most 16 pieces each, which the checks above make sure of.
+	if (diagnostics.length === 0 && isSideNotToMoveInCheck(board, fields)) {
+		const waiting = board.turnColor === PlayerColor.WHITE ? 'Black' : 'White';
+		const { offset, value } = fields[1];
+		const message = `${waiting} is in check, but it is not ${waiting}'s move`;
+		diagnostics.push(fenError(FenField.TURN, offset, value.length, message));
+	}
+
+	diagnostics.push(...getEnPassantDiagnostics(board, fields[3]));
+	diagnostics.push(...getCastlingDiagnostics(board, fields[2]));
+	return diagnostics;
+}
+
+/** Each side starts with 8 pawns, and every extra piece must be a promoted one. */
+function getPieceCountMessage(board: BoardInfo, color: PlayerColor): string | null {
+	const counts = { pawns: 0, queens: 0, rooks: 0, bishops: 0, knights: 0 };
+	for (const [, piece] of board.pieces) {
+		if (PieceId.getColor(piece) !== color) continue;
+		if (PieceId.isPawn(piece)) counts.pawns++;
+		else if (PieceId.isQueen(piece)) counts.queens++;
+		else if (PieceId.isRook(piece)) counts.rooks++;
+		else if (PieceId.isBishop(piece)) counts.bishops++;
+		else if (PieceId.isKnight(piece)) counts.knights++;
+	}
+
+	const name = color === PlayerColor.WHITE ? 'White' : 'Black';
+	if (counts.pawns > 8) {
+		return `${name} has ${counts.pawns} pawns: a side cannot have more than 8`;
+	}
+	const promoted =
+		Math.max(0, counts.queens - 1) +
+		Math.max(0, counts.rooks - 2) +
+		Math.max(0, counts.bishops - 2) +
+		Math.max(0, counts.knights - 2);
+	if (counts.pawns + promoted > 8) {
+		return `${name} has more promoted pieces than missing pawns`;
 	}
+	return null;
+}
+
+function isSideNotToMoveInCheck(
+	board: BoardInfo,
+	fields: { value: string; offset: number }[]
+): boolean {
+	// NOTE: Castling and en passant are left out: they do not change attacks.
+	const engineBoard = new BoardInt8(`${fields[0].value} ${fields[1].value} - - 0 1`);
+	const waitingKing =
+		board.turnColor === PlayerColor.WHITE ? PieceId.BLACK_KING : PieceId.WHITE_KING;
+	return engineBoard.isSquareAttacked(
+		squareFromAlgebraic(board.pieces.findPositionFor(waitingKing)!),
+		board.turnColor === PlayerColor.WHITE ? EnginePieceColor.WHITE : EnginePieceColor.BLACK
+	);
+}
+
+function getEnPassantDiagnostics(
+	board: BoardInfo,
+	{ value, offset }: { value: string; offset: number }
+): FenDiagnostic[] {
+	const target = board.enPassantTarget;
+	if (!target) return [];
+
+	const isWhiteToMove = board.turnColor === PlayerColor.WHITE;
+	const error = (message: string) => [fenError(FenField.EN_PASSANT, offset, value.length, message)];
+	if (target.rank !== (isWhiteToMove ? EnPassantRank.BLACK : EnPassantRank.WHITE)) {
+		return error(
+			`En passant square must be on rank ${isWhiteToMove ? EnPassantRank.BLACK : EnPassantRank.WHITE} when ${isWhiteToMove ? 'White' : 'Black'} is to move`
+		);
+	}
+	// NOTE: The pawn that was just pushed two squares passed the target and
+	//       left its start square empty.
+	const direction = isWhiteToMove ? -1 : 1;
+	const pawnSquare = `${target.file}${target.rankIndex() + 1 + direction}` as PositionStr;
+	const startSquare = `${target.file}${target.rankIndex() + 1 - direction}` as PositionStr;
+	const pawn = isWhiteToMove ? PieceId.BLACK_PAWN : PieceId.WHITE_PAWN;
+	if (board.pieces.get(pawnSquare) !== pawn) {
+		return error(`No pawn on ${pawnSquare} that could have just moved past ${value}`);
+	}
+	if (board.pieces.has(target) || board.pieces.has(startSquare)) {
+		return error(
+			`A pawn cannot have just moved from ${startSquare} past ${value}: it is not empty`
+		);
+	}
+	return [];
+}
+
+function getCastlingDiagnostics(
+	board: BoardInfo,
+	{ value, offset }: { value: string; offset: number }
+): FenDiagnostic[] {
+	if (value === '-') return [];
+	const diagnostics: FenDiagnostic[] = [];
+	for (const [index, char] of [...value].entries()) {
+		const isWhite = char === char.toUpperCase();
+		const name = isWhite ? 'White' : 'Black';
+		const rank = isWhite ? InitialRank.WHITE : InitialRank.BLACK;
+		const king = isWhite ? PieceId.WHITE_KING : PieceId.BLACK_KING;
+		const rook = isWhite ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+		const kingFileIndex = BOARD_FILES.findIndex(
+			(file) => board.pieces.get(`${file}${rank}`) === king
+		);
+		const error = (message: string) =>
+			diagnostics.push(fenError(FenField.CASTLING, offset + index, 1, message));
+		if (kingFileIndex < 0) {
+			error(`"${char}": the ${name.toLowerCase()} king is not on rank ${rank}`);
+			continue;
+		}
 
-	return true;
+		const letter = char.toLowerCase();
+		const rookFiles =
+			letter === 'k'
+				? BOARD_FILES.slice(kingFileIndex + 1)
+				: letter === 'q'
+					? BOARD_FILES.slice(0, kingFileIndex)
+					: BOARD_FILES.filter((file) => file === letter);
+		if (!rookFiles.some((file) => board.pieces.get(`${file}${rank}`) === rook)) {
+			const side = letter === 'k' ? 'king side' : letter === 'q' ? 'queen side' : `${letter}-file`;
+			error(`"${char}": there is no ${name.toLowerCase()} rook on the ${side} of rank ${rank}`);
+		}
+	}
+	return diagnostics;
 }
 
 export function boardToFen(fen: BoardInfo): string {
@@ -70,13 +401,7 @@ export function boardToFen(fen: BoardInfo): string {
 	const placement = rows.join('/');
 	const turn = fen.turnColor;
 
-	let castling = '';
-	if (fen.canCastle.whiteKingSide) castling += 'K';
-	if (fen.canCastle.whiteQueenSide) castling += 'Q';
-	if (fen.canCastle.blackKingSide) castling += 'k';
-	if (fen.canCastle.blackQueenSide) castling += 'q';
-	if (!castling) castling = '-';
-
+	const castling = castlingRightsToFen(fen.canCastle);
 	const enPassant = fen.enPassantTarget || '-';
 	const halfMove = fen.halfMoveClock;
 	const fullMove = fen.fullMoveNumber;
@@ -126,12 +451,7 @@ export function parseFen(fen: string): BoardInfo {
 	}
 
 	const turnColor = turnStr === 'w' ? PlayerColor.WHITE : PlayerColor.BLACK;
-	const canCastle = {
-		whiteKingSide: castlingRightsStr.includes('K'),
-		whiteQueenSide: castlingRightsStr.includes('Q'),
-		blackKingSide: castlingRightsStr.includes('k'),
-		blackQueenSide: castlingRightsStr.includes('q')
-	};
+	const canCastle = parseCastlingRights(castlingRightsStr, pieces);
 
 	let enPassantTarget: Position | null = null;
 	if (enPassantTargetStr !== '-') {
@@ -163,3 +483,87 @@ export function parseFen(fen: string): BoardInfo {
 
 	return board;
 }
+
+function castlingRightsToFen(castling: CastlingRights): string {
+	let fen = '';
+	if (castling.rookFiles) {
+		// NOTE: Shredder-FEN: the file of every castling rook, so that the FEN
+		//       stays unambiguous whatever rooks stand next to them.
+		const { white, black } = castling.rookFiles;
+		if (castling.whiteKingSide) fen += white.kingSide.toUpperCase();
+		if (castling.whiteQueenSide) fen += white.queenSide.toUpperCase();
+		if (castling.blackKingSide) fen += black.kingSide;
+		if (castling.blackQueenSide) fen += black.queenSide;
+	} else {
+		if (castling.whiteKingSide) fen += 'K';
+		if (castling.whiteQueenSide) fen += 'Q';
+		if (castling.blackKingSide) fen += 'k';
+		if (castling.blackQueenSide) fen += 'q';
+	}
+	return fen || '-';
+}
+
+/**
+ * Reads standard, X-FEN and Shredder-FEN castling fields. `K`/`Q` castle with
+ * the outermost rook on that side of the king, a file letter names the rook.
+ * The game is Chess960 (`rookFiles` is set) when a file letter is used or a
+ * right belongs to a king off the e-file or a rook off the a/h files.
+ */
+function parseCastlingRights(castlingStr: string, pieces: BoardMap<PieceId>): CastlingRights {
+	const canCastle: CastlingRights = {
+		whiteKingSide: false,
+		whiteQueenSide: false,
+		blackKingSide: false,
+		blackQueenSide: false
+	};
+	if (castlingStr === '-') return canCastle;
+
+	const rookFiles: Record<PlayerColor, CastlingRookFiles> = {
+		[PlayerColor.WHITE]: { ...STANDARD_ROOK_FILES },
+		[PlayerColor.BLACK]: { ...STANDARD_ROOK_FILES }
+	};
+	let isChess960 = false;
+	for (const char of castlingStr) {
+		const color = char === char.toUpperCase() ? PlayerColor.WHITE : PlayerColor.BLACK;
+		const isWhite = color === PlayerColor.WHITE;
+		const rank = isWhite ? InitialRank.WHITE : InitialRank.BLACK;
+		const kingFile = BOARD_FILES.find(
+			(file) => pieces.get(`${file}${rank}`) === (isWhite ? PieceId.WHITE_KING : PieceId.BLACK_KING)
+		);
+		// NOTE: Without a king on the back rank castling is impossible anyway.
+		const kingFileIndex = BOARD_FILES.indexOf(kingFile ?? 'e');
+		const rook = isWhite ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+
+		const letter = char.toLowerCase();
+		let isKingSide: boolean;
+		let rookFile: BoardFile | undefined;
+		if (letter === 'k' || letter === 'q') {
+			isKingSide = letter === 'k';
+			const files = isKingSide
+				? BOARD_FILES.slice(kingFileIndex + 1).reverse()
+				: BOARD_FILES.slice(0, kingFileIndex);
+			rookFile = kingFile && files.find((file) => pieces.get(`${file}${rank}`) === rook);
+		} else if (isBoardFile(letter)) {
+			rookFile = letter;
+			isKingSide = BOARD_FILES.indexOf(letter) > kingFileIndex;
+			isChess960 = true;
+		} else {
+			throw new Error(`Invalid castling rights in FEN string: ${castlingStr}`);
+		}
+
+		const side = isKingSide ? 'kingSide' : 'queenSide';
+		rookFile ??= STANDARD_ROOK_FILES[side];
+		if (kingFile && (kingFile !== 'e' || rookFile !== STANDARD_ROOK_FILES[side])) {
+			isChess960 = true;
+		}
+		rookFiles[color][side] = rookFile;
+		if (isWhite) {
+			canCastle[isKingSide ? 'whiteKingSide' : 'whiteQueenSide'] = true;
+		} else {
+			canCastle[isKingSide ? 'blackKingSide' : 'blackQueenSide'] = true;
+		}
+	}
+
+	if (isChess960) canCastle.rookFiles = rookFiles;
+	return canCastle;
+}
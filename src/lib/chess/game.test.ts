@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { Position, type PositionStr } from '$lib/chess/board';
+import { boardToFen, INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import { Game } from '$lib/chess/game';
+import { applyMove, calculateMove, type Move } from '$lib/chess/moves';
+import { parsePGNMoves } from '$lib/chess/pgn';
+
+function play(game: Game, from: PositionStr, to: PositionStr): Move {
+	const [move, error] = calculateMove(game.position, Position.fromStr(from), Position.fromStr(to));
+	if (!move) throw new Error(`Illegal move ${from}${to}: ${error.type}`);
+	game.makeMove(move);
+	return move;
+}
+
+describe('Game', () => {
+	it('matches applyMove and restores every position on undo', () => {
+		const { moves } = parsePGNMoves(
+			'1. e4 d5 2. exd5 c5 3. dxc6 Nf6 4. cxb7 Bd7 5. bxa8=Q Qc7 6. Nf3 e5 7. Be2 Bd6 8. O-O O-O'
+		);
+		const game = Game.fromFen(INITIAL_FEN);
+		let expected = parseFen(INITIAL_FEN);
+		const fens = [boardToFen(expected)];
+		for (const move of moves) {
+			game.makeMove(move);
+			expected = applyMove(expected, move);
+			expect(game.snapshot()).toEqual(expected);
+			fens.push(boardToFen(expected));
+		}
+
+		for (let ply = moves.length; ply > 0; ply--) {
+			expect(game.undo()).toBe(moves[ply - 1]);
+			expect(boardToFen(game.position)).toBe(fens[ply - 1]);
+		}
+		expect(game.undo()).toBeNull();
+		expect(game.position.moves).toEqual([]);
+		expect(game.position.canCastle).toEqual(parseFen(INITIAL_FEN).canCastle);
+	});
+
+	it('jumps to any ply of the line', () => {
+		const { moves } = parsePGNMoves('1. d4 d5 2. c4 e6 3. Nc3 Nf6');
+		const game = Game.fromFen(INITIAL_FEN);
+		for (const move of moves) game.makeMove(move);
+
+		game.goToPly(2);
+		expect(game.ply).toBe(2);
+		expect(game.length).toBe(6);
+		expect(game.position.moves.map((move) => move.algebraic)).toEqual(['d4', 'd5']);
+
+		game.goToPly(5);
+		expect(boardToFen(game.position)).toBe(moves[5].fen);
+		expect(game.getMoves()).toEqual(moves);
+		expect(() => game.goToPly(7)).toThrow('Ply 7 is outside of the game (0-6)');
+	});
+
+	it('keeps the rest of the line only while the same moves are replayed', () => {
+		const game = Game.fromFen(INITIAL_FEN);
+		play(game, 'e2', 'e4');
+		play(game, 'e7', 'e5');
+		play(game, 'g1', 'f3');
+		game.goToPly(1);
+
+		play(game, 'e7', 'e5');
+		expect(game.length).toBe(3);
+		play(game, 'b1', 'c3');
+		expect(game.length).toBe(3);
+		expect(game.getMoves().map((move) => move.algebraic)).toEqual(['e4', 'e5', 'Nc3']);
+		expect(game.redo()).toBeNull();
+	});
+
+	it('hands out snapshots that later moves do not change', () => {
+		const game = Game.fromFen(INITIAL_FEN);
+		const before = game.snapshot();
+		play(game, 'e2', 'e4');
+
+		expect(before.pieces.get('e2')).toBe('P');
+		expect(before.moves).toEqual([]);
+		expect(game.position.pieces.get('e4')).toBe('P');
+	});
+});
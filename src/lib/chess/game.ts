@@ -0,0 +1,100 @@
+import { cloneBoardInfo, type BoardInfo } from '$lib/chess/board';
+import { parseFen } from '$lib/chess/fen';
+import {
+	makeMoveInPlace,
+	moveEquals,
+	unmakeMoveInPlace,
+	type Move,
+	type MoveUndo
+} from '$lib/chess/moves';
+
+/**
+ * A game as a cursor over a line of moves. Moves are made and taken back on
+ * one board with undo records, instead of cloning the BoardInfo on every move
+ * like applyMove; a copy is made only when `snapshot` is called. Taken back
+ * moves stay in the line until a different move is made in their place.
+ */
+export class Game {
+	private readonly board: BoardInfo;
+	private readonly undos: MoveUndo[] = [];
+	// NOTE: Moves after the cursor, the next one last.
+	private readonly nextMoves: Move[] = [];
+
+	/** Starts from a copy of `start`; its moves are history that cannot be taken back. */
+	constructor(start: BoardInfo) {
+		this.board = cloneBoardInfo(start);
+	}
+
+	static fromFen(fen: string): Game {
+		return new Game(parseFen(fen));
+	}
+
+	/**
+	 * The current position, changed in place by every later call. Must not be
+	 * modified; use `snapshot` to keep it.
+	 */
+	get position(): BoardInfo {
+		return this.board;
+	}
+
+	/** Moves made from the start position up to the cursor. */
+	get ply(): number {
+		return this.undos.length;
+	}
+
+	/** Moves in the line from the start position, including those after the cursor. */
+	get length(): number {
+		return this.undos.length + this.nextMoves.length;
+	}
+
+	/** Moves of the line from the start position, including those after the cursor. */
+	getMoves(): Move[] {
+		const history = this.board.moves.length - this.undos.length;
+		return [...this.board.moves.slice(history), ...[...this.nextMoves].reverse()];
+	}
+
+	/**
+	 * Plays the move at the cursor. When it differs from the next move of the
+	 * line, the rest of the line is dropped. The move is not validated.
+	 */
+	makeMove(move: Move): void {
+		if (this.board.pieces.get(move.from) !== move.piece) {
+			throw new Error(`Piece at ${move.from} does not match the move piece: ${move.piece}`);
+		}
+		const next = this.nextMoves.at(-1);
+		if (next && moveEquals(next, move)) this.nextMoves.pop();
+		else this.nextMoves.length = 0;
+		this.undos.push(makeMoveInPlace(this.board, move));
+	}
+
+	/** Takes back the last move; it becomes the next move of the line. Null at the start. */
+	undo(): Move | null {
+		const undo = this.undos.pop();
+		if (!undo) return null;
+		unmakeMoveInPlace(this.board, undo);
+		this.nextMoves.push(undo.move);
+		return undo.move;
+	}
+
+	/** Plays the next move of the line again. Null at the end. */
+	redo(): Move | null {
+		const move = this.nextMoves.pop();
+		if (!move) return null;
+		this.undos.push(makeMoveInPlace(this.board, move));
+		return move;
+	}
+
+	/** Moves the cursor to `ply` moves from the start position. */
+	goToPly(ply: number): void {
+		if (!Number.isInteger(ply) || ply < 0 || ply > this.length) {
+			throw new Error(`Ply ${ply} is outside of the game (0-${this.length})`);
+		}
+		while (this.ply > ply) this.undo();
+		while (this.ply < ply) this.redo();
+	}
+
+	/** A copy of the current position that later moves do not change. */
+	snapshot(): BoardInfo {
+		return cloneBoardInfo(this.board);
+	}
+}
@@ -0,0 +1,26 @@
+import { bench, describe } from 'vitest';
+
+import { Position } from '$lib/chess/board';
+import { parseFen } from '$lib/chess/fen';
+import { getLegalMovesFrom, getLegalMovesFromByRules } from '$lib/chess/moves';
+import { PieceId } from '$lib/chess/piece';
+
+// Drag highlights: the drop targets of every piece of the side to move, as
+// Board.svelte asks for them when a drag starts.
+describe('drag highlights', () => {
+	const board = parseFen('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+	const sources = [...board.pieces]
+		.filter(([, piece]) => PieceId.getColor(piece) === board.turnColor)
+		.map(([position]) => Position.fromStr(position));
+
+	bench('BoardInt8 legal moves', () => {
+		for (const from of sources) getLegalMovesFrom(board, from);
+	});
+
+	// NOTE: The piece-rule fallback of getLegalMovesFrom: calculateMove for all
+	//       64 squares and an attacks.ts king safety check for every valid one.
+	//       It is not the recursive check test that served drag starts before.
+	bench('piece rules fallback', () => {
+		for (const from of sources) getLegalMovesFromByRules(board, from);
+	});
+});
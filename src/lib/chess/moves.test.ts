@@ -1,8 +1,16 @@
 import { describe, expect, it } from 'vitest';
 
-import { Position } from '$lib/chess/board';
-import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
-import { applyMove, calculateMove, getLegalMovesFrom } from '$lib/chess/moves';
+import { Position, type BoardInfo, type PositionStr } from '$lib/chess/board';
+import { boardToFen, INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import {
+	applyMove,
+	calculateMove,
+	formatMoveError,
+	getLegalMovesFrom,
+	getLegalMovesFromByRules,
+	getMoveErrorSquares,
+	type MoveError
+} from '$lib/chess/moves';
 import { PieceId } from '$lib/chess/piece';
 
 describe('move generation', () => {
@@ -20,7 +28,14 @@ describe('move generation', () => {
 		const [move, moveError] = calculateMove(board, Position.fromStr('a1'), Position.fromStr('a2'));
 
 		expect(move).toBeUndefined();
-		expect(moveError).toEqual({ type: 'invalidPieceMove', piece: 'R' });
+		expect(moveError).toEqual({
+			type: 'kingInCheck',
+			piece: 'R',
+			from: 'a1',
+			to: 'a2',
+			king: 'e1',
+			attackers: ['e2']
+		});
 	});
 
 	it('keeps derived legal moves out of the persisted board state', () => {
@@ -117,6 +132,47 @@ describe('move generation', () => {
 		expect(nextBoard.canCastle.whiteQueenSide).toBe(false);
 	});
 
+	it('castles in Chess960 by moving the king onto its rook', () => {
+		const board = parseFen('4k3/8/8/8/8/8/8/1RK4R w HB - 0 1');
+
+		expect(getLegalMovesFrom(board, Position.fromStr('c1')).map(String)).toContain('b1');
+		const [queenSide] = calculateMove(board, Position.fromStr('c1'), Position.fromStr('b1'));
+		const [kingSide] = calculateMove(board, Position.fromStr('c1'), Position.fromStr('h1'));
+		expect(queenSide).toMatchObject({
+			castling: 'queen-side',
+			isCapture: false,
+			algebraic: 'O-O-O'
+		});
+		expect(kingSide?.castling).toBe('king-side');
+		if (!queenSide || !kingSide) throw new Error('Expected both castling moves to be legal');
+
+		const afterQueenSide = applyMove(board, queenSide);
+		expect(afterQueenSide.pieces.get('c1')).toBe(PieceId.WHITE_KING);
+		expect(afterQueenSide.pieces.get('d1')).toBe(PieceId.WHITE_ROOK);
+		expect(afterQueenSide.pieces.has('b1')).toBe(false);
+		expect(boardToFen(afterQueenSide).split(' ')[2]).toBe('-');
+
+		const afterKingSide = applyMove(board, kingSide);
+		expect(afterKingSide.pieces.get('g1')).toBe(PieceId.WHITE_KING);
+		expect(afterKingSide.pieces.get('f1')).toBe(PieceId.WHITE_ROOK);
+		expect(afterKingSide.pieces.get('b1')).toBe(PieceId.WHITE_ROOK);
+	});
+
+	it('drops the castling right of a rook captured on its home square', () => {
+		const board = parseFen('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+		const [move] = calculateMove(board, Position.fromStr('h1'), Position.fromStr('h8'));
+		if (!move) throw new Error('Expected the rook capture to be legal');
+
+		const nextBoard = applyMove(board, move);
+
+		expect(nextBoard.canCastle).toMatchObject({
+			whiteKingSide: false,
+			whiteQueenSide: true,
+			blackKingSide: false,
+			blackQueenSide: true
+		});
+	});
+
 	it('promotes pawns to the default or requested piece', () => {
 		const defaultBoard = parseFen('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
 		const [defaultPromotion] = calculateMove(
@@ -160,4 +216,135 @@ describe('move generation', () => {
 			})
 		).toThrow(/does not match/);
 	});
+
+	it('rejects castling out of, through or without the rook', () => {
+		const cases = [
+			['4k3/8/8/8/8/8/8/4K2R w K - 0 1', 'g1', true],
+			['4k3/4r3/8/8/8/8/8/4K2R w K - 0 1', 'g1', false],
+			['4k3/5r2/8/8/8/8/8/4K2R w K - 0 1', 'g1', false],
+			['4k3/8/8/8/8/8/8/4K3 w K - 0 1', 'g1', false],
+			['4k3/8/8/8/8/8/8/RN2K3 w Q - 0 1', 'c1', false]
+		] as const;
+
+		for (const [fen, to, isLegal] of cases) {
+			const [move] = calculateMove(parseFen(fen), Position.fromStr('e1'), Position.fromStr(to));
+			expect(move !== undefined, fen).toBe(isLegal);
+		}
+	});
+
+	it('keeps pinned pieces on the pin ray', () => {
+		const board = parseFen('4k3/4r3/8/8/8/8/4R3/4K3 w - - 0 1');
+
+		const moves = getLegalMovesFrom(board, Position.fromStr('e2')).map((move) => move.toString());
+
+		expect(moves).toEqual(['e3', 'e4', 'e5', 'e6', 'e7']);
+	});
+
+	it('falls back to the piece rules for positions without a king', () => {
+		const board = parseFen('8/8/8/8/8/8/4R3/8 w - - 0 1');
+
+		expect(getLegalMovesFrom(board, Position.fromStr('e2'))).toHaveLength(14);
+	});
+
+	it('finds the same drop targets as the piece rules', () => {
+		const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+		const board = parseFen(fen);
+		const sources = [...board.pieces]
+			.filter(([, piece]) => PieceId.getColor(piece) === board.turnColor)
+			.map(([position]) => Position.fromStr(position));
+
+		const targets = (lookup: (board: BoardInfo, from: Position) => Position[]) =>
+			sources.flatMap((from) => lookup(board, from).map((to) => `${from}${to}`));
+
+		expect(targets(getLegalMovesFrom)).toEqual(targets(getLegalMovesFromByRules));
+		expect(targets(getLegalMovesFrom)).toHaveLength(48);
+	});
+});
+
+describe('move errors', () => {
+	function moveError(fen: string, from: PositionStr, to: PositionStr): MoveError | null {
+		const [, error] = calculateMove(parseFen(fen), Position.fromStr(from), Position.fromStr(to));
+		return error ?? null;
+	}
+
+	it('names the square that blocks the path', () => {
+		expect(moveError(INITIAL_FEN, 'a1', 'a5')).toEqual({
+			type: 'pathBlocked',
+			piece: 'R',
+			from: 'a1',
+			to: 'a5',
+			blockedBy: 'a2'
+		});
+		expect(moveError('4k3/8/8/8/4p3/8/4P3/4K3 w - - 0 1', 'e2', 'e4')).toMatchObject({
+			type: 'pathBlocked',
+			blockedBy: 'e4'
+		});
+		expect(moveError('4k3/8/8/8/8/8/8/4KB1R w K - 0 1', 'e1', 'g1')).toMatchObject({
+			type: 'pathBlocked',
+			blockedBy: 'f1'
+		});
+		expect(moveError(INITIAL_FEN, 'b1', 'b3')).toMatchObject({ type: 'invalidPieceMove' });
+	});
+
+	it('reports pins along the ray to the pinning piece', () => {
+		const error = moveError('4k3/4r3/8/8/8/8/4B3/4K3 w - - 0 1', 'e2', 'd3');
+
+		expect(error).toEqual({
+			type: 'pinned',
+			piece: 'B',
+			from: 'e2',
+			to: 'd3',
+			pinnedBy: 'e7',
+			ray: ['e2', 'e3', 'e4', 'e5', 'e6', 'e7']
+		});
+		expect(getMoveErrorSquares(error!)).toEqual(['e2', 'e3', 'e4', 'e5', 'e6', 'e7']);
+		expect(formatMoveError(error!)).toBe('The bishop on e2 is pinned to the king by e7.');
+
+		// NOTE: Along the ray, up to taking the pinning piece, the king stays covered.
+		expect(moveError('4k3/4r3/8/8/8/8/4R3/4K3 w - - 0 1', 'e2', 'e7')).toBeNull();
+	});
+
+	it('reports the pieces that would check the king', () => {
+		expect(moveError('4k3/8/8/8/8/8/3r4/4K3 w - - 0 1', 'e1', 'e2')).toMatchObject({
+			type: 'kingInCheck',
+			king: 'e2',
+			attackers: ['d2']
+		});
+		expect(moveError('4k3/8/8/8/1b6/8/8/4K2N w - - 0 1', 'h1', 'g3')).toMatchObject({
+			type: 'kingInCheck',
+			king: 'e1',
+			attackers: ['b4']
+		});
+		// NOTE: En passant takes two pawns off the rank at once, neither of them pinned alone.
+		expect(moveError('8/8/8/K2pP2r/8/8/8/7k w - d6 0 1', 'e5', 'd6')).toMatchObject({
+			type: 'kingInCheck',
+			king: 'a5',
+			attackers: ['h5']
+		});
+	});
+
+	it('reports castling through attacked squares and without the right', () => {
+		expect(moveError('4k3/5r2/8/8/8/8/8/4K2R w K - 0 1', 'e1', 'g1')).toEqual({
+			type: 'castlingThroughCheck',
+			piece: 'K',
+			from: 'e1',
+			to: 'g1',
+			side: 'king-side',
+			square: 'f1',
+			attackers: ['f7']
+		});
+		const outOfCheck = moveError('4k3/4r3/8/8/8/8/8/4K2R w K - 0 1', 'e1', 'g1');
+		expect(outOfCheck).toMatchObject({ type: 'castlingThroughCheck', square: 'e1' });
+		expect(formatMoveError(outOfCheck!)).toBe('You cannot castle out of check.');
+
+		const noRight = moveError('4k3/8/8/8/8/8/8/R3K2R w K - 0 1', 'e1', 'c1');
+		expect(noRight).toEqual({
+			type: 'noCastlingRight',
+			piece: 'K',
+			from: 'e1',
+			to: 'c1',
+			side: 'queen-side'
+		});
+		expect(formatMoveError(noRight!)).toBe('Queen-side castling is no longer allowed.');
+	});
 });
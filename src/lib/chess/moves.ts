@@ -1,10 +1,20 @@
 import { moveToAlgebraic } from '$lib/chess/algebraic';
+import { getAttackers, getPins } from '$lib/chess/attacks';
+import { boardInfoToEngineFen } from '$lib/chess/engine/convert';
+import {
+	BoardInt8,
+	moveFrom,
+	moveTo,
+	squareFromAlgebraic,
+	squareToAlgebraic
+} from '$lib/chess/engine/int8';
 import { boardToFen } from '$lib/chess/fen';
 import {
 	BOARD_FILES,
 	BOARD_RANKS,
 	BoardMap,
 	EnPassantRank,
+	getCastlingRookFiles,
 	InitialRank,
 	isBoardFile,
 	isBoardRank,
@@ -12,12 +22,15 @@ import {
 	Position,
 	PromotionRank,
 	type BoardInfo,
+	type BoardFile,
 	type BoardRank,
 	type CastlingRights,
 	type PositionStr
 } from '$lib/chess/board';
 import { PieceId, type PromotionPieceId } from '$lib/chess/piece';
 
+export type CastlingSide = 'king-side' | 'queen-side';
+
 export interface Move {
 	from: Position;
 	to: Position;
@@ -26,24 +39,53 @@ export interface Move {
 	piece: PieceId;
 	turn: PlayerColor;
 	isCapture: boolean;
-	castling?: 'king-side' | 'queen-side';
+	/** In Chess960 the king castles by moving onto the rook, see getCastlingPositions. */
+	castling?: CastlingSide;
 	isEnPassantCapture?: boolean;
 	promotion?: PromotionPieceId;
 	comment?: string;
 }
 
+// NOTE: Legality is decided by the engine board: one legal move generation
+//       replaces replaying every opponent piece on a cloned BoardInfo. The
+//       scratch board is shared, because BoardInt8 preallocates its move
+//       buffers, and keeps the last position so that repeated queries (every
+//       drop target, every disambiguation) load it only once.
+const legalityBoard = new BoardInt8();
+const legalMoveBuffer = legalityBoard.allocateMoveBuffer();
+let legalMovesFen: string | null = null;
+let legalMovesCount = 0;
+
+interface PieceMoveError {
+	piece: PieceId;
+	from: PositionStr;
+	to: PositionStr;
+}
+
 export type MoveError =
 	| {
 			type: 'notYourTurn' | 'captureOwnPiece';
 	  }
-	| {
-			type: 'invalidPieceMove';
-			piece: PieceId;
-			from: PositionStr;
-			to: PositionStr;
-	  };
+	/** The piece does not move that way. */
+	| ({ type: 'invalidPieceMove' } & PieceMoveError)
+	/** The piece moves that way, but `blockedBy` stands in its path. */
+	| ({ type: 'pathBlocked'; blockedBy: PositionStr } & PieceMoveError)
+	/**
+	 * Moving would expose the king to `pinnedBy`; `ray` holds the squares from
+	 * the king (excluded) to the pinning piece (included).
+	 */
+	| ({ type: 'pinned'; pinnedBy: PositionStr; ray: PositionStr[] } & PieceMoveError)
+	/** The king would be in check from `attackers` after the move. */
+	| ({ type: 'kingInCheck'; king: PositionStr; attackers: PositionStr[] } & PieceMoveError)
+	/** The king would castle out of, through or into the check of `attackers` on `square`. */
+	| ({
+			type: 'castlingThroughCheck';
+			side: CastlingSide;
+			square: PositionStr;
+			attackers: PositionStr[];
+	  } & PieceMoveError)
+	| ({ type: 'noCastlingRight'; side: CastlingSide } & PieceMoveError);
 
-// TODO: Add more specific error types for better reporting
 export function calculateMove(
 	board: BoardInfo,
 	from: Position,
@@ -62,13 +104,17 @@ export function calculateMove(
 		return [, { type: 'notYourTurn' }];
 	}
 
-	const targetPiece = board.pieces.get(to);
+	const castling = getCastlingSide(board, from, to, piece);
+	const attemptedCastling = castling ?? getCastlingSide(board, from, to, piece, true);
+	if (attemptedCastling && !castling) {
+		return [, { type: 'noCastlingRight', side: attemptedCastling, ...pieceMove(piece, from, to) }];
+	}
+	const targetPiece = castling ? undefined : board.pieces.get(to);
 	if (targetPiece && pieceColor === PieceId.getColor(targetPiece)) {
 		return [, { type: 'captureOwnPiece' }];
 	}
 
 	let isValid = false;
-	let castling: 'king-side' | 'queen-side' | undefined;
 	let isEnPassantCapture = false;
 
 	// Validate move based on piece type
@@ -95,16 +141,13 @@ export function calculateMove(
 			isValid = isValidQueenMove(from, to, board.pieces);
 			break;
 		case PieceId.BLACK_KING:
-		case PieceId.WHITE_KING: {
-			const result = isValidKingMove(from, to, piece, board.pieces, board.canCastle);
-			isValid = result.isValid;
-			castling = result.castling;
+		case PieceId.WHITE_KING:
+			isValid = isValidKingMove(from, to, board, castling);
 			break;
-		}
 	}
 
 	if (!isValid) {
-		return [, { type: 'invalidPieceMove', piece, from: from.toString(), to: to.toString() }];
+		return [, getInvalidMoveError(board, from, to, piece, castling)];
 	}
 
 	// Check if pawn move requires promotion
@@ -126,8 +169,8 @@ export function calculateMove(
 		promotion: promotion && (promotionPiece ?? promotion)
 	};
 
-	if (!ignoreAllowed && isMoveLeavingKingInCheck(board, move)) {
-		return [, { type: 'invalidPieceMove', piece, from: from.toString(), to: to.toString() }];
+	if (!ignoreAllowed && !isLegalMove(board, move)) {
+		return [, getIllegalMoveError(board, move)];
 	}
 
 	if (!skipAlgebraic) {
@@ -152,19 +195,302 @@ export function getLegalMovesFrom(board: BoardInfo, from: Position): Position[]
 		return [];
 	}
 
-	const legalMoves: Position[] = [];
+	const count = loadLegalMoves(board);
+	if (count === null) {
+		return getLegalMovesFromByRules(board, from);
+	}
+
+	const fromSquare = squareFromAlgebraic(from.toString());
+	const targets: number[] = [];
+	for (let i = 0; i < count; i++) {
+		const move = legalMoveBuffer[i];
+		// NOTE: Promotions share the target square, so it would show up once per piece.
+		if (moveFrom(move) === fromSquare && !targets.includes(moveTo(move))) {
+			targets.push(moveTo(move));
+		}
+	}
+
+	// NOTE: Sorted by file, then by rank, same as the rule-based lookup.
+	return targets
+		.map((square) => Position.fromStr(squareToAlgebraic(square) as PositionStr))
+		.sort((a, b) => a.fileIndex() - b.fileIndex() || a.rankIndex() - b.rankIndex());
+}
+
+/** Every legal move of the side to move, one per promotion piece. */
+export function getLegalMoves(board: BoardInfo, skipAlgebraic = false): Move[] {
+	return collectLegalMoves(board, getLegalMovesFrom, skipAlgebraic);
+}
+
+/** Same as getLegalMoves, by the piece rules alone (see getLegalMovesFromByRules). */
+export function getLegalMovesByRules(board: BoardInfo, skipAlgebraic = false): Move[] {
+	return collectLegalMoves(board, getLegalMovesFromByRules, skipAlgebraic);
+}
+
+function collectLegalMoves(
+	board: BoardInfo,
+	getTargets: (board: BoardInfo, from: Position) => Position[],
+	skipAlgebraic: boolean
+): Move[] {
+	const moves: Move[] = [];
+	const isWhite = board.turnColor === PlayerColor.WHITE;
+	const promotions: PromotionPieceId[] = isWhite
+		? [PieceId.WHITE_QUEEN, PieceId.WHITE_ROOK, PieceId.WHITE_BISHOP, PieceId.WHITE_KNIGHT]
+		: [PieceId.BLACK_QUEEN, PieceId.BLACK_ROOK, PieceId.BLACK_BISHOP, PieceId.BLACK_KNIGHT];
+
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.getColor(piece) !== board.turnColor) continue;
+		const from = Position.fromStr(position);
+		for (const to of getTargets(board, from)) {
+			for (const promotion of PieceId.isPawn(piece) && isPromotionRank(to, isWhite)
+				? promotions
+				: [undefined]) {
+				// NOTE: The targets are legal already, and checking again would ask BoardInt8.
+				const [move] = calculateMove(board, from, to, promotion, true, skipAlgebraic);
+				if (move) moves.push(move);
+			}
+		}
+	}
+
+	return moves;
+}
+
+export function hasLegalMoves(board: BoardInfo): boolean {
+	const count = loadLegalMoves(board);
+	if (count !== null) {
+		return count > 0;
+	}
 
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.getColor(piece) !== board.turnColor) continue;
+		if (getLegalMovesFromByRules(board, Position.fromStr(position)).length > 0) return true;
+	}
+	return false;
+}
+
+/** Whether the king of the side to move is attacked. */
+export function isInCheck(board: BoardInfo): boolean {
+	if (loadLegalMoves(board) === null) {
+		return isKingInCheck(board, board.turnColor);
+	}
+	return legalityBoard.isInCheck();
+}
+
+function isPromotionRank(to: Position, isWhite: boolean): boolean {
+	return to.rank === (isWhite ? PromotionRank.WHITE : PromotionRank.BLACK);
+}
+
+/**
+ * Same as getLegalMovesFrom, by the piece rules alone: every square is tried
+ * with calculateMove, and the king's safety is checked on the board after the
+ * move. Backs the positions that the engine board rejects, and never touches
+ * BoardInt8, so that the two can be compared.
+ */
+export function getLegalMovesFromByRules(board: BoardInfo, from: Position): Position[] {
+	const piece = board.pieces.get(from);
+	if (!piece || PieceId.getColor(piece) !== board.turnColor) {
+		return [];
+	}
+
+	const targets: Position[] = [];
 	for (const file of BOARD_FILES) {
 		for (const rank of BOARD_RANKS) {
 			const to = Position.make(file, rank);
-			const [move] = calculateMove(board, from, to);
-			if (move) {
-				legalMoves.push(to);
+			const [move] = calculateMove(board, from, to, undefined, true, true);
+			if (move && isLegalMoveByRules(board, move)) {
+				targets.push(to);
+			}
+		}
+	}
+
+	return targets;
+}
+
+/** Number of legal moves now in `legalMoveBuffer`, or null if the engine board rejects the position. */
+function loadLegalMoves(board: BoardInfo): number | null {
+	const fen = boardInfoToEngineFen(board);
+	if (fen === legalMovesFen) {
+		return legalMovesCount;
+	}
+
+	try {
+		legalityBoard.loadFen(fen);
+	} catch {
+		legalMovesFen = null;
+		return null;
+	}
+	legalMovesFen = fen;
+	legalMovesCount = legalityBoard.generateLegalMoves(legalMoveBuffer);
+	return legalMovesCount;
+}
+
+function isLegalMove(board: BoardInfo, move: Move): boolean {
+	const count = loadLegalMoves(board);
+	if (count === null) {
+		// NOTE: E.g. positions without a king from the editor or a hand-written FEN.
+		return isLegalMoveByRules(board, move);
+	}
+
+	const from = squareFromAlgebraic(move.from.toString());
+	const to = squareFromAlgebraic(move.to.toString());
+	for (let i = 0; i < count; i++) {
+		if (moveFrom(legalMoveBuffer[i]) === from && moveTo(legalMoveBuffer[i]) === to) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function isLegalMoveByRules(board: BoardInfo, move: Move): boolean {
+	if (move.castling) {
+		const opponent = move.turn === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+		const squares = getCastlingKingSquares(board, move.from, move.castling);
+		if (squares.some((square) => isSquareAttackedByRules(board, square, opponent))) {
+			return false;
+		}
+	}
+	return !isKingInCheck(buildBoardAfterMove(board, move), move.turn);
+}
+
+function pieceMove(piece: PieceId, from: Position, to: Position): PieceMoveError {
+	return { piece, from: from.toString(), to: to.toString() };
+}
+
+/** Why a move that breaks the movement rules of its piece is rejected. */
+function getInvalidMoveError(
+	board: BoardInfo,
+	from: Position,
+	to: Position,
+	piece: PieceId,
+	castling: CastlingSide | undefined
+): MoveError {
+	const path = castling ? getCastlingPath(board, from, castling) : getMovePath(from, to, piece);
+	const blockedBy = path?.find((position) => board.pieces.has(position));
+	if (blockedBy) {
+		return { type: 'pathBlocked', blockedBy, ...pieceMove(piece, from, to) };
+	}
+	return { type: 'invalidPieceMove', ...pieceMove(piece, from, to) };
+}
+
+/**
+ * Squares that have to be empty for the piece to move from `from` to `to`, or
+ * null when it does not move that way at all.
+ */
+function getMovePath(from: Position, to: Position, piece: PieceId): PositionStr[] | null {
+	const fileDiff = Math.abs(to.fileIndex() - from.fileIndex());
+	const rankDiff = Math.abs(to.rankIndex() - from.rankIndex());
+	const isStraight = fileDiff === 0 || rankDiff === 0;
+	const isDiagonal = fileDiff === rankDiff;
+	if (PieceId.isPawn(piece)) {
+		const isWhite = PieceId.isWhite(piece);
+		const steps = (to.rankIndex() - from.rankIndex()) * (isWhite ? 1 : -1);
+		const startRank = isWhite ? '2' : '7';
+		if (fileDiff !== 0 || steps < 1 || steps > (from.rank === startRank ? 2 : 1)) return null;
+		// NOTE: Pawns capture diagonally, so the target square is part of the path.
+		return [...getPositionsBetween(from, to), to.toString()];
+	}
+	if (
+		(PieceId.isRook(piece) && isStraight) ||
+		(PieceId.isBishop(piece) && isDiagonal) ||
+		(PieceId.isQueen(piece) && (isStraight || isDiagonal))
+	) {
+		return getPositionsBetween(from, to);
+	}
+	return null;
+}
+
+/**
+ * Why a move that follows the movement rules of its piece would leave the king
+ * in check. Attackers and pins come from the engine board, so positions that
+ * it rejects only get an `invalidPieceMove`.
+ */
+function getIllegalMoveError(board: BoardInfo, move: Move): MoveError {
+	const { piece, from, to, turn } = move;
+	const opponent = turn === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+	if (move.castling) {
+		for (const square of getCastlingKingSquares(board, from, move.castling)) {
+			const attackers = getAttackers(board, square, opponent);
+			if (attackers.length > 0) {
+				const side = move.castling;
+				return {
+					type: 'castlingThroughCheck',
+					side,
+					square,
+					attackers,
+					...pieceMove(piece, from, to)
+				};
 			}
 		}
 	}
 
-	return legalMoves;
+	// NOTE: Moving along the pin (up to taking the pinning piece) keeps the king covered.
+	const pin = getPins(board, turn).find(({ pinned }) => pinned === from.toString());
+	if (pin && !pin.ray.includes(to.toString())) {
+		return { type: 'pinned', pinnedBy: pin.pinnedBy, ray: pin.ray, ...pieceMove(piece, from, to) };
+	}
+
+	const boardAfterMove = buildBoardAfterMove(board, move);
+	const king = boardAfterMove.pieces.findPositionFor(
+		turn === PlayerColor.WHITE ? PieceId.WHITE_KING : PieceId.BLACK_KING
+	);
+	const attackers = king ? getAttackers(boardAfterMove, king, opponent) : [];
+	if (king && attackers.length > 0) {
+		return { type: 'kingInCheck', king, attackers, ...pieceMove(piece, from, to) };
+	}
+	return { type: 'invalidPieceMove', ...pieceMove(piece, from, to) };
+}
+
+/** Squares that the error is about, besides the squares of the move itself. */
+export function getMoveErrorSquares(error: MoveError): PositionStr[] {
+	switch (error.type) {
+		case 'notYourTurn':
+		case 'captureOwnPiece':
+		case 'invalidPieceMove':
+		case 'noCastlingRight':
+			return [];
+		case 'pathBlocked':
+			return [error.blockedBy];
+		case 'pinned':
+			return error.ray;
+		case 'kingInCheck':
+			return [error.king, ...error.attackers];
+		case 'castlingThroughCheck':
+			return [error.square, ...error.attackers];
+	}
+}
+
+export function formatMoveError(error: MoveError): string {
+	switch (error.type) {
+		case 'notYourTurn':
+			return 'It is not your turn.';
+		case 'captureOwnPiece':
+			return 'You cannot capture your own piece.';
+		case 'invalidPieceMove':
+			return `${pieceName(error.piece)} cannot move from ${error.from} to ${error.to}.`;
+		case 'pathBlocked':
+			return `The path of the ${pieceName(error.piece, false)} is blocked on ${error.blockedBy}.`;
+		case 'pinned':
+			return `The ${pieceName(error.piece, false)} on ${error.from} is pinned to the king by ${error.pinnedBy}.`;
+		case 'kingInCheck':
+			return `The king would be in check from ${error.attackers.join(', ')}.`;
+		case 'castlingThroughCheck':
+			return error.square === error.from
+				? 'You cannot castle out of check.'
+				: `You cannot castle through the attacked square ${error.square}.`;
+		case 'noCastlingRight':
+			return `${error.side === 'king-side' ? 'King' : 'Queen'}-side castling is no longer allowed.`;
+	}
+}
+
+function pieceName(piece: PieceId, capitalized = true): string {
+	const name = {
+		p: 'pawn',
+		n: 'knight',
+		b: 'bishop',
+		r: 'rook',
+		q: 'queen',
+		k: 'king'
+	}[piece.toLowerCase()]!;
+	return capitalized ? name[0].toUpperCase() + name.slice(1) : name;
 }
 
 function getPositionsBetween(from: Position, to: Position): PositionStr[] {
@@ -274,42 +600,130 @@ function isValidQueenMove(from: Position, to: Position, board: BoardMap<PieceId>
 function isValidKingMove(
 	from: Position,
 	to: Position,
-	piece: PieceId,
-	board: BoardMap<PieceId>,
-	castling: CastlingRights
-): { isValid: boolean; castling?: 'king-side' | 'queen-side' } {
+	board: BoardInfo,
+	castling: CastlingSide | undefined
+): boolean {
+	if (castling) {
+		return isCastlingPathClear(board, from, castling);
+	}
+
 	const fileDiff = Math.abs(to.fileIndex() - from.fileIndex());
 	const rankDiff = Math.abs(to.rankIndex() - from.rankIndex());
+	return fileDiff <= 1 && rankDiff <= 1;
+}
 
-	// Regular king move
-	if (fileDiff <= 1 && rankDiff <= 1) {
-		return { isValid: true };
+/**
+ * Squares of the castling move of the side to move: from the e-file to the
+ * g/c-file in standard chess, from wherever the king stands onto the castling
+ * rook in Chess960 (the UCI_Chess960 notation, which stays unambiguous when
+ * the king does not move or moves a single square).
+ */
+export function getCastlingPositions(
+	board: BoardInfo,
+	side: CastlingSide
+): { from: Position; to: Position } {
+	const isWhite = board.turnColor === PlayerColor.WHITE;
+	const rank = isWhite ? InitialRank.WHITE : InitialRank.BLACK;
+	if (!board.canCastle.rookFiles) {
+		return {
+			from: Position.make('e', rank),
+			to: Position.make(side === 'king-side' ? 'g' : 'c', rank)
+		};
 	}
 
+	const king = isWhite ? PieceId.WHITE_KING : PieceId.BLACK_KING;
+	const kingFile = BOARD_FILES.find((file) => board.pieces.get(`${file}${rank}`) === king);
+	const rookFiles = getCastlingRookFiles(board.canCastle, board.turnColor);
+	return {
+		from: Position.make(kingFile ?? 'e', rank),
+		to: Position.make(side === 'king-side' ? rookFiles.kingSide : rookFiles.queenSide, rank)
+	};
+}
+
+function getCastlingSide(
+	board: BoardInfo,
+	from: Position,
+	to: Position,
+	piece: PieceId,
+	ignoreRights = false
+): CastlingSide | undefined {
+	if (!PieceId.isKing(piece)) return undefined;
+
 	const isWhite = PieceId.isWhite(piece);
-	if (
-		rankDiff === 0 &&
-		from.rank === (isWhite ? InitialRank.WHITE : InitialRank.BLACK) &&
-		from.file === 'e' &&
-		isPathClear(from, to, board)
-	) {
-		// King-side castling
-		if (
-			to.file === 'g' &&
-			((isWhite && castling.whiteKingSide) || (!isWhite && castling.blackKingSide))
-		) {
-			return { isValid: true, castling: 'king-side' };
-		}
-		// Queen-side castling
-		if (
-			to.file === 'c' &&
-			((isWhite && castling.whiteQueenSide) || (!isWhite && castling.blackQueenSide))
-		) {
-			return { isValid: true, castling: 'queen-side' };
+	const rank = isWhite ? InitialRank.WHITE : InitialRank.BLACK;
+	if (from.rank !== rank || to.rank !== rank) return undefined;
+
+	const rights = board.canCastle;
+	const sides: [CastlingSide, boolean][] = [
+		['king-side', isWhite ? rights.whiteKingSide : rights.blackKingSide],
+		['queen-side', isWhite ? rights.whiteQueenSide : rights.blackQueenSide]
+	];
+	for (const [side, isAllowed] of sides) {
+		if (!isAllowed && !ignoreRights) continue;
+		if (!rights.rookFiles) {
+			if (from.file === 'e' && to.file === (side === 'king-side' ? 'g' : 'c')) return side;
+			continue;
 		}
+		const rookFiles = getCastlingRookFiles(rights, PieceId.getColor(piece));
+		const rookFile = side === 'king-side' ? rookFiles.kingSide : rookFiles.queenSide;
+		const rook = isWhite ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+		if (to.file === rookFile && board.pieces.get(to) === rook) return side;
 	}
+	return undefined;
+}
+
+/** Files the king and the rook stand on before and after castling to `side`. */
+function getCastlingFiles(
+	canCastle: CastlingRights,
+	color: PlayerColor,
+	kingFile: BoardFile,
+	side: CastlingSide
+): { kingFrom: BoardFile; kingTo: BoardFile; rookFrom: BoardFile; rookTo: BoardFile } {
+	const rookFiles = getCastlingRookFiles(canCastle, color);
+	return side === 'king-side'
+		? { kingFrom: kingFile, kingTo: 'g', rookFrom: rookFiles.kingSide, rookTo: 'f' }
+		: { kingFrom: kingFile, kingTo: 'c', rookFrom: rookFiles.queenSide, rookTo: 'd' };
+}
+
+function isCastlingPathClear(board: BoardInfo, from: Position, side: CastlingSide): boolean {
+	return getCastlingPath(board, from, side).every((position) => !board.pieces.has(position));
+}
 
-	return { isValid: false };
+// NOTE: Every square between the outermost of the king, the rook and their
+//       target squares has to be empty, except for the castling king and rook.
+function getCastlingPath(board: BoardInfo, from: Position, side: CastlingSide): PositionStr[] {
+	const color = PieceId.getColor(board.pieces.get(from)!);
+	const { kingFrom, kingTo, rookFrom, rookTo } = getCastlingFiles(
+		board.canCastle,
+		color,
+		from.file,
+		side
+	);
+	const fileIndices = [kingFrom, kingTo, rookFrom, rookTo].map((file) => BOARD_FILES.indexOf(file));
+	const path: PositionStr[] = [];
+	for (let i = Math.min(...fileIndices); i <= Math.max(...fileIndices); i++) {
+		const file = BOARD_FILES[i];
+		if (file !== kingFrom && file !== rookFrom) path.push(`${file}${from.rank}`);
+	}
+	return path;
+}
+
+/** Squares the king stands on, passes and lands on when castling, in that order. */
+function getCastlingKingSquares(
+	board: BoardInfo,
+	from: Position,
+	side: CastlingSide
+): PositionStr[] {
+	const color = PieceId.getColor(board.pieces.get(from)!);
+	const { kingFrom, kingTo } = getCastlingFiles(board.canCastle, color, from.file, side);
+	const fromIndex = BOARD_FILES.indexOf(kingFrom);
+	const toIndex = BOARD_FILES.indexOf(kingTo);
+	const step = fromIndex <= toIndex ? 1 : -1;
+	const squares: PositionStr[] = [];
+	for (let i = fromIndex; i !== toIndex + step; i += step) {
+		squares.push(`${BOARD_FILES[i]}${from.rank}`);
+	}
+	return squares;
 }
 
 export function applyMove(board: BoardInfo, move: Move): BoardInfo {
@@ -321,55 +735,104 @@ export function applyMove(board: BoardInfo, move: Move): BoardInfo {
 }
 
 function buildBoardAfterMove(board: BoardInfo, move: Move): BoardInfo {
-	const isWhiteMove = move.turn === PlayerColor.WHITE;
 	const newBoard: BoardInfo = {
 		pieces: board.pieces.clone(),
-		turnColor: isWhiteMove ? PlayerColor.BLACK : PlayerColor.WHITE,
+		turnColor: board.turnColor,
 		canCastle: { ...board.canCastle },
-		enPassantTarget: null,
-		halfMoveClock: board.halfMoveClock + 1,
-		fullMoveNumber: isWhiteMove ? board.fullMoveNumber : board.fullMoveNumber + 1,
-		moves: [...board.moves, move]
+		enPassantTarget: board.enPassantTarget,
+		halfMoveClock: board.halfMoveClock,
+		fullMoveNumber: board.fullMoveNumber,
+		moves: [...board.moves]
+	};
+	makeMoveInPlace(newBoard, move);
+	return newBoard;
+}
+
+/** What makeMoveInPlace changed, for unmakeMoveInPlace to restore. */
+export interface MoveUndo {
+	move: Move;
+	/** Previous piece of every changed square (undefined when empty), in the order of the changes. */
+	squares: [PositionStr, PieceId | undefined][];
+	canCastle: CastlingRights;
+	enPassantTarget: Position | null;
+	halfMoveClock: number;
+	fullMoveNumber: number;
+}
+
+/**
+ * Plays the move on `board` itself and appends it to `board.moves`, unlike
+ * applyMove, which leaves the board alone. The move is not validated.
+ */
+export function makeMoveInPlace(board: BoardInfo, move: Move): MoveUndo {
+	const undo: MoveUndo = {
+		move,
+		squares: [],
+		canCastle: { ...board.canCastle },
+		enPassantTarget: board.enPassantTarget,
+		halfMoveClock: board.halfMoveClock,
+		fullMoveNumber: board.fullMoveNumber
+	};
+	const setSquare: SetSquare = (position, piece) => {
+		undo.squares.push([position, board.pieces.get(position)]);
+		if (piece) board.pieces.set(position, piece);
+		else board.pieces.delete(position);
 	};
 
+	const isWhiteMove = move.turn === PlayerColor.WHITE;
+	board.turnColor = isWhiteMove ? PlayerColor.BLACK : PlayerColor.WHITE;
+	board.enPassantTarget = null;
+	board.halfMoveClock++;
+	if (!isWhiteMove) board.fullMoveNumber++;
+	board.moves.push(move);
+
 	if (move.castling) {
-		applyCastlingMove(newBoard, move);
-		return newBoard;
+		applyCastlingMove(board, move, setSquare);
+		return undo;
 	}
 
-	newBoard.pieces.delete(move.from);
+	setSquare(move.from.toString(), undefined);
 
 	if (move.isEnPassantCapture) {
 		const capturedPawnRank = move.from.rank;
-		const capturedPawnPos: PositionStr = `${move.to.file}${capturedPawnRank}`;
-		newBoard.pieces.delete(capturedPawnPos);
+		setSquare(`${move.to.file}${capturedPawnRank}`, undefined);
 	}
 
-	if (move.promotion != null) {
-		const promotedPiece = move.promotion;
-		newBoard.pieces.set(move.to, promotedPiece);
-	} else {
-		newBoard.pieces.set(move.to, move.piece);
-	}
+	setSquare(move.to.toString(), move.promotion ?? move.piece);
 
-	updateCastlingRights(newBoard.canCastle, move);
+	updateCastlingRights(board.canCastle, move);
 
 	// Reset half move clock on pawn moves or captures
 	const isPawnMove = PieceId.isPawn(move.piece);
 	if (isPawnMove || move.isCapture) {
-		newBoard.halfMoveClock = 0;
+		board.halfMoveClock = 0;
 	}
 	// When a pawn moves two squares forward, it can be captured via en passant
 	if (isPawnMove && Math.abs(move.from.rankIndex() - move.to.rankIndex()) == 2) {
 		const rank: BoardRank = isWhiteMove ? EnPassantRank.WHITE : EnPassantRank.BLACK;
-		newBoard.enPassantTarget = Position.make(move.from.file, rank);
+		board.enPassantTarget = Position.make(move.from.file, rank);
 	}
 
-	return newBoard;
+	return undo;
 }
 
-function isMoveLeavingKingInCheck(board: BoardInfo, move: Move): boolean {
-	return isKingInCheck(buildBoardAfterMove(board, move), move.turn);
+/** Takes back the last move of `board`, which makeMoveInPlace returned `undo` for. */
+export function unmakeMoveInPlace(board: BoardInfo, undo: MoveUndo): void {
+	if (board.moves.at(-1) !== undo.move) {
+		throw new Error(
+			`The last move of the board is not ${undo.move.algebraic || 'the undone move'}`
+		);
+	}
+	for (let i = undo.squares.length - 1; i >= 0; i--) {
+		const [position, piece] = undo.squares[i];
+		if (piece) board.pieces.set(position, piece);
+		else board.pieces.delete(position);
+	}
+	board.moves.pop();
+	board.turnColor = undo.move.turn;
+	board.canCastle = undo.canCastle;
+	board.enPassantTarget = undo.enPassantTarget;
+	board.halfMoveClock = undo.halfMoveClock;
+	board.fullMoveNumber = undo.fullMoveNumber;
 }
 
 function isKingInCheck(board: BoardInfo, color: PlayerColor): boolean {
@@ -379,70 +842,80 @@ function isKingInCheck(board: BoardInfo, color: PlayerColor): boolean {
 		return false;
 	}
 
-	for (const [opponentPosStr, opponentPiece] of board.pieces) {
-		const opponentColor = PieceId.getColor(opponentPiece);
-		if (opponentColor === color) continue;
+	const opponent = color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+	return isSquareAttackedByRules(board, kingPos, opponent);
+}
 
-		const [opMove] = calculateMove(
-			{ ...board, turnColor: opponentColor },
-			Position.fromStr(opponentPosStr),
-			Position.fromStr(kingPos),
-			undefined,
-			/* ignoreAllowed */ true
-		);
-		if (opMove) {
-			return true;
-		}
+// NOTE: The piece-rule counterpart of the engine's isSquareAttacked, for the
+//       positions it rejects and to keep getLegalMovesFromByRules independent
+//       of it. Which pieces attack a square is answered by attacks.ts.
+function isSquareAttackedByRules(
+	board: BoardInfo,
+	square: PositionStr,
+	color: PlayerColor
+): boolean {
+	const target = Position.fromStr(square);
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.getColor(piece) !== color || position === square) continue;
+		if (attacksSquare(board.pieces, Position.fromStr(position), target, piece)) return true;
 	}
-
 	return false;
 }
 
-function applyCastlingMove(newBoard: BoardInfo, move: Move): void {
-	const isWhiteMove = move.turn === PlayerColor.WHITE;
+// NOTE: Unlike the move validators, a pawn attacks the square diagonally in
+//       front of it even when it is empty, and a king never castles.
+function attacksSquare(
+	pieces: BoardMap<PieceId>,
+	from: Position,
+	to: Position,
+	piece: PieceId
+): boolean {
+	const fileDiff = Math.abs(to.fileIndex() - from.fileIndex());
+	const rankDiff = to.rankIndex() - from.rankIndex();
+	if (PieceId.isPawn(piece))
+		return fileDiff === 1 && rankDiff === (PieceId.isWhite(piece) ? 1 : -1);
+	if (PieceId.isKnight(piece)) return isValidKnightMove(from, to);
+	if (PieceId.isBishop(piece)) return isValidBishopMove(from, to, pieces);
+	if (PieceId.isRook(piece)) return isValidRookMove(from, to, pieces);
+	if (PieceId.isQueen(piece)) return isValidQueenMove(from, to, pieces);
+	return fileDiff <= 1 && Math.abs(rankDiff) <= 1;
+}
 
-	if (move.castling === 'king-side') {
-		const rank = isWhiteMove ? '1' : '8';
-		const king = isWhiteMove ? PieceId.WHITE_KING : PieceId.BLACK_KING;
-		const rook = isWhiteMove ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
-
-		newBoard.pieces.delete(`e${rank}`);
-		newBoard.pieces.delete(`h${rank}`);
-		newBoard.pieces.set(`g${rank}`, king);
-		newBoard.pieces.set(`f${rank}`, rook);
-
-		if (isWhiteMove) {
-			newBoard.canCastle.whiteKingSide = false;
-			newBoard.canCastle.whiteQueenSide = false;
-		} else {
-			newBoard.canCastle.blackKingSide = false;
-			newBoard.canCastle.blackQueenSide = false;
-		}
-		return;
-	}
+type SetSquare = (position: PositionStr, piece: PieceId | undefined) => void;
 
-	if (move.castling === 'queen-side') {
-		const rank = isWhiteMove ? '1' : '8';
-		const king = isWhiteMove ? PieceId.WHITE_KING : PieceId.BLACK_KING;
-		const rook = isWhiteMove ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+function applyCastlingMove(newBoard: BoardInfo, move: Move, setSquare: SetSquare): void {
+	if (!move.castling) return;
+
+	const isWhiteMove = move.turn === PlayerColor.WHITE;
+	const rank = move.from.rank;
+	const king = isWhiteMove ? PieceId.WHITE_KING : PieceId.BLACK_KING;
+	const rook = isWhiteMove ? PieceId.WHITE_ROOK : PieceId.BLACK_ROOK;
+	const { kingFrom, kingTo, rookFrom, rookTo } = getCastlingFiles(
+		newBoard.canCastle,
+		move.turn,
+		move.from.file,
+		move.castling
+	);
 
-		newBoard.pieces.delete(`e${rank}`);
-		newBoard.pieces.delete(`a${rank}`);
-		newBoard.pieces.set(`c${rank}`, king);
-		newBoard.pieces.set(`d${rank}`, rook);
+	// NOTE: Both pieces are lifted first: in Chess960 either of them may land
+	//       on the square the other one starts from.
+	setSquare(`${kingFrom}${rank}`, undefined);
+	setSquare(`${rookFrom}${rank}`, undefined);
+	setSquare(`${kingTo}${rank}`, king);
+	setSquare(`${rookTo}${rank}`, rook);
 
-		if (isWhiteMove) {
-			newBoard.canCastle.whiteKingSide = false;
-			newBoard.canCastle.whiteQueenSide = false;
-		} else {
-			newBoard.canCastle.blackKingSide = false;
-			newBoard.canCastle.blackQueenSide = false;
-		}
-		return;
+	if (isWhiteMove) {
+		newBoard.canCastle.whiteKingSide = false;
+		newBoard.canCastle.whiteQueenSide = false;
+	} else {
+		newBoard.canCastle.blackKingSide = false;
+		newBoard.canCastle.blackQueenSide = false;
 	}
 }
 
 function updateCastlingRights(castling: CastlingRights, move: Move): void {
+	const white = getCastlingRookFiles(castling, PlayerColor.WHITE);
+	const black = getCastlingRookFiles(castling, PlayerColor.BLACK);
 	if (move.piece === PieceId.BLACK_KING) {
 		castling.blackKingSide = false;
 		castling.blackQueenSide = false;
@@ -450,10 +923,18 @@ function updateCastlingRights(castling: CastlingRights, move: Move): void {
 		castling.whiteKingSide = false;
 		castling.whiteQueenSide = false;
 	} else if (move.piece === PieceId.BLACK_ROOK) {
-		if (move.from.equals('a8')) castling.blackQueenSide = false;
-		if (move.from.equals('h8')) castling.blackKingSide = false;
+		if (move.from.equals(`${black.queenSide}8`)) castling.blackQueenSide = false;
+		if (move.from.equals(`${black.kingSide}8`)) castling.blackKingSide = false;
 	} else if (move.piece === PieceId.WHITE_ROOK) {
-		if (move.from.equals('a1')) castling.whiteQueenSide = false;
-		if (move.from.equals('h1')) castling.whiteKingSide = false;
+		if (move.from.equals(`${white.queenSide}1`)) castling.whiteQueenSide = false;
+		if (move.from.equals(`${white.kingSide}1`)) castling.whiteKingSide = false;
+	}
+
+	// NOTE: A rook captured on its home square takes the castling right with it.
+	if (move.isCapture) {
+		if (move.to.equals(`${white.queenSide}1`)) castling.whiteQueenSide = false;
+		if (move.to.equals(`${white.kingSide}1`)) castling.whiteKingSide = false;
+		if (move.to.equals(`${black.queenSide}8`)) castling.blackQueenSide = false;
+		if (move.to.equals(`${black.kingSide}8`)) castling.blackKingSide = false;
 	}
 }
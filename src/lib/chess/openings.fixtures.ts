@@ -0,0 +1,11 @@
+import type { Opening } from '$lib/chess/openings';
+import { parsePGNMoves } from '$lib/chess/pgn';
+
+/** A white repertoire for tests, with one line per PGN. */
+export function createOpening(...lines: string[]): Opening {
+	return {
+		name: 'Test',
+		color: 'white',
+		lines: lines.map((pgn, index) => ({ name: `Line ${index + 1}`, pgn, ...parsePGNMoves(pgn) }))
+	};
+}
@@ -1,7 +1,8 @@
 import { calculateMoveFromAlgebraic, type AlgebraicMoveError } from '$lib/chess/algebraic';
 import { type BoardInfo } from '$lib/chess/board';
-import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
-import { applyMove, type Move } from '$lib/chess/moves';
+import { INITIAL_FEN } from '$lib/chess/fen';
+import { Game } from '$lib/chess/game';
+import { type Move } from '$lib/chess/moves';
 
 export interface PGNResult {
 	moves: Move[];
@@ -29,7 +30,8 @@ class PGNParser {
 		this.lineOffset = 0;
 		this.parseMetadata();
 		const fen = this.tags['FEN'] ?? INITIAL_FEN;
-		let board = parseFen(fen);
+		// NOTE: Moves are made in place; long games would otherwise clone the board on every ply.
+		const game = Game.fromFen(fen);
 
 		let comment: 'line' | 'multiline' | null = null;
 		let variationLevel = 0;
@@ -85,7 +87,7 @@ class PGNParser {
 				break;
 			}
 			let offsetBeforeMove = this.offset;
-			let [move, moveError] = this.parsePieceMove(board);
+			let [move, moveError] = this.parsePieceMove(game.position);
 			if (moveError) {
 				const errorStr = JSON.stringify(moveError);
 				throw new Error(
@@ -96,10 +98,10 @@ class PGNParser {
 				// MOTE: After number there must be a white move.
 				throw new Error(`Failed to parse move at ${this.locationStr(offsetBeforeMove)}`);
 			}
-			board = applyMove(board, move);
+			game.makeMove(move);
 
 			offsetBeforeMove = this.offset;
-			[move, moveError] = this.parsePieceMove(board);
+			[move, moveError] = this.parsePieceMove(game.position);
 			if (moveError) {
 				const errorStr = JSON.stringify(moveError);
 				throw new Error(
@@ -114,7 +116,7 @@ class PGNParser {
 				// NOTE: Black move is allowed to be absent if there are no more moves.
 				break;
 			}
-			board = applyMove(board, move);
+			game.makeMove(move);
 		}
 
 		if (variationLevel > 0) {
@@ -123,7 +125,7 @@ class PGNParser {
 		if (comment === 'multiline') {
 			throw new Error('Unmatched opening bracket in PGN string');
 		}
-		return board.moves;
+		return game.getMoves();
 	}
 
 	private parseMetadata(): void {
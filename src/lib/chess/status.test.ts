@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+
+import { Position, type AbstractBoard, type BoardInfo, type PositionStr } from '$lib/chess/board';
+import { Board0x88, moveToLongAlgebraic } from '$lib/chess/engine/0x88';
+import { BoardInt8, moveToUci } from '$lib/chess/engine/int8';
+import { INITIAL_FEN, parseFen } from '$lib/chess/fen';
+import { applyMove, calculateMove } from '$lib/chess/moves';
+import {
+	formatGameStatus,
+	getBoardGameStatus,
+	getGameStatus,
+	type GameStatus
+} from '$lib/chess/status';
+
+const KNIGHT_SHUFFLE = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+
+const STATUS_CASES: [fen: string, status: GameStatus][] = [
+	[INITIAL_FEN, { type: 'ongoing', isCheck: false }],
+	[
+		'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3',
+		{ type: 'checkmate', winner: 'black' }
+	],
+	['4k3/8/8/8/8/8/4q3/4K3 w - - 0 1', { type: 'ongoing', isCheck: true }],
+	['7k/5Q2/6K1/8/8/8/8/8 b - - 0 1', { type: 'draw', reason: 'stalemate' }],
+	['4k3/8/8/8/8/8/8/4K2R w - - 100 80', { type: 'draw', reason: 'fiftyMoveRule' }],
+	['4k3/8/8/8/8/8/8/4K2R w - - 99 80', { type: 'ongoing', isCheck: false }],
+	// NOTE: Mate on the hundredth halfmove is still a mate.
+	['R5k1/5ppp/8/8/8/8/8/6K1 b - - 100 80', { type: 'checkmate', winner: 'white' }],
+	['4k3/8/8/8/8/8/8/4K3 w - - 0 1', { type: 'draw', reason: 'insufficientMaterial' }],
+	['4k3/8/8/8/8/8/8/4KN2 w - - 0 1', { type: 'draw', reason: 'insufficientMaterial' }],
+	['4kb2/8/8/8/8/8/8/2B1K3 w - - 0 1', { type: 'draw', reason: 'insufficientMaterial' }],
+	['4k1b1/8/8/8/8/8/8/2B1K3 w - - 0 1', { type: 'ongoing', isCheck: false }],
+	['4k3/8/8/8/8/8/8/3NKN2 w - - 0 1', { type: 'ongoing', isCheck: false }],
+	['4k3/8/8/8/8/8/7P/4K3 w - - 0 1', { type: 'ongoing', isCheck: false }]
+];
+
+function playMoves(board: BoardInfo, moves: string[]): BoardInfo {
+	for (const uci of moves) {
+		const from = Position.fromStr(uci.slice(0, 2) as PositionStr);
+		const to = Position.fromStr(uci.slice(2, 4) as PositionStr);
+		const [move, moveError] = calculateMove(board, from, to);
+		if (!move) throw new Error(`Illegal move ${uci}: ${moveError.type}`);
+		board = applyMove(board, move);
+	}
+	return board;
+}
+
+describe('game status', () => {
+	it('detects mate, stalemate and draws', () => {
+		for (const [fen, status] of STATUS_CASES) {
+			expect(getGameStatus(parseFen(fen)), fen).toEqual(status);
+		}
+	});
+
+	it('detects threefold repetition from the move history', () => {
+		let board = parseFen(INITIAL_FEN);
+		board = playMoves(board, KNIGHT_SHUFFLE);
+		expect(getGameStatus(board)).toEqual({ type: 'ongoing', isCheck: false });
+
+		board = playMoves(board, KNIGHT_SHUFFLE);
+		expect(getGameStatus(board)).toEqual({ type: 'draw', reason: 'threefoldRepetition' });
+	});
+
+	it('does not count repetitions across a pawn move or a castling right change', () => {
+		let board = playMoves(parseFen(INITIAL_FEN), [...KNIGHT_SHUFFLE, 'e2e4']);
+		board = playMoves(board, ['e7e5', 'g1f3', 'b8c6', 'f3g1', 'c6b8', 'g1f3', 'b8c6', 'f3g1']);
+		expect(getGameStatus(board)).toEqual({ type: 'ongoing', isCheck: false });
+
+		board = parseFen('r3k3/8/8/8/8/8/8/4K2R w Kq - 0 1');
+		board = playMoves(board, ['h1h2', 'a8a7', 'h2h1', 'a7a8', 'h1h2', 'a8a7', 'h2h1', 'a7a8']);
+		// NOTE: The first position still had both castling rights, so it only occurred twice.
+		expect(getGameStatus(board)).toEqual({ type: 'ongoing', isCheck: false });
+		board = playMoves(board, ['h1h2', 'a8a7', 'h2h1', 'a7a8']);
+		expect(getGameStatus(board)).toEqual({ type: 'draw', reason: 'threefoldRepetition' });
+	});
+
+	it('ignores en passant targets that cannot be captured', () => {
+		let board = playMoves(parseFen('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1'), ['e2e4']);
+		board = playMoves(board, ['e8d8', 'e1d1', 'd8e8', 'd1e1', 'e8d8', 'e1d1', 'd8e8', 'd1e1']);
+
+		expect(getGameStatus(board)).toEqual({ type: 'draw', reason: 'threefoldRepetition' });
+	});
+
+	it('formats the status for the page', () => {
+		expect(formatGameStatus({ type: 'checkmate', winner: 'white' })).toBe('Checkmate. White wins.');
+		expect(formatGameStatus({ type: 'draw', reason: 'stalemate' })).toBe('Draw by stalemate.');
+	});
+
+	describe('int8', () => {
+		runBoardStatusTests(new BoardInt8(), moveToUci);
+	});
+	describe('0x88', () => {
+		runBoardStatusTests(new Board0x88(), moveToLongAlgebraic);
+	});
+});
+
+function runBoardStatusTests<TBuf, TMove>(
+	board: AbstractBoard<TBuf, TMove>,
+	toUci: (move: TMove) => string
+) {
+	function play(moves: string[]): void {
+		const buffer = board.allocateMoveBuffer();
+		for (const uci of moves) {
+			const count = board.generateLegalMoves(buffer);
+			let found = false;
+			for (let i = 0; i < count && !found; i++) {
+				const move = board.getMoveByIndex(buffer, i);
+				if (toUci(move) !== uci) continue;
+				board.makeMove(move);
+				found = true;
+			}
+			if (!found) throw new Error(`Illegal move ${uci}`);
+		}
+	}
+
+	it('agrees with the BoardInfo status', () => {
+		for (const [fen, status] of STATUS_CASES) {
+			board.loadFen(fen);
+			expect(getBoardGameStatus(board), fen).toEqual(status);
+		}
+	});
+
+	it('counts repetitions of the moves made on the board', () => {
+		board.loadFen(INITIAL_FEN);
+		play(KNIGHT_SHUFFLE);
+		expect(board.repetitionCount()).toBe(2);
+		play(KNIGHT_SHUFFLE);
+		expect(board.repetitionCount()).toBe(3);
+		expect(getBoardGameStatus(board)).toEqual({ type: 'draw', reason: 'threefoldRepetition' });
+
+		play(['e2e4']);
+		expect(board.repetitionCount()).toBe(1);
+	});
+}
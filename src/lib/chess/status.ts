@@ -0,0 +1,156 @@
+import {
+	BOARD_FILES,
+	BOARD_RANKS,
+	PlayerColor,
+	Position,
+	type AbstractBoard,
+	type BoardInfo
+} from '$lib/chess/board';
+import { boardToFen, parseFen } from '$lib/chess/fen';
+import { hasLegalMoves, isInCheck } from '$lib/chess/moves';
+import { PieceId } from '$lib/chess/piece';
+
+export const FIFTY_MOVE_RULE_PLIES = 100;
+
+export type DrawReason =
+	| 'stalemate'
+	| 'fiftyMoveRule'
+	| 'threefoldRepetition'
+	| 'insufficientMaterial';
+
+export type GameStatus =
+	| { type: 'ongoing'; isCheck: boolean }
+	| { type: 'checkmate'; winner: PlayerColor }
+	| { type: 'draw'; reason: DrawReason };
+
+interface StatusFacts {
+	turnColor: PlayerColor;
+	hasLegalMoves: boolean;
+	isCheck: boolean;
+	isFiftyMoveDraw: boolean;
+	repetitionCount: number;
+	hasInsufficientMaterial: boolean;
+}
+
+export function getGameStatus(board: BoardInfo): GameStatus {
+	return resolveGameStatus({
+		turnColor: board.turnColor,
+		hasLegalMoves: hasLegalMoves(board),
+		isCheck: isInCheck(board),
+		isFiftyMoveDraw: board.halfMoveClock >= FIFTY_MOVE_RULE_PLIES,
+		repetitionCount: countRepetitions(board),
+		hasInsufficientMaterial: hasInsufficientMaterial(board)
+	});
+}
+
+/** Same as getGameStatus, for the engine boards. Repetitions count only the moves made on `board`. */
+export function getBoardGameStatus<TMoveBuffer, TMove>(
+	board: AbstractBoard<TMoveBuffer, TMove>
+): GameStatus {
+	return resolveGameStatus({
+		turnColor: board.isWhiteToMove() ? PlayerColor.WHITE : PlayerColor.BLACK,
+		hasLegalMoves: board.generateLegalMoves(board.allocateMoveBuffer()) > 0,
+		isCheck: board.isInCheck(),
+		isFiftyMoveDraw: board.isFiftyMoveDraw(),
+		repetitionCount: board.repetitionCount(),
+		hasInsufficientMaterial: board.hasInsufficientMaterial()
+	});
+}
+
+export function formatGameStatus(status: GameStatus): string {
+	switch (status.type) {
+		case 'ongoing':
+			return status.isCheck ? 'Check.' : 'Game in progress.';
+		case 'checkmate':
+			return `Checkmate. ${status.winner === PlayerColor.WHITE ? 'White' : 'Black'} wins.`;
+		case 'draw':
+			switch (status.reason) {
+				case 'stalemate':
+					return 'Draw by stalemate.';
+				case 'fiftyMoveRule':
+					return 'Draw by the fifty-move rule.';
+				case 'threefoldRepetition':
+					return 'Draw by threefold repetition.';
+				case 'insufficientMaterial':
+					return 'Draw by insufficient material.';
+			}
+	}
+}
+
+function resolveGameStatus(facts: StatusFacts): GameStatus {
+	// NOTE: Mate and stalemate come first: a mate on the move that completes the
+	//       fifty moves or the third repetition still ends the game as a mate.
+	if (!facts.hasLegalMoves) {
+		if (!facts.isCheck) return { type: 'draw', reason: 'stalemate' };
+		const winner = facts.turnColor === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+		return { type: 'checkmate', winner };
+	}
+	if (facts.hasInsufficientMaterial) return { type: 'draw', reason: 'insufficientMaterial' };
+	if (facts.repetitionCount >= 3) return { type: 'draw', reason: 'threefoldRepetition' };
+	if (facts.isFiftyMoveDraw) return { type: 'draw', reason: 'fiftyMoveRule' };
+	return { type: 'ongoing', isCheck: facts.isCheck };
+}
+
+function hasInsufficientMaterial(board: BoardInfo): boolean {
+	let minorPieces = 0;
+	let knights = 0;
+	const bishopSquareColors = new Set<number>();
+
+	for (const [position, piece] of board.pieces) {
+		if (PieceId.isPawn(piece) || PieceId.isRook(piece) || PieceId.isQueen(piece)) return false;
+		if (PieceId.isKnight(piece)) {
+			minorPieces++;
+			knights++;
+		} else if (PieceId.isBishop(piece)) {
+			const pos = Position.fromStr(position);
+			minorPieces++;
+			bishopSquareColors.add((pos.fileIndex() + pos.rankIndex()) % 2);
+		}
+	}
+
+	// NOTE: A lone minor piece cannot mate, neither can any number of bishops
+	//       that all stand on the same square color.
+	return minorPieces <= 1 || (knights === 0 && bishopSquareColors.size <= 1);
+}
+
+/** How many times the current position has occurred, the current one included. */
+function countRepetitions(board: BoardInfo): number {
+	const key = getRepetitionKey(board);
+	const plies = Math.min(board.halfMoveClock, board.moves.length);
+	let count = 1;
+
+	// NOTE: Every move keeps the FEN of the position it was played from, and only
+	//       positions with the same side to move (every other ply) can repeat.
+	for (let ply = 2; ply <= plies; ply += 2) {
+		const move = board.moves[board.moves.length - ply];
+		// @HACK: Move.fen comes from boardToFen, which writes the turn as
+		//        `white`/`black` and parseFen does not read it back (see TODO.md).
+		const previous = parseFen(move.fen);
+		previous.turnColor = move.turn;
+		if (getRepetitionKey(previous) === key) count++;
+	}
+	return count;
+}
+
+function getRepetitionKey(board: BoardInfo): string {
+	const [placement, , castling] = boardToFen(board).split(' ');
+	const enPassant = canCaptureEnPassant(board) ? board.enPassantTarget : '-';
+	return `${placement} ${board.turnColor} ${castling} ${enPassant}`;
+}
+
+// NOTE: Positions only differ by the en passant target when the capture is
+//       actually possible, otherwise every double push would break a repetition.
+function canCaptureEnPassant(board: BoardInfo): boolean {
+	const target = board.enPassantTarget;
+	if (!target) return false;
+
+	const isWhite = board.turnColor === PlayerColor.WHITE;
+	const pawn = isWhite ? PieceId.WHITE_PAWN : PieceId.BLACK_PAWN;
+	const pawnRank = BOARD_RANKS[target.rankIndex() + (isWhite ? -1 : 1)];
+	if (!pawnRank) return false;
+
+	return [target.fileIndex() - 1, target.fileIndex() + 1].some((fileIndex) => {
+		const file = BOARD_FILES[fileIndex];
+		return file !== undefined && board.pieces.get(`${file}${pawnRank}`) === pawn;
+	});
+}
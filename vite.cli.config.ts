@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line tools into Node scripts: the UCI adapter (dist/uci.js)
+// that chess GUIs and tournament tools can launch as an engine, the engine
+// benchmark runner (dist/benchmark.js) and the EPD test suite runner (dist/epd.js).
+export default defineConfig({
+	resolve: {
+		alias: { $lib: new URL('./src/lib', import.meta.url).pathname }
+	},
+	build: {
+		ssr: true,
+		outDir: 'dist',
+		target: 'node20',
+		rollupOptions: {
+			input: {
+				uci: 'src/cli/uci.ts',
+				benchmark: 'src/cli/benchmark.ts',
+				epd: 'src/cli/epd.ts'
+			},
+			output: { entryFileNames: '[name].js' }
+		}
+	}
+});